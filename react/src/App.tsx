@@ -9,6 +9,12 @@ import { HomePage } from "@/pages/HomePage";
 import { AuthPage } from "@/pages/AuthPage";
 import { DashboardPage } from "@/pages/DashboardPage";
 import { SettingsPage } from "@/pages/SettingsPage";
+import { ExplorerPage } from "@/pages/ExplorerPage";
+import { PlaygroundPage } from "@/pages/PlaygroundPage";
+import { MonitoringPage } from "@/pages/MonitoringPage";
+import { JetStreamPage } from "@/pages/JetStreamPage";
+import { KvPage } from "@/pages/KvPage";
+import { useAuth } from "@/hooks/useAuth";
 
 /**
  * Layout wrapper with navigation
@@ -24,10 +30,13 @@ function Layout({ children }: { children: React.ReactNode }) {
 
 /**
  * Protected layout with EventProvider for event-driven state
+ * Keyed by credential so switching accounts starts from a fresh state.
  */
 function ProtectedLayout({ children }: { children: React.ReactNode }) {
+  const { credential } = useAuth();
+
   return (
-    <EventProvider>
+    <EventProvider key={credential?.id}>
       <Layout>{children}</Layout>
     </EventProvider>
   );
@@ -62,6 +71,56 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/explorer"
+                element={
+                  <ProtectedRoute>
+                    <ProtectedLayout>
+                      <ExplorerPage />
+                    </ProtectedLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/playground"
+                element={
+                  <ProtectedRoute>
+                    <ProtectedLayout>
+                      <PlaygroundPage />
+                    </ProtectedLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/monitoring"
+                element={
+                  <ProtectedRoute>
+                    <ProtectedLayout>
+                      <MonitoringPage />
+                    </ProtectedLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/jetstream"
+                element={
+                  <ProtectedRoute>
+                    <ProtectedLayout>
+                      <JetStreamPage />
+                    </ProtectedLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/kv"
+                element={
+                  <ProtectedRoute>
+                    <ProtectedLayout>
+                      <KvPage />
+                    </ProtectedLayout>
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/settings"
                 element={
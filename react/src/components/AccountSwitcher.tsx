@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import type { StoredCredential } from "@/types";
+
+interface AccountSwitcherProps {
+  /** Called after switching or adding an account (e.g. to close a menu) */
+  onDone?: () => void;
+  className?: string;
+}
+
+/**
+ * Account switcher listing the credentials in the vault
+ *
+ * Switching disconnects, drops the current account's event-driven state and
+ * reconnects with the chosen credential. The default account is the one
+ * AutoConnect uses on the next visit.
+ */
+export function AccountSwitcher({ onDone, className = "" }: AccountSwitcherProps) {
+  const navigate = useNavigate();
+  const { credential, listStoredCredentials, setDefaultCredential, switchAccount, disconnect } =
+    useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [accounts, setAccounts] = useState<StoredCredential[]>([]);
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      setAccounts(await listStoredCredentials());
+    } catch {
+      setAccounts([]);
+    }
+  }, [listStoredCredentials]);
+
+  // Load the label of the current account
+  useEffect(() => {
+    let cancelled = false;
+    listStoredCredentials()
+      .then((stored) => {
+        if (!cancelled) setAccounts(stored);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [listStoredCredentials, credential?.id]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const toggle = () => {
+    if (!isOpen) {
+      setError(null);
+      loadAccounts();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleSwitch = async (id: string) => {
+    if (id === credential?.id) {
+      setIsOpen(false);
+      return;
+    }
+
+    setSwitchingTo(id);
+    setError(null);
+    const success = await switchAccount(id);
+    setSwitchingTo(null);
+
+    if (success) {
+      setIsOpen(false);
+      onDone?.();
+      navigate("/dashboard");
+    } else {
+      setError("Could not connect with this account");
+    }
+  };
+
+  const handleMakeDefault = async (id: string) => {
+    try {
+      await setDefaultCredential(id);
+      await loadAccounts();
+    } catch {
+      setError("Could not update the default account");
+    }
+  };
+
+  const handleAddAccount = async () => {
+    setIsOpen(false);
+    // Keep the stored credentials - the new one is added to the vault
+    await disconnect(false);
+    onDone?.();
+    navigate("/auth");
+  };
+
+  const current = accounts.find((account) => account.id === credential?.id);
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <button
+        onClick={toggle}
+        className="flex max-w-[12rem] items-center rounded-md px-3 py-2 text-sm font-medium text-muted-foreground hover:bg-muted hover:text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title="Switch account"
+      >
+        <span className="truncate">{current?.label ?? "Account"}</span>
+        <svg
+          className="ml-1 h-4 w-4 flex-shrink-0"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 z-50 mt-2 w-72 rounded-md border border-border bg-card shadow-lg"
+        >
+          <ul className="max-h-80 overflow-y-auto py-1">
+            {accounts.length === 0 && (
+              <li className="px-4 py-2 text-sm text-muted-foreground">No stored accounts</li>
+            )}
+            {accounts.map((account) => {
+              const isCurrent = account.id === credential?.id;
+              return (
+                <li key={account.id} className="flex items-center px-2">
+                  <button
+                    role="menuitem"
+                    onClick={() => handleSwitch(account.id)}
+                    disabled={switchingTo !== null}
+                    className={`min-w-0 flex-1 rounded-md px-2 py-2 text-left hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50 ${
+                      isCurrent ? "text-foreground" : "text-muted-foreground"
+                    }`}
+                  >
+                    <span className="block truncate text-sm font-medium">
+                      {account.label}
+                      {isCurrent && <span className="ml-1 text-xs text-primary">(current)</span>}
+                    </span>
+                    <span className="block truncate text-xs text-muted-foreground">
+                      {switchingTo === account.id
+                        ? "Connecting..."
+                        : account.serverUrls.join(", ") || "No server"}
+                    </span>
+                  </button>
+                  {account.isDefault ? (
+                    <span className="ml-2 rounded bg-primary/10 px-2 py-0.5 text-xs text-primary">
+                      Default
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => handleMakeDefault(account.id)}
+                      className="ml-2 rounded px-2 py-0.5 text-xs text-muted-foreground hover:bg-muted hover:text-foreground"
+                      title="Connect to this account automatically"
+                    >
+                      Make default
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {error && (
+            <p className="border-t border-border px-4 py-2 text-xs text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          <div className="border-t border-border p-1">
+            <button
+              role="menuitem"
+              onClick={handleAddAccount}
+              className="w-full rounded-md px-3 py-2 text-left text-sm text-muted-foreground hover:bg-muted hover:text-foreground"
+            >
+              Add account...
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { AccountSwitcher as default };
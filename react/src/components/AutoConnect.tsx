@@ -1,16 +1,26 @@
-import { useEffect, useRef, type ReactNode } from "react";
+import { useEffect, useRef, useState, type ReactNode } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { useVault } from "@/hooks/useVault";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { VaultUnlock } from "@/components/VaultUnlock";
 
 interface AutoConnectProps {
   children: ReactNode;
 }
 
+/**
+ * Activity that postpones the vault auto-lock
+ */
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const;
+
 /**
  * Component that attempts to auto-connect using stored credentials on app load
  *
  * Uses a ref-based approach to handle React 18 Strict Mode's double-mount behavior.
  * The ref is never reset, so Strict Mode's second mount skips the effect entirely.
+ *
+ * A passphrase-protected vault is unlocked first. After the configured idle time
+ * the vault locks again, which ends the session until the passphrase is entered.
  */
 export function AutoConnect({ children }: AutoConnectProps) {
   const {
@@ -18,10 +28,22 @@ export function AutoConnect({ children }: AutoConnectProps) {
     hasStoredCredentials,
     authCheckComplete,
     setAuthCheckComplete,
+    isAuthenticated,
+    disconnect,
   } = useAuth();
+  const {
+    status: vaultStatus,
+    hasAuthenticators,
+    getVaultStatus,
+    unlock,
+    unlockWithAuthenticator,
+    lock,
+  } = useVault();
+  const [skipUnlock, setSkipUnlock] = useState(false);
 
   // Track if we've run - never reset this ref (survives Strict Mode)
   const hasRun = useRef(false);
+  const wasLocked = useRef<boolean | null>(null);
 
   useEffect(() => {
     if (hasRun.current) return;
@@ -33,6 +55,11 @@ export function AutoConnect({ children }: AutoConnectProps) {
         console.debug("[AutoConnect] Has stored credentials:", hasStored);
 
         if (hasStored) {
+          if ((await getVaultStatus()).locked) {
+            console.debug("[AutoConnect] Vault is locked - waiting for the passphrase");
+            return;
+          }
+
           console.debug("[AutoConnect] Attempting to connect with stored credentials");
           const success = await authenticateWithStoredCredentials();
           console.debug("[AutoConnect] Connection result:", success);
@@ -46,7 +73,66 @@ export function AutoConnect({ children }: AutoConnectProps) {
     }
 
     checkAndConnect();
-  }, [authenticateWithStoredCredentials, hasStoredCredentials, setAuthCheckComplete]);
+  }, [
+    authenticateWithStoredCredentials,
+    hasStoredCredentials,
+    getVaultStatus,
+    setAuthCheckComplete,
+  ]);
+
+  // End the session when an unlocked vault locks (idle timeout or "Lock now")
+  useEffect(() => {
+    const locked = vaultStatus?.locked ?? null;
+    if (wasLocked.current === false && locked === true && isAuthenticated) {
+      console.debug("[AutoConnect] Vault locked - disconnecting");
+      disconnect(false);
+    }
+    wasLocked.current = locked;
+  }, [vaultStatus?.locked, isAuthenticated, disconnect]);
+
+  // Lock the vault after the configured time without user activity
+  const autoLockMinutes =
+    vaultStatus?.mode === "passphrase" && !vaultStatus.locked ? vaultStatus.autoLockMinutes : 0;
+
+  useEffect(() => {
+    if (autoLockMinutes <= 0) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, autoLockMinutes * 60_000);
+    };
+
+    for (const type of ACTIVITY_EVENTS) {
+      window.addEventListener(type, restart, { passive: true });
+    }
+    restart();
+
+    return () => {
+      clearTimeout(timer);
+      for (const type of ACTIVITY_EVENTS) {
+        window.removeEventListener(type, restart);
+      }
+    };
+  }, [autoLockMinutes, lock]);
+
+  const connectAfterUnlock = async (unlocked: boolean): Promise<boolean> => {
+    if (!unlocked) {
+      return false;
+    }
+
+    if (await hasStoredCredentials()) {
+      console.debug("[AutoConnect] Vault unlocked - connecting with stored credentials");
+      const success = await authenticateWithStoredCredentials();
+      console.debug("[AutoConnect] Connection result:", success);
+    }
+    return true;
+  };
+
+  const handleUnlock = async (passphrase: string) => connectAfterUnlock(await unlock(passphrase));
+
+  const handleUnlockWithAuthenticator = async () =>
+    connectAfterUnlock(await unlockWithAuthenticator());
 
   // Show loading state while checking credentials
   if (!authCheckComplete) {
@@ -57,6 +143,16 @@ export function AutoConnect({ children }: AutoConnectProps) {
     );
   }
 
+  if (vaultStatus?.locked && !isAuthenticated && !skipUnlock) {
+    return (
+      <VaultUnlock
+        onUnlock={handleUnlock}
+        onUnlockWithAuthenticator={hasAuthenticators ? handleUnlockWithAuthenticator : undefined}
+        onSkip={() => setSkipUnlock(true)}
+      />
+    );
+  }
+
   return <>{children}</>;
 }
 
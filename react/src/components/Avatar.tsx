@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { useAvatarUrl } from "@/hooks/useAvatarUrl";
+import type { User } from "@/types/events";
+
+interface AvatarProps {
+  user: Pick<User, "name" | "avatarUrl" | "avatarObject">;
+  /** Optional size class */
+  size?: "sm" | "md" | "lg";
+  /** Image to show instead of the user's avatar, e.g. a preview */
+  src?: string | null;
+  /** Optional additional className */
+  className?: string;
+}
+
+function initials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  const letters = parts.length > 1 ? parts[0][0] + parts[parts.length - 1][0] : parts[0]?.[0];
+  return (letters ?? "?").toUpperCase();
+}
+
+/**
+ * Round avatar of a user; shows the initials when there is no image
+ */
+export function Avatar({ user, size = "md", src, className = "" }: AvatarProps) {
+  const avatarUrl = useAvatarUrl(user);
+  const image = src ?? avatarUrl;
+  const [failed, setFailed] = useState<string | null>(null);
+
+  const sizeClasses = {
+    sm: "h-8 w-8 text-xs",
+    md: "h-12 w-12 text-sm",
+    lg: "h-20 w-20 text-xl",
+  };
+
+  if (image && failed !== image) {
+    return (
+      <img
+        src={image}
+        alt={user.name}
+        onError={() => setFailed(image)}
+        className={`shrink-0 rounded-full object-cover ${sizeClasses[size]} ${className}`}
+      />
+    );
+  }
+
+  return (
+    <span
+      aria-label={user.name}
+      className={`inline-flex shrink-0 items-center justify-center rounded-full bg-primary/10 font-medium text-primary ${sizeClasses[size]} ${className}`}
+    >
+      {initials(user.name)}
+    </span>
+  );
+}
@@ -0,0 +1,41 @@
+import type { ReactNode } from "react";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { PermissionRequirement } from "@/types";
+
+interface CanProps extends PermissionRequirement {
+  /**
+   * Rendered when allowed. A function receives whether the user is allowed,
+   * e.g. to render a disabled button instead of hiding it.
+   */
+  children: ReactNode | ((allowed: boolean) => ReactNode);
+  /** Rendered when not allowed (default: nothing) */
+  fallback?: ReactNode;
+}
+
+/**
+ * Renders its children only if the credential's JWT allows the given
+ * subjects and commands.
+ *
+ * @example
+ * ```tsx
+ * <Can publish={commandSubject(getNamespace(), "user.updateProfile")}>
+ *   <ProfileEditor />
+ * </Can>
+ *
+ * <Can command="notification.dismiss">
+ *   {(allowed) => <button disabled={!allowed}>Dismiss</button>}
+ * </Can>
+ * ```
+ */
+export function Can({ children, fallback = null, ...requirement }: CanProps) {
+  const { check } = usePermissions();
+  const allowed = check(requirement);
+
+  if (typeof children === "function") {
+    return <>{children(allowed)}</>;
+  }
+
+  return <>{allowed ? children : fallback}</>;
+}
+
+export { Can as default };
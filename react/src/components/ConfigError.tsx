@@ -0,0 +1,42 @@
+import { RUNTIME_CONFIG_URL } from "@/config/runtime";
+
+interface ConfigErrorProps {
+  /** Why the configuration file could not be loaded or applied */
+  errors: string[];
+}
+
+/**
+ * Shown instead of the app when the runtime configuration file is invalid or
+ * cannot be loaded, so a misconfigured deployment does not connect with the
+ * wrong settings.
+ */
+export function ConfigError({ errors }: ConfigErrorProps) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <div
+        className="w-full max-w-lg rounded-lg border border-destructive/20 bg-destructive/10 p-6"
+        role="alert"
+      >
+        <h1 className="text-lg font-medium text-destructive">Configuration error</h1>
+        <p className="mt-2 text-sm text-destructive/80">
+          The app could not start because of a problem with{" "}
+          <code className="rounded bg-muted px-1 py-0.5 text-foreground">{RUNTIME_CONFIG_URL}</code>
+          :
+        </p>
+        <ul className="mt-3 list-disc space-y-1 pl-5 text-sm text-destructive">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+        <button
+          onClick={() => window.location.reload()}
+          className="mt-4 rounded-md bg-destructive px-4 py-2 text-sm font-medium text-destructive-foreground hover:bg-destructive/90"
+        >
+          Reload
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export { ConfigError as default };
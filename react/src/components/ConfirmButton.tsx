@@ -0,0 +1,53 @@
+import { useState } from "react";
+
+interface ConfirmButtonProps {
+  label: string;
+  /** Label of the second button that performs the action */
+  confirmLabel: string;
+  onConfirm: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Button for destructive actions that asks for a second click
+ */
+export function ConfirmButton({ label, confirmLabel, onConfirm, disabled }: ConfirmButtonProps) {
+  const [armed, setArmed] = useState(false);
+
+  if (!armed) {
+    return (
+      <button
+        type="button"
+        onClick={() => setArmed(true)}
+        disabled={disabled}
+        className="rounded-md border border-destructive/40 px-4 py-2 text-sm font-medium text-destructive hover:bg-destructive/10 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {label}
+      </button>
+    );
+  }
+
+  return (
+    <span className="inline-flex gap-2">
+      <button
+        type="button"
+        onClick={() => {
+          setArmed(false);
+          onConfirm();
+        }}
+        className="rounded-md bg-destructive px-4 py-2 text-sm font-medium text-destructive-foreground hover:bg-destructive/90"
+      >
+        {confirmLabel}
+      </button>
+      <button
+        type="button"
+        onClick={() => setArmed(false)}
+        className="rounded-md px-3 py-2 text-sm font-medium text-muted-foreground hover:text-foreground"
+      >
+        Cancel
+      </button>
+    </span>
+  );
+}
+
+export { ConfirmButton as default };
@@ -3,7 +3,7 @@ import type { ConnectionStatusProps } from "@/types";
 /**
  * Connection status indicator component
  */
-export function ConnectionStatus({ status, className = "" }: ConnectionStatusProps) {
+export function ConnectionStatus({ status, server, className = "" }: ConnectionStatusProps) {
   const statusConfig = {
     disconnected: {
       color: "bg-gray-400",
@@ -35,7 +35,10 @@ export function ConnectionStatus({ status, className = "" }: ConnectionStatusPro
   const config = statusConfig[status];
 
   return (
-    <div className={`flex items-center space-x-2 ${className}`}>
+    <div
+      className={`flex items-center space-x-2 ${className}`}
+      title={server ? `Connected via ${server}` : undefined}
+    >
       <span className="relative flex h-3 w-3">
         {config.pulse && (
           <span
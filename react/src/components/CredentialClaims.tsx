@@ -0,0 +1,155 @@
+import { explainPermissionDenied } from "@/services/credentials/jwt";
+import type { ConnectionError, NatsSubjectPermission, NatsUserClaims } from "@/types";
+
+interface CredentialClaimsProps {
+  /** Decoded user JWT claims (absent for username/password users) */
+  claims?: NatsUserClaims;
+  /** Last permission error of the connection, explained against the claims */
+  permissionError?: ConnectionError | null;
+}
+
+/**
+ * Claims of the user JWT: identity, validity, permissions and limits
+ */
+export function CredentialClaims({ claims, permissionError }: CredentialClaimsProps) {
+  return (
+    <div className="space-y-3">
+      {claims && (
+        <>
+          {claims.name && <ClaimRow label="Name" value={claims.name} />}
+          <ClaimRow label="Account" value={<Key value={claims.issuerAccount ?? claims.issuer} />} />
+          {claims.issuerAccount && (
+            <ClaimRow label="Signing Key" value={<Key value={claims.issuer} />} />
+          )}
+          <ClaimRow label="Valid From" value={formatTime(claims.notBefore, "Immediately")} />
+          <ClaimRow
+            label="Expires"
+            value={
+              <span className={isExpired(claims) ? "text-destructive" : undefined}>
+                {formatTime(claims.expiresAt, "Never")}
+              </span>
+            }
+          />
+          {claims.bearerToken && (
+            <ClaimRow
+              label="Bearer Token"
+              value={<span className="text-warning">Yes - the JWT alone grants access</span>}
+            />
+          )}
+
+          <PermissionList label="Publish" permission={claims.pub} />
+          <PermissionList label="Subscribe" permission={claims.sub} />
+          {claims.resp && (
+            <ClaimRow
+              label="Responses"
+              value={`${claims.resp.max < 0 ? "Unlimited" : claims.resp.max} per request${
+                claims.resp.ttl > 0 ? ` within ${claims.resp.ttl / 1000}s` : ""
+              }`}
+            />
+          )}
+
+          <ClaimRow
+            label="Limits"
+            value={`${formatLimit(claims.limits.subs)} subs, ${formatLimit(
+              claims.limits.data,
+              true
+            )} data, ${formatLimit(claims.limits.payload, true)} payload`}
+          />
+          {claims.tags.length > 0 && (
+            <div className="flex items-start justify-between gap-4">
+              <span className="text-sm text-muted-foreground">Tags</span>
+              <span className="flex flex-wrap justify-end gap-1">
+                {claims.tags.map((tag) => (
+                  <span key={tag} className="rounded bg-muted px-2 py-0.5 text-xs text-foreground">
+                    {tag}
+                  </span>
+                ))}
+              </span>
+            </div>
+          )}
+        </>
+      )}
+
+      {permissionError?.permission && (
+        <div className="rounded-md border border-destructive/20 bg-destructive/10 p-3" role="alert">
+          <h3 className="text-sm font-medium text-destructive">Permission Denied</h3>
+          <p className="mt-1 text-xs text-destructive/80">
+            {explainPermissionDenied(permissionError.permission, claims)}
+          </p>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {new Date(permissionError.timestamp).toLocaleString()}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ClaimRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <span className="text-sm text-muted-foreground">{label}</span>
+      <span className="text-right text-sm font-medium text-foreground">{value}</span>
+    </div>
+  );
+}
+
+function Key({ value }: { value: string }) {
+  return (
+    <code className="rounded bg-muted px-2 py-1 text-xs" title={value}>
+      {value.slice(0, 12)}...
+    </code>
+  );
+}
+
+function PermissionList({
+  label,
+  permission,
+}: {
+  label: string;
+  permission: NatsSubjectPermission;
+}) {
+  const unrestricted = permission.allow.length === 0 && permission.deny.length === 0;
+
+  return (
+    <div>
+      <span className="text-sm text-muted-foreground">{label}</span>
+      {unrestricted ? (
+        <p className="mt-1 text-xs text-foreground">All subjects</p>
+      ) : (
+        <ul className="mt-1 space-y-1">
+          {permission.allow.map((subject) => (
+            <li key={`allow-${subject}`} className="text-xs">
+              <span className="mr-2 text-success">allow</span>
+              <code className="rounded bg-muted px-1.5 py-0.5">{subject}</code>
+            </li>
+          ))}
+          {permission.deny.map((subject) => (
+            <li key={`deny-${subject}`} className="text-xs">
+              <span className="mr-2 text-destructive">deny</span>
+              <code className="rounded bg-muted px-1.5 py-0.5">{subject}</code>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function isExpired(claims: NatsUserClaims): boolean {
+  return claims.expiresAt !== undefined && claims.expiresAt <= Date.now();
+}
+
+function formatTime(time: number | undefined, fallback: string): string {
+  return time ? new Date(time).toLocaleString() : fallback;
+}
+
+function formatLimit(value: number, bytes = false): string {
+  if (value < 0) return "unlimited";
+  if (!bytes) return value.toString();
+  if (value >= 1024 * 1024) return `${(value / (1024 * 1024)).toFixed(1)} MB`;
+  if (value >= 1024) return `${(value / 1024).toFixed(1)} KB`;
+  return `${value} B`;
+}
+
+export { CredentialClaims as default };
@@ -0,0 +1,164 @@
+/**
+ * Credential Expiry Indicator Component
+ *
+ * Warns before the user JWT expires and offers to swap in a renewed
+ * credential file. The connection reconnects in place, so the event-driven
+ * state is kept. A user JWT with a remote signer is renewed by signing in
+ * again.
+ */
+
+import { useEffect, useRef, useState, type ChangeEvent } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useCredentialExpiry } from "@/hooks/useCredentialExpiry";
+
+interface CredentialExpiryIndicatorProps {
+  /** Display mode: 'banner' shows full-width bar, 'badge' shows compact indicator */
+  mode?: "banner" | "badge";
+  /** Optional additional className */
+  className?: string;
+}
+
+/**
+ * Displays credential expiry warnings.
+ *
+ * @example
+ * ```tsx
+ * // Full-width banner with a renew action
+ * <CredentialExpiryIndicator mode="banner" />
+ *
+ * // Compact badge
+ * <CredentialExpiryIndicator mode="badge" />
+ * ```
+ */
+export function CredentialExpiryIndicator({
+  mode = "banner",
+  className = "",
+}: CredentialExpiryIndicatorProps) {
+  const expiry = useCredentialExpiry();
+  const { credential, renewCredential } = useAuth();
+  const [timeLeft, setTimeLeft] = useState("");
+  const [dismissedWarning, setDismissedWarning] = useState<string | null>(null);
+  const [isRenewing, setIsRenewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Update the countdown every minute (computed in an effect to avoid Date.now() during render)
+  useEffect(() => {
+    if (expiry.expiresAt === null) return;
+    const expiresAt = expiry.expiresAt;
+
+    const updateTimeLeft = () => setTimeLeft(formatTimeLeft(expiresAt - Date.now()));
+    updateTimeLeft();
+    const interval = setInterval(updateTimeLeft, 60000);
+    return () => clearInterval(interval);
+  }, [expiry.expiresAt]);
+
+  if (expiry.stage === "valid") {
+    return null;
+  }
+
+  const isExpired = expiry.stage === "expired";
+  const canRenew = credential?.authType === "credsfile";
+
+  if (mode === "badge") {
+    return (
+      <span
+        className={`inline-flex items-center gap-1.5 rounded-full px-2.5 py-0.5 text-xs font-medium ${
+          isExpired ? "bg-destructive/10 text-destructive" : "bg-warning/10 text-warning"
+        } ${className}`}
+        title={isExpired ? "Credential expired" : `Credential expires in ${timeLeft}`}
+      >
+        <ClockIcon className="h-3 w-3" />
+        {isExpired ? "Expired" : timeLeft}
+      </span>
+    );
+  }
+
+  // A later warning re-opens a dismissed banner; expiry cannot be dismissed
+  const warningKey = `${expiry.credentialId}:${expiry.warningLeadTime}`;
+  if (!isExpired && dismissedWarning === warningKey) {
+    return null;
+  }
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset input to allow re-selecting same file
+    e.target.value = "";
+    if (!file) return;
+
+    setIsRenewing(true);
+    setError(null);
+    const result = await renewCredential(file);
+    setIsRenewing(false);
+
+    if (!result.success) {
+      setError(result.error.message);
+    }
+  };
+
+  return (
+    <div
+      className={`flex flex-wrap items-center justify-center gap-x-3 gap-y-1 px-4 py-2 text-sm ${
+        isExpired ? "bg-destructive/10 text-destructive" : "bg-warning/10 text-warning"
+      } ${className}`}
+      role="alert"
+    >
+      <ClockIcon className="h-4 w-4" />
+      <span>
+        {isExpired ? "Your credential has expired." : `Your credential expires in ${timeLeft}.`}{" "}
+        {canRenew
+          ? `Upload a renewed credential file to ${isExpired ? "reconnect" : "stay connected"}.`
+          : "Sign in again with a renewed user JWT."}
+      </span>
+      {canRenew && (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRenewing}
+          className="rounded-md bg-card px-3 py-1 text-xs font-medium text-foreground shadow-sm hover:bg-muted disabled:opacity-50"
+        >
+          {isRenewing ? "Renewing..." : "Renew"}
+        </button>
+      )}
+      {!isExpired && (
+        <button
+          onClick={() => setDismissedWarning(warningKey)}
+          className="text-xs underline opacity-80 hover:opacity-100"
+        >
+          Dismiss
+        </button>
+      )}
+      {error && <span className="w-full text-center text-xs">{error}</span>}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".creds"
+        onChange={handleFileChange}
+        className="hidden"
+        aria-label="Renewed credential file"
+      />
+    </div>
+  );
+}
+
+function formatTimeLeft(ms: number): string {
+  const minutes = Math.max(0, Math.ceil(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+function ClockIcon({ className = "" }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+      />
+    </svg>
+  );
+}
+
+export { CredentialExpiryIndicator as default };
@@ -0,0 +1,166 @@
+import { useState, useCallback, type FormEvent } from "react";
+import type { ConnectionError, JwtSignerCredential } from "@/types";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { getSignerUrl } from "@/config/auth";
+import { parseSignerJwt } from "@/services/credentials/parser";
+
+/**
+ * Props for JwtSignerLogin component
+ */
+export interface JwtSignerLoginProps {
+  /** Callback when credential is submitted */
+  onSubmit: (credential: JwtSignerCredential) => void;
+  /** Callback when error occurs */
+  onError: (error: ConnectionError) => void;
+  /** Whether the form is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * Login form for a user JWT whose nonce is signed by a remote signer
+ */
+export function JwtSignerLogin({ onSubmit, onError, disabled }: JwtSignerLoginProps) {
+  const [jwt, setJwt] = useState("");
+  const [configuredSignerUrl] = useState(getSignerUrl);
+  const [signerUrl, setSignerUrl] = useState(configuredSignerUrl ?? "");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = useCallback(
+    async (e: FormEvent<HTMLFormElement>) => {
+      e.preventDefault();
+
+      if (!jwt.trim()) {
+        setError("User JWT is required");
+        return;
+      }
+      const trimmedSignerUrl = signerUrl.trim();
+      if (!trimmedSignerUrl) {
+        setError(
+          configuredSignerUrl
+            ? "Signer URL is required"
+            : "No nonce signer is configured for this app. Enter the signer URL of your organization."
+        );
+        return;
+      }
+
+      const result = parseSignerJwt(jwt, trimmedSignerUrl);
+      if (!result.success) {
+        setError(result.error.userMessage);
+        onError(result.error);
+        return;
+      }
+
+      setError(null);
+      setIsSubmitting(true);
+
+      try {
+        onSubmit(result.credential);
+      } catch (err) {
+        const connectionError: ConnectionError = {
+          code: "UNKNOWN",
+          message: err instanceof Error ? err.message : "Unknown error",
+          userMessage: "An unexpected error occurred. Please try again.",
+          timestamp: Date.now(),
+          recoverable: true,
+        };
+        setError(connectionError.userMessage);
+        onError(connectionError);
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [jwt, signerUrl, configuredSignerUrl, onSubmit, onError]
+  );
+
+  const isFormDisabled = disabled || isSubmitting;
+
+  return (
+    <div className="w-full max-w-md">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="user-jwt" className="block text-sm font-medium text-foreground mb-1">
+            User JWT
+          </label>
+          <textarea
+            id="user-jwt"
+            value={jwt}
+            onChange={(e) => setJwt(e.target.value)}
+            disabled={isFormDisabled}
+            rows={4}
+            spellCheck={false}
+            className={`
+              w-full rounded-md border px-3 py-2 font-mono text-xs break-all
+              bg-card text-foreground placeholder-muted-foreground
+              focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background
+              ${isFormDisabled ? "cursor-not-allowed opacity-50" : "border-border"}
+              ${error && !jwt.trim() ? "border-destructive" : "border-border"}
+            `}
+            placeholder="eyJ0eXAiOiJKV1QiLCJhbGciOiJlZDI1NTE5LW5rZXkifQ..."
+          />
+        </div>
+
+        <div>
+          <label htmlFor="signer-url" className="block text-sm font-medium text-foreground mb-1">
+            Signer URL
+          </label>
+          <input
+            id="signer-url"
+            type="text"
+            value={signerUrl}
+            onChange={(e) => setSignerUrl(e.target.value)}
+            disabled={isFormDisabled}
+            className={`
+              w-full rounded-md border px-3 py-2
+              bg-card text-foreground placeholder-muted-foreground
+              focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background
+              ${isFormDisabled ? "cursor-not-allowed opacity-50" : "border-border"}
+              ${error && !signerUrl.trim() ? "border-destructive" : "border-border"}
+            `}
+            placeholder="https://signer.example.com/sign-nonce"
+          />
+          <p className="mt-1 text-xs text-muted-foreground">
+            Signs the server nonce with the key the JWT was issued for
+            {!configuredSignerUrl && "; none is configured for this app"}
+          </p>
+        </div>
+
+        <button
+          type="submit"
+          disabled={isFormDisabled}
+          className={`
+            w-full rounded-md px-4 py-2 font-medium
+            transition-colors duration-200
+            focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background
+            ${
+              isFormDisabled
+                ? "cursor-not-allowed bg-primary/50 text-primary-foreground/50"
+                : "bg-primary text-primary-foreground hover:bg-primary/90"
+            }
+          `}
+        >
+          {isSubmitting ? (
+            <span className="flex items-center justify-center">
+              <LoadingSpinner size="sm" className="mr-2" />
+              Connecting...
+            </span>
+          ) : (
+            "Connect"
+          )}
+        </button>
+      </form>
+
+      {error && (
+        <div
+          className="mt-3 rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20"
+          role="alert"
+          aria-live="polite"
+        >
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { JwtSignerLogin as default };
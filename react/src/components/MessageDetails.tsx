@@ -0,0 +1,97 @@
+import { useState } from "react";
+import type { ExplorerMessage } from "@/services/nats/explorer";
+import {
+  detectPayloadFormat,
+  formatBytes,
+  formatPayload,
+  type PayloadFormat,
+} from "@/utils/payload";
+
+interface MessageDetailsProps {
+  message: ExplorerMessage;
+  className?: string;
+}
+
+const FORMATS: Array<{ value: PayloadFormat; label: string }> = [
+  { value: "json", label: "JSON" },
+  { value: "text", label: "Text" },
+  { value: "hex", label: "Hex" },
+];
+
+/**
+ * Subject, headers and decoded payload of a NATS message. The payload is
+ * shown in the most readable format until another one is picked.
+ */
+export function MessageDetails({ message, className = "" }: MessageDetailsProps) {
+  const [format, setFormat] = useState<PayloadFormat | null>(null);
+  const activeFormat = format ?? detectPayloadFormat(message.data);
+  const headerEntries = Object.entries(message.headers);
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <dl className="space-y-2 text-sm">
+        <DetailRow label="Subject" value={<code className="break-all">{message.subject}</code>} />
+        {message.reply && (
+          <DetailRow label="Reply" value={<code className="break-all">{message.reply}</code>} />
+        )}
+        <DetailRow label="Size" value={formatBytes(message.size)} />
+        <DetailRow label="Received" value={new Date(message.receivedAt).toLocaleTimeString()} />
+      </dl>
+
+      {headerEntries.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-foreground">Headers</h3>
+          <dl className="mt-2 space-y-1 rounded-md bg-muted p-2 font-mono text-xs">
+            {headerEntries.map(([name, values]) => (
+              <div key={name} className="flex gap-2">
+                <dt className="text-muted-foreground">{name}:</dt>
+                <dd className="break-all text-foreground">{values.join(", ")}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-foreground">Payload</h3>
+          <div className="flex rounded-md border border-border p-0.5" role="tablist">
+            {FORMATS.map(({ value, label }) => (
+              <button
+                key={value}
+                role="tab"
+                aria-selected={value === activeFormat}
+                onClick={() => setFormat(value)}
+                className={`rounded px-2 py-0.5 text-xs font-medium ${
+                  value === activeFormat
+                    ? "bg-primary text-primary-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {message.size === 0 ? (
+          <p className="mt-2 text-sm text-muted-foreground">Empty payload</p>
+        ) : (
+          <pre className="mt-2 max-h-96 overflow-auto whitespace-pre-wrap break-all rounded-md bg-muted p-3 font-mono text-xs text-foreground">
+            {formatPayload(message.data, activeFormat)}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function DetailRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="text-right font-medium text-foreground">{value}</dd>
+    </div>
+  );
+}
+
+export { MessageDetails as default };
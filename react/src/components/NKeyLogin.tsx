@@ -0,0 +1,130 @@
+import { useState, useCallback, type FormEvent } from "react";
+import type { ConnectionError, NKeyCredential } from "@/types";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { parseNKeySeed } from "@/services/credentials/parser";
+
+/**
+ * Props for NKeyLogin component
+ */
+export interface NKeyLoginProps {
+  /** Callback when credential is submitted */
+  onSubmit: (credential: NKeyCredential) => void;
+  /** Callback when error occurs */
+  onError: (error: ConnectionError) => void;
+  /** Whether the form is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * Seed-only NKey login form component
+ */
+export function NKeyLogin({ onSubmit, onError, disabled }: NKeyLoginProps) {
+  const [seed, setSeed] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = useCallback(
+    async (e: FormEvent<HTMLFormElement>) => {
+      e.preventDefault();
+
+      if (!seed.trim()) {
+        setError("Seed is required");
+        return;
+      }
+
+      const result = parseNKeySeed(seed);
+      if (!result.success) {
+        setError(result.error.userMessage);
+        onError(result.error);
+        return;
+      }
+
+      setError(null);
+      setIsSubmitting(true);
+
+      try {
+        onSubmit(result.credential);
+      } catch (err) {
+        const connectionError: ConnectionError = {
+          code: "UNKNOWN",
+          message: err instanceof Error ? err.message : "Unknown error",
+          userMessage: "An unexpected error occurred. Please try again.",
+          timestamp: Date.now(),
+          recoverable: true,
+        };
+        setError(connectionError.userMessage);
+        onError(connectionError);
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [seed, onSubmit, onError]
+  );
+
+  const isFormDisabled = disabled || isSubmitting;
+
+  return (
+    <div className="w-full max-w-md">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="nkey-seed" className="block text-sm font-medium text-foreground mb-1">
+            User seed
+          </label>
+          <input
+            id="nkey-seed"
+            type="password"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value)}
+            disabled={isFormDisabled}
+            autoComplete="off"
+            spellCheck={false}
+            className={`
+              w-full rounded-md border px-3 py-2 font-mono text-sm
+              bg-card text-foreground placeholder-muted-foreground
+              focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background
+              ${isFormDisabled ? "cursor-not-allowed opacity-50" : "border-border"}
+              ${error ? "border-destructive" : "border-border"}
+            `}
+            placeholder="SU..."
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={isFormDisabled}
+          className={`
+            w-full rounded-md px-4 py-2 font-medium
+            transition-colors duration-200
+            focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background
+            ${
+              isFormDisabled
+                ? "cursor-not-allowed bg-primary/50 text-primary-foreground/50"
+                : "bg-primary text-primary-foreground hover:bg-primary/90"
+            }
+          `}
+        >
+          {isSubmitting ? (
+            <span className="flex items-center justify-center">
+              <LoadingSpinner size="sm" className="mr-2" />
+              Connecting...
+            </span>
+          ) : (
+            "Connect"
+          )}
+        </button>
+      </form>
+
+      {error && (
+        <div
+          className="mt-3 rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20"
+          role="alert"
+          aria-live="polite"
+        >
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { NKeyLogin as default };
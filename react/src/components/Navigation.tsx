@@ -1,7 +1,12 @@
 import { useState } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useClusterServers } from "@/hooks/useClusterServers";
+import { useOptionalEventContext } from "@/contexts/EventContext";
+import { AccountSwitcher } from "@/components/AccountSwitcher";
+import { Avatar } from "@/components/Avatar";
 import { ConnectionStatus } from "@/components/ConnectionStatus";
+import { CredentialExpiryIndicator } from "@/components/CredentialExpiryIndicator";
 import { ThemeToggle } from "@/components/ThemeToggle";
 
 /**
@@ -12,6 +17,9 @@ export function Navigation() {
   const location = useLocation();
   const navigate = useNavigate();
   const { isAuthenticated, disconnect, connectionStatus } = useAuth();
+  const { currentServer } = useClusterServers();
+  // Only protected pages provide the materialized state
+  const user = useOptionalEventContext()?.state.user ?? null;
 
   const handleDisconnect = async () => {
     await disconnect();
@@ -40,6 +48,21 @@ export function Navigation() {
                   <NavLink to="/dashboard" active={isActive("/dashboard")}>
                     Dashboard
                   </NavLink>
+                  <NavLink to="/explorer" active={isActive("/explorer")}>
+                    Explorer
+                  </NavLink>
+                  <NavLink to="/playground" active={isActive("/playground")}>
+                    Playground
+                  </NavLink>
+                  <NavLink to="/monitoring" active={isActive("/monitoring")}>
+                    Monitoring
+                  </NavLink>
+                  <NavLink to="/jetstream" active={isActive("/jetstream")}>
+                    JetStream
+                  </NavLink>
+                  <NavLink to="/kv" active={isActive("/kv")}>
+                    KV
+                  </NavLink>
                   <NavLink to="/settings" active={isActive("/settings")}>
                     Settings
                   </NavLink>
@@ -51,7 +74,12 @@ export function Navigation() {
           {/* Desktop right section */}
           <div className="hidden items-center space-x-4 md:flex">
             <ThemeToggle mode="icon" />
-            {isAuthenticated && <ConnectionStatus status={connectionStatus} />}
+            {isAuthenticated && (
+              <ConnectionStatus status={connectionStatus} server={currentServer} />
+            )}
+            {isAuthenticated && <CredentialExpiryIndicator mode="badge" />}
+            {isAuthenticated && <AccountSwitcher />}
+            {isAuthenticated && user && <Avatar user={user} size="sm" />}
             {isAuthenticated ? (
               <button
                 onClick={handleDisconnect}
@@ -72,7 +100,10 @@ export function Navigation() {
           {/* Mobile menu button */}
           <div className="flex items-center md:hidden">
             <ThemeToggle mode="icon" className="mr-2" />
-            {isAuthenticated && <ConnectionStatus status={connectionStatus} className="mr-2" />}
+            {isAuthenticated && (
+              <ConnectionStatus status={connectionStatus} server={currentServer} className="mr-2" />
+            )}
+            {isAuthenticated && user && <Avatar user={user} size="sm" className="mr-2" />}
             <button
               onClick={toggleMobileMenu}
               className="inline-flex items-center justify-center rounded-md p-2 text-muted-foreground hover:bg-muted hover:text-foreground focus:outline-none focus:ring-2 focus:ring-inset focus:ring-primary"
@@ -115,6 +146,9 @@ export function Navigation() {
         </div>
       </div>
 
+      {/* Credential expiry warning with an in-place renew action */}
+      <CredentialExpiryIndicator mode="banner" className="border-t border-border" />
+
       {/* Mobile menu */}
       {isMobileMenuOpen && (
         <div className="border-t border-border md:hidden">
@@ -131,6 +165,41 @@ export function Navigation() {
                 >
                   Dashboard
                 </MobileNavLink>
+                <MobileNavLink
+                  to="/explorer"
+                  active={isActive("/explorer")}
+                  onClick={() => setIsMobileMenuOpen(false)}
+                >
+                  Explorer
+                </MobileNavLink>
+                <MobileNavLink
+                  to="/playground"
+                  active={isActive("/playground")}
+                  onClick={() => setIsMobileMenuOpen(false)}
+                >
+                  Playground
+                </MobileNavLink>
+                <MobileNavLink
+                  to="/monitoring"
+                  active={isActive("/monitoring")}
+                  onClick={() => setIsMobileMenuOpen(false)}
+                >
+                  Monitoring
+                </MobileNavLink>
+                <MobileNavLink
+                  to="/jetstream"
+                  active={isActive("/jetstream")}
+                  onClick={() => setIsMobileMenuOpen(false)}
+                >
+                  JetStream
+                </MobileNavLink>
+                <MobileNavLink
+                  to="/kv"
+                  active={isActive("/kv")}
+                  onClick={() => setIsMobileMenuOpen(false)}
+                >
+                  KV
+                </MobileNavLink>
                 <MobileNavLink
                   to="/settings"
                   active={isActive("/settings")}
@@ -142,6 +211,9 @@ export function Navigation() {
             )}
           </div>
           <div className="border-t border-border px-4 pb-3 pt-3">
+            {isAuthenticated && (
+              <AccountSwitcher onDone={() => setIsMobileMenuOpen(false)} className="mb-2" />
+            )}
             {isAuthenticated ? (
               <button
                 onClick={() => {
@@ -8,6 +8,7 @@
 
 import { useCallback } from "react";
 import { useCommand } from "../hooks/useCommand";
+import { usePermissions } from "../hooks/usePermissions";
 import type { Notification } from "../types/events";
 
 interface NotificationActionsProps {
@@ -23,6 +24,7 @@ interface NotificationActionsProps {
 
 /**
  * Action buttons for a single notification.
+ * Actions the user's credential does not allow are not shown.
  */
 export function NotificationActions({
   notification,
@@ -31,6 +33,9 @@ export function NotificationActions({
   className = "",
 }: NotificationActionsProps) {
   const { execute, isExecuting, canExecute } = useCommand();
+  const { canRunCommand } = usePermissions();
+  const canMarkRead = !notification.read && canRunCommand("notification.markRead");
+  const canDismiss = canRunCommand("notification.dismiss");
 
   const handleMarkRead = useCallback(async () => {
     if (notification.read) return;
@@ -56,14 +61,14 @@ export function NotificationActions({
     }
   }, [notification.id, notification.dismissed, execute, onActionComplete]);
 
-  if (notification.dismissed) {
+  if (notification.dismissed || (!canMarkRead && !canDismiss)) {
     return null;
   }
 
   if (compact) {
     return (
       <div className={`flex items-center gap-1 ${className}`}>
-        {!notification.read && (
+        {canMarkRead && (
           <button
             onClick={handleMarkRead}
             disabled={!canExecute || isExecuting}
@@ -73,21 +78,23 @@ export function NotificationActions({
             <CheckIcon className="h-4 w-4" />
           </button>
         )}
-        <button
-          onClick={handleDismiss}
-          disabled={!canExecute || isExecuting}
-          className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground disabled:opacity-50 disabled:cursor-not-allowed"
-          title="Dismiss"
-        >
-          <XIcon className="h-4 w-4" />
-        </button>
+        {canDismiss && (
+          <button
+            onClick={handleDismiss}
+            disabled={!canExecute || isExecuting}
+            className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Dismiss"
+          >
+            <XIcon className="h-4 w-4" />
+          </button>
+        )}
       </div>
     );
   }
 
   return (
     <div className={`flex items-center gap-2 ${className}`}>
-      {!notification.read && (
+      {canMarkRead && (
         <button
           onClick={handleMarkRead}
           disabled={!canExecute || isExecuting}
@@ -97,14 +104,16 @@ export function NotificationActions({
           Mark Read
         </button>
       )}
-      <button
-        onClick={handleDismiss}
-        disabled={!canExecute || isExecuting}
-        className="inline-flex items-center gap-1 rounded-md bg-muted px-2 py-1 text-xs font-medium text-muted-foreground hover:bg-muted/80 disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        <XIcon className="h-3 w-3" />
-        Dismiss
-      </button>
+      {canDismiss && (
+        <button
+          onClick={handleDismiss}
+          disabled={!canExecute || isExecuting}
+          className="inline-flex items-center gap-1 rounded-md bg-muted px-2 py-1 text-xs font-medium text-muted-foreground hover:bg-muted/80 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <XIcon className="h-3 w-3" />
+          Dismiss
+        </button>
+      )}
     </div>
   );
 }
@@ -127,6 +136,7 @@ export function MarkAllReadButton({
   className = "",
 }: MarkAllReadButtonProps) {
   const { execute, isExecuting, canExecute } = useCommand();
+  const { canRunCommand } = usePermissions();
 
   const handleMarkAllRead = useCallback(async () => {
     if (unreadCount === 0) return;
@@ -138,7 +148,7 @@ export function MarkAllReadButton({
     }
   }, [unreadCount, execute, onComplete]);
 
-  if (unreadCount === 0) {
+  if (unreadCount === 0 || !canRunCommand("notification.markAllRead")) {
     return null;
   }
 
@@ -0,0 +1,118 @@
+/**
+ * Pending Commands Component
+ *
+ * Feature: 002-event-driven-state
+ *
+ * Lists commands queued in the offline outbox with retry and discard actions.
+ */
+
+import { useCallback, useState } from "react";
+import { useOutbox } from "../hooks/useOutbox";
+import type { OutboxStatus } from "../types/commands";
+import type { OutboxEntry } from "../services/state/database";
+
+interface PendingCommandsProps {
+  /** Optional additional className */
+  className?: string;
+}
+
+const statusStyles: Record<OutboxStatus, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-info/10 text-info" },
+  sent: { label: "Sent", className: "bg-success/10 text-success" },
+  failed: { label: "Failed", className: "bg-destructive/10 text-destructive" },
+  conflict: { label: "Conflict", className: "bg-warning/10 text-warning" },
+};
+
+/**
+ * Displays queued commands. Renders nothing when the outbox is empty.
+ *
+ * @example
+ * ```tsx
+ * <PendingCommands className="mt-8" />
+ * ```
+ */
+export function PendingCommands({ className = "" }: PendingCommandsProps) {
+  const { queuedEntries, retry, discard } = useOutbox();
+
+  if (queuedEntries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`rounded-lg bg-card p-6 shadow border border-border ${className}`}>
+      <h2 className="text-lg font-medium text-card-foreground">Pending Commands</h2>
+      <p className="mt-1 text-sm text-muted-foreground">
+        Commands created while offline are sent in order once the connection is restored.
+      </p>
+      <ul className="mt-4 space-y-3">
+        {queuedEntries.map((entry) => (
+          <PendingCommandRow key={entry.id} entry={entry} onRetry={retry} onDiscard={discard} />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+interface PendingCommandRowProps {
+  entry: OutboxEntry;
+  onRetry: (commandId: string) => Promise<void>;
+  onDiscard: (commandId: string) => Promise<void>;
+}
+
+function PendingCommandRow({ entry, onRetry, onDiscard }: PendingCommandRowProps) {
+  const [isBusy, setIsBusy] = useState(false);
+  const status = statusStyles[entry.status];
+
+  const run = useCallback(async (action: (commandId: string) => Promise<void>, id: string) => {
+    setIsBusy(true);
+    try {
+      await action(id);
+    } catch (error) {
+      console.error("Outbox action failed:", error);
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  return (
+    <li className="flex items-start justify-between gap-4 rounded-md border border-border p-3">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <code className="text-sm text-foreground">{entry.command.type}</code>
+          <span
+            className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${status.className}`}
+          >
+            {status.label}
+          </span>
+        </div>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Queued {new Date(entry.createdAt).toLocaleString()}
+          {entry.attempts > 0 && ` · ${entry.attempts} attempt${entry.attempts === 1 ? "" : "s"}`}
+        </p>
+        {entry.lastError && (
+          <p className="mt-1 text-xs text-destructive">{entry.lastError.message}</p>
+        )}
+      </div>
+      <div className="flex shrink-0 items-center gap-2">
+        {entry.status !== "pending" && (
+          <button
+            onClick={() => run(onRetry, entry.id)}
+            disabled={isBusy}
+            className="rounded-md bg-primary/10 px-2 py-1 text-xs font-medium text-primary hover:bg-primary/20 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Retry
+          </button>
+        )}
+        <button
+          onClick={() => run(onDiscard, entry.id)}
+          disabled={isBusy}
+          className="rounded-md bg-muted px-2 py-1 text-xs font-medium text-muted-foreground hover:bg-muted/80 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Discard
+        </button>
+      </div>
+    </li>
+  );
+}
+
+export { PendingCommands as default };
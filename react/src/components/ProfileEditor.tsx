@@ -3,12 +3,23 @@
  *
  * Feature: 002-event-driven-state
  *
- * Demonstrates command usage for updating user profile.
+ * Demonstrates command usage for updating user profile. Saving waits for the
+ * resulting user.updated event, so success means the change has propagated.
+ * With an avatar bucket configured, a picked image is uploaded to the Object
+ * Store before the command is sent; otherwise the avatar is a URL.
  */
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { useAppState } from "../hooks/useAppState";
 import { useCommand } from "../hooks/useCommand";
+import { useConfig } from "../hooks/useConfig";
+import { usePermissions } from "../hooks/usePermissions";
+import { AVATAR_LIMITS } from "../config/avatars";
+import { getAvatarService } from "../services/nats/avatars";
+import { formatBytes } from "../utils/payload";
+import { isCommandQueued } from "../types/commands";
+import type { UpdateProfileCommand } from "../domains/user";
+import { Avatar } from "./Avatar";
 
 interface ProfileEditorProps {
   /** Optional callback when profile is updated */
@@ -27,38 +38,109 @@ interface ProfileEditorProps {
  */
 export function ProfileEditor({ onUpdate, className = "" }: ProfileEditorProps) {
   const { user } = useAppState();
-  const { execute, isExecuting, error, canExecute, clearError } = useCommand();
+  const { executeAndAwaitEvent, isExecuting, error, canExecute, isOnline, clearError } =
+    useCommand();
+  const { canRunCommand } = usePermissions();
+  const canUpdate = canRunCommand("user.updateProfile");
+  const avatarBucket = useConfig().features.avatarBucket;
 
   const [name, setName] = useState(user?.name || "");
   const [avatarUrl, setAvatarUrl] = useState(user?.avatarUrl || "");
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+  const [removeAvatar, setRemoveAvatar] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [queued, setQueued] = useState(false);
+
+  // Release the preview's blob URL when it is replaced or the editor unmounts
+  useEffect(() => {
+    if (!avatarPreview) return;
+    return () => URL.revokeObjectURL(avatarPreview);
+  }, [avatarPreview]);
+
+  const handleAvatarChange = useCallback((file: File | null) => {
+    setUploadError(null);
+    setRemoveAvatar(false);
+    if (file && file.size > AVATAR_LIMITS.maxFileBytes) {
+      setUploadError(`Images can be at most ${formatBytes(AVATAR_LIMITS.maxFileBytes)}`);
+      file = null;
+    }
+    setAvatarFile(file);
+    setAvatarPreview(file ? URL.createObjectURL(file) : null);
+  }, []);
+
+  const handleRemoveAvatar = useCallback(() => {
+    handleAvatarChange(null);
+    setRemoveAvatar(true);
+  }, [handleAvatarChange]);
 
   const handleSubmit = useCallback(
     async (e: React.FormEvent) => {
       e.preventDefault();
+      if (!user) return;
       setSuccess(false);
+      setQueued(false);
+      setUploadError(null);
       clearError();
 
-      const payload: { name?: string; avatarUrl?: string } = {};
-      if (name !== user?.name) payload.name = name;
-      if (avatarUrl !== user?.avatarUrl) payload.avatarUrl = avatarUrl || undefined;
+      const payload: UpdateProfileCommand["payload"] = {};
+      if (name !== user.name) payload.name = name;
+      if (avatarUrl !== (user.avatarUrl || "")) payload.avatarUrl = avatarUrl || undefined;
+      if (removeAvatar && user.avatarObject) payload.avatarObject = "";
+
+      if (avatarFile) {
+        setUploadProgress(0);
+        const upload = await getAvatarService().upload(user.id, avatarFile, (progress) =>
+          setUploadProgress(Math.round((progress.loaded / progress.total) * 100))
+        );
+        setUploadProgress(null);
+        if (!upload.success) {
+          setUploadError(upload.error);
+          return;
+        }
+        payload.avatarObject = upload.name;
+      }
 
       if (Object.keys(payload).length === 0) {
         return; // No changes
       }
 
-      const result = await execute("user.updateProfile", payload);
+      const previousAvatar = user.avatarObject;
+      const result = await executeAndAwaitEvent("user.updateProfile", payload);
 
       if (result.success) {
         setSuccess(true);
+        handleAvatarChange(null);
+        // The replaced object is no longer referenced
+        if (previousAvatar && payload.avatarObject !== undefined) {
+          getAvatarService()
+            .delete(previousAvatar)
+            .catch(() => {});
+        }
         onUpdate?.();
         // Clear success message after 3 seconds
         setTimeout(() => setSuccess(false), 3000);
+      } else if (isCommandQueued(result)) {
+        setQueued(true);
       }
     },
-    [name, avatarUrl, user, execute, clearError, onUpdate]
+    [
+      name,
+      avatarUrl,
+      avatarFile,
+      removeAvatar,
+      user,
+      executeAndAwaitEvent,
+      clearError,
+      handleAvatarChange,
+      onUpdate,
+    ]
   );
 
+  const isSaving = isExecuting || uploadProgress !== null;
+
   if (!user) {
     return null;
   }
@@ -74,7 +156,13 @@ export function ProfileEditor({ onUpdate, className = "" }: ProfileEditorProps)
 
         {success && (
           <div className="rounded-md bg-success/10 p-3 text-sm text-success">
-            Profile updated successfully!
+            Profile saved and propagated!
+          </div>
+        )}
+
+        {queued && (
+          <div className="rounded-md bg-info/10 p-3 text-sm text-info">
+            Changes saved offline and will be sent when the connection is restored.
           </div>
         )}
 
@@ -88,36 +176,105 @@ export function ProfileEditor({ onUpdate, className = "" }: ProfileEditorProps)
             value={name}
             onChange={(e) => setName(e.target.value)}
             className="mt-1 block w-full rounded-md border border-input bg-background px-3 py-2 text-foreground shadow-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
-            disabled={isExecuting}
+            disabled={isSaving}
             maxLength={255}
           />
         </div>
 
-        <div>
-          <label htmlFor="avatarUrl" className="block text-sm font-medium text-foreground">
-            Avatar URL
-          </label>
-          <input
-            type="url"
-            id="avatarUrl"
-            value={avatarUrl}
-            onChange={(e) => setAvatarUrl(e.target.value)}
-            placeholder="https://example.com/avatar.png"
-            className="mt-1 block w-full rounded-md border border-input bg-background px-3 py-2 text-foreground shadow-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
-            disabled={isExecuting}
-          />
-        </div>
+        {avatarBucket ? (
+          <div>
+            <span className="block text-sm font-medium text-foreground">Avatar</span>
+            <div className="mt-2 flex items-center gap-4">
+              <Avatar
+                user={removeAvatar ? { name: user.name, avatarUrl: user.avatarUrl } : user}
+                src={avatarPreview}
+                size="lg"
+              />
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <label
+                    htmlFor="avatarFile"
+                    className={`rounded-md border border-input px-3 py-1.5 text-sm font-medium text-foreground hover:bg-muted ${
+                      isSaving ? "pointer-events-none opacity-50" : "cursor-pointer"
+                    }`}
+                  >
+                    Choose image
+                  </label>
+                  <input
+                    // Remount to allow picking the same file again
+                    key={avatarPreview ?? "empty"}
+                    type="file"
+                    id="avatarFile"
+                    accept="image/*"
+                    onChange={(e) => handleAvatarChange(e.target.files?.[0] ?? null)}
+                    className="sr-only"
+                    disabled={isSaving}
+                  />
+                  {(avatarFile || (user.avatarObject && !removeAvatar)) && (
+                    <button
+                      type="button"
+                      onClick={avatarFile ? () => handleAvatarChange(null) : handleRemoveAvatar}
+                      className="text-sm text-muted-foreground hover:text-foreground disabled:opacity-50"
+                      disabled={isSaving}
+                    >
+                      {avatarFile ? "Discard" : "Remove"}
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Up to {formatBytes(AVATAR_LIMITS.maxFileBytes)}; resized to {AVATAR_LIMITS.sizePx}
+                  ×{AVATAR_LIMITS.sizePx} before upload
+                </p>
+              </div>
+            </div>
+            {uploadProgress !== null && (
+              <div className="mt-3">
+                <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${uploadProgress}%` }}
+                  />
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground">Uploading... {uploadProgress}%</p>
+              </div>
+            )}
+            {uploadError && <p className="mt-2 text-sm text-destructive">{uploadError}</p>}
+          </div>
+        ) : (
+          <div>
+            <label htmlFor="avatarUrl" className="block text-sm font-medium text-foreground">
+              Avatar URL
+            </label>
+            <input
+              type="url"
+              id="avatarUrl"
+              value={avatarUrl}
+              onChange={(e) => setAvatarUrl(e.target.value)}
+              placeholder="https://example.com/avatar.png"
+              className="mt-1 block w-full rounded-md border border-input bg-background px-3 py-2 text-foreground shadow-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+              disabled={isSaving}
+            />
+          </div>
+        )}
 
         <div className="flex items-center justify-end gap-3">
-          {!canExecute && (
+          {!canUpdate && (
+            <span className="text-sm text-muted-foreground">
+              Your credential does not allow profile changes
+            </span>
+          )}
+          {canUpdate && !canExecute && (
             <span className="text-sm text-muted-foreground">Offline - cannot save changes</span>
           )}
+          {canUpdate && canExecute && !isOnline && (
+            <span className="text-sm text-muted-foreground">Offline - changes will be queued</span>
+          )}
           <button
             type="submit"
-            disabled={!canExecute || isExecuting}
+            disabled={!canUpdate || !canExecute || isSaving}
             className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground shadow-sm hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {isExecuting ? "Saving..." : "Save Changes"}
+            {uploadProgress !== null ? "Uploading..." : isExecuting ? "Saving..." : "Save Changes"}
           </button>
         </div>
       </form>
@@ -1,14 +1,22 @@
 import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
 import type { ProtectedRouteProps } from "@/types";
 
 /**
- * Protected route component that redirects unauthenticated users
+ * Protected route component that redirects unauthenticated users.
+ * With `requiredPermission`, users whose JWT lacks the permissions see an
+ * access notice instead of the content.
  */
-export function ProtectedRoute({ children, redirectTo = "/auth" }: ProtectedRouteProps) {
+export function ProtectedRoute({
+  children,
+  redirectTo = "/auth",
+  requiredPermission,
+}: ProtectedRouteProps) {
   const location = useLocation();
   const { isAuthenticated, authCheckComplete, connectionStatus } = useAuth();
+  const { check } = usePermissions();
 
   // Still checking credentials - show loading
   if (!authCheckComplete) {
@@ -25,6 +33,21 @@ export function ProtectedRoute({ children, redirectTo = "/auth" }: ProtectedRout
     return <Navigate to={redirectTo} state={{ from: location }} replace />;
   }
 
+  // Authenticated, but the JWT does not allow what the route needs
+  if (requiredPermission && !check(requiredPermission)) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center px-4">
+        <div className="max-w-md rounded-lg border border-border bg-card p-6 text-center shadow">
+          <h2 className="text-lg font-medium text-card-foreground">Access Denied</h2>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Your credential does not have the permissions this page needs. Please contact your NATS
+            administrator.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   // Authenticated - show content (with reconnecting overlay if needed)
   if (connectionStatus === "reconnecting") {
     return (
@@ -0,0 +1,52 @@
+interface SparklineProps {
+  label: string;
+  values: number[];
+  /** Renders the latest value */
+  format?: (value: number) => string;
+  className?: string;
+}
+
+const WIDTH = 240;
+const HEIGHT = 48;
+
+/**
+ * Small line chart of a metric over time, with its latest value
+ */
+export function Sparkline({ label, values, format = String, className = "" }: SparklineProps) {
+  const latest = values.length > 0 ? values[values.length - 1] : null;
+  const max = Math.max(...values, 1);
+  const step = values.length > 1 ? WIDTH / (values.length - 1) : 0;
+  const points = values
+    .map((value, index) => `${index * step},${HEIGHT - (value / max) * (HEIGHT - 2) - 1}`)
+    .join(" ");
+
+  return (
+    <div className={`rounded-lg border border-border bg-card p-4 shadow ${className}`}>
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="text-sm text-muted-foreground">{label}</span>
+        <span className="text-lg font-semibold text-card-foreground">
+          {latest === null ? "-" : format(latest)}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="mt-2 h-12 w-full text-primary"
+        role="img"
+        aria-label={`${label} over time`}
+      >
+        {values.length > 1 && (
+          <polyline
+            points={points}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+    </div>
+  );
+}
+
+export { Sparkline as default };
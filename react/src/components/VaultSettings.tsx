@@ -0,0 +1,317 @@
+/**
+ * Vault Settings Component
+ *
+ * Lets the user protect stored credentials with a passphrase instead of the
+ * device-derived key, change or remove it, enroll platform authenticators and
+ * choose the auto-lock timeout.
+ */
+
+import { useEffect, useState, type FormEvent } from "react";
+import { useVault } from "@/hooks/useVault";
+
+type VaultForm = "enable" | "change" | "disable" | "enroll" | null;
+
+/** Auto-lock choices in minutes (0 = never) */
+const AUTO_LOCK_OPTIONS = [0, 5, 15, 30, 60, 240];
+
+const inputClassName =
+  "w-full rounded-md border border-border px-3 py-2 bg-card text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background disabled:cursor-not-allowed disabled:opacity-50";
+
+const buttonClassName =
+  "rounded-md px-4 py-2 text-sm font-medium border border-border text-foreground hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50";
+
+function formatMinutes(minutes: number): string {
+  if (minutes === 0) return "Never";
+  if (minutes < 60) return `After ${minutes} minutes`;
+  const hours = minutes / 60;
+  return `After ${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+/**
+ * Settings section for the credential vault.
+ */
+export function VaultSettings() {
+  const {
+    status,
+    isPassphraseEnabled,
+    lock,
+    enablePassphrase,
+    changePassphrase,
+    disablePassphrase,
+    isAuthenticatorSupported,
+    enrollAuthenticator,
+    removeAuthenticator,
+    setAutoLockMinutes,
+  } = useVault();
+
+  const [form, setForm] = useState<VaultForm>(null);
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [authenticatorLabel, setAuthenticatorLabel] = useState("This device");
+  const [canEnroll, setCanEnroll] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    isAuthenticatorSupported().then((supported) => {
+      if (!cancelled) setCanEnroll(supported);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticatorSupported]);
+
+  const openForm = (nextForm: VaultForm) => {
+    setForm(nextForm);
+    setCurrent("");
+    setNext("");
+    setConfirm("");
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if ((form === "enable" || form === "change") && next !== confirm) {
+      setError("The passphrases do not match");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (form === "enable") {
+        await enablePassphrase(next);
+        setMessage("Stored credentials are now protected by your passphrase.");
+      } else if (form === "change") {
+        if (!(await changePassphrase(current, next))) {
+          setError("The current passphrase is wrong");
+          return;
+        }
+        setMessage("Passphrase changed.");
+      } else if (form === "disable") {
+        if (!(await disablePassphrase(current))) {
+          setError("The passphrase is wrong");
+          return;
+        }
+        setMessage("Passphrase removed. Stored credentials use the device key again.");
+      } else if (form === "enroll") {
+        if (!(await enrollAuthenticator(current, authenticatorLabel.trim() || "This device"))) {
+          setError("The passphrase is wrong");
+          return;
+        }
+        setMessage("Authenticator enrolled. The passphrase still works as a fallback.");
+      }
+      setForm(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not update the vault");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <section className="rounded-lg bg-card p-6 shadow border border-border">
+      <h2 className="text-lg font-medium text-card-foreground">Credential Vault</h2>
+      <p className="mt-1 text-sm text-muted-foreground">
+        {isPassphraseEnabled
+          ? "Stored credentials are encrypted with your passphrase. It is asked for when the app starts and after the auto-lock timeout."
+          : "Stored credentials are encrypted with a key derived from this browser. Anyone with access to this browser profile can use them. Set a passphrase for stronger protection."}
+      </p>
+
+      {isPassphraseEnabled && (
+        <div className="mt-4 flex items-end justify-between gap-4">
+          <div>
+            <label
+              htmlFor="vault-auto-lock"
+              className="block text-sm font-medium text-foreground mb-1"
+            >
+              Auto-lock when idle
+            </label>
+            <select
+              id="vault-auto-lock"
+              value={status.autoLockMinutes}
+              onChange={(e) => setAutoLockMinutes(Number(e.target.value))}
+              className="rounded-md border border-border bg-card px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {[...new Set([...AUTO_LOCK_OPTIONS, status.autoLockMinutes])]
+                .sort((a, b) => a - b)
+                .map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {formatMinutes(minutes)}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <button onClick={lock} className={buttonClassName}>
+            Lock now
+          </button>
+        </div>
+      )}
+
+      {form ? (
+        <form onSubmit={handleSubmit} className="mt-6 space-y-4 border-t border-border pt-4">
+          {form !== "enable" && (
+            <div>
+              <label
+                htmlFor="vault-current"
+                className="block text-sm font-medium text-foreground mb-1"
+              >
+                Current passphrase
+              </label>
+              <input
+                id="vault-current"
+                type="password"
+                value={current}
+                onChange={(e) => setCurrent(e.target.value)}
+                disabled={isSaving}
+                autoComplete="current-password"
+                className={inputClassName}
+              />
+            </div>
+          )}
+          {form === "enroll" && (
+            <div>
+              <label
+                htmlFor="vault-authenticator-label"
+                className="block text-sm font-medium text-foreground mb-1"
+              >
+                Authenticator name
+              </label>
+              <input
+                id="vault-authenticator-label"
+                type="text"
+                value={authenticatorLabel}
+                onChange={(e) => setAuthenticatorLabel(e.target.value)}
+                disabled={isSaving}
+                className={inputClassName}
+              />
+            </div>
+          )}
+          {(form === "enable" || form === "change") && (
+            <>
+              <div>
+                <label
+                  htmlFor="vault-next"
+                  className="block text-sm font-medium text-foreground mb-1"
+                >
+                  New passphrase
+                </label>
+                <input
+                  id="vault-next"
+                  type="password"
+                  value={next}
+                  onChange={(e) => setNext(e.target.value)}
+                  disabled={isSaving}
+                  autoComplete="new-password"
+                  placeholder="At least 8 characters"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="vault-confirm"
+                  className="block text-sm font-medium text-foreground mb-1"
+                >
+                  Confirm passphrase
+                </label>
+                <input
+                  id="vault-confirm"
+                  type="password"
+                  value={confirm}
+                  onChange={(e) => setConfirm(e.target.value)}
+                  disabled={isSaving}
+                  autoComplete="new-password"
+                  className={inputClassName}
+                />
+              </div>
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {form === "enable"
+                ? "Set passphrase"
+                : form === "change"
+                  ? "Change passphrase"
+                  : form === "enroll"
+                    ? "Enroll authenticator"
+                    : "Remove passphrase"}
+            </button>
+            <button type="button" onClick={() => openForm(null)} className={buttonClassName}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="mt-6 flex gap-2">
+          {isPassphraseEnabled ? (
+            <>
+              <button onClick={() => openForm("change")} className={buttonClassName}>
+                Change passphrase
+              </button>
+              <button onClick={() => openForm("disable")} className={buttonClassName}>
+                Remove passphrase
+              </button>
+              {canEnroll && (
+                <button onClick={() => openForm("enroll")} className={buttonClassName}>
+                  Add authenticator
+                </button>
+              )}
+            </>
+          ) : (
+            <button onClick={() => openForm("enable")} className={buttonClassName}>
+              Set passphrase
+            </button>
+          )}
+        </div>
+      )}
+
+      {isPassphraseEnabled && status.authenticators.length > 0 && (
+        <div className="mt-6 border-t border-border pt-4">
+          <h3 className="text-sm font-medium text-foreground">Authenticators</h3>
+          <ul className="mt-2 space-y-2">
+            {status.authenticators.map((authenticator) => (
+              <li key={authenticator.id} className="flex items-center justify-between text-sm">
+                <span className="text-foreground">
+                  {authenticator.label}
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    added {new Date(authenticator.createdAt).toLocaleDateString()}
+                  </span>
+                </span>
+                <button
+                  onClick={() => removeAuthenticator(authenticator.id)}
+                  className="text-xs text-muted-foreground hover:text-destructive"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {message && !form && <p className="mt-4 text-sm text-muted-foreground">{message}</p>}
+    </section>
+  );
+}
+
+export { VaultSettings as default };
@@ -0,0 +1,135 @@
+import { useState, type FormEvent } from "react";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+
+interface VaultUnlockProps {
+  /** Try the passphrase; resolves false if it is wrong */
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  /** Unlock with an enrolled platform authenticator, if any */
+  onUnlockWithAuthenticator?: () => Promise<boolean>;
+  /** Continue to the login page without the stored credentials */
+  onSkip: () => void;
+}
+
+/**
+ * Prompt shown while the credential vault is locked. An enrolled platform
+ * authenticator is offered first; the passphrase always works as fallback.
+ */
+export function VaultUnlock({ onUnlock, onUnlockWithAuthenticator, onSkip }: VaultUnlockProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const success = await onUnlock(passphrase);
+      if (!success) {
+        setError("Wrong passphrase");
+        setPassphrase("");
+      }
+    } catch {
+      setError("Could not unlock the vault");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleAuthenticator = async () => {
+    if (!onUnlockWithAuthenticator || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const success = await onUnlockWithAuthenticator();
+      if (!success) {
+        setError("This authenticator cannot unlock the vault - use your passphrase");
+      }
+    } catch {
+      // Cancelled or not available
+      setError("Authenticator unlock failed - use your passphrase");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md">
+        <div className="mb-8 text-center">
+          <h1 className="text-2xl font-bold text-foreground">Unlock Credentials</h1>
+          <p className="mt-2 text-muted-foreground">
+            Your stored credentials are protected by a passphrase.
+          </p>
+        </div>
+
+        {onUnlockWithAuthenticator && (
+          <div className="mb-6">
+            <button
+              type="button"
+              onClick={handleAuthenticator}
+              disabled={isUnlocking}
+              className="w-full rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Unlock with device authenticator
+            </button>
+            <p className="mt-4 text-center text-xs text-muted-foreground">or use your passphrase</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label
+              htmlFor="vault-passphrase"
+              className="block text-sm font-medium text-foreground mb-1"
+            >
+              Passphrase
+            </label>
+            <input
+              id="vault-passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              disabled={isUnlocking}
+              autoComplete="current-password"
+              autoFocus
+              className="w-full rounded-md border border-border px-3 py-2 bg-card text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background disabled:cursor-not-allowed disabled:opacity-50"
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={!passphrase || isUnlocking}
+            className="w-full rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Unlock
+          </button>
+        </form>
+
+        {isUnlocking && <LoadingSpinner size="sm" text="Unlocking..." className="mt-4" />}
+
+        <div className="mt-6 text-center">
+          <button
+            type="button"
+            onClick={onSkip}
+            disabled={isUnlocking}
+            className="text-sm text-muted-foreground hover:text-foreground disabled:opacity-50"
+          >
+            Sign in without stored credentials
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export { VaultUnlock as default };
@@ -0,0 +1,72 @@
+import { useState, type ReactNode } from "react";
+
+interface VirtualListProps<T> {
+  items: T[];
+  /** Height of every row in pixels */
+  rowHeight: number;
+  /** Height of the scroll area in pixels */
+  height: number;
+  /** Key of an item */
+  getKey: (item: T) => string | number;
+  renderRow: (item: T, index: number) => ReactNode;
+  /** Rows rendered above and below the visible ones (default: 5) */
+  overscan?: number;
+  /** Shown when there are no items */
+  empty?: ReactNode;
+  className?: string;
+}
+
+/**
+ * Scrollable list that only renders the visible rows, for lists with
+ * thousands of fixed-height rows.
+ */
+export function VirtualList<T>({
+  items,
+  rowHeight,
+  height,
+  getKey,
+  renderRow,
+  overscan = 5,
+  empty = null,
+  className = "",
+}: VirtualListProps<T>) {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  if (items.length === 0) {
+    return (
+      <div className={className} style={{ height }}>
+        {empty}
+      </div>
+    );
+  }
+
+  const first = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const last = Math.min(items.length, Math.ceil((scrollTop + height) / rowHeight) + overscan);
+
+  return (
+    <div
+      className={`overflow-y-auto ${className}`}
+      style={{ height }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div style={{ height: items.length * rowHeight, position: "relative" }}>
+        {items.slice(first, last).map((item, offset) => (
+          <div
+            key={getKey(item)}
+            style={{
+              position: "absolute",
+              top: (first + offset) * rowHeight,
+              height: rowHeight,
+              left: 0,
+              right: 0,
+            }}
+          >
+            {renderRow(item, first + offset)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export { VirtualList as default };
@@ -1,10 +1,62 @@
-import type { AuthType } from "@/types";
+import type { AuthType, CredentialTrustConfig } from "@/types";
+import { getRuntimeConfig } from "./runtime";
 
 /**
- * Get the configured authentication type from environment variables.
- * Defaults to "credsfile" if not set or invalid.
+ * Get the default authentication type: the first of the configured ones
+ * (runtime `authTypes`, or VITE_AUTH_TYPE). Defaults to "credsfile".
  */
 export function getAuthType(): AuthType {
-  const authType = import.meta.env.VITE_AUTH_TYPE;
-  return authType === "userpass" ? "userpass" : "credsfile";
+  return getAuthTypes()[0];
+}
+
+/**
+ * Get the authentication types the auth page offers
+ */
+export function getAuthTypes(): AuthType[] {
+  return getRuntimeConfig().authTypes;
+}
+
+/**
+ * Endpoint that signs server nonces for "jwtsigner" authentication
+ * (runtime `auth.signerUrl`, or VITE_NATS_SIGNER_URL). Defaults to the mock
+ * signer of the dev server in development; null in production builds that
+ * do not configure one.
+ */
+export function getSignerUrl(): string | null {
+  return getRuntimeConfig().auth.signerUrl;
+}
+
+/**
+ * Default minutes of inactivity before a passphrase-protected vault locks
+ * (runtime `auth.autoLockMinutes`, or VITE_VAULT_AUTO_LOCK_MINUTES; 0 to
+ * disable). Users can change it in Settings.
+ */
+export function getDefaultAutoLockMinutes(): number {
+  return getRuntimeConfig().auth.autoLockMinutes;
+}
+
+/**
+ * Lead times before credential expiry at which the user is warned, in
+ * milliseconds and largest first (runtime `auth.expiryWarningMinutes`, or
+ * VITE_CREDENTIAL_EXPIRY_WARNINGS as comma-separated minutes; default
+ * 1440,60,5).
+ */
+export function getExpiryWarningLeadTimes(): number[] {
+  return getRuntimeConfig().auth.expiryWarningMinutes.map((minutes) => minutes * 60 * 1000);
+}
+
+/**
+ * Trust anchors for offline verification of uploaded credential files
+ * (runtime `auth.trustedOperators` and `auth.accountJwts`, or
+ * VITE_NATS_TRUSTED_OPERATORS and VITE_NATS_ACCOUNT_JWTS as comma-separated
+ * lists). Returns null when no operators are configured, which disables
+ * verification.
+ */
+export function getCredentialTrustConfig(): CredentialTrustConfig | null {
+  const { trustedOperators, accountJwts } = getRuntimeConfig().auth;
+  if (trustedOperators.length === 0) {
+    return null;
+  }
+
+  return { operators: trustedOperators, accountJwts };
 }
@@ -0,0 +1,24 @@
+import { getRuntimeConfig } from "./runtime";
+
+/**
+ * Limits for uploaded avatars
+ */
+export const AVATAR_LIMITS = {
+  /** Largest image file accepted, before resizing */
+  maxFileBytes: 10 * 1024 * 1024,
+  /** Largest resized image stored in the bucket */
+  maxObjectBytes: 512 * 1024,
+  /** Width and height of the stored image in pixels */
+  sizePx: 256,
+  /** Object Store chunk size; upload progress is reported per chunk */
+  chunkBytes: 32 * 1024,
+} as const;
+
+/**
+ * Get the JetStream Object Store bucket avatars are uploaded to (runtime
+ * `features.avatarBucket`, or VITE_NATS_AVATAR_BUCKET). Profiles reference
+ * uploaded avatars by object name. Returns null if uploads are disabled.
+ */
+export function getAvatarBucket(): string | null {
+  return getRuntimeConfig().features.avatarBucket;
+}
@@ -0,0 +1,25 @@
+import { getRuntimeConfig } from "./runtime";
+
+/**
+ * Built-in payload codecs
+ */
+export type PayloadCodecName = "json" | "msgpack" | "cbor";
+
+/**
+ * Codec for the messages on subjects matching a pattern
+ */
+export interface PayloadCodecRoute {
+  /** Subject pattern; wildcards allowed */
+  subject: string;
+  codec: PayloadCodecName;
+}
+
+/**
+ * Get the codecs for subjects that do not carry JSON (runtime
+ * `features.payloadCodecs`, or VITE_NATS_PAYLOAD_CODECS as a comma-separated
+ * list of `pattern=codec`). The first matching route wins; a Content-Type
+ * header on a message takes precedence.
+ */
+export function getPayloadCodecRoutes(): PayloadCodecRoute[] {
+  return getRuntimeConfig().features.payloadCodecs;
+}
@@ -0,0 +1,11 @@
+import { getRuntimeConfig } from "./runtime";
+
+/**
+ * Check whether tabs share one NATS connection (runtime `features.sharedConnection`,
+ * or VITE_NATS_SHARED_CONNECTION=true). Only an elected leader tab connects;
+ * other tabs mirror its status and proxy requests through it. Requires
+ * BroadcastChannel - without it every tab keeps its own connection.
+ */
+export function isSharedConnectionEnabled(): boolean {
+  return getRuntimeConfig().features.sharedConnection;
+}
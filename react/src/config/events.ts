@@ -0,0 +1,10 @@
+import { getRuntimeConfig } from "./runtime";
+
+/**
+ * Get the JetStream stream that captures `{namespace}.events.>` (runtime
+ * `features.eventsStream`, or VITE_NATS_EVENTS_STREAM). When set, events are replayed from the stream after reconnects and
+ * page reloads instead of being lost while disconnected. Returns null if unset.
+ */
+export function getEventStreamName(): string | null {
+  return getRuntimeConfig().features.eventsStream;
+}
@@ -0,0 +1,649 @@
+/**
+ * Runtime Configuration
+ *
+ * Lets one bundle serve every environment. The build-time VITE_ variables
+ * provide the defaults; a `config.json` next to index.html overrides them when
+ * the app starts, and an optional NATS KV key overrides timeouts and feature
+ * toggles after connecting. Every layer is validated before it is applied.
+ */
+
+import type { AuthType } from "@/types";
+import { NATS_DEFAULTS } from "@/types/state";
+import { DEFAULT_NATS_CONFIG } from "@/services/nats/types";
+import type { PayloadCodecName, PayloadCodecRoute } from "./codecs";
+import type { StateSourceConfig } from "./state";
+import { DEFAULT_SERVER_URL, normalizeServerUrls } from "./servers";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Timeouts in milliseconds
+ */
+export interface RuntimeTimeouts {
+  /** Connection attempt timeout */
+  connectMs: number;
+  /** Initial wait between reconnect attempts */
+  reconnectTimeWaitMs: number;
+  /** Interval of server pings */
+  pingIntervalMs: number;
+  /** How long a command waits for its acknowledgment */
+  commandMs: number;
+  /** How long the initial state request may take */
+  stateFetchMs: number;
+  /** Age of the state after which it is shown as stale */
+  staleThresholdMs: number;
+  /** How long an acknowledged optimistic update waits for its event */
+  optimisticReconcileMs: number;
+  /** How long the nonce signer of a "jwtsigner" login may take */
+  signerMs: number;
+}
+
+/**
+ * Feature toggles
+ */
+export interface RuntimeFeatures {
+  /** Share one connection between tabs through an elected leader tab */
+  sharedConnection: boolean;
+  /** JetStream stream capturing `{namespace}.events.>`, for replay after reconnects */
+  eventsStream: string | null;
+  /** JetStream Object Store bucket for uploaded profile avatars; null disables uploads */
+  avatarBucket: string | null;
+  /** Where EventProvider gets its state from */
+  stateSource: StateSourceConfig;
+  /** Codecs of subjects that do not carry JSON, first match wins */
+  payloadCodecs: PayloadCodecRoute[];
+}
+
+/**
+ * Credential settings
+ */
+export interface RuntimeAuthSettings {
+  /** Endpoint that signs server nonces for "jwtsigner" logins (null when not configured) */
+  signerUrl: string | null;
+  /** Minutes of inactivity before a passphrase-protected vault locks (0 = never) */
+  autoLockMinutes: number;
+  /** Minutes before credential expiry at which the user is warned, largest first */
+  expiryWarningMinutes: number[];
+  /** Operator public keys uploaded credentials must chain up to; empty disables the check */
+  trustedOperators: string[];
+  /** Account JWTs users may belong to, for the trust check */
+  accountJwts: string[];
+}
+
+/**
+ * NATS KV key holding overrides applied after connecting
+ */
+export interface RemoteConfigSource {
+  bucket: string;
+  key: string;
+}
+
+export interface RuntimeConfig {
+  /** Server URLs in failover order */
+  servers: string[];
+  /** Namespace for NATS subjects */
+  namespace: string;
+  /** Login methods offered on the auth page; the first is the default */
+  authTypes: AuthType[];
+  timeouts: RuntimeTimeouts;
+  features: RuntimeFeatures;
+  auth: RuntimeAuthSettings;
+  /** KV key with further overrides, loaded after connecting */
+  remote: RemoteConfigSource | null;
+}
+
+/**
+ * Partial configuration as found in `config.json` or the KV key
+ */
+export interface RuntimeConfigOverrides {
+  servers?: string[];
+  namespace?: string;
+  authTypes?: AuthType[];
+  timeouts?: Partial<RuntimeTimeouts>;
+  features?: Partial<RuntimeFeatures>;
+  auth?: Partial<RuntimeAuthSettings>;
+  remote?: RemoteConfigSource | null;
+}
+
+/**
+ * Layers the active configuration is built from
+ */
+export type RuntimeConfigSource = "build" | "file" | "remote";
+
+export type ValidateConfigResult =
+  | { success: true; overrides: RuntimeConfigOverrides }
+  | { success: false; errors: string[] };
+
+export type LoadConfigResult = { success: true } | { success: false; errors: string[] };
+
+export type RuntimeConfigCallback = (config: RuntimeConfig) => void;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** URL of the configuration file, relative to the app */
+export const RUNTIME_CONFIG_URL = `${import.meta.env.BASE_URL}config.json`;
+
+/** How long the app waits for the configuration file before showing an error */
+export const RUNTIME_CONFIG_TIMEOUT_MS = 10_000;
+
+export const AUTH_TYPES: AuthType[] = ["credsfile", "userpass", "token", "nkey", "jwtsigner"];
+
+export const PAYLOAD_CODEC_NAMES: PayloadCodecName[] = ["json", "msgpack", "cbor"];
+
+const TIMEOUT_KEYS: Array<keyof RuntimeTimeouts> = [
+  "connectMs",
+  "reconnectTimeWaitMs",
+  "pingIntervalMs",
+  "commandMs",
+  "stateFetchMs",
+  "staleThresholdMs",
+  "optimisticReconcileMs",
+  "signerMs",
+];
+
+/** Top-level keys the KV key may set; the rest is read before connecting */
+const REMOTE_KEYS = ["timeouts", "features"];
+
+/** NATS subject tokens: no whitespace, wildcards or empty tokens */
+const NAMESPACE_PATTERN = /^[^\s.*>]+(\.[^\s.*>]+)*$/;
+
+/** Operator public key, or one of its signing keys */
+const OPERATOR_KEY_PATTERN = /^O[A-Z2-7]{55}$/;
+
+/** Absolute http(s) URL, or a path on the app's origin */
+const SIGNER_URL_PATTERN = /^(https?:\/\/|\/)\S*$/;
+
+// =============================================================================
+// Schema Validation
+// =============================================================================
+
+/**
+ * Validate configuration overrides against the schema. Unknown keys are
+ * rejected so that typos do not silently fall back to the defaults.
+ *
+ * @param input - Parsed JSON
+ * @param source - "remote" limits the keys to timeouts and feature toggles
+ */
+export function validateRuntimeConfig(
+  input: unknown,
+  source: "file" | "remote" = "file"
+): ValidateConfigResult {
+  const errors: string[] = [];
+  if (!isObject(input)) {
+    return { success: false, errors: ["The configuration must be a JSON object."] };
+  }
+
+  const overrides: RuntimeConfigOverrides = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (source === "remote" && !REMOTE_KEYS.includes(key)) {
+      errors.push(`"${key}" cannot be set remotely; set it in config.json.`);
+      continue;
+    }
+
+    switch (key) {
+      case "servers": {
+        const servers = Array.isArray(value) ? value : typeof value === "string" ? [value] : null;
+        if (!servers || servers.length === 0 || !servers.every(isWebSocketUrl)) {
+          errors.push(`"servers" must be a non-empty list of ws:// or wss:// URLs.`);
+        } else {
+          overrides.servers = normalizeServerUrls(servers);
+        }
+        break;
+      }
+      case "namespace":
+        if (typeof value !== "string" || !NAMESPACE_PATTERN.test(value)) {
+          errors.push(`"namespace" must be a subject prefix without wildcards, e.g. "app".`);
+        } else {
+          overrides.namespace = value;
+        }
+        break;
+      case "authTypes":
+        if (
+          !Array.isArray(value) ||
+          value.length === 0 ||
+          !value.every((entry) => AUTH_TYPES.includes(entry))
+        ) {
+          errors.push(`"authTypes" must be a non-empty list of: ${AUTH_TYPES.join(", ")}.`);
+        } else {
+          overrides.authTypes = [...new Set(value as AuthType[])];
+        }
+        break;
+      case "timeouts":
+        overrides.timeouts = validateTimeouts(value, errors);
+        break;
+      case "features":
+        overrides.features = validateFeatures(value, errors);
+        break;
+      case "auth":
+        overrides.auth = validateAuth(value, errors);
+        break;
+      case "remote":
+        if (value === null) {
+          overrides.remote = null;
+        } else if (
+          isObject(value) &&
+          isNonEmptyString(value.bucket) &&
+          isNonEmptyString(value.key)
+        ) {
+          overrides.remote = { bucket: value.bucket, key: value.key };
+        } else {
+          errors.push(`"remote" must be null or { "bucket": string, "key": string }.`);
+        }
+        break;
+      default:
+        errors.push(`Unknown setting "${key}".`);
+    }
+  }
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, overrides };
+}
+
+function validateTimeouts(value: unknown, errors: string[]): Partial<RuntimeTimeouts> {
+  const timeouts: Partial<RuntimeTimeouts> = {};
+  if (!isObject(value)) {
+    errors.push(`"timeouts" must be an object.`);
+    return timeouts;
+  }
+
+  for (const [key, entry] of Object.entries(value)) {
+    if (!TIMEOUT_KEYS.includes(key as keyof RuntimeTimeouts)) {
+      errors.push(`Unknown setting "timeouts.${key}".`);
+    } else if (typeof entry !== "number" || !Number.isFinite(entry) || entry <= 0) {
+      errors.push(`"timeouts.${key}" must be a positive number of milliseconds.`);
+    } else {
+      timeouts[key as keyof RuntimeTimeouts] = entry;
+    }
+  }
+  return timeouts;
+}
+
+function validateFeatures(value: unknown, errors: string[]): Partial<RuntimeFeatures> {
+  const features: Partial<RuntimeFeatures> = {};
+  if (!isObject(value)) {
+    errors.push(`"features" must be an object.`);
+    return features;
+  }
+
+  for (const [key, entry] of Object.entries(value)) {
+    switch (key) {
+      case "sharedConnection":
+        if (typeof entry !== "boolean") {
+          errors.push(`"features.sharedConnection" must be true or false.`);
+        } else {
+          features.sharedConnection = entry;
+        }
+        break;
+      case "eventsStream":
+        if (entry !== null && !isNonEmptyString(entry)) {
+          errors.push(`"features.eventsStream" must be a stream name or null.`);
+        } else {
+          features.eventsStream = entry;
+        }
+        break;
+      case "avatarBucket":
+        if (entry !== null && !isNonEmptyString(entry)) {
+          errors.push(`"features.avatarBucket" must be an Object Store bucket name or null.`);
+        } else {
+          features.avatarBucket = entry;
+        }
+        break;
+      case "stateSource":
+        if (isObject(entry) && entry.type === "events") {
+          features.stateSource = { type: "events" };
+        } else if (isObject(entry) && entry.type === "kv" && isNonEmptyString(entry.bucket)) {
+          const prefix = typeof entry.prefix === "string" ? entry.prefix : "";
+          features.stateSource = {
+            type: "kv",
+            bucket: entry.bucket.trim(),
+            prefix: prefix.trim().replace(/\.+$/, ""),
+          };
+        } else {
+          errors.push(
+            `"features.stateSource" must be { "type": "events" } or { "type": "kv", "bucket": string, "prefix"?: string }.`
+          );
+        }
+        break;
+      case "payloadCodecs":
+        if (Array.isArray(entry) && entry.every(isPayloadCodecRoute)) {
+          features.payloadCodecs = entry.map((route) => ({
+            subject: route.subject.trim(),
+            codec: route.codec,
+          }));
+        } else {
+          errors.push(
+            `"features.payloadCodecs" must be a list of { "subject": string, "codec": ${PAYLOAD_CODEC_NAMES.map((name) => `"${name}"`).join(" | ")} }.`
+          );
+        }
+        break;
+      default:
+        errors.push(`Unknown setting "features.${key}".`);
+    }
+  }
+  return features;
+}
+
+function validateAuth(value: unknown, errors: string[]): Partial<RuntimeAuthSettings> {
+  const auth: Partial<RuntimeAuthSettings> = {};
+  if (!isObject(value)) {
+    errors.push(`"auth" must be an object.`);
+    return auth;
+  }
+
+  for (const [key, entry] of Object.entries(value)) {
+    switch (key) {
+      case "signerUrl":
+        if (typeof entry !== "string" || !SIGNER_URL_PATTERN.test(entry.trim())) {
+          errors.push(`"auth.signerUrl" must be an http:// or https:// URL or a path.`);
+        } else {
+          auth.signerUrl = entry.trim();
+        }
+        break;
+      case "autoLockMinutes":
+        if (typeof entry !== "number" || !Number.isFinite(entry) || entry < 0) {
+          errors.push(`"auth.autoLockMinutes" must be a number of minutes, 0 to never lock.`);
+        } else {
+          auth.autoLockMinutes = entry;
+        }
+        break;
+      case "expiryWarningMinutes":
+        if (
+          !Array.isArray(entry) ||
+          !entry.every((minutes) => typeof minutes === "number" && minutes > 0)
+        ) {
+          errors.push(`"auth.expiryWarningMinutes" must be a list of positive numbers of minutes.`);
+        } else {
+          auth.expiryWarningMinutes = sortWarningMinutes(entry);
+        }
+        break;
+      case "trustedOperators":
+        if (
+          !Array.isArray(entry) ||
+          !entry.every((key) => typeof key === "string" && OPERATOR_KEY_PATTERN.test(key.trim()))
+        ) {
+          errors.push(`"auth.trustedOperators" must be a list of operator public keys (O...).`);
+        } else {
+          auth.trustedOperators = entry.map((key: string) => key.trim());
+        }
+        break;
+      case "accountJwts":
+        if (
+          !Array.isArray(entry) ||
+          !entry.every((jwt) => typeof jwt === "string" && jwt.trim().split(".").length === 3)
+        ) {
+          errors.push(`"auth.accountJwts" must be a list of account JWTs.`);
+        } else {
+          auth.accountJwts = entry.map((jwt: string) => jwt.trim());
+        }
+        break;
+      default:
+        errors.push(`Unknown setting "auth.${key}".`);
+    }
+  }
+  return auth;
+}
+
+/**
+ * Distinct warning lead times, largest first
+ */
+function sortWarningMinutes(minutes: number[]): number[] {
+  return [...new Set(minutes)].sort((a, b) => b - a);
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function isPayloadCodecRoute(value: unknown): value is PayloadCodecRoute {
+  return (
+    isObject(value) &&
+    isNonEmptyString(value.subject) &&
+    PAYLOAD_CODEC_NAMES.includes(value.codec as PayloadCodecName)
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function isWebSocketUrl(value: unknown): boolean {
+  return typeof value === "string" && /^wss?:\/\/\S+$/.test(value.trim());
+}
+
+// =============================================================================
+// Build-Time Defaults
+// =============================================================================
+
+/**
+ * Configuration from the VITE_ variables the bundle was built with
+ */
+function readBuildConfig(): RuntimeConfig {
+  const env = import.meta.env;
+
+  const servers = normalizeServerUrls(env.VITE_NATS_URL || "");
+  const authTypes = (env.VITE_AUTH_TYPE || "")
+    .split(",")
+    .map((entry: string) => entry.trim())
+    .filter((entry: string): entry is AuthType => AUTH_TYPES.includes(entry as AuthType));
+
+  const bucket = env.VITE_NATS_STATE_BUCKET?.trim();
+  const stateSource: StateSourceConfig =
+    env.VITE_NATS_STATE_SOURCE === "kv" && bucket
+      ? {
+          type: "kv",
+          bucket,
+          prefix: (env.VITE_NATS_STATE_PREFIX || "").trim().replace(/\.+$/, ""),
+        }
+      : { type: "events" };
+
+  // pattern=codec pairs, e.g. "app.events.billing.>=msgpack"
+  const payloadCodecs = (env.VITE_NATS_PAYLOAD_CODECS || "")
+    .split(",")
+    .map((entry: string) => entry.split("=").map((part) => part.trim()))
+    .filter(
+      ([subject, codec]: string[]) =>
+        subject && PAYLOAD_CODEC_NAMES.includes(codec as PayloadCodecName)
+    )
+    .map(([subject, codec]: string[]) => ({ subject, codec: codec as PayloadCodecName }));
+
+  const autoLockMinutes = Number(env.VITE_VAULT_AUTO_LOCK_MINUTES);
+  const expiryWarningMinutes = splitList(env.VITE_CREDENTIAL_EXPIRY_WARNINGS || "1440,60,5")
+    .map(Number)
+    .filter((minutes) => Number.isFinite(minutes) && minutes > 0);
+
+  return {
+    servers: servers.length > 0 ? servers : [DEFAULT_SERVER_URL],
+    namespace: env.VITE_NATS_NAMESPACE || "app",
+    authTypes: authTypes.length > 0 ? authTypes : ["credsfile"],
+    timeouts: {
+      connectMs: DEFAULT_NATS_CONFIG.timeout,
+      reconnectTimeWaitMs: DEFAULT_NATS_CONFIG.reconnectTimeWait,
+      pingIntervalMs: DEFAULT_NATS_CONFIG.pingInterval,
+      commandMs: NATS_DEFAULTS.COMMAND_TIMEOUT_MS,
+      stateFetchMs: NATS_DEFAULTS.STATE_FETCH_TIMEOUT_MS,
+      staleThresholdMs: NATS_DEFAULTS.STALE_THRESHOLD_MS,
+      optimisticReconcileMs: NATS_DEFAULTS.OPTIMISTIC_RECONCILE_TIMEOUT_MS,
+      signerMs: NATS_DEFAULTS.SIGNER_TIMEOUT_MS,
+    },
+    features: {
+      sharedConnection: env.VITE_NATS_SHARED_CONNECTION === "true",
+      eventsStream: env.VITE_NATS_EVENTS_STREAM?.trim() || null,
+      avatarBucket: env.VITE_NATS_AVATAR_BUCKET?.trim() || null,
+      stateSource,
+      payloadCodecs,
+    },
+    auth: {
+      // Only the dev server provides the mock signer
+      signerUrl: env.VITE_NATS_SIGNER_URL || (env.DEV ? "/dev/sign-nonce" : null),
+      autoLockMinutes:
+        env.VITE_VAULT_AUTO_LOCK_MINUTES && Number.isFinite(autoLockMinutes) && autoLockMinutes >= 0
+          ? autoLockMinutes
+          : 15,
+      expiryWarningMinutes: sortWarningMinutes(expiryWarningMinutes),
+      trustedOperators: splitList(env.VITE_NATS_TRUSTED_OPERATORS),
+      accountJwts: splitList(env.VITE_NATS_ACCOUNT_JWTS),
+    },
+    remote: null,
+  };
+}
+
+function applyOverrides(config: RuntimeConfig, overrides: RuntimeConfigOverrides): RuntimeConfig {
+  return {
+    ...config,
+    ...overrides,
+    timeouts: { ...config.timeouts, ...overrides.timeouts },
+    features: { ...config.features, ...overrides.features },
+    auth: { ...config.auth, ...overrides.auth },
+  };
+}
+
+// =============================================================================
+// Runtime Config Store
+// =============================================================================
+
+class RuntimeConfigStore {
+  private config: RuntimeConfig = readBuildConfig();
+  private sources: RuntimeConfigSource[] = ["build"];
+  private listeners = new Set<RuntimeConfigCallback>();
+
+  getConfig(): RuntimeConfig {
+    return this.config;
+  }
+
+  /**
+   * Layers the active configuration was built from, in order
+   */
+  getSources(): RuntimeConfigSource[] {
+    return this.sources;
+  }
+
+  /**
+   * Load `config.json` over the build-time defaults. A missing file keeps the
+   * defaults; an invalid or unreachable one is reported and not applied.
+   */
+  async load(
+    url: string = RUNTIME_CONFIG_URL,
+    timeoutMs: number = RUNTIME_CONFIG_TIMEOUT_MS
+  ): Promise<LoadConfigResult> {
+    let input: unknown;
+    try {
+      const response = await fetch(url, {
+        cache: "no-cache",
+        // The app does not start until this resolves
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (response.status === 404) {
+        return { success: true };
+      }
+      if (!response.ok) {
+        return { success: false, errors: [`${url} returned HTTP ${response.status}.`] };
+      }
+      // The dev server answers unknown paths with index.html
+      if (!response.headers.get("Content-Type")?.includes("json")) {
+        return { success: true };
+      }
+      input = await response.json();
+    } catch (error) {
+      const reason =
+        error instanceof Error && error.name === "TimeoutError"
+          ? `no response within ${timeoutMs / 1000} seconds.`
+          : error instanceof SyntaxError
+            ? "the file is not valid JSON."
+            : error instanceof Error
+              ? error.message
+              : String(error);
+      return { success: false, errors: [`Could not load ${url}: ${reason}`] };
+    }
+
+    const result = validateRuntimeConfig(input, "file");
+    if (!result.success) {
+      return result;
+    }
+
+    this.apply(result.overrides, "file");
+    return { success: true };
+  }
+
+  /**
+   * Apply overrides read from the remote KV key
+   */
+  applyRemote(input: unknown): LoadConfigResult {
+    const result = validateRuntimeConfig(input, "remote");
+    if (!result.success) {
+      return result;
+    }
+
+    this.apply(result.overrides, "remote");
+    return { success: true };
+  }
+
+  /**
+   * Subscribe to configuration changes
+   */
+  onChange(callback: RuntimeConfigCallback): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private apply(overrides: RuntimeConfigOverrides, source: RuntimeConfigSource): void {
+    this.config = applyOverrides(this.config, overrides);
+    this.sources = [...this.sources.filter((entry) => entry !== source), source];
+
+    for (const listener of this.listeners) {
+      try {
+        listener(this.config);
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+}
+
+// =============================================================================
+// Singleton
+// =============================================================================
+
+let storeInstance: RuntimeConfigStore | null = null;
+
+/**
+ * Get the runtime config store singleton instance
+ */
+export function getRuntimeConfigStore(): RuntimeConfigStore {
+  if (!storeInstance) {
+    storeInstance = new RuntimeConfigStore();
+  }
+  return storeInstance;
+}
+
+/**
+ * Get the active runtime configuration
+ */
+export function getRuntimeConfig(): RuntimeConfig {
+  return getRuntimeConfigStore().getConfig();
+}
+
+/**
+ * Get the configured timeouts
+ */
+export function getTimeouts(): RuntimeTimeouts {
+  return getRuntimeConfig().timeouts;
+}
+
+/**
+ * Reset the runtime config store (for testing purposes).
+ */
+export function resetRuntimeConfigStore(): void {
+  storeInstance = null;
+}
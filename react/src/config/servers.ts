@@ -0,0 +1,32 @@
+import { getRuntimeConfig } from "./runtime";
+
+/**
+ * Fallback server URL used when no servers are configured
+ */
+export const DEFAULT_SERVER_URL = "wss://localhost:9443";
+
+/**
+ * Normalize a server list: trims entries, drops empty ones and removes duplicates
+ * while keeping the original order (the order defines failover priority).
+ */
+export function normalizeServerUrls(servers: string | string[]): string[] {
+  const list = Array.isArray(servers) ? servers : servers.split(",");
+  const result: string[] = [];
+
+  for (const entry of list) {
+    const url = entry.trim();
+    if (url && !result.includes(url)) {
+      result.push(url);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get the configured NATS servers (runtime `servers`, or VITE_NATS_URL as a
+ * single URL or a comma-separated, ordered list).
+ */
+export function getServerUrls(): string[] {
+  return getRuntimeConfig().servers;
+}
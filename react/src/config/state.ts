@@ -0,0 +1,25 @@
+import { getRuntimeConfig } from "./runtime";
+
+/**
+ * Where EventProvider gets its state from
+ * - events: initial state request plus the event subscription (default)
+ * - kv: a JetStream KV bucket holding the materialized state
+ */
+export type StateSourceConfig =
+  | { type: "events" }
+  | {
+      type: "kv";
+      /** KV bucket to watch */
+      bucket: string;
+      /** Key prefix of the state within the bucket (empty for the whole bucket) */
+      prefix: string;
+    };
+
+/**
+ * Get the state source (runtime `features.stateSource`, or the build-time
+ * variables: VITE_NATS_STATE_SOURCE=kv selects the KV bucket named by
+ * VITE_NATS_STATE_BUCKET, optionally narrowed to keys under VITE_NATS_STATE_PREFIX).
+ */
+export function getStateSourceConfig(): StateSourceConfig {
+  return getRuntimeConfig().features.stateSource;
+}
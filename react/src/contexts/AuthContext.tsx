@@ -28,6 +28,7 @@ function generateTabId(): string {
 const initialConnection: Connection = {
   status: "disconnected",
   serverUrl: "",
+  servers: [],
   connectedAt: null,
   reconnectAttempt: 0,
   lastError: null,
@@ -95,12 +96,23 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
           ...state.connection,
           status: "connected",
           serverUrl: action.payload.serverUrl,
+          servers: action.payload.servers,
           connectedAt: Date.now(),
           reconnectAttempt: 0,
           lastError: null,
         },
       };
 
+    case "SET_SERVERS":
+      return {
+        ...state,
+        connection: {
+          ...state.connection,
+          serverUrl: action.payload.serverUrl ?? state.connection.serverUrl,
+          servers: action.payload.servers,
+        },
+      };
+
     case "SET_RECONNECTING":
       return {
         ...state,
@@ -165,7 +177,8 @@ interface AuthContextValue {
   loadCredential: (credential: Credential) => void;
   loadCredentialError: (error: ConnectionError) => void;
   setConnecting: () => void;
-  setConnected: (serverUrl: string) => void;
+  setConnected: (serverUrl: string, servers?: string[]) => void;
+  setServers: (servers: string[], serverUrl?: string) => void;
   setReconnecting: (attempt: number) => void;
   setDisconnected: () => void;
   setFailed: (error: ConnectionError) => void;
@@ -216,8 +229,12 @@ export function AuthProvider({ children }: AuthProviderProps) {
     dispatch({ type: "SET_CONNECTING" });
   }, []);
 
-  const setConnected = useCallback((serverUrl: string) => {
-    dispatch({ type: "SET_CONNECTED", payload: { serverUrl } });
+  const setConnected = useCallback((serverUrl: string, servers: string[] = [serverUrl]) => {
+    dispatch({ type: "SET_CONNECTED", payload: { serverUrl, servers } });
+  }, []);
+
+  const setServers = useCallback((servers: string[], serverUrl?: string) => {
+    dispatch({ type: "SET_SERVERS", payload: { servers, serverUrl } });
   }, []);
 
   const setReconnecting = useCallback((attempt: number) => {
@@ -282,6 +299,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     loadCredentialError,
     setConnecting,
     setConnected,
+    setServers,
     setReconnecting,
     setDisconnected,
     setFailed,
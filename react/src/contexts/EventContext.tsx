@@ -5,9 +5,14 @@
  *
  * Manages the event-driven application state, including:
  * - Initial state loading from NATS
- * - Real-time event subscription
+ * - Real-time event subscription, with JetStream replay of missed events when
+ *   an event stream is configured
+ * - Alternatively, watching a KV bucket that holds the materialized state
  * - State persistence to IndexedDB
- * - Cross-tab synchronization
+ * - Cross-tab synchronization: changes applied by other tabs are patched in
+ *   directly, with a reload from IndexedDB only after a missed invalidation.
+ *   Follower tabs of a shared connection get all their changes this way.
+ * - Optimistic updates layered on top of the confirmed state
  */
 
 import {
@@ -18,15 +23,25 @@ import {
   useCallback,
   useRef,
   useState,
+  useMemo,
   type ReactNode,
 } from "react";
 import type { AppEvent, GetStateResponse, Notification, Session } from "../types/events";
-import type { AppState, SyncStatus } from "../types/state";
-import { INITIAL_APP_STATE, NATS_DEFAULTS } from "../types/state";
-import { appStateReducer } from "../services/state/reducer";
-import { getStateStorage } from "../services/state/store";
+import type { AppState, KvStateChange, StateInvalidatedPayload, SyncStatus } from "../types/state";
+import { INITIAL_APP_STATE } from "../types/state";
+import { getTimeouts } from "../config/runtime";
+import { getEventDefinition } from "../domains";
+import { getStateSourceConfig, type StateSourceConfig } from "../config/state";
+import { appStateReducer, applyKvStateChange } from "../services/state/reducer";
+import {
+  applyOptimisticMutations,
+  removeOptimisticMutation,
+  type OptimisticMutation,
+} from "../services/state/optimistic";
+import { getStateStorage, persistKvStateChange } from "../services/state/store";
 import { getStateSyncService, generateTabId } from "../services/state/sync";
 import { getEventService } from "../services/nats/events";
+import { getKvStateService } from "../services/nats/kvState";
 import { getNatsService } from "../services/nats/connection";
 
 // =============================================================================
@@ -36,18 +51,25 @@ import { getNatsService } from "../services/nats/connection";
 interface EventContextState extends AppState {
   /** Error message if state loading failed */
   error: string | null;
+  /** Optimistic mutations awaiting their events, in the order they were applied */
+  pendingMutations: OptimisticMutation[];
 }
 
 type EventContextAction =
   | { type: "SET_SYNCING" }
   | { type: "SET_STATE"; payload: AppState }
   | { type: "APPLY_EVENT"; payload: AppEvent }
+  | { type: "APPLY_KV_CHANGE"; payload: KvStateChange }
   | { type: "SET_SYNC_STATUS"; payload: SyncStatus }
+  | { type: "MARK_SYNCED" }
   | { type: "SET_ERROR"; payload: string }
   | { type: "CLEAR_ERROR" }
+  | { type: "ADD_OPTIMISTIC"; payload: OptimisticMutation }
+  | { type: "REVERT_OPTIMISTIC"; payload: { commandId: string } }
   | { type: "RESET" };
 
 interface EventContextValue {
+  /** Confirmed state with pending optimistic mutations applied */
   state: EventContextState;
   /** Whether the app is currently loading initial state */
   isLoading: boolean;
@@ -61,6 +83,12 @@ interface EventContextValue {
   activeSessionCount: number;
   /** Manually refresh state from backend */
   refreshState: () => Promise<void>;
+  /** Show the predicted events of a command immediately */
+  applyOptimisticUpdate: (commandId: string, events: AppEvent[]) => void;
+  /** Command acknowledged - revert if its event does not arrive in time */
+  confirmOptimisticUpdate: (commandId: string) => void;
+  /** Drop the optimistic mutation of a failed command */
+  revertOptimisticUpdate: (commandId: string) => void;
 }
 
 // =============================================================================
@@ -70,6 +98,7 @@ interface EventContextValue {
 const initialContextState: EventContextState = {
   ...INITIAL_APP_STATE,
   error: null,
+  pendingMutations: [],
 };
 
 function eventContextReducer(
@@ -81,27 +110,61 @@ function eventContextReducer(
       return { ...state, syncStatus: "syncing", error: null };
 
     case "SET_STATE":
-      return { ...action.payload, error: null };
+      // Keep pending mutations - a refetch may not reflect them yet
+      return { ...action.payload, error: null, pendingMutations: state.pendingMutations };
 
     case "APPLY_EVENT": {
       const newState = appStateReducer(state, action.payload);
+      // An event caused by a command reconciles that command's optimistic mutation
+      const { correlationId } = action.payload;
       return {
         ...newState,
         lastSyncedAt: Date.now(),
         syncStatus: "synced",
         error: null,
+        pendingMutations: correlationId
+          ? removeOptimisticMutation(state.pendingMutations, correlationId)
+          : state.pendingMutations,
       };
     }
 
+    case "APPLY_KV_CHANGE":
+      return {
+        ...state,
+        ...applyKvStateChange(state, action.payload),
+        lastSyncedAt: Date.now(),
+        error: null,
+      };
+
     case "SET_SYNC_STATUS":
       return { ...state, syncStatus: action.payload };
 
+    case "MARK_SYNCED":
+      return { ...state, syncStatus: "synced", lastSyncedAt: Date.now(), error: null };
+
     case "SET_ERROR":
       return { ...state, error: action.payload, syncStatus: "stale" };
 
     case "CLEAR_ERROR":
       return { ...state, error: null };
 
+    case "ADD_OPTIMISTIC":
+      return {
+        ...state,
+        pendingMutations: [
+          ...removeOptimisticMutation(state.pendingMutations, action.payload.commandId),
+          action.payload,
+        ],
+      };
+
+    case "REVERT_OPTIMISTIC": {
+      const pendingMutations = removeOptimisticMutation(
+        state.pendingMutations,
+        action.payload.commandId
+      );
+      return pendingMutations === state.pendingMutations ? state : { ...state, pendingMutations };
+    }
+
     case "RESET":
       return initialContextState;
 
@@ -124,20 +187,42 @@ interface EventProviderProps {
   children: ReactNode;
   /** NATS namespace (optional, uses env or default) */
   namespace?: string;
+  /** Where the state comes from (optional, uses env or the event subscription) */
+  stateSource?: StateSourceConfig;
 }
 
-export function EventProvider({ children, namespace }: EventProviderProps) {
-  const [state, dispatch] = useReducer(eventContextReducer, initialContextState);
+export function EventProvider({ children, namespace, stateSource }: EventProviderProps) {
+  const [confirmedState, dispatch] = useReducer(eventContextReducer, initialContextState);
+  const state = useMemo(
+    () => applyOptimisticMutations(confirmedState, confirmedState.pendingMutations),
+    [confirmedState]
+  );
   // Use useState with lazy initializer to generate tabId once
   const [tabId] = useState(() => generateTabId());
+  // The state source is fixed for the lifetime of the provider
+  const [source] = useState(() => stateSource ?? getStateSourceConfig());
   const unsubscribeRef = useRef<(() => void) | null>(null);
   const isInitializedRef = useRef(false);
+  const reconcileTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const isKvReadyRef = useRef(false);
+
+  const clearReconcileTimer = useCallback((commandId: string) => {
+    const timer = reconcileTimersRef.current.get(commandId);
+    if (timer) {
+      clearTimeout(timer);
+      reconcileTimersRef.current.delete(commandId);
+    }
+  }, []);
 
   // Get services - memoize to avoid recreation
   const storage = getStateStorage();
   const syncService = getStateSyncService(tabId);
   const eventService = getEventService(namespace ? { namespace } : undefined);
   const natsService = getNatsService();
+  const kvStateService =
+    source.type === "kv"
+      ? getKvStateService({ bucket: source.bucket, prefix: source.prefix })
+      : null;
 
   // Derived state
   const isLoading = state.syncStatus === "syncing";
@@ -154,7 +239,7 @@ export function EventProvider({ children, namespace }: EventProviderProps) {
       const stale =
         state.syncStatus === "stale" ||
         state.syncStatus === "offline" ||
-        (state.lastSyncedAt > 0 && now - state.lastSyncedAt > NATS_DEFAULTS.STALE_THRESHOLD_MS);
+        (state.lastSyncedAt > 0 && now - state.lastSyncedAt > getTimeouts().staleThresholdMs);
       setIsStale(stale);
 
       const activeCount = Object.values(state.sessions).filter(
@@ -245,6 +330,9 @@ export function EventProvider({ children, namespace }: EventProviderProps) {
 
     const handleEvent = async (event: AppEvent) => {
       dispatch({ type: "APPLY_EVENT", payload: event });
+      if (event.correlationId) {
+        clearReconcileTimer(event.correlationId);
+      }
 
       // Persist to storage
       try {
@@ -256,13 +344,10 @@ export function EventProvider({ children, namespace }: EventProviderProps) {
           syncStatus: "synced",
         });
 
-        // Notify other tabs
-        const keys: Array<"user" | "sessions" | "notifications"> = [];
-        if (event.type === "user.updated") keys.push("user");
-        if (event.type.startsWith("session.")) keys.push("sessions");
-        if (event.type.startsWith("notification.")) keys.push("notifications");
+        // Notify other tabs about the state keys the event touched
+        const keys = getEventDefinition(event.type)?.touches ?? [];
         if (keys.length > 0) {
-          syncService.notifyStateInvalidated(keys);
+          syncService.notifyStateInvalidated(keys, { type: "event", event });
         }
       } catch (error) {
         console.error("Failed to persist event to storage:", error);
@@ -279,13 +364,130 @@ export function EventProvider({ children, namespace }: EventProviderProps) {
     } catch (error) {
       console.error("Failed to subscribe to events:", error);
     }
-  }, [eventService, storage, syncService]);
+  }, [eventService, storage, syncService, clearReconcileTimer]);
+
+  // Optimistic updates
+  const applyOptimisticUpdate = useCallback((commandId: string, events: AppEvent[]) => {
+    if (events.length === 0) return;
+    dispatch({
+      type: "ADD_OPTIMISTIC",
+      payload: { commandId, events, createdAt: Date.now() },
+    });
+  }, []);
+
+  const revertOptimisticUpdate = useCallback(
+    (commandId: string) => {
+      clearReconcileTimer(commandId);
+      dispatch({ type: "REVERT_OPTIMISTIC", payload: { commandId } });
+    },
+    [clearReconcileTimer]
+  );
+
+  const confirmOptimisticUpdate = useCallback(
+    (commandId: string) => {
+      clearReconcileTimer(commandId);
+      // The command was accepted; if its event never arrives, fall back to the
+      // confirmed state rather than showing a prediction forever
+      const timer = setTimeout(() => {
+        reconcileTimersRef.current.delete(commandId);
+        revertOptimisticUpdate(commandId);
+      }, getTimeouts().optimisticReconcileMs);
+      reconcileTimersRef.current.set(commandId, timer);
+    },
+    [clearReconcileTimer, revertOptimisticUpdate]
+  );
+
+  // Watch the KV bucket holding the state (KV state source)
+  const watchKvState = useCallback(
+    async (forceReload: boolean) => {
+      if (!kvStateService) return;
+
+      // Stop the existing watch
+      if (unsubscribeRef.current) {
+        unsubscribeRef.current();
+        unsubscribeRef.current = null;
+      }
+
+      unsubscribeRef.current = await kvStateService.watch(
+        {
+          onReset: async () => {
+            isKvReadyRef.current = false;
+            const emptyState: AppState = { ...INITIAL_APP_STATE, lastSyncedAt: Date.now() };
+            dispatch({ type: "SET_STATE", payload: emptyState });
+            await storage.setState(emptyState);
+          },
+          onChange: async (change) => {
+            dispatch({ type: "APPLY_KV_CHANGE", payload: change });
+            try {
+              await persistKvStateChange(storage, change);
+              // Other tabs are notified once the initial values are in
+              if (isKvReadyRef.current) {
+                syncService.notifyStateInvalidated([change.slice], { type: "kv", change });
+              }
+            } catch (error) {
+              console.error("Failed to persist KV state change to storage:", error);
+            }
+          },
+          onReady: () => {
+            isKvReadyRef.current = true;
+            dispatch({ type: "MARK_SYNCED" });
+            syncService.notifyStateInvalidated(["user", "sessions", "notifications"]);
+          },
+          onError: (error) => {
+            console.error("KV state watch error:", error);
+            dispatch({ type: "SET_SYNC_STATUS", payload: "stale" });
+          },
+        },
+        { forceReload }
+      );
+    },
+    [kvStateService, storage, syncService]
+  );
+
+  // Catch up with the server: replay missed events if possible, otherwise refetch
+  const syncWithServer = useCallback(
+    async (forceRefetch = false) => {
+      if (natsService.tabRole === "follower") {
+        // The leader tab keeps IndexedDB up to date - stop any subscription of
+        // our own (this tab may have just lost leadership) and read from there
+        if (unsubscribeRef.current) {
+          unsubscribeRef.current();
+          unsubscribeRef.current = null;
+        }
+        const storedState = await storage.getState();
+        dispatch({ type: "SET_STATE", payload: { ...storedState, syncStatus: "synced" } });
+        return;
+      }
+
+      if (kvStateService) {
+        await watchKvState(forceRefetch);
+        return;
+      }
+
+      const plan = await eventService.prepareSubscription({ forceRefetch });
+      if (plan.refetchState) {
+        await fetchInitialState();
+      }
+      await subscribeToEvents();
+      if (!plan.refetchState) {
+        dispatch({ type: "MARK_SYNCED" });
+      }
+    },
+    [
+      natsService,
+      storage,
+      kvStateService,
+      watchKvState,
+      eventService,
+      fetchInitialState,
+      subscribeToEvents,
+    ]
+  );
 
   // Manual refresh
   const refreshState = useCallback(async () => {
-    await fetchInitialState();
-    await subscribeToEvents();
-  }, [fetchInitialState, subscribeToEvents]);
+    await syncWithServer(true);
+  }, [syncWithServer]);
 
   // Initialize on mount when connected
   useEffect(() => {
@@ -298,10 +500,9 @@ export function EventProvider({ children, namespace }: EventProviderProps) {
       // First, try to load from storage for immediate display
       await loadFromStorage();
 
-      // Then, fetch fresh state from server
+      // Then, catch up with the server
       try {
-        await fetchInitialState();
-        await subscribeToEvents();
+        await syncWithServer();
       } catch (error) {
         console.error("Failed to initialize state:", error);
         // Keep showing stored state if available
@@ -309,7 +510,7 @@ export function EventProvider({ children, namespace }: EventProviderProps) {
     };
 
     initializeState();
-  }, [natsService, loadFromStorage, fetchInitialState, subscribeToEvents]);
+  }, [natsService, loadFromStorage, syncWithServer]);
 
   // Handle connection status changes
   useEffect(() => {
@@ -321,8 +522,7 @@ export function EventProvider({ children, namespace }: EventProviderProps) {
             isInitializedRef.current = true;
             await loadFromStorage();
             try {
-              await fetchInitialState();
-              await subscribeToEvents();
+              await syncWithServer();
             } catch (error) {
               console.error("Failed to initialize on connect:", error);
             }
@@ -330,11 +530,10 @@ export function EventProvider({ children, namespace }: EventProviderProps) {
           break;
 
         case "reconnected":
-          // Reconnection - refresh state
+          // Reconnection - replay missed events, or refresh state
           dispatch({ type: "SET_SYNCING" });
           try {
-            await fetchInitialState();
-            await subscribeToEvents();
+            await syncWithServer();
           } catch (error) {
             console.error("Failed to refresh on reconnect:", error);
           }
@@ -351,14 +550,32 @@ export function EventProvider({ children, namespace }: EventProviderProps) {
     });
 
     return unsubscribe;
-  }, [natsService, loadFromStorage, fetchInitialState, subscribeToEvents]);
+  }, [natsService, loadFromStorage, syncWithServer]);
 
   // Handle cross-tab sync messages
   useEffect(() => {
     const unsubscribe = syncService.subscribe(async (message) => {
       switch (message.type) {
-        case "STATE_INVALIDATED":
-          // Another tab updated state - reload from storage
+        case "STATE_INVALIDATED": {
+          const { patch } = message.payload as StateInvalidatedPayload;
+
+          if (patch) {
+            // A tab with its own subscription or watch receives the change itself
+            if (unsubscribeRef.current && natsService.isConnected()) break;
+
+            if (patch.type === "event") {
+              dispatch({ type: "APPLY_EVENT", payload: patch.event });
+              if (patch.event.correlationId) {
+                clearReconcileTimer(patch.event.correlationId);
+              }
+              eventService.resolveCorrelatedEvent(patch.event);
+            } else {
+              dispatch({ type: "APPLY_KV_CHANGE", payload: patch.change });
+            }
+            break;
+          }
+
+          // The whole state was replaced, or an invalidation was missed - reload
           try {
             const storedState = await storage.getState();
             dispatch({ type: "SET_STATE", payload: storedState });
@@ -366,6 +583,7 @@ export function EventProvider({ children, namespace }: EventProviderProps) {
             console.error("Failed to sync state from storage:", error);
           }
           break;
+        }
 
         case "LOGOUT":
           dispatch({ type: "RESET" });
@@ -374,14 +592,19 @@ export function EventProvider({ children, namespace }: EventProviderProps) {
     });
 
     return unsubscribe;
-  }, [syncService, storage]);
+  }, [syncService, storage, natsService, eventService, clearReconcileTimer]);
 
   // Cleanup on unmount
   useEffect(() => {
+    const reconcileTimers = reconcileTimersRef.current;
     return () => {
       if (unsubscribeRef.current) {
         unsubscribeRef.current();
       }
+      for (const timer of reconcileTimers.values()) {
+        clearTimeout(timer);
+      }
+      reconcileTimers.clear();
     };
   }, []);
 
@@ -393,6 +616,9 @@ export function EventProvider({ children, namespace }: EventProviderProps) {
     unreadNotificationCount,
     activeSessionCount,
     refreshState,
+    applyOptimisticUpdate,
+    confirmOptimisticUpdate,
+    revertOptimisticUpdate,
   };
 
   return <EventContext.Provider value={value}>{children}</EventContext.Provider>;
@@ -413,3 +639,12 @@ export function useEventContext(): EventContextValue {
   }
   return context;
 }
+
+/**
+ * Hook to access the event context where an EventProvider may be missing,
+ * e.g. in the navigation of public pages. Returns null outside a provider.
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function useOptionalEventContext(): EventContextValue | null {
+  return useContext(EventContext);
+}
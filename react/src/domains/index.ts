@@ -0,0 +1,100 @@
+/**
+ * Domain Registry
+ *
+ * Feature: 002-event-driven-state
+ *
+ * Every domain is registered here. The command and event unions, the reducer,
+ * event validation and command routing are all derived from this list, so a new
+ * domain only needs its own module and one entry below.
+ */
+
+import { notificationDomain } from "./notifications";
+import type {
+  CommandDefinition,
+  CommandOf,
+  CommandShape,
+  EventDefinition,
+  EventOf,
+  EventShape,
+} from "./registry";
+import { sessionDomain } from "./sessions";
+import { userDomain } from "./user";
+
+export const domains = [userDomain, sessionDomain, notificationDomain] as const;
+
+// =============================================================================
+// Derived Types
+// =============================================================================
+
+type RegisteredDomain = (typeof domains)[number];
+
+/** Union of all registered commands */
+export type RegisteredCommand = CommandOf<RegisteredDomain["commands"][number]>;
+
+/** Union of all registered events */
+export type RegisteredEvent = EventOf<RegisteredDomain["events"][number]>;
+
+export type RegisteredCommandType = RegisteredCommand["type"];
+
+export type RegisteredEventType = RegisteredEvent["type"];
+
+/** Payload of each registered command, keyed by command type */
+export type CommandPayloadMap = { [C in RegisteredCommand as C["type"]]: C["payload"] };
+
+/** Payload of a registered command type */
+export type RegisteredCommandPayload<K extends RegisteredCommandType> = CommandPayloadMap[K];
+
+/** Definition of a registered command, looked up by its type */
+export type CommandDefinitionFor<K extends RegisteredCommandType> = CommandDefinition<
+  CommandShape & { type: K; payload: RegisteredCommandPayload<K> },
+  EventShape
+>;
+
+// =============================================================================
+// Lookups
+// =============================================================================
+
+const commandDefinitions = new Map<string, CommandDefinition<CommandShape, EventShape>>();
+const eventDefinitions = new Map<string, EventDefinition<EventShape>>();
+
+for (const domain of domains) {
+  for (const command of domain.commands) {
+    if (commandDefinitions.has(command.type)) {
+      throw new Error(`Command "${command.type}" is registered twice`);
+    }
+    commandDefinitions.set(command.type, command);
+  }
+  for (const event of domain.events) {
+    if (eventDefinitions.has(event.type)) {
+      throw new Error(`Event "${event.type}" is registered twice`);
+    }
+    eventDefinitions.set(event.type, event);
+  }
+}
+
+/**
+ * Get the definition of a registered command.
+ */
+export function getCommandDefinition<K extends RegisteredCommandType>(
+  type: K
+): CommandDefinitionFor<K> {
+  const definition = commandDefinitions.get(type);
+  if (!definition) {
+    throw new Error(`Unknown command type: ${type}`);
+  }
+  return definition as CommandDefinitionFor<K>;
+}
+
+/**
+ * Get the definition of an event, or undefined if the type is not registered.
+ */
+export function getEventDefinition(type: string): EventDefinition<RegisteredEvent> | undefined {
+  return eventDefinitions.get(type) as EventDefinition<RegisteredEvent> | undefined;
+}
+
+/**
+ * Check whether an event type is registered.
+ */
+export function isRegisteredEventType(type: string): type is RegisteredEventType {
+  return eventDefinitions.has(type);
+}
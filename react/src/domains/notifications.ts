@@ -0,0 +1,170 @@
+/**
+ * Notifications Domain
+ *
+ * Feature: 002-event-driven-state
+ *
+ * Receiving, reading and dismissing notifications.
+ */
+
+import type { BaseCommand } from "../types/commands";
+import type { BaseEvent, Notification } from "../types/events";
+import type { AppState } from "../types/state";
+import { defineCommand, defineDomain, defineEvent } from "./registry";
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+export interface DismissNotificationCommand extends BaseCommand {
+  type: "notification.dismiss";
+  payload: {
+    notificationId: string;
+  };
+}
+
+export interface MarkNotificationReadCommand extends BaseCommand {
+  type: "notification.markRead";
+  payload: {
+    notificationId: string;
+  };
+}
+
+export interface MarkAllNotificationsReadCommand extends BaseCommand {
+  type: "notification.markAllRead";
+  payload: Record<string, never>;
+}
+
+// =============================================================================
+// Events
+// =============================================================================
+
+export interface NotificationReceivedEvent extends BaseEvent {
+  type: "notification.received";
+  payload: Notification;
+}
+
+export interface NotificationReadEvent extends BaseEvent {
+  type: "notification.read";
+  payload: {
+    notificationId: string;
+  };
+}
+
+export interface NotificationDismissedEvent extends BaseEvent {
+  type: "notification.dismissed";
+  payload: {
+    notificationId: string;
+  };
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate notification ID.
+ */
+export function validateNotificationId(notificationId: string): { valid: boolean; error?: string } {
+  if (!notificationId || typeof notificationId !== "string") {
+    return { valid: false, error: "Notification ID is required" };
+  }
+  if (notificationId.length === 0) {
+    return { valid: false, error: "Notification ID cannot be empty" };
+  }
+  return { valid: true };
+}
+
+/**
+ * Apply a change to a known notification. Unknown notifications are ignored.
+ */
+function updateNotification(
+  state: AppState,
+  notificationId: string,
+  changes: Partial<Notification>
+): AppState {
+  const notification = state.notifications[notificationId];
+  if (!notification) return state;
+  return {
+    ...state,
+    notifications: {
+      ...state.notifications,
+      [notificationId]: { ...notification, ...changes },
+    },
+  };
+}
+
+// =============================================================================
+// Definitions
+// =============================================================================
+
+export const dismissNotification = defineCommand<
+  DismissNotificationCommand,
+  NotificationDismissedEvent
+>({
+  type: "notification.dismiss",
+  subject: "notification.dismiss",
+  examplePayload: { notificationId: "notification-id" },
+  validate: (payload) => validateNotificationId(payload.notificationId).error ?? null,
+  predict: ({ notificationId }, state) =>
+    state.notifications[notificationId]
+      ? [{ type: "notification.dismissed", payload: { notificationId } }]
+      : [],
+});
+
+export const markNotificationRead = defineCommand<
+  MarkNotificationReadCommand,
+  NotificationReadEvent
+>({
+  type: "notification.markRead",
+  subject: "notification.markRead",
+  examplePayload: { notificationId: "notification-id" },
+  validate: (payload) => validateNotificationId(payload.notificationId).error ?? null,
+  predict: ({ notificationId }, state) =>
+    state.notifications[notificationId]
+      ? [{ type: "notification.read", payload: { notificationId } }]
+      : [],
+});
+
+export const markAllNotificationsRead = defineCommand<
+  MarkAllNotificationsReadCommand,
+  NotificationReadEvent
+>({
+  type: "notification.markAllRead",
+  subject: "notification.markAllRead",
+  timeoutMs: 10000,
+  predict: (_payload, state) =>
+    Object.values(state.notifications)
+      .filter((n) => !n.read && !n.dismissed)
+      .map((n) => ({ type: "notification.read", payload: { notificationId: n.id } })),
+});
+
+export const notificationReceived = defineEvent<NotificationReceivedEvent>({
+  type: "notification.received",
+  touches: ["notifications"],
+  reduce: (state, event) => ({
+    ...state,
+    notifications: {
+      ...state.notifications,
+      [event.payload.id]: event.payload,
+    },
+  }),
+});
+
+export const notificationRead = defineEvent<NotificationReadEvent>({
+  type: "notification.read",
+  touches: ["notifications"],
+  reduce: (state, event) => updateNotification(state, event.payload.notificationId, { read: true }),
+});
+
+export const notificationDismissed = defineEvent<NotificationDismissedEvent>({
+  type: "notification.dismissed",
+  touches: ["notifications"],
+  reduce: (state, event) =>
+    updateNotification(state, event.payload.notificationId, { dismissed: true }),
+});
+
+export const notificationDomain = defineDomain({
+  name: "notifications",
+  commands: [dismissNotification, markNotificationRead, markAllNotificationsRead],
+  events: [notificationReceived, notificationRead, notificationDismissed],
+});
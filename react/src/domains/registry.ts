@@ -0,0 +1,109 @@
+/**
+ * Command & Event Registry Definitions
+ *
+ * Feature: 002-event-driven-state
+ *
+ * A domain declares each of its commands and events once: the command's subject,
+ * payload validator, timeout and predicted events, and the event's reducer. The
+ * command service, event service, useCommand and EventContext pick definitions
+ * up from the registry instead of switching on command and event types.
+ */
+
+import type { BaseCommand } from "../types/commands";
+import type { BaseEvent } from "../types/events";
+import type { AppState, StateInvalidatedPayload } from "../types/state";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Top-level state key an event touches (used for cross-tab invalidation) */
+export type StateKey = StateInvalidatedPayload["keys"][number];
+
+/** Shape every registered command conforms to */
+export interface CommandShape extends BaseCommand {
+  payload: unknown;
+}
+
+/** Shape every registered event conforms to */
+export interface EventShape extends BaseEvent {
+  payload: unknown;
+}
+
+/** An event predicted by a command before the backend emits it */
+export type PredictedEvent<E extends EventShape> = E extends EventShape
+  ? Pick<E, "type" | "payload">
+  : never;
+
+export interface CommandDefinition<C extends CommandShape, E extends EventShape = never> {
+  type: C["type"];
+  /** Subject relative to `{namespace}.commands.` */
+  subject: string;
+  /** Request timeout (defaults to the command service's default timeout) */
+  timeoutMs?: number;
+  /** Sample payload, used to pre-fill playground templates */
+  examplePayload?: C["payload"];
+  /** Return an error message for an invalid payload, or null if valid */
+  validate?(payload: C["payload"]): string | null;
+  /** Predict the events the command will produce, for optimistic updates */
+  predict?(payload: C["payload"], state: AppState): PredictedEvent<E>[];
+}
+
+export interface EventDefinition<E extends EventShape> {
+  type: E["type"];
+  /** State keys the event changes */
+  touches: StateKey[];
+  /** Apply the event to the state. Must be pure. */
+  reduce(state: AppState, event: E): AppState;
+}
+
+export interface DomainDefinition {
+  name: string;
+  commands: readonly CommandDefinition<CommandShape, EventShape>[];
+  events: readonly EventDefinition<EventShape>[];
+}
+
+/** Command type declared by a command definition */
+export type CommandOf<D> = D extends CommandDefinition<infer C, EventShape> ? C : never;
+
+/** Event type declared by an event definition */
+export type EventOf<D> = D extends EventDefinition<infer E> ? E : never;
+
+// =============================================================================
+// Definition Helpers
+// =============================================================================
+
+/**
+ * Declare a command.
+ *
+ * @example
+ * ```ts
+ * const updateProfile = defineCommand<UpdateProfileCommand, UserUpdatedEvent>({
+ *   type: "user.updateProfile",
+ *   subject: "user.updateProfile",
+ *   timeoutMs: 10000,
+ *   validate: (payload) => (payload.name === "" ? "Name cannot be empty" : null),
+ * });
+ * ```
+ */
+export function defineCommand<C extends CommandShape, E extends EventShape = never>(
+  definition: CommandDefinition<C, E>
+): CommandDefinition<C, E> {
+  return definition;
+}
+
+/**
+ * Declare an event and how it changes the state.
+ */
+export function defineEvent<E extends EventShape>(
+  definition: EventDefinition<E>
+): EventDefinition<E> {
+  return definition;
+}
+
+/**
+ * Group the commands and events of a domain. Register the result in `domains/index.ts`.
+ */
+export function defineDomain<const D extends DomainDefinition>(definition: D): D {
+  return definition;
+}
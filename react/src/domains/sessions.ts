@@ -0,0 +1,63 @@
+/**
+ * Sessions Domain
+ *
+ * Feature: 002-event-driven-state
+ *
+ * Session lifecycle events. Sessions are managed by the backend, so the domain
+ * has no commands.
+ */
+
+import type { BaseEvent, Session } from "../types/events";
+import { defineDomain, defineEvent } from "./registry";
+
+// =============================================================================
+// Events
+// =============================================================================
+
+export interface SessionCreatedEvent extends BaseEvent {
+  type: "session.created";
+  payload: Session;
+}
+
+export interface SessionExpiredEvent extends BaseEvent {
+  type: "session.expired";
+  payload: {
+    sessionId: string;
+    reason: "timeout" | "logout" | "revoked";
+  };
+}
+
+// =============================================================================
+// Definitions
+// =============================================================================
+
+export const sessionCreated = defineEvent<SessionCreatedEvent>({
+  type: "session.created",
+  touches: ["sessions"],
+  reduce: (state, event) => ({
+    ...state,
+    sessions: {
+      ...state.sessions,
+      [event.payload.id]: event.payload,
+    },
+  }),
+});
+
+export const sessionExpired = defineEvent<SessionExpiredEvent>({
+  type: "session.expired",
+  touches: ["sessions"],
+  reduce: (state, event) => {
+    const { [event.payload.sessionId]: _removed, ...remainingSessions } = state.sessions;
+    void _removed; // Intentionally unused - destructuring to remove from object
+    return {
+      ...state,
+      sessions: remainingSessions,
+    };
+  },
+});
+
+export const sessionDomain = defineDomain({
+  name: "sessions",
+  commands: [],
+  events: [sessionCreated, sessionExpired],
+});
@@ -0,0 +1,121 @@
+/**
+ * User Domain
+ *
+ * Feature: 002-event-driven-state
+ *
+ * Profile updates for the current user.
+ */
+
+import type { BaseCommand } from "../types/commands";
+import type { BaseEvent, User } from "../types/events";
+import { defineCommand, defineDomain, defineEvent } from "./registry";
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+export interface UpdateProfileCommand extends BaseCommand {
+  type: "user.updateProfile";
+  payload: {
+    name?: string;
+    avatarUrl?: string;
+    /** Object name in the avatar bucket; empty to remove the uploaded avatar */
+    avatarObject?: string;
+  };
+}
+
+// =============================================================================
+// Events
+// =============================================================================
+
+export interface UserUpdatedEvent extends BaseEvent {
+  type: "user.updated";
+  payload: {
+    id: string;
+    changes: Partial<Omit<User, "id">>;
+  };
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate command payload before sending.
+ */
+export function validateUpdateProfilePayload(payload: UpdateProfileCommand["payload"]): {
+  valid: boolean;
+  error?: string;
+} {
+  if (payload.name !== undefined) {
+    if (typeof payload.name !== "string") {
+      return { valid: false, error: "Name must be a string" };
+    }
+    if (payload.name.length === 0) {
+      return { valid: false, error: "Name cannot be empty" };
+    }
+    if (payload.name.length > 255) {
+      return { valid: false, error: "Name cannot exceed 255 characters" };
+    }
+  }
+
+  if (payload.avatarUrl !== undefined) {
+    if (typeof payload.avatarUrl !== "string") {
+      return { valid: false, error: "Avatar URL must be a string" };
+    }
+  }
+
+  if (payload.avatarObject !== undefined) {
+    if (typeof payload.avatarObject !== "string") {
+      return { valid: false, error: "Avatar object must be a string" };
+    }
+    if (payload.avatarObject.length > 255) {
+      return { valid: false, error: "Avatar object name cannot exceed 255 characters" };
+    }
+  }
+
+  // At least one field must be provided
+  if (
+    payload.name === undefined &&
+    payload.avatarUrl === undefined &&
+    payload.avatarObject === undefined
+  ) {
+    return { valid: false, error: "At least one field must be provided" };
+  }
+
+  return { valid: true };
+}
+
+// =============================================================================
+// Definitions
+// =============================================================================
+
+export const updateProfile = defineCommand<UpdateProfileCommand, UserUpdatedEvent>({
+  type: "user.updateProfile",
+  subject: "user.updateProfile",
+  timeoutMs: 10000,
+  examplePayload: { name: "Ada Lovelace" },
+  validate: (payload) => validateUpdateProfilePayload(payload).error ?? null,
+  predict: (payload, state) =>
+    state.user ? [{ type: "user.updated", payload: { id: state.user.id, changes: payload } }] : [],
+});
+
+export const userUpdated = defineEvent<UserUpdatedEvent>({
+  type: "user.updated",
+  touches: ["user"],
+  reduce: (state, event) => {
+    if (!state.user || state.user.id !== event.payload.id) {
+      return state;
+    }
+    return {
+      ...state,
+      user: { ...state.user, ...event.payload.changes },
+    };
+  },
+});
+
+export const userDomain = defineDomain({
+  name: "user",
+  commands: [updateProfile],
+  events: [userUpdated],
+});
@@ -1,9 +1,40 @@
 import { useCallback } from "react";
 import { useAuthContext } from "@/contexts/AuthContext";
 import { getNatsService } from "@/services/nats/connection";
-import { parseCredentialFile } from "@/services/credentials/parser";
+import { parseCredentialFile, verifyCredentialTrust } from "@/services/credentials/parser";
+import { createConnectionError } from "@/utils/errors";
 import { getCredentialStorage } from "@/services/credentials/storage";
-import type { Credential, ConnectionError } from "@/types";
+import { clearDatabase } from "@/services/state/database";
+import { getStateSyncService } from "@/services/state/sync";
+import { isCredsFileCredential } from "@/types";
+import type {
+  Credential,
+  ConnectionError,
+  StoreCredentialOptions,
+  StoredCredential,
+} from "@/types";
+
+/**
+ * Store a credential without failing the login: a locked passphrase vault
+ * cannot encrypt it, so the session continues without remembering it.
+ */
+async function persistCredentialSafely(
+  credential: Credential,
+  servers: string | string[],
+  options?: StoreCredentialOptions
+): Promise<void> {
+  try {
+    const storage = getCredentialStorage();
+    await storage.storeCredential(credential, servers, options);
+  } catch (error) {
+    console.warn("Credential was not stored:", error);
+  }
+}
+
+/**
+ * Result of swapping in a renewed credential
+ */
+export type RenewCredentialResult = { success: true } | { success: false; error: ConnectionError };
 
 /**
  * Hook for authentication operations
@@ -25,7 +56,12 @@ export function useAuth() {
    * Authenticate with a credential file
    */
   const authenticateWithFile = useCallback(
-    async (file: File, serverUrl: string, persistCredential = true): Promise<boolean> => {
+    async (
+      file: File,
+      servers: string | string[],
+      persistCredential = true,
+      storeOptions?: StoreCredentialOptions
+    ): Promise<boolean> => {
       // Parse credential file
       const parseResult = await parseCredentialFile(file);
 
@@ -41,14 +77,13 @@ export function useAuth() {
 
       try {
         const natsService = getNatsService();
-        await natsService.connect(parseResult.credential, serverUrl);
+        await natsService.connect(parseResult.credential, servers);
 
-        setConnected(serverUrl);
+        setConnected(natsService.currentServer ?? "", natsService.servers);
 
         // Persist credential for returning user authentication
         if (persistCredential) {
-          const storage = getCredentialStorage();
-          await storage.storeCredential(parseResult.credential, serverUrl);
+          await persistCredentialSafely(parseResult.credential, servers, storeOptions);
         }
 
         return true;
@@ -65,19 +100,23 @@ export function useAuth() {
    * Authenticate with an already-parsed credential
    */
   const authenticateWithCredential = useCallback(
-    async (credential: Credential, serverUrl: string, persistCredential = true): Promise<boolean> => {
+    async (
+      credential: Credential,
+      servers: string | string[],
+      persistCredential = true,
+      storeOptions?: StoreCredentialOptions
+    ): Promise<boolean> => {
       loadCredential(credential);
       setConnecting();
 
       try {
         const natsService = getNatsService();
-        await natsService.connect(credential, serverUrl);
-        setConnected(serverUrl);
+        await natsService.connect(credential, servers);
+        setConnected(natsService.currentServer ?? "", natsService.servers);
 
         // Persist credential for returning user authentication
         if (persistCredential) {
-          const storage = getCredentialStorage();
-          await storage.storeCredential(credential, serverUrl);
+          await persistCredentialSafely(credential, servers, storeOptions);
         }
 
         return true;
@@ -92,41 +131,137 @@ export function useAuth() {
 
   /**
    * Authenticate with stored credentials (for returning users)
+   * Uses the default credential unless an ID is given. Throws while a
+   * passphrase-protected vault is locked.
    */
-  const authenticateWithStoredCredentials = useCallback(async (): Promise<boolean> => {
-    const storage = getCredentialStorage();
+  const authenticateWithStoredCredentials = useCallback(
+    async (id?: string): Promise<boolean> => {
+      const storage = getCredentialStorage();
+
+      // Check if we have stored credentials
+      const meta = await storage.getStoredCredentialMeta(id);
+      if (!meta) {
+        return false;
+      }
+
+      // Retrieve and decrypt credentials
+      const credential = await storage.retrieveCredential(meta.id);
+      if (!credential) {
+        // Failed to decrypt - clear corrupted credential
+        await storage.clearCredential(meta.id);
+        return false;
+      }
+
+      // Check the signature chain again; the trusted operators may have changed
+      const untrusted = verifyCredentialTrust(credential);
+      if (untrusted) {
+        loadCredentialError(untrusted.error);
+        // Shown on the login page like a failed connection
+        setFailed(untrusted.error);
+        return false;
+      }
+
+      loadCredential(credential);
 
-    // Check if we have stored credentials
-    const meta = await storage.getStoredCredentialMeta();
-    if (!meta) {
-      return false;
-    }
+      // Connect to NATS
+      setConnecting();
 
-    // Retrieve and decrypt credentials
-    const credential = await storage.retrieveCredential(meta.id);
-    if (!credential) {
-      // Failed to decrypt - clear corrupted credential
-      await storage.clearCredential(meta.id);
-      return false;
-    }
+      try {
+        const natsService = getNatsService();
+        await natsService.connect(credential, meta.serverUrls);
 
-    loadCredential(credential);
+        setConnected(natsService.currentServer ?? "", natsService.servers);
+        return true;
+      } catch (error) {
+        const connError = error as ConnectionError;
+        setFailed(connError);
+        return false;
+      }
+    },
+    [loadCredential, loadCredentialError, setConnecting, setConnected, setFailed]
+  );
 
-    // Connect to NATS
-    setConnecting();
+  /**
+   * Switch to another stored credential. The stored event-driven state, stream
+   * positions and queued commands belong to the previous account, so they are
+   * dropped before connecting.
+   */
+  const switchAccount = useCallback(
+    async (id: string): Promise<boolean> => {
+      const storage = getCredentialStorage();
+      if (!(await storage.hasStoredCredential(id))) {
+        return false;
+      }
 
-    try {
       const natsService = getNatsService();
-      await natsService.connect(credential, meta.serverUrl);
+      await natsService.disconnect();
 
-      setConnected(meta.serverUrl);
-      return true;
-    } catch (error) {
-      const connError = error as ConnectionError;
-      setFailed(connError);
-      return false;
-    }
-  }, [loadCredential, setConnecting, setConnected, setFailed]);
+      try {
+        await clearDatabase();
+      } catch (error) {
+        console.warn("Failed to clear stored state:", error);
+      }
+      // Other tabs drop the previous account's state as well
+      getStateSyncService().notifyLogout();
+
+      return authenticateWithStoredCredentials(id);
+    },
+    [authenticateWithStoredCredentials]
+  );
+
+  /**
+   * Swap in a renewed credential file for the same user. The connection
+   * reconnects in place and the credential keeps its ID, so the event-driven
+   * state is kept. A stored credential is updated as well.
+   */
+  const renewCredential = useCallback(
+    async (file: File): Promise<RenewCredentialResult> => {
+      const current = state.credential;
+      if (!current || !isCredsFileCredential(current)) {
+        return {
+          success: false,
+          error: createConnectionError("INVALID_CREDENTIAL", "No credential file to renew"),
+        };
+      }
+
+      const parseResult = await parseCredentialFile(file);
+      if (!parseResult.success) {
+        return parseResult;
+      }
+
+      if (parseResult.credential.publicKey !== current.publicKey) {
+        return {
+          success: false,
+          error: createConnectionError(
+            "INVALID_CREDENTIAL",
+            "The credential file is for a different user. Use the account switcher to change users."
+          ),
+        };
+      }
+
+      const renewed: Credential = { ...parseResult.credential, id: current.id };
+
+      try {
+        const natsService = getNatsService();
+        await natsService.replaceCredential(renewed);
+        loadCredential(renewed);
+        if (natsService.isConnected()) {
+          setConnected(natsService.currentServer ?? "", natsService.servers);
+        }
+      } catch (error) {
+        return { success: false, error: error as ConnectionError };
+      }
+
+      const storage = getCredentialStorage();
+      const meta = await storage.getStoredCredentialMeta(current.id).catch(() => null);
+      if (meta) {
+        await persistCredentialSafely(renewed, meta.serverUrls);
+      }
+
+      return { success: true };
+    },
+    [state.credential, loadCredential, setConnected]
+  );
 
   /**
    * Check if stored credentials exist
@@ -136,6 +271,22 @@ export function useAuth() {
     return storage.hasStoredCredential();
   }, []);
 
+  /**
+   * List the credentials in the vault (without decrypting)
+   */
+  const listStoredCredentials = useCallback(async (): Promise<StoredCredential[]> => {
+    const storage = getCredentialStorage();
+    return storage.listStoredCredentials();
+  }, []);
+
+  /**
+   * Choose the stored credential AutoConnect uses
+   */
+  const setDefaultCredential = useCallback(async (id: string): Promise<void> => {
+    const storage = getCredentialStorage();
+    await storage.setDefaultCredential(id);
+  }, []);
+
   /**
    * Disconnect and optionally clear credentials
    */
@@ -162,6 +313,7 @@ export function useAuth() {
     connectionStatus: state.connection.status,
     connectionError: state.connection.lastError,
     serverUrl: state.connection.serverUrl,
+    servers: state.connection.servers,
     authCheckComplete: state.authCheckComplete,
 
     // Derived state
@@ -174,6 +326,10 @@ export function useAuth() {
     authenticateWithCredential,
     authenticateWithStoredCredentials,
     hasStoredCredentials,
+    listStoredCredentials,
+    setDefaultCredential,
+    switchAccount,
+    renewCredential,
     disconnect,
     setAuthCheckComplete,
   };
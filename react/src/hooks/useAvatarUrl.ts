@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+import { getAvatarService } from "@/services/nats/avatars";
+import type { User } from "@/types/events";
+
+/**
+ * Hook that resolves the image of a user's avatar: the uploaded object when
+ * the profile references one, otherwise the avatar URL. Null while the object
+ * loads or when the user has no avatar.
+ */
+export function useAvatarUrl(user: Pick<User, "avatarUrl" | "avatarObject"> | null) {
+  const name = user?.avatarObject || null;
+  const [loaded, setLoaded] = useState<{ name: string; url: string | null } | null>(null);
+
+  useEffect(() => {
+    if (!name) return;
+
+    let cancelled = false;
+    getAvatarService()
+      .getUrl(name)
+      .catch(() => null)
+      .then((url) => {
+        if (!cancelled) setLoaded({ name, url });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [name]);
+
+  if (name) {
+    if (loaded?.name !== name) return null;
+    return loaded.url ?? user?.avatarUrl ?? null;
+  }
+  return user?.avatarUrl || null;
+}
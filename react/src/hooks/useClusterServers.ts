@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { getNatsService } from "@/services/nats/connection";
+
+/**
+ * Cluster membership as seen by the NATS client
+ */
+export interface ClusterServers {
+  /** Server the client is currently connected to (null if disconnected) */
+  currentServer: string | null;
+  /** Configured servers in failover order, followed by cluster-advertised servers */
+  servers: string[];
+}
+
+/**
+ * Hook that tracks which cluster member the connection is on.
+ * Updates on (re)connects, failovers and cluster topology changes.
+ */
+export function useClusterServers(): ClusterServers {
+  const [cluster, setCluster] = useState<ClusterServers>(() => {
+    const natsService = getNatsService();
+    return { currentServer: natsService.currentServer, servers: natsService.servers };
+  });
+
+  useEffect(() => {
+    const natsService = getNatsService();
+
+    const unsubscribe = natsService.onEvent((event) => {
+      switch (event.type) {
+        case "connected":
+        case "reconnected":
+        case "serversChanged":
+        case "disconnected":
+        case "closed":
+          setCluster({ currentServer: natsService.currentServer, servers: natsService.servers });
+          break;
+      }
+    });
+
+    return unsubscribe;
+  }, []);
+
+  return cluster;
+}
@@ -4,47 +4,79 @@
  * Feature: 002-event-driven-state
  *
  * Provides command execution with feedback and optimistic updates.
+ * Optimistic updates are shown immediately, reconciled when the command's event
+ * arrives and reverted when the command fails or its event never shows up.
+ * While offline, commands are queued in the outbox instead of being rejected;
+ * their optimistic updates are reverted if the replay rejects them.
+ * `executeAndAwaitEvent` additionally waits until the event caused by the command
+ * arrives, so UIs can tell "saved and propagated" apart from "acknowledged".
  */
 
-import { useState, useCallback, useRef } from "react";
-import type { CommandResult, UpdateProfileCommand } from "../types/commands";
-import { isCommandSuccess } from "../types/commands";
-import {
-  getCommandService,
-  validateUpdateProfilePayload,
-  validateNotificationId,
-} from "../services/nats/commands";
-import { useAppState } from "./useAppState";
-import { getStateStorage } from "../services/state/store";
-import { appStateReducer } from "../services/state/reducer";
+import { useState, useCallback } from "react";
+import type {
+  CommandPayload,
+  CommandPayloadOf,
+  CommandResult,
+  CommandType,
+} from "../types/commands";
+import { isCommandQueued, isCommandSuccess } from "../types/commands";
+import type { AppEvent } from "../types/events";
+import { getTimeouts } from "../config/runtime";
+import { getCommandDefinition } from "../domains";
+import { getCommandService } from "../services/nats/commands";
+import { getEventService } from "../services/nats/events";
+import { useEventContext } from "../contexts/EventContext";
+import { isIndexedDBAvailable } from "../services/state/database";
+import { createOptimisticEvents } from "../services/state/optimistic";
 
 // =============================================================================
 // Types
 // =============================================================================
 
+export interface ExecuteAndAwaitOptions {
+  /** How long to wait for the command's event (default: the optimisticReconcileMs timeout) */
+  timeoutMs?: number;
+}
+
+/**
+ * Result of `executeAndAwaitEvent`. On success, `event` is the event the command caused.
+ */
+export type AwaitedCommandResult<T = unknown> = CommandResult<T> & { event?: AppEvent };
+
 export interface UseCommandResult {
-  /** Execute a command */
-  execute: <T = unknown>(type: CommandType, payload: CommandPayload) => Promise<CommandResult<T>>;
+  /** Execute a command; resolves once the backend acknowledges it */
+  execute: <K extends CommandType, T = unknown>(
+    type: K,
+    payload: CommandPayloadOf<K>
+  ) => Promise<CommandResult<T>>;
+  /**
+   * Execute a command and resolve only once the event it caused has arrived.
+   * Fails with EVENT_TIMEOUT if the command was acknowledged but no event followed.
+   * Queued commands resolve immediately with the QUEUED result.
+   */
+  executeAndAwaitEvent: <K extends CommandType, T = unknown>(
+    type: K,
+    payload: CommandPayloadOf<K>,
+    options?: ExecuteAndAwaitOptions
+  ) => Promise<AwaitedCommandResult<T>>;
   /** Whether a command is currently executing */
   isExecuting: boolean;
   /** The last error that occurred */
   error: string | null;
-  /** Whether commands can be executed (online status) */
+  /** Whether commands can be executed (online, or offline with the outbox available) */
   canExecute: boolean;
+  /** Whether commands are sent immediately (false means they will be queued) */
+  isOnline: boolean;
   /** Clear the current error */
   clearError: () => void;
 }
 
-export type CommandType =
-  | "user.updateProfile"
-  | "notification.dismiss"
-  | "notification.markRead"
-  | "notification.markAllRead";
+export type { CommandType, CommandPayload };
 
-export type CommandPayload =
-  | UpdateProfileCommand["payload"]
-  | { notificationId: string }
-  | Record<string, never>;
+interface RunOptions {
+  /** Wait for the correlated event for this long before resolving */
+  awaitEventMs?: number;
+}
 
 // =============================================================================
 // Hook
@@ -65,6 +97,14 @@ export type CommandPayload =
  *     }
  *   };
  *
+ *   // Or wait until the change has propagated back as an event
+ *   const handleSaveAndWait = async (name: string) => {
+ *     const result = await executeAndAwaitEvent('user.updateProfile', { name });
+ *     if (result.success) {
+ *       // result.event is the user.updated event caused by this command
+ *     }
+ *   };
+ *
  *   return (
  *     <form>
  *       {error && <p className="text-red-500">{error}</p>}
@@ -79,27 +119,24 @@ export type CommandPayload =
 export function useCommand(): UseCommandResult {
   const [isExecuting, setIsExecuting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const optimisticStateRef = useRef<unknown>(null);
-  const { syncStatus } = useAppState();
+  const { state, applyOptimisticUpdate, confirmOptimisticUpdate, revertOptimisticUpdate } =
+    useEventContext();
+  const { syncStatus } = state;
 
   const commandService = getCommandService();
-  const storage = getStateStorage();
-  const canExecute = commandService.isOnline() && syncStatus !== "offline";
+  const isOnline = commandService.isOnline() && syncStatus !== "offline";
+  const canExecute = isOnline || isIndexedDBAvailable();
 
   const clearError = useCallback(() => {
     setError(null);
   }, []);
 
-  const rollbackOptimisticUpdate = useCallback(async () => {
-    if (optimisticStateRef.current) {
-      // Reload state from storage to rollback
-      await storage.getState();
-      optimisticStateRef.current = null;
-    }
-  }, [storage]);
-
-  const execute = useCallback(
-    async <T = unknown>(type: CommandType, payload: CommandPayload): Promise<CommandResult<T>> => {
+  const run = useCallback(
+    async <K extends CommandType, T = unknown>(
+      type: K,
+      payload: CommandPayloadOf<K>,
+      options: RunOptions = {}
+    ): Promise<AwaitedCommandResult<T>> => {
       setError(null);
 
       // Check if online
@@ -118,7 +155,7 @@ export function useCommand(): UseCommandResult {
       }
 
       // Validate payload
-      const validationError = validatePayload(type, payload);
+      const validationError = getCommandDefinition(type).validate?.(payload) ?? null;
       if (validationError) {
         const result: CommandResult<T> = {
           commandId: "",
@@ -135,50 +172,80 @@ export function useCommand(): UseCommandResult {
 
       setIsExecuting(true);
 
+      // The command id keys the optimistic mutation until its event arrives
+      const commandId = crypto.randomUUID();
+
+      // Register before sending so an event that beats the response is not missed
+      const wait =
+        options.awaitEventMs !== undefined
+          ? getEventService().waitForCorrelatedEvent(commandId, options.awaitEventMs)
+          : null;
+
       try {
         // Apply optimistic update
-        await applyOptimisticUpdate(type, payload, storage);
+        applyOptimisticUpdate(commandId, createOptimisticEvents(type, payload, state, commandId));
 
         // Execute command
-        let result: CommandResult;
+        const result = await commandService.execute(type, payload, commandId);
 
-        switch (type) {
-          case "user.updateProfile":
-            result = await commandService.updateProfile(payload as UpdateProfileCommand["payload"]);
-            break;
-          case "notification.dismiss":
-            result = await commandService.dismissNotification(
-              (payload as { notificationId: string }).notificationId
-            );
-            break;
-          case "notification.markRead":
-            result = await commandService.markNotificationRead(
-              (payload as { notificationId: string }).notificationId
-            );
-            break;
-          case "notification.markAllRead":
-            result = await commandService.markAllNotificationsRead();
-            break;
-          default:
-            throw new Error(`Unknown command type: ${type}`);
+        if (isCommandQueued(result)) {
+          // Queued for replay - keep the optimistic update until the replay
+          // settles it, and drop it if the command is rejected or discarded
+          wait?.cancel();
+          commandService
+            .whenReplayed(commandId)
+            .then((status) => {
+              if (status === "sent") {
+                confirmOptimisticUpdate(commandId);
+              } else {
+                revertOptimisticUpdate(commandId);
+              }
+            })
+            .catch(() => revertOptimisticUpdate(commandId));
+          return result as CommandResult<T>;
         }
 
         if (!isCommandSuccess(result)) {
           // Rollback optimistic update on failure
-          await rollbackOptimisticUpdate();
+          wait?.cancel();
+          revertOptimisticUpdate(commandId);
           setError(result.error.message);
+          return result as CommandResult<T>;
+        }
+
+        // Acknowledged - wait for the matching event to reconcile
+        confirmOptimisticUpdate(commandId);
+
+        if (!wait) {
+          return result as CommandResult<T>;
+        }
+
+        const event = await wait.event;
+        if (!event) {
+          const message = "Command was acknowledged but its event did not arrive";
+          setError(message);
+          return {
+            commandId,
+            success: false,
+            error: {
+              code: "EVENT_TIMEOUT",
+              message,
+            },
+            timestamp: Date.now(),
+          };
         }
 
-        return result as CommandResult<T>;
+        return { ...(result as CommandResult<T>), event };
       } catch (err) {
         // Rollback optimistic update on error
-        await rollbackOptimisticUpdate();
+        wait?.cancel();
+        revertOptimisticUpdate(commandId);
 
         const message = err instanceof Error ? err.message : "Command execution failed";
         setError(message);
 
         return {
-          commandId: "",
+          commandId,
           success: false,
           error: {
             code: "INTERNAL_ERROR",
@@ -190,105 +257,43 @@ export function useCommand(): UseCommandResult {
         setIsExecuting(false);
       }
     },
-    [canExecute, commandService, storage, rollbackOptimisticUpdate]
+    [
+      canExecute,
+      commandService,
+      state,
+      applyOptimisticUpdate,
+      confirmOptimisticUpdate,
+      revertOptimisticUpdate,
+    ]
+  );
+
+  const execute = useCallback(
+    <K extends CommandType, T = unknown>(
+      type: K,
+      payload: CommandPayloadOf<K>
+    ): Promise<CommandResult<T>> => run<K, T>(type, payload),
+    [run]
+  );
+
+  const executeAndAwaitEvent = useCallback(
+    <K extends CommandType, T = unknown>(
+      type: K,
+      payload: CommandPayloadOf<K>,
+      options: ExecuteAndAwaitOptions = {}
+    ): Promise<AwaitedCommandResult<T>> =>
+      run<K, T>(type, payload, {
+        awaitEventMs: options.timeoutMs ?? getTimeouts().optimisticReconcileMs,
+      }),
+    [run]
   );
 
   return {
     execute,
+    executeAndAwaitEvent,
     isExecuting,
     error,
     canExecute,
+    isOnline,
     clearError,
   };
 }
-
-// =============================================================================
-// Helpers
-// =============================================================================
-
-function validatePayload(type: CommandType, payload: CommandPayload): string | null {
-  switch (type) {
-    case "user.updateProfile": {
-      const validation = validateUpdateProfilePayload(payload as UpdateProfileCommand["payload"]);
-      return validation.valid ? null : validation.error!;
-    }
-    case "notification.dismiss":
-    case "notification.markRead": {
-      const validation = validateNotificationId(
-        (payload as { notificationId: string }).notificationId
-      );
-      return validation.valid ? null : validation.error!;
-    }
-    case "notification.markAllRead":
-      return null;
-    default:
-      return "Unknown command type";
-  }
-}
-
-async function applyOptimisticUpdate(
-  type: CommandType,
-  payload: CommandPayload,
-  storage: ReturnType<typeof getStateStorage>
-): Promise<void> {
-  const currentState = await storage.getState();
-
-  switch (type) {
-    case "user.updateProfile":
-      if (currentState.user) {
-        const updatedState = appStateReducer(currentState, {
-          type: "user.updated",
-          timestamp: Date.now(),
-          payload: {
-            id: currentState.user.id,
-            changes: payload as UpdateProfileCommand["payload"],
-          },
-        });
-        await storage.setState(updatedState);
-      }
-      break;
-
-    case "notification.markRead": {
-      const notifId = (payload as { notificationId: string }).notificationId;
-      const notification = currentState.notifications[notifId];
-      if (notification) {
-        const updatedState = appStateReducer(currentState, {
-          type: "notification.read",
-          timestamp: Date.now(),
-          payload: { notificationId: notifId },
-        });
-        await storage.setState(updatedState);
-      }
-      break;
-    }
-
-    case "notification.dismiss": {
-      const notifId = (payload as { notificationId: string }).notificationId;
-      const notification = currentState.notifications[notifId];
-      if (notification) {
-        const updatedState = appStateReducer(currentState, {
-          type: "notification.dismissed",
-          timestamp: Date.now(),
-          payload: { notificationId: notifId },
-        });
-        await storage.setState(updatedState);
-      }
-      break;
-    }
-
-    case "notification.markAllRead": {
-      let state = currentState;
-      for (const notif of Object.values(currentState.notifications)) {
-        if (!notif.read && !notif.dismissed) {
-          state = appStateReducer(state, {
-            type: "notification.read",
-            timestamp: Date.now(),
-            payload: { notificationId: notif.id },
-          });
-        }
-      }
-      await storage.setState(state);
-      break;
-    }
-  }
-}
@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from "react";
+import { getRuntimeConfigStore, type RuntimeConfig } from "@/config/runtime";
+
+const subscribe = (callback: () => void) => getRuntimeConfigStore().onChange(callback);
+const getSnapshot = () => getRuntimeConfigStore().getConfig();
+
+/**
+ * Hook that returns the active runtime configuration and re-renders when the
+ * remote overrides are applied after connecting.
+ */
+export function useConfig(): RuntimeConfig {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
@@ -0,0 +1,22 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { useAuthContext } from "@/contexts/AuthContext";
+import { getCredentialExpiryMonitor } from "@/services/credentials/expiry";
+import type { CredentialExpiryState } from "@/types";
+
+const subscribe = (callback: () => void) => getCredentialExpiryMonitor().onChange(callback);
+const getSnapshot = () => getCredentialExpiryMonitor().getState();
+
+/**
+ * Hook that tracks the expiry of the active credential. The monitor
+ * re-renders at each configured warning lead time and at expiry.
+ */
+export function useCredentialExpiry(): CredentialExpiryState {
+  const { state } = useAuthContext();
+  const { credential } = state;
+
+  useEffect(() => {
+    getCredentialExpiryMonitor().watch(credential);
+  }, [credential]);
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ConsumerInfo, StreamInfo } from "@nats-io/jetstream";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  getJetStreamService,
+  type MessageStart,
+  type PurgeOptions,
+  type StreamMessage,
+} from "@/services/jetstream/browser";
+
+function toMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * Whether this tab can use JetStream: connected, in this tab or through the
+ * leader tab of a shared connection
+ */
+function useCanBrowse(): boolean {
+  const { connectionStatus } = useAuth();
+  return connectionStatus === "connected";
+}
+
+/**
+ * Hook that lists the streams of the account
+ */
+export function useStreams() {
+  const canBrowse = useCanBrowse();
+  const [streams, setStreams] = useState<StreamInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setStreams(await getJetStreamService().listStreams());
+      setError(null);
+    } catch (err) {
+      setError(toMessage(err, "Failed to list streams"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!canBrowse) return;
+    const timer = setTimeout(refresh, 0);
+    return () => clearTimeout(timer);
+  }, [canBrowse, refresh]);
+
+  return { streams, isLoading, error, canBrowse, refresh };
+}
+
+/**
+ * Hook that loads the info and consumers of a stream, and purges it
+ */
+export function useStreamDetails(stream: string) {
+  const canBrowse = useCanBrowse();
+  const [info, setInfo] = useState<StreamInfo | null>(null);
+  const [consumers, setConsumers] = useState<ConsumerInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const service = getJetStreamService();
+    try {
+      const [nextInfo, nextConsumers] = await Promise.all([
+        service.getStream(stream),
+        service.listConsumers(stream),
+      ]);
+      setInfo(nextInfo);
+      setConsumers(nextConsumers);
+      setError(null);
+    } catch (err) {
+      setError(toMessage(err, "Failed to load the stream"));
+    }
+  }, [stream]);
+
+  /**
+   * Purge the stream; resolves with the number of purged messages, or null
+   * if the purge failed
+   */
+  const purge = useCallback(
+    async (options?: PurgeOptions): Promise<number | null> => {
+      try {
+        const response = await getJetStreamService().purgeStream(stream, options);
+        await refresh();
+        return response.purged;
+      } catch (err) {
+        setError(toMessage(err, "Failed to purge the stream"));
+        return null;
+      }
+    },
+    [stream, refresh]
+  );
+
+  useEffect(() => {
+    if (!canBrowse) return;
+    const timer = setTimeout(refresh, 0);
+    return () => clearTimeout(timer);
+  }, [canBrowse, refresh]);
+
+  return { info, consumers, error, refresh, purge };
+}
+
+/**
+ * Hook that pages through the messages of a stream and deletes them
+ */
+export function useStreamMessages(stream: string, pageSize: number) {
+  const [messages, setMessages] = useState<StreamMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+
+  // Only the latest page request may update the list
+  const requestRef = useRef(0);
+
+  const load = useCallback(
+    async (start: MessageStart) => {
+      const request = ++requestRef.current;
+      setIsLoading(true);
+      setError(null);
+      try {
+        const page = await getJetStreamService().readMessages(stream, start, {
+          limit: pageSize,
+          filter: filter.trim() || undefined,
+        });
+        if (request === requestRef.current) setMessages(page);
+      } catch (err) {
+        if (request === requestRef.current) setError(toMessage(err, "Failed to read messages"));
+      } finally {
+        if (request === requestRef.current) setIsLoading(false);
+      }
+    },
+    [stream, pageSize, filter]
+  );
+
+  const next = useCallback(() => {
+    const last = messages[messages.length - 1];
+    if (last) return load({ seq: last.seq + 1 });
+  }, [messages, load]);
+
+  /** Previous page, assuming no gaps in the sequence before the first message */
+  const previous = useCallback(() => {
+    const first = messages[0];
+    if (first) return load({ seq: Math.max(1, first.seq - pageSize) });
+  }, [messages, load, pageSize]);
+
+  const remove = useCallback(
+    async (seq: number) => {
+      try {
+        await getJetStreamService().deleteMessage(stream, seq);
+        setMessages((current) => current.filter((message) => message.seq !== seq));
+      } catch (err) {
+        setError(toMessage(err, "Failed to delete the message"));
+      }
+    },
+    [stream]
+  );
+
+  return {
+    messages,
+    isLoading,
+    error,
+    /** Subject filter applied to the next page read */
+    filter,
+    setFilter,
+    load,
+    next,
+    previous,
+    remove,
+    /** Whether the last page was full, so more messages may follow */
+    hasMore: messages.length === pageSize,
+  };
+}
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from "react";
+import { getKvService, type KvBucketInfo } from "@/services/nats/kv";
+
+/**
+ * Hook that lists the KV buckets of the account
+ */
+export function useKvBuckets(enabled = true) {
+  const [buckets, setBuckets] = useState<KvBucketInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setBuckets(await getKvService().listBuckets());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to list buckets");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setTimeout(refresh, 0);
+    return () => clearTimeout(timer);
+  }, [enabled, refresh]);
+
+  return { buckets, isLoading, error, refresh };
+}
+
+/**
+ * Hook that lists the keys of a bucket that start with a prefix
+ */
+export function useKvKeys(bucket: string, prefix: string) {
+  const [keys, setKeys] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setKeys(await getKvService().listKeys(bucket, prefix));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to list keys");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bucket, prefix]);
+
+  useEffect(() => {
+    const timer = setTimeout(refresh, 0);
+    return () => clearTimeout(timer);
+  }, [refresh]);
+
+  return { keys, isLoading, error, refresh };
+}
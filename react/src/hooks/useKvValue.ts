@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState } from "react";
+import { getKvService, type KvValue, type KvWriteResult } from "@/services/nats/kv";
+
+export interface KvValueOptions {
+  /** Also load the revisions the bucket keeps of the key */
+  withHistory?: boolean;
+}
+
+/**
+ * Hook that loads a KV key and writes it with optimistic concurrency: writes
+ * expect the loaded revision unless another one is given, and report a
+ * conflict when the key was changed in the meantime. The key is reloaded
+ * after every successful write.
+ */
+export function useKvValue(
+  bucket: string,
+  key: string,
+  { withHistory = false }: KvValueOptions = {}
+) {
+  const [value, setValue] = useState<KvValue | null>(null);
+  const [history, setHistory] = useState<KvValue[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const service = getKvService();
+    try {
+      const [latest, revisions] = await Promise.all([
+        service.get(bucket, key),
+        withHistory ? service.history(bucket, key) : Promise.resolve([]),
+      ]);
+      setValue(latest);
+      setHistory(revisions);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the key");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bucket, key, withHistory]);
+
+  useEffect(() => {
+    const timer = setTimeout(refresh, 0);
+    return () => clearTimeout(timer);
+  }, [refresh]);
+
+  /** Revision a write expects by default; 0 when the key does not exist */
+  const revision = value?.revision ?? 0;
+
+  const afterWrite = useCallback(
+    async (result: KvWriteResult) => {
+      if (result.success) await refresh();
+      return result;
+    },
+    [refresh]
+  );
+
+  const put = useCallback(
+    async (data: Uint8Array | string, expectedRevision: number | undefined = revision) =>
+      afterWrite(await getKvService().put(bucket, key, data, expectedRevision)),
+    [bucket, key, revision, afterWrite]
+  );
+
+  const remove = useCallback(
+    async (expectedRevision: number | undefined = revision) =>
+      afterWrite(await getKvService().delete(bucket, key, expectedRevision)),
+    [bucket, key, revision, afterWrite]
+  );
+
+  const purge = useCallback(
+    async (expectedRevision: number | undefined = revision) =>
+      afterWrite(await getKvService().purge(bucket, key, expectedRevision)),
+    [bucket, key, revision, afterWrite]
+  );
+
+  return {
+    /** Latest revision, which may be a delete marker; null if never written */
+    value,
+    /** Kept revisions, newest first (empty without withHistory) */
+    history,
+    isLoading,
+    error,
+    refresh,
+    put,
+    remove,
+    purge,
+  };
+}
@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from "react";
+import { getKvService, kvPrefixFilter, type KvValue } from "@/services/nats/kv";
+
+export interface KvWatchHookOptions {
+  /** Only watch keys starting with this prefix */
+  prefix?: string;
+  /** Watch only while true (default: true) */
+  enabled?: boolean;
+  /** How long a changed key stays highlighted, in milliseconds (default: 2000) */
+  highlightMs?: number;
+}
+
+/**
+ * Hook that watches the keys of a KV bucket. Keeps the latest revision of
+ * every key and highlights keys that change while watching.
+ */
+export function useKvWatch(
+  bucket: string,
+  { prefix = "", enabled = true, highlightMs = 2000 }: KvWatchHookOptions = {}
+) {
+  const [values, setValues] = useState<Record<string, KvValue>>({});
+  const [highlighted, setHighlighted] = useState<Set<string>>(() => new Set());
+  const [error, setError] = useState<string | null>(null);
+  const timersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const timers = timersRef.current;
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+
+    const unhighlight = (key: string) => {
+      timers.delete(key);
+      setHighlighted((current) => {
+        const next = new Set(current);
+        next.delete(key);
+        return next;
+      });
+    };
+
+    const handleChange = (value: KvValue, isUpdate: boolean) => {
+      if (!value.key.startsWith(prefix)) return;
+
+      setValues((current) => ({ ...current, [value.key]: value }));
+      if (isUpdate) {
+        setHighlighted((current) => new Set(current).add(value.key));
+        clearTimeout(timers.get(value.key));
+        timers.set(
+          value.key,
+          setTimeout(() => unhighlight(value.key), highlightMs)
+        );
+      }
+    };
+
+    getKvService()
+      .watch(bucket, handleChange, { key: kvPrefixFilter(prefix) }, (err) => setError(err.message))
+      .then((stopWatch) => {
+        if (cancelled) stopWatch();
+        else stop = stopWatch;
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to watch the bucket");
+      });
+
+    return () => {
+      cancelled = true;
+      stop?.();
+      timers.forEach(clearTimeout);
+      timers.clear();
+      setValues({});
+      setHighlighted(new Set());
+      setError(null);
+    };
+  }, [bucket, prefix, enabled, highlightMs]);
+
+  return {
+    /** Latest revision of every watched key, including delete markers */
+    values,
+    /** Keys that changed within the highlight period */
+    highlighted,
+    error,
+  };
+}
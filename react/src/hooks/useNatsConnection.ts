@@ -8,7 +8,8 @@ import type { ConnectionStatus } from "@/types";
  * Hook for managing NATS connection lifecycle
  */
 export function useNatsConnection() {
-  const { state, setConnected, setReconnecting, setDisconnected, setFailed } = useAuthContext();
+  const { state, setConnected, setServers, setReconnecting, setDisconnected, setFailed } =
+    useAuthContext();
   const [lastEvent, setLastEvent] = useState<NatsEvent | null>(null);
 
   // Subscribe to NATS connection events
@@ -21,11 +22,16 @@ export function useNatsConnection() {
       switch (event.type) {
         case "connected":
         case "reconnected":
-          if (state.connection.serverUrl) {
-            setConnected(state.connection.serverUrl);
+          // After a failover the client may be on a different cluster member
+          if (event.server || state.connection.serverUrl) {
+            setConnected(event.server || state.connection.serverUrl, natsService.servers);
           }
           break;
 
+        case "serversChanged":
+          setServers(event.servers ?? natsService.servers, event.server);
+          break;
+
         case "reconnecting":
           setReconnecting(event.reconnectAttempt || 0);
           break;
@@ -54,6 +60,7 @@ export function useNatsConnection() {
     state.connection.serverUrl,
     state.connection.status,
     setConnected,
+    setServers,
     setReconnecting,
     setDisconnected,
     setFailed,
@@ -85,6 +92,7 @@ export function useNatsConnection() {
     // State from context
     status: state.connection.status,
     serverUrl: state.connection.serverUrl,
+    servers: state.connection.servers,
     connectedAt: state.connection.connectedAt,
     reconnectAttempt: state.connection.reconnectAttempt,
     error: state.connection.lastError,
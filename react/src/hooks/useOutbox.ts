@@ -0,0 +1,75 @@
+/**
+ * useOutbox Hook
+ *
+ * Feature: 002-event-driven-state
+ *
+ * Provides live access to commands queued while offline.
+ */
+
+import { useCallback, useMemo } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import type { OutboxEntry } from "../services/state/database";
+import { getCommandOutbox } from "../services/state/outbox";
+import { getCommandService } from "../services/nats/commands";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface UseOutboxResult {
+  /** All outbox entries, oldest first */
+  entries: OutboxEntry[];
+  /** Entries that still need attention (pending, failed or conflict) */
+  queuedEntries: OutboxEntry[];
+  /** Number of commands waiting to be sent */
+  pendingCount: number;
+  /** Re-queue a failed or conflicting command */
+  retry: (commandId: string) => Promise<void>;
+  /** Drop a queued command without sending it */
+  discard: (commandId: string) => Promise<void>;
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+/**
+ * Hook to observe and manage the offline command outbox.
+ *
+ * @example
+ * ```tsx
+ * function OutboxBadge() {
+ *   const { pendingCount } = useOutbox();
+ *   return pendingCount > 0 ? <span>{pendingCount} pending</span> : null;
+ * }
+ * ```
+ */
+export function useOutbox(): UseOutboxResult {
+  const entries = useLiveQuery(() => getCommandOutbox().list(), []);
+
+  const queuedEntries = useMemo(
+    () => (entries ?? []).filter((entry) => entry.status !== "sent"),
+    [entries]
+  );
+
+  const pendingCount = useMemo(
+    () => queuedEntries.filter((entry) => entry.status === "pending").length,
+    [queuedEntries]
+  );
+
+  const retry = useCallback(async (commandId: string) => {
+    await getCommandService().retryQueued(commandId);
+  }, []);
+
+  const discard = useCallback(async (commandId: string) => {
+    await getCommandService().discardQueued(commandId);
+  }, []);
+
+  return {
+    entries: entries ?? [],
+    queuedEntries,
+    pendingCount,
+    retry,
+    discard,
+  };
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import { getNatsService } from "@/services/nats/connection";
+import type { ConnectionError } from "@/types";
+
+/**
+ * Hook that tracks the last publish or subscription the server rejected.
+ * The error carries the operation and subject in `permission`.
+ */
+export function usePermissionError(): ConnectionError | null {
+  const [error, setError] = useState<ConnectionError | null>(
+    () => getNatsService().lastPermissionError
+  );
+
+  useEffect(() => {
+    const natsService = getNatsService();
+
+    const unsubscribe = natsService.onEvent((event) => {
+      switch (event.type) {
+        case "permissionDenied":
+          setError(event.error ?? null);
+          break;
+        case "connected":
+          // A new connection may use another credential
+          setError(natsService.lastPermissionError);
+          break;
+      }
+    });
+
+    return unsubscribe;
+  }, []);
+
+  return error;
+}
@@ -0,0 +1,53 @@
+import { useMemo } from "react";
+import { useAuthContext } from "@/contexts/AuthContext";
+import { getCommandDefinition } from "@/domains";
+import { getCredentialClaims } from "@/services/credentials/jwt";
+import {
+  canPublish,
+  canRequest,
+  canSubscribe,
+  satisfiesRequirement,
+} from "@/services/credentials/permissions";
+import type { CommandType } from "@/types/commands";
+import type { PermissionRequirement } from "@/types";
+import { commandSubject, getNamespace } from "@/utils/subjects";
+
+const toList = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * Full subject a command is sent to
+ */
+function subjectOfCommand(type: CommandType): string {
+  return commandSubject(getNamespace(), getCommandDefinition(type).subject);
+}
+
+/**
+ * Hook that checks subjects and commands against the pub/sub permissions in
+ * the credential's JWT, so actions the server would reject can be hidden or
+ * disabled up front. Without JWT claims everything is allowed.
+ */
+export function usePermissions() {
+  const { state } = useAuthContext();
+  const { credential } = state;
+  const claims = getCredentialClaims(credential);
+
+  return useMemo(
+    () => ({
+      /** Whether the JWT restricts anything (false for users without claims) */
+      hasClaims: claims !== undefined,
+      canPublish: (subject: string) => canPublish(claims, subject),
+      canSubscribe: (subject: string) => canSubscribe(claims, subject),
+      canRequest: (subject: string) => canRequest(claims, subject),
+      canRunCommand: (type: CommandType) => canRequest(claims, subjectOfCommand(type)),
+      /** Check every subject and command of a requirement */
+      check: (requirement: PermissionRequirement) =>
+        satisfiesRequirement(claims, {
+          publish: toList(requirement.publish),
+          subscribe: toList(requirement.subscribe),
+          request: toList(requirement.command).map(subjectOfCommand),
+        }),
+    }),
+    [claims]
+  );
+}
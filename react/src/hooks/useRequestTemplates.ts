@@ -0,0 +1,26 @@
+import { useCallback } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import type { RequestTemplate } from "@/services/state/database";
+import { getRequestTemplateStore, type RequestTemplateInput } from "@/services/state/templates";
+
+/**
+ * Hook to list and manage the playground's saved request templates.
+ */
+export function useRequestTemplates() {
+  const templates = useLiveQuery(() => getRequestTemplateStore().list(), []);
+
+  const save = useCallback(
+    (template: RequestTemplateInput, id?: string): Promise<RequestTemplate> =>
+      getRequestTemplateStore().save(template, id),
+    []
+  );
+
+  const remove = useCallback((id: string) => getRequestTemplateStore().remove(id), []);
+
+  return {
+    /** Saved templates by name (empty while loading) */
+    templates: templates ?? [],
+    save,
+    remove,
+  };
+}
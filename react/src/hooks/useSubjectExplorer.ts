@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  subscribeToSubject,
+  type ExplorerMessage,
+  type ExplorerSubscription,
+} from "@/services/nats/explorer";
+
+/**
+ * Options for the subject explorer
+ */
+export interface SubjectExplorerOptions {
+  /** Messages kept in the list; older ones are dropped (default: 5000) */
+  maxMessages?: number;
+}
+
+/** Messages are added to the list in batches, to keep busy subjects cheap */
+const FLUSH_INTERVAL_MS = 100;
+
+/**
+ * Hook that watches a subject or wildcard on the NATS connection. Messages
+ * are listed newest first. While paused, new messages are held back and added
+ * on resume.
+ */
+export function useSubjectExplorer({ maxMessages = 5000 }: SubjectExplorerOptions = {}) {
+  const [subject, setSubject] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ExplorerMessage[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
+  const [heldCount, setHeldCount] = useState(0);
+  const [received, setReceived] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const subscriptionRef = useRef<ExplorerSubscription | null>(null);
+  const pendingRef = useRef<ExplorerMessage[]>([]);
+  const pausedRef = useRef(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  /** Incremented on every start and stop, so a late subscription can be dropped */
+  const attemptRef = useRef(0);
+
+  const flush = useCallback(() => {
+    timerRef.current = null;
+    if (pausedRef.current) {
+      setHeldCount(pendingRef.current.length);
+      return;
+    }
+
+    const batch = pendingRef.current;
+    pendingRef.current = [];
+    if (batch.length === 0) return;
+
+    setHeldCount(0);
+    setMessages((previous) => [...batch.reverse(), ...previous].slice(0, maxMessages));
+  }, [maxMessages]);
+
+  const handleMessage = useCallback(
+    (message: ExplorerMessage) => {
+      pendingRef.current.push(message);
+      if (pendingRef.current.length > maxMessages) {
+        pendingRef.current.shift();
+      }
+      setReceived(message.id);
+      if (!timerRef.current) {
+        timerRef.current = setTimeout(flush, FLUSH_INTERVAL_MS);
+      }
+    },
+    [flush, maxMessages]
+  );
+
+  const stop = useCallback(() => {
+    attemptRef.current++;
+    subscriptionRef.current?.unsubscribe();
+    subscriptionRef.current = null;
+    setSubject(null);
+  }, []);
+
+  /**
+   * Watch a subject, replacing the current subscription and clearing the list
+   */
+  const start = useCallback(
+    async (nextSubject: string) => {
+      stop();
+      const attempt = attemptRef.current;
+      pendingRef.current = [];
+      setMessages([]);
+      setHeldCount(0);
+      setReceived(0);
+      setError(null);
+
+      try {
+        let subscription: ExplorerSubscription | null = null;
+        subscription = await subscribeToSubject(nextSubject, handleMessage, (err) => {
+          // A subscription that was stopped or replaced may still report
+          if (subscriptionRef.current !== subscription) return;
+          setError(err.message);
+          subscriptionRef.current = null;
+          setSubject(null);
+        });
+        if (attempt !== attemptRef.current) {
+          // Stopped or restarted while the connection was opening
+          subscription.unsubscribe();
+          return;
+        }
+        subscriptionRef.current = subscription;
+        setSubject(nextSubject);
+      } catch (err) {
+        if (attempt !== attemptRef.current) return;
+        setError(err instanceof Error ? err.message : "Subscription failed");
+      }
+    },
+    [stop, handleMessage]
+  );
+
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+    setIsPaused(true);
+  }, []);
+
+  const resume = useCallback(() => {
+    pausedRef.current = false;
+    setIsPaused(false);
+    flush();
+  }, [flush]);
+
+  const clear = useCallback(() => {
+    pendingRef.current = [];
+    setMessages([]);
+    setHeldCount(0);
+  }, []);
+
+  // Unsubscribe when the page is left
+  useEffect(
+    () => () => {
+      attemptRef.current++;
+      subscriptionRef.current?.unsubscribe();
+      if (timerRef.current) clearTimeout(timerRef.current);
+    },
+    []
+  );
+
+  return {
+    /** Subject being watched (null when stopped) */
+    subject,
+    /** Received messages, newest first */
+    messages,
+    isPaused,
+    /** Messages held back while paused */
+    heldCount,
+    /** Messages received since the subscription started */
+    received,
+    error,
+    start,
+    stop,
+    pause,
+    resume,
+    clear,
+  };
+}
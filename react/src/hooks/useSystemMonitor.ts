@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  querySystemEndpoint,
+  SYSTEM_ENDPOINT_SUBJECTS,
+  SYSTEM_ENDPOINTS,
+  type SystemResults,
+} from "@/services/nats/monitoring";
+
+/**
+ * Totals at one refresh, charted over time
+ */
+export interface MonitorSample {
+  at: number;
+  connections: number;
+  subscriptions: number;
+  /** Messages per second received by the servers (or sent by the account) */
+  inMsgsPerSec: number;
+  /** Messages per second sent by the servers (or received by the account) */
+  outMsgsPerSec: number;
+  /** Server memory in bytes (null when only account stats are available) */
+  memory: number | null;
+}
+
+/** Refresh intervals offered on the monitoring page */
+export const MONITOR_INTERVALS_MS = [2000, 5000, 10000, 30000] as const;
+
+/** Samples kept for the charts */
+const MAX_SAMPLES = 60;
+
+/** How long to collect the answers of all servers */
+const MAX_WAIT_MS = 1000;
+
+interface Totals {
+  at: number;
+  connections: number;
+  subscriptions: number;
+  inMsgs: number;
+  outMsgs: number;
+  memory: number | null;
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
+
+/**
+ * Cluster totals from VARZ, falling back to the server PING and then to the
+ * account's own STATZ when the credential sees less
+ */
+function totalsOf(results: SystemResults, at: number): Totals | null {
+  if (results.varz?.status === "ok") {
+    const varz = results.varz.responses.map((response) => response.data);
+    return {
+      at,
+      connections: sum(varz, (v) => v.connections),
+      subscriptions: sum(varz, (v) => v.subscriptions),
+      inMsgs: sum(varz, (v) => v.in_msgs),
+      outMsgs: sum(varz, (v) => v.out_msgs),
+      memory: sum(varz, (v) => v.mem),
+    };
+  }
+  if (results.ping?.status === "ok") {
+    const stats = results.ping.responses.map((response) => response.data);
+    return {
+      at,
+      connections: sum(stats, (s) => s.connections),
+      subscriptions: sum(stats, (s) => s.subscriptions),
+      inMsgs: sum(stats, (s) => s.received.msgs),
+      outMsgs: sum(stats, (s) => s.sent.msgs),
+      memory: sum(stats, (s) => s.mem),
+    };
+  }
+  if (results.accountStatz?.status === "ok") {
+    const stats = results.accountStatz.responses.flatMap((response) => response.data.account_statz);
+    return {
+      at,
+      connections: sum(stats, (s) => s.conns),
+      subscriptions: sum(stats, (s) => s.num_subscriptions),
+      inMsgs: sum(stats, (s) => s.sent.msgs),
+      outMsgs: sum(stats, (s) => s.received.msgs),
+      memory: null,
+    };
+  }
+  return null;
+}
+
+function sampleOf(totals: Totals, previous: Totals): MonitorSample {
+  const seconds = (totals.at - previous.at) / 1000;
+  // Counters restart with a server, which would make the rate negative
+  const rate = (current: number, before: number) =>
+    seconds > 0 ? Math.max(0, (current - before) / seconds) : 0;
+
+  return {
+    at: totals.at,
+    connections: totals.connections,
+    subscriptions: totals.subscriptions,
+    inMsgsPerSec: rate(totals.inMsgs, previous.inMsgs),
+    outMsgsPerSec: rate(totals.outMsgs, previous.outMsgs),
+    memory: totals.memory,
+  };
+}
+
+/**
+ * Hook that polls the NATS system endpoints on an interval while the page is
+ * open. Endpoints the credential may not request are reported as denied
+ * without being sent.
+ */
+export function useSystemMonitor(intervalMs: number) {
+  const { connectionStatus } = useAuth();
+  const { canRequest } = usePermissions();
+  const [results, setResults] = useState<SystemResults>({});
+  const [history, setHistory] = useState<MonitorSample[]>([]);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const inFlightRef = useRef(false);
+  const totalsRef = useRef<Totals | null>(null);
+
+  const canPoll = connectionStatus === "connected";
+
+  const refresh = useCallback(async () => {
+    // Skip a tick while the previous refresh is still collecting answers
+    if (inFlightRef.current) return;
+    inFlightRef.current = true;
+    setIsRefreshing(true);
+
+    try {
+      const entries = await Promise.all(
+        SYSTEM_ENDPOINTS.map(async (endpoint) => {
+          const subject = SYSTEM_ENDPOINT_SUBJECTS[endpoint];
+          if (!canRequest(subject)) {
+            return [
+              endpoint,
+              { status: "denied", error: `Your credential may not request ${subject}.` },
+            ] as const;
+          }
+          try {
+            return [endpoint, await querySystemEndpoint(endpoint, MAX_WAIT_MS)] as const;
+          } catch (error) {
+            const message = error instanceof Error ? error.message : "Request failed";
+            return [endpoint, { status: "error", error: message }] as const;
+          }
+        })
+      );
+
+      const next = Object.fromEntries(entries) as SystemResults;
+      const now = Date.now();
+      const totals = totalsOf(next, now);
+      // Rates need two refreshes, so charting starts with the second one
+      if (totals && totalsRef.current) {
+        const sample = sampleOf(totals, totalsRef.current);
+        setHistory((previous) => [...previous, sample].slice(-MAX_SAMPLES));
+      }
+      totalsRef.current = totals;
+      setResults(next);
+      setLastUpdated(now);
+    } finally {
+      inFlightRef.current = false;
+      setIsRefreshing(false);
+    }
+  }, [canRequest]);
+
+  useEffect(() => {
+    if (!canPoll) return;
+
+    const initial = setTimeout(refresh, 0);
+    const timer = setInterval(refresh, intervalMs);
+    return () => {
+      clearTimeout(initial);
+      clearInterval(timer);
+    };
+  }, [canPoll, intervalMs, refresh]);
+
+  return {
+    /** Latest result of every endpoint (empty before the first refresh) */
+    results,
+    /** Samples for the charts, oldest first */
+    history,
+    lastUpdated,
+    isRefreshing,
+    /** Whether this tab can query the system endpoints */
+    canPoll,
+    refresh,
+  };
+}
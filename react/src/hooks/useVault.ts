@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from "react";
+import { getCredentialStorage } from "@/services/credentials/storage";
+import { isPrfSupported } from "@/services/credentials/webauthn";
+import type { VaultStatus } from "@/types";
+
+/**
+ * Hook for the passphrase protection of stored credentials.
+ * `status` is null until the vault settings have been read.
+ */
+export function useVault() {
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+
+  useEffect(() => {
+    const storage = getCredentialStorage();
+    let cancelled = false;
+
+    storage
+      .getVaultStatus()
+      .then((current) => {
+        if (!cancelled) setStatus(current);
+      })
+      .catch((error) => {
+        console.warn("Failed to read vault status:", error);
+      });
+
+    const unsubscribe = storage.onVaultChange(setStatus);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  /**
+   * Read the current status (e.g. before the hook state has loaded)
+   */
+  const getVaultStatus = useCallback(async (): Promise<VaultStatus> => {
+    return getCredentialStorage().getVaultStatus();
+  }, []);
+
+  /**
+   * Unlock with the passphrase; false if it is wrong
+   */
+  const unlock = useCallback(async (passphrase: string): Promise<boolean> => {
+    return getCredentialStorage().unlock(passphrase);
+  }, []);
+
+  /**
+   * Unlock with an enrolled platform authenticator; prompts the user
+   */
+  const unlockWithAuthenticator = useCallback(async (): Promise<boolean> => {
+    return getCredentialStorage().unlockWithAuthenticator();
+  }, []);
+
+  /**
+   * Lock the vault now
+   */
+  const lock = useCallback((): void => {
+    getCredentialStorage().lock();
+  }, []);
+
+  /**
+   * Protect stored credentials with a passphrase
+   */
+  const enablePassphrase = useCallback(async (passphrase: string): Promise<void> => {
+    await getCredentialStorage().enablePassphrase(passphrase);
+  }, []);
+
+  /**
+   * Change the passphrase; false if the current one is wrong
+   */
+  const changePassphrase = useCallback(async (current: string, next: string): Promise<boolean> => {
+    return getCredentialStorage().changePassphrase(current, next);
+  }, []);
+
+  /**
+   * Return to the device-derived key; false if the passphrase is wrong
+   */
+  const disablePassphrase = useCallback(async (passphrase: string): Promise<boolean> => {
+    return getCredentialStorage().disablePassphrase(passphrase);
+  }, []);
+
+  /**
+   * Check whether a platform authenticator with the PRF extension is available
+   */
+  const isAuthenticatorSupported = useCallback(async (): Promise<boolean> => {
+    return isPrfSupported();
+  }, []);
+
+  /**
+   * Enroll a platform authenticator; false if the passphrase is wrong
+   */
+  const enrollAuthenticator = useCallback(
+    async (passphrase: string, label: string): Promise<boolean> => {
+      return getCredentialStorage().enrollAuthenticator(passphrase, label);
+    },
+    []
+  );
+
+  /**
+   * Stop accepting an enrolled authenticator
+   */
+  const removeAuthenticator = useCallback(async (id: string): Promise<void> => {
+    await getCredentialStorage().removeAuthenticator(id);
+  }, []);
+
+  /**
+   * Change the inactivity timeout (0 = never)
+   */
+  const setAutoLockMinutes = useCallback(async (minutes: number): Promise<void> => {
+    await getCredentialStorage().setAutoLockMinutes(minutes);
+  }, []);
+
+  return {
+    status,
+    isPassphraseEnabled: status?.mode === "passphrase",
+    isLocked: status?.locked ?? false,
+    hasAuthenticators: (status?.authenticators.length ?? 0) > 0,
+    getVaultStatus,
+    unlock,
+    unlockWithAuthenticator,
+    lock,
+    enablePassphrase,
+    changePassphrase,
+    disablePassphrase,
+    isAuthenticatorSupported,
+    enrollAuthenticator,
+    removeAuthenticator,
+    setAutoLockMinutes,
+  };
+}
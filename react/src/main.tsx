@@ -2,9 +2,16 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App";
+import { ConfigError } from "./components/ConfigError";
+import { getRuntimeConfig, getRuntimeConfigStore } from "./config/runtime";
+import { startRemoteConfig } from "./services/nats/remoteConfig";
+
+// Load config.json before anything reads the configuration
+const result = await getRuntimeConfigStore().load();
+if (result.success && getRuntimeConfig().remote) {
+  startRemoteConfig();
+}
 
 createRoot(document.getElementById("root")!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
+  <StrictMode>{result.success ? <App /> : <ConfigError errors={result.errors} />}</StrictMode>
 );
@@ -1,14 +1,41 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { CredentialUpload } from "@/components/CredentialUpload";
 import { UserPassLogin } from "@/components/UserPassLogin";
+import { TokenLogin } from "@/components/TokenLogin";
+import { NKeyLogin } from "@/components/NKeyLogin";
+import { JwtSignerLogin } from "@/components/JwtSignerLogin";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
 import { useAuth } from "@/hooks/useAuth";
-import { getAuthType } from "@/config/auth";
-import type { Credential } from "@/types";
+import { useConfig } from "@/hooks/useConfig";
+import { normalizeServerUrls } from "@/config/servers";
+import type { AuthType, Credential } from "@/types";
 
 /**
- * Authentication page with credential upload or username/password login
+ * Description text per auth type
+ */
+const DESCRIPTIONS: Record<AuthType, string> = {
+  credsfile: "Upload your .creds file to authenticate and connect to the NATS server.",
+  userpass: "Enter your username and password to authenticate and connect to the NATS server.",
+  token: "Enter your token to authenticate and connect to the NATS server.",
+  nkey: "Enter your NKey seed to authenticate and connect to the NATS server.",
+  jwtsigner:
+    "Enter your user JWT. The connection nonce is signed by your signer, so the key never reaches the browser.",
+};
+
+/**
+ * Names of the auth types in the login method chooser
+ */
+const AUTH_TYPE_NAMES: Record<AuthType, string> = {
+  credsfile: "Credential file",
+  userpass: "Password",
+  token: "Token",
+  nkey: "NKey",
+  jwtsigner: "Remote signer",
+};
+
+/**
+ * Authentication page with a login form for the configured auth type
  */
 export function AuthPage() {
   const navigate = useNavigate();
@@ -20,9 +47,19 @@ export function AuthPage() {
     authenticateWithCredential,
   } = useAuth();
 
-  // Get configuration from environment
-  const serverUrl = import.meta.env.VITE_NATS_URL || "wss://localhost:9443";
-  const authType = getAuthType();
+  // Login methods and default servers from the runtime configuration
+  const config = useConfig();
+  const [selectedAuthType, setSelectedAuthType] = useState<AuthType | null>(null);
+  const authType =
+    selectedAuthType && config.authTypes.includes(selectedAuthType)
+      ? selectedAuthType
+      : config.authTypes[0];
+
+  // Each stored account keeps its own label and servers
+  const [label, setLabel] = useState("");
+  const [serversInput, setServersInput] = useState(() => config.servers.join(", "));
+  const parsedServers = normalizeServerUrls(serversInput);
+  const serverUrls = parsedServers.length > 0 ? parsedServers : config.servers;
 
   // Redirect if already connected
   useEffect(() => {
@@ -32,7 +69,9 @@ export function AuthPage() {
   }, [isAuthenticated, navigate]);
 
   const handleCredentialLoaded = async (credential: Credential) => {
-    const success = await authenticateWithCredential(credential, serverUrl);
+    const success = await authenticateWithCredential(credential, serverUrls, true, {
+      label: label.trim() || undefined,
+    });
     if (success) {
       navigate("/dashboard");
     }
@@ -42,34 +81,102 @@ export function AuthPage() {
   // The connectionError state from the hook will be displayed
   const handleCredentialError = () => {};
 
-  // Description text based on auth type
-  const descriptionText =
-    authType === "userpass"
-      ? "Enter your username and password to authenticate and connect to the NATS server."
-      : "Upload your .creds file to authenticate and connect to the NATS server.";
+  const renderLoginForm = () => {
+    const props = {
+      onSubmit: handleCredentialLoaded,
+      onError: handleCredentialError,
+      disabled: isLoading,
+    };
+    switch (authType) {
+      case "userpass":
+        return <UserPassLogin {...props} />;
+      case "token":
+        return <TokenLogin {...props} />;
+      case "nkey":
+        return <NKeyLogin {...props} />;
+      case "jwtsigner":
+        return <JwtSignerLogin {...props} />;
+      default:
+        return (
+          <CredentialUpload
+            onCredentialLoaded={handleCredentialLoaded}
+            onError={handleCredentialError}
+            disabled={isLoading}
+          />
+        );
+    }
+  };
 
   return (
     <div className="flex min-h-screen flex-col items-center justify-center bg-background p-4">
       <div className="w-full max-w-md">
         <div className="mb-8 text-center">
           <h1 className="text-2xl font-bold text-foreground">Connect to NATS</h1>
-          <p className="mt-2 text-muted-foreground">{descriptionText}</p>
+          <p className="mt-2 text-muted-foreground">{DESCRIPTIONS[authType]}</p>
         </div>
 
-        {authType === "userpass" ? (
-          <UserPassLogin
-            onSubmit={handleCredentialLoaded}
-            onError={handleCredentialError}
-            disabled={isLoading}
-          />
-        ) : (
-          <CredentialUpload
-            onCredentialLoaded={handleCredentialLoaded}
-            onError={handleCredentialError}
-            disabled={isLoading}
-          />
+        <div className="mb-6 space-y-4">
+          <div>
+            <label
+              htmlFor="account-label"
+              className="block text-sm font-medium text-foreground mb-1"
+            >
+              Account label <span className="text-muted-foreground">(optional)</span>
+            </label>
+            <input
+              id="account-label"
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              disabled={isLoading}
+              placeholder="e.g. Production"
+              className="w-full rounded-md border border-border px-3 py-2 bg-card text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background disabled:cursor-not-allowed disabled:opacity-50"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="account-servers"
+              className="block text-sm font-medium text-foreground mb-1"
+            >
+              Servers
+            </label>
+            <input
+              id="account-servers"
+              type="text"
+              value={serversInput}
+              onChange={(e) => setServersInput(e.target.value)}
+              disabled={isLoading}
+              placeholder="wss://nats.example.com:443"
+              className="w-full rounded-md border border-border px-3 py-2 bg-card text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background disabled:cursor-not-allowed disabled:opacity-50"
+            />
+            <p className="mt-1 text-xs text-muted-foreground">Comma-separated, in failover order</p>
+          </div>
+        </div>
+
+        {config.authTypes.length > 1 && (
+          <div className="mb-4 flex rounded-md border border-border p-1" role="tablist">
+            {config.authTypes.map((type) => (
+              <button
+                key={type}
+                type="button"
+                role="tab"
+                aria-selected={type === authType}
+                onClick={() => setSelectedAuthType(type)}
+                disabled={isLoading}
+                className={`flex-1 rounded px-2 py-1 text-sm font-medium transition-colors disabled:cursor-not-allowed ${
+                  type === authType
+                    ? "bg-primary text-primary-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                {AUTH_TYPE_NAMES[type]}
+              </button>
+            ))}
+          </div>
         )}
 
+        {renderLoginForm()}
+
         {isLoading && connectionStatus === "connecting" && (
           <LoadingSpinner size="sm" text="Connecting to NATS server..." className="mt-4" />
         )}
@@ -86,9 +193,15 @@ export function AuthPage() {
 
         <div className="mt-8 text-center">
           <p className="text-xs text-muted-foreground">
-            Connecting to:{" "}
-            <code className="rounded bg-muted px-1 py-0.5 text-foreground">{serverUrl}</code>
+            Connecting to{serverUrls.length > 1 ? " (in order)" : ""}:
           </p>
+          <ol className="mt-1 space-y-1">
+            {serverUrls.map((url) => (
+              <li key={url} className="text-xs">
+                <code className="rounded bg-muted px-1 py-0.5 text-foreground">{url}</code>
+              </li>
+            ))}
+          </ol>
         </div>
       </div>
     </div>
@@ -1,16 +1,32 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useAppState } from "@/hooks/useAppState";
+import { useClusterServers } from "@/hooks/useClusterServers";
+import { Avatar } from "@/components/Avatar";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
 import { StateIndicator } from "@/components/StateIndicator";
-import { isCredsFileCredential } from "@/types";
+import { PendingCommands } from "@/components/PendingCommands";
+import { CredentialClaims } from "@/components/CredentialClaims";
+import { usePermissionError } from "@/hooks/usePermissionError";
+import { getCredentialClaims } from "@/services/credentials/jwt";
+import type { AuthType } from "@/types";
 import type { Notification, Session } from "@/types/events";
 
+const AUTH_TYPE_LABELS: Record<AuthType, string> = {
+  credsfile: "Credential File",
+  userpass: "Username/Password",
+  token: "Token",
+  nkey: "NKey",
+  jwtsigner: "JWT (Remote Signer)",
+};
+
 /**
  * Protected dashboard page showing connection info and materialized state
  */
 export function DashboardPage() {
   const { credential, serverUrl, connectionStatus } = useAuth();
+  const { currentServer, servers } = useClusterServers();
+  const permissionError = usePermissionError();
   const {
     user,
     isLoading,
@@ -34,11 +50,14 @@ export function DashboardPage() {
     <div className="py-10">
       <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between">
-          <div>
-            <h1 className="text-3xl font-bold text-foreground">Dashboard</h1>
-            <p className="mt-2 text-muted-foreground">
-              {user ? `Welcome back, ${user.name}!` : "You are connected to the NATS server."}
-            </p>
+          <div className="flex items-center gap-4">
+            {user && <Avatar user={user} size="lg" />}
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Dashboard</h1>
+              <p className="mt-2 text-muted-foreground">
+                {user ? `Welcome back, ${user.name}!` : "You are connected to the NATS server."}
+              </p>
+            </div>
           </div>
           <div className="flex items-center gap-4">
             <StateIndicator hideWhenSynced />
@@ -74,7 +93,22 @@ export function DashboardPage() {
                   </span>
                 }
               />
-              <InfoRow label="Server" value={serverUrl || "Unknown"} />
+              <InfoRow label="Server" value={currentServer || serverUrl || "Unknown"} />
+              {servers.length > 1 && (
+                <div>
+                  <span className="text-sm text-muted-foreground">Cluster Members</span>
+                  <ul className="mt-2 space-y-1">
+                    {servers.map((server) => (
+                      <li key={server} className="flex items-center justify-between text-xs">
+                        <code className="rounded bg-muted px-2 py-1">{server}</code>
+                        {isCurrentServer(server, currentServer) && (
+                          <span className="font-medium text-success">current</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
 
@@ -84,11 +118,9 @@ export function DashboardPage() {
             <div className="mt-4 space-y-3">
               <InfoRow
                 label="Auth Type"
-                value={
-                  credential?.authType === "userpass" ? "Username/Password" : "Credential File"
-                }
+                value={credential ? AUTH_TYPE_LABELS[credential.authType] : "Credential File"}
               />
-              {credential && isCredsFileCredential(credential) && (
+              {credential && "publicKey" in credential && (
                 <InfoRow
                   label="Public Key"
                   value={
@@ -124,13 +156,20 @@ export function DashboardPage() {
                   credential?.loadedAt ? new Date(credential.loadedAt).toLocaleString() : "Unknown"
                 }
               />
+              <CredentialClaims
+                claims={getCredentialClaims(credential)}
+                permissionError={permissionError}
+              />
             </div>
           </div>
 
           {/* User Info Card */}
           {user && (
             <div className="rounded-lg bg-card p-6 shadow border border-border">
-              <h2 className="text-lg font-medium text-card-foreground">User Profile</h2>
+              <div className="flex items-center gap-3">
+                <Avatar user={user} size="sm" />
+                <h2 className="text-lg font-medium text-card-foreground">User Profile</h2>
+              </div>
               <div className="mt-4 space-y-3">
                 <InfoRow label="Name" value={user.name} />
                 <InfoRow label="Email" value={user.email} />
@@ -148,6 +187,9 @@ export function DashboardPage() {
           <StatCard label="All Sessions" value={activeSessionList.length} color="muted" />
         </div>
 
+        {/* Offline Outbox */}
+        <PendingCommands className="mt-8" />
+
         {/* Notifications Section */}
         {notificationList.length > 0 && (
           <div className="mt-8">
@@ -188,6 +230,14 @@ export function DashboardPage() {
   );
 }
 
+/**
+ * Match a server list entry (URL or host:port) against the connected host:port
+ */
+function isCurrentServer(server: string, currentServer: string | null): boolean {
+  if (!currentServer) return false;
+  return server === currentServer || server.includes(`//${currentServer}`);
+}
+
 interface InfoRowProps {
   label: string;
   value: React.ReactNode;
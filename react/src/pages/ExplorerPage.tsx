@@ -0,0 +1,181 @@
+/**
+ * Explorer Page
+ *
+ * Watches live traffic on a subject or wildcard, like `nats sub`, on the
+ * app's own connection.
+ */
+
+import { useState, type FormEvent } from "react";
+import { useSubjectExplorer } from "@/hooks/useSubjectExplorer";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useAuth } from "@/hooks/useAuth";
+import { VirtualList } from "@/components/VirtualList";
+import { MessageDetails } from "@/components/MessageDetails";
+import { formatBytes } from "@/utils/payload";
+import { getNamespace, isValidSubject } from "@/utils/subjects";
+
+const ROW_HEIGHT = 40;
+const LIST_HEIGHT = 480;
+
+/**
+ * Subject explorer with a live, pausable message list
+ */
+export function ExplorerPage() {
+  const { connectionStatus } = useAuth();
+  const { canSubscribe } = usePermissions();
+  const explorer = useSubjectExplorer();
+  const [input, setInput] = useState(() => `${getNamespace()}.>`);
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const selected = explorer.messages.find((message) => message.id === selectedId) ?? null;
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const subject = input.trim();
+
+    if (!isValidSubject(subject, true)) {
+      setInputError("Enter a subject; use * for one token and > for the remaining tokens.");
+      return;
+    }
+    if (!canSubscribe(subject)) {
+      setInputError(`Your credential does not allow subscribing to "${subject}".`);
+      return;
+    }
+
+    setInputError(null);
+    setSelectedId(null);
+    explorer.start(subject);
+  };
+
+  return (
+    <div className="py-10">
+      <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-foreground">Subject Explorer</h1>
+        <p className="mt-2 text-muted-foreground">
+          Watch live messages on a subject. Wildcards: <code>*</code> matches one token,{" "}
+          <code>&gt;</code> the remaining tokens.
+        </p>
+
+        <form onSubmit={handleSubmit} className="mt-6 flex flex-wrap gap-2">
+          <label htmlFor="explorer-subject" className="sr-only">
+            Subject
+          </label>
+          <input
+            id="explorer-subject"
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            spellCheck={false}
+            placeholder="app.events.>"
+            className="min-w-0 flex-1 rounded-md border border-border bg-card px-3 py-2 font-mono text-sm text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <button
+            type="submit"
+            disabled={connectionStatus !== "connected"}
+            className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {explorer.subject ? "Resubscribe" : "Subscribe"}
+          </button>
+          {explorer.subject && (
+            <>
+              <button
+                type="button"
+                onClick={explorer.isPaused ? explorer.resume : explorer.pause}
+                className="rounded-md bg-muted px-4 py-2 text-sm font-medium text-foreground hover:bg-muted/80"
+              >
+                {explorer.isPaused ? "Resume" : "Pause"}
+              </button>
+              <button
+                type="button"
+                onClick={explorer.stop}
+                className="rounded-md bg-muted px-4 py-2 text-sm font-medium text-foreground hover:bg-muted/80"
+              >
+                Stop
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => {
+              explorer.clear();
+              setSelectedId(null);
+            }}
+            disabled={explorer.messages.length === 0}
+            className="rounded-md px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground disabled:opacity-50"
+          >
+            Clear
+          </button>
+        </form>
+
+        {(inputError || explorer.error) && (
+          <div
+            className="mt-3 rounded-md border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive"
+            role="alert"
+          >
+            {inputError ?? explorer.error}
+          </div>
+        )}
+
+        <div className="mt-4 flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+          <span>
+            {explorer.subject ? (
+              <>
+                Watching <code className="text-foreground">{explorer.subject}</code>
+              </>
+            ) : (
+              "Not subscribed"
+            )}
+          </span>
+          <span>{explorer.received} received</span>
+          <span>{explorer.messages.length} listed</span>
+          {explorer.isPaused && (
+            <span className="text-warning">Paused - {explorer.heldCount} held back</span>
+          )}
+        </div>
+
+        <div className="mt-4 grid gap-6 lg:grid-cols-2">
+          <div className="rounded-lg border border-border bg-card shadow">
+            <VirtualList
+              items={explorer.messages}
+              rowHeight={ROW_HEIGHT}
+              height={LIST_HEIGHT}
+              getKey={(message) => message.id}
+              empty={
+                <p className="p-6 text-center text-sm text-muted-foreground">
+                  {explorer.subject ? "Waiting for messages..." : "Subscribe to see messages."}
+                </p>
+              }
+              renderRow={(message) => (
+                <button
+                  onClick={() => setSelectedId(message.id)}
+                  className={`flex h-full w-full items-center gap-3 border-b border-border px-3 text-left text-sm ${
+                    message.id === selectedId ? "bg-primary/10" : "hover:bg-muted"
+                  }`}
+                >
+                  <span className="w-20 shrink-0 text-xs text-muted-foreground">
+                    {new Date(message.receivedAt).toLocaleTimeString()}
+                  </span>
+                  <code className="min-w-0 flex-1 truncate text-foreground">{message.subject}</code>
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    {formatBytes(message.size)}
+                  </span>
+                </button>
+              )}
+            />
+          </div>
+
+          <div className="rounded-lg border border-border bg-card p-6 shadow">
+            {selected ? (
+              <MessageDetails key={selected.id} message={selected} />
+            ) : (
+              <p className="text-sm text-muted-foreground">Select a message to inspect it.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export { ExplorerPage as default };
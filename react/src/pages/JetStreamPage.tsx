@@ -0,0 +1,561 @@
+/**
+ * JetStream Page
+ *
+ * Browses the streams and consumers of the account, pages through stream
+ * messages and deletes or purges them when the credential allows it.
+ */
+
+import { useState, type FormEvent, type ReactNode } from "react";
+import type { ConsumerInfo, StreamInfo } from "@nats-io/jetstream";
+import { useStreamDetails, useStreamMessages, useStreams } from "@/hooks/useJetStream";
+import { usePermissions } from "@/hooks/usePermissions";
+import { ConfirmButton } from "@/components/ConfirmButton";
+import { MessageDetails } from "@/components/MessageDetails";
+import type { PurgeOptions } from "@/services/jetstream/browser";
+import { formatBytes } from "@/utils/payload";
+import { JETSTREAM_API_SUBJECTS } from "@/utils/subjects";
+
+const PAGE_SIZE = 50;
+
+type StreamTab = "overview" | "consumers" | "messages";
+
+const TABS: Array<{ value: StreamTab; label: string }> = [
+  { value: "overview", label: "Overview" },
+  { value: "consumers", label: "Consumers" },
+  { value: "messages", label: "Messages" },
+];
+
+const inputClassName =
+  "rounded-md border border-border bg-card px-3 py-2 text-sm text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary";
+
+const formatCount = (value: number) => value.toLocaleString();
+
+/** Limits of -1 (or 0 for durations) mean unlimited */
+const formatLimit = (value: number, format: (value: number) => string = formatCount) =>
+  value < 0 ? "Unlimited" : format(value);
+
+/**
+ * Format a JetStream duration, which is in nanoseconds
+ */
+function formatNanos(nanos: number): string {
+  if (!nanos) return "Unlimited";
+  let seconds = Math.round(nanos / 1e9);
+  const parts: string[] = [];
+  for (const [unit, size] of [
+    ["d", 86400],
+    ["h", 3600],
+    ["m", 60],
+  ] as const) {
+    if (seconds >= size) {
+      parts.push(`${Math.floor(seconds / size)}${unit}`);
+      seconds %= size;
+    }
+  }
+  if (seconds > 0 || parts.length === 0) parts.push(`${seconds}s`);
+  return parts.join(" ");
+}
+
+/**
+ * Stream and consumer browser
+ */
+export function JetStreamPage() {
+  const { streams, isLoading, error, canBrowse, refresh } = useStreams();
+  const [selected, setSelected] = useState<string | null>(null);
+
+  return (
+    <div className="py-10">
+      <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-foreground">JetStream</h1>
+        <p className="mt-2 text-muted-foreground">
+          Streams and consumers of your account, and the messages they store.
+        </p>
+
+        {error && (
+          <div
+            className="mt-6 rounded-md border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive"
+            role="alert"
+          >
+            {error}
+          </div>
+        )}
+
+        <div className="mt-8 grid gap-6 lg:grid-cols-4">
+          <aside className="rounded-lg border border-border bg-card p-4 shadow lg:col-span-1">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-medium text-card-foreground">Streams</h2>
+              <button
+                onClick={refresh}
+                disabled={!canBrowse || isLoading}
+                className="text-xs font-medium text-primary hover:underline disabled:opacity-50"
+              >
+                {isLoading ? "Loading..." : "Refresh"}
+              </button>
+            </div>
+            {streams.length === 0 ? (
+              <p className="mt-2 text-xs text-muted-foreground">
+                {isLoading ? "Loading streams..." : "No streams."}
+              </p>
+            ) : (
+              <ul className="mt-2 space-y-1">
+                {streams.map((stream) => (
+                  <li key={stream.config.name}>
+                    <button
+                      onClick={() => setSelected(stream.config.name)}
+                      className={`w-full rounded px-2 py-1.5 text-left ${
+                        stream.config.name === selected ? "bg-primary/10" : "hover:bg-muted"
+                      }`}
+                    >
+                      <span className="block truncate text-sm text-foreground">
+                        {stream.config.name}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatCount(stream.state.messages)} msgs ·{" "}
+                        {formatBytes(stream.state.bytes)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </aside>
+
+          <div className="lg:col-span-3">
+            {selected ? (
+              <StreamPanel key={selected} stream={selected} onChanged={refresh} />
+            ) : (
+              <div className="rounded-lg border border-border bg-card p-6 text-sm text-muted-foreground shadow">
+                Select a stream to inspect it.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Stream
+// =============================================================================
+
+interface StreamPanelProps {
+  stream: string;
+  /** Called after messages were deleted or purged */
+  onChanged: () => void;
+}
+
+function StreamPanel({ stream, onChanged }: StreamPanelProps) {
+  const [tab, setTab] = useState<StreamTab>("overview");
+  const details = useStreamDetails(stream);
+
+  const handlePurge = async (options: PurgeOptions) => {
+    const purged = await details.purge(options);
+    if (purged !== null) onChanged();
+    return purged;
+  };
+
+  const handleDeleted = () => {
+    details.refresh();
+    onChanged();
+  };
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-6 shadow">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-lg font-medium text-card-foreground">{stream}</h2>
+        <div className="flex rounded-md border border-border p-0.5" role="tablist">
+          {TABS.map(({ value, label }) => (
+            <button
+              key={value}
+              role="tab"
+              aria-selected={value === tab}
+              onClick={() => setTab(value)}
+              className={`rounded px-3 py-1 text-sm font-medium ${
+                value === tab
+                  ? "bg-primary text-primary-foreground"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {details.error && <p className="mt-4 text-sm text-destructive">{details.error}</p>}
+
+      <div className="mt-6">
+        {!details.info ? (
+          !details.error && <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : tab === "overview" ? (
+          <StreamOverview info={details.info} onPurge={handlePurge} />
+        ) : tab === "consumers" ? (
+          <ConsumerList consumers={details.consumers} />
+        ) : (
+          <MessageBrowser info={details.info} onDeleted={handleDeleted} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface StreamOverviewProps {
+  info: StreamInfo;
+  /** Resolves with the number of purged messages, or null on failure */
+  onPurge: (options: PurgeOptions) => Promise<number | null>;
+}
+
+function StreamOverview({ info, onPurge }: StreamOverviewProps) {
+  const { config, state } = info;
+  const { canRequest } = usePermissions();
+  const [purgeFilter, setPurgeFilter] = useState("");
+  const [keep, setKeep] = useState("");
+  const [purged, setPurged] = useState<number | null>(null);
+
+  const canPurge = canRequest(JETSTREAM_API_SUBJECTS.streamPurge(config.name));
+
+  const handlePurge = async () => {
+    const count = await onPurge({
+      filter: purgeFilter.trim() || undefined,
+      keep: keep ? Number(keep) : undefined,
+    });
+    if (count !== null) setPurged(count);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 md:grid-cols-2">
+        <div>
+          <h3 className="text-sm font-medium text-foreground">Configuration</h3>
+          <dl className="mt-2 space-y-2 text-sm">
+            <DetailRow label="Subjects" value={(config.subjects ?? []).join(", ") || "-"} />
+            <DetailRow label="Retention" value={config.retention} />
+            <DetailRow label="Storage" value={config.storage} />
+            <DetailRow label="Replicas" value={config.num_replicas} />
+            <DetailRow label="Max messages" value={formatLimit(config.max_msgs)} />
+            <DetailRow label="Max bytes" value={formatLimit(config.max_bytes, formatBytes)} />
+            <DetailRow label="Max age" value={formatNanos(config.max_age)} />
+            <DetailRow label="Discard" value={config.discard} />
+            <DetailRow label="Duplicate window" value={formatNanos(config.duplicate_window)} />
+          </dl>
+        </div>
+        <div>
+          <h3 className="text-sm font-medium text-foreground">State</h3>
+          <dl className="mt-2 space-y-2 text-sm">
+            <DetailRow label="Messages" value={formatCount(state.messages)} />
+            <DetailRow label="Size" value={formatBytes(state.bytes)} />
+            <DetailRow label="First sequence" value={state.first_seq} />
+            <DetailRow label="Last sequence" value={state.last_seq} />
+            <DetailRow label="First message" value={new Date(state.first_ts).toLocaleString()} />
+            <DetailRow label="Last message" value={new Date(state.last_ts).toLocaleString()} />
+            <DetailRow label="Subjects" value={formatCount(state.num_subjects ?? 0)} />
+            <DetailRow label="Deleted" value={formatCount(state.num_deleted ?? 0)} />
+            <DetailRow label="Consumers" value={state.consumer_count} />
+          </dl>
+        </div>
+      </div>
+
+      {canPurge && (
+        <div className="border-t border-border pt-4">
+          <h3 className="text-sm font-medium text-foreground">Purge</h3>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Removes the messages on matching subjects (all when empty), keeping the newest ones if a
+            number is given.
+          </p>
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={purgeFilter}
+              onChange={(e) => setPurgeFilter(e.target.value)}
+              placeholder="Subject filter"
+              aria-label="Purge subject filter"
+              spellCheck={false}
+              className={`${inputClassName} font-mono`}
+            />
+            <input
+              type="number"
+              min={0}
+              value={keep}
+              onChange={(e) => setKeep(e.target.value)}
+              placeholder="Keep"
+              aria-label="Messages to keep"
+              className={`${inputClassName} w-28`}
+            />
+            <ConfirmButton label="Purge" confirmLabel="Purge messages" onConfirm={handlePurge} />
+          </div>
+          {purged !== null && (
+            <p className="mt-2 text-sm text-muted-foreground">
+              Purged {formatCount(purged)} messages.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// Consumers
+// =============================================================================
+
+function ConsumerList({ consumers }: { consumers: ConsumerInfo[] }) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  if (consumers.length === 0) {
+    return <p className="text-sm text-muted-foreground">This stream has no consumers.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-border text-left text-xs text-muted-foreground">
+            {[
+              "Name",
+              "Filter",
+              "Deliver",
+              "Ack",
+              "Pending",
+              "Ack pending",
+              "Redelivered",
+              "Last delivered",
+            ].map((header) => (
+              <th key={header} className="whitespace-nowrap px-3 py-2 font-medium">
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {consumers.map((consumer) => {
+            const filters = consumer.config.filter_subjects ?? [consumer.config.filter_subject];
+            return [
+              <tr
+                key={consumer.name}
+                onClick={() => setExpanded(expanded === consumer.name ? null : consumer.name)}
+                className="cursor-pointer border-b border-border hover:bg-muted"
+              >
+                <td className="whitespace-nowrap px-3 py-2 text-foreground">
+                  {consumer.name}
+                  {consumer.config.durable_name && (
+                    <span className="ml-2 text-xs text-muted-foreground">durable</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 font-mono text-xs text-foreground">
+                  {filters.filter(Boolean).join(", ") || "-"}
+                </td>
+                <td className="px-3 py-2 text-foreground">{consumer.config.deliver_policy}</td>
+                <td className="px-3 py-2 text-foreground">{consumer.config.ack_policy}</td>
+                <td className="px-3 py-2 text-foreground">{formatCount(consumer.num_pending)}</td>
+                <td className="px-3 py-2 text-foreground">
+                  {formatCount(consumer.num_ack_pending)}
+                </td>
+                <td className="px-3 py-2 text-foreground">
+                  {formatCount(consumer.num_redelivered)}
+                </td>
+                <td className="px-3 py-2 text-foreground">{consumer.delivered.stream_seq}</td>
+              </tr>,
+              expanded === consumer.name && (
+                <tr key={`${consumer.name}-config`} className="border-b border-border">
+                  <td colSpan={8} className="p-3">
+                    <pre className="max-h-80 overflow-auto rounded-md bg-muted p-3 font-mono text-xs text-foreground">
+                      {JSON.stringify(consumer.config, null, 2)}
+                    </pre>
+                  </td>
+                </tr>
+              ),
+            ];
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// =============================================================================
+// Messages
+// =============================================================================
+
+function MessageBrowser({ info, onDeleted }: { info: StreamInfo; onDeleted: () => void }) {
+  const stream = info.config.name;
+  const { canRequest } = usePermissions();
+  const messages = useStreamMessages(stream, PAGE_SIZE);
+  const [startMode, setStartMode] = useState<"seq" | "time">("seq");
+  const [startSeq, setStartSeq] = useState(() => String(info.state.first_seq || 1));
+  const [startTime, setStartTime] = useState("");
+  const [selectedSeq, setSelectedSeq] = useState<number | null>(null);
+
+  const canDelete = canRequest(JETSTREAM_API_SUBJECTS.messageDelete(stream));
+  const selected = messages.messages.find((message) => message.seq === selectedSeq) ?? null;
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSelectedSeq(null);
+    if (startMode === "seq") {
+      messages.load({ seq: Math.max(1, Number(startSeq) || 1) });
+    } else if (startTime) {
+      messages.load({ time: new Date(startTime) });
+    }
+  };
+
+  const loadLatest = () => {
+    setSelectedSeq(null);
+    messages.load({ seq: Math.max(info.state.first_seq, info.state.last_seq - PAGE_SIZE + 1) });
+  };
+
+  const handleDelete = async (seq: number) => {
+    await messages.remove(seq);
+    setSelectedSeq(null);
+    onDeleted();
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2">
+        <select
+          value={startMode}
+          onChange={(e) => setStartMode(e.target.value as "seq" | "time")}
+          aria-label="Start from"
+          className={inputClassName}
+        >
+          <option value="seq">From sequence</option>
+          <option value="time">From time</option>
+        </select>
+        {startMode === "seq" ? (
+          <input
+            type="number"
+            min={1}
+            value={startSeq}
+            onChange={(e) => setStartSeq(e.target.value)}
+            aria-label="Start sequence"
+            className={`${inputClassName} w-32`}
+          />
+        ) : (
+          <input
+            type="datetime-local"
+            step={1}
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            aria-label="Start time"
+            className={inputClassName}
+          />
+        )}
+        <input
+          type="text"
+          value={messages.filter}
+          onChange={(e) => messages.setFilter(e.target.value)}
+          placeholder="Subject filter"
+          aria-label="Subject filter"
+          spellCheck={false}
+          className={`${inputClassName} min-w-0 flex-1 font-mono`}
+        />
+        <button
+          type="submit"
+          disabled={messages.isLoading}
+          className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          Load
+        </button>
+        <button
+          type="button"
+          onClick={loadLatest}
+          disabled={messages.isLoading}
+          className="rounded-md bg-muted px-4 py-2 text-sm font-medium text-foreground hover:bg-muted/80 disabled:opacity-50"
+        >
+          Latest
+        </button>
+      </form>
+
+      {messages.error && (
+        <p className="text-sm text-destructive" role="alert">
+          {messages.error}
+        </p>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <div>
+          {messages.messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {messages.isLoading ? "Reading messages..." : "No messages loaded."}
+            </p>
+          ) : (
+            <ul className="max-h-[480px] overflow-auto rounded-md border border-border">
+              {messages.messages.map((message) => (
+                <li key={message.seq}>
+                  <button
+                    onClick={() => setSelectedSeq(message.seq)}
+                    className={`flex w-full items-center gap-3 border-b border-border px-3 py-2 text-left text-sm ${
+                      message.seq === selectedSeq ? "bg-primary/10" : "hover:bg-muted"
+                    }`}
+                  >
+                    <span className="w-16 shrink-0 text-xs text-muted-foreground">
+                      #{message.seq}
+                    </span>
+                    <code className="min-w-0 flex-1 truncate text-foreground">
+                      {message.subject}
+                    </code>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {formatBytes(message.size)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="mt-3 flex justify-between">
+            <button
+              onClick={() => messages.previous()}
+              disabled={
+                messages.isLoading ||
+                messages.messages.length === 0 ||
+                messages.messages[0].seq <= info.state.first_seq
+              }
+              className="text-sm font-medium text-primary hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => messages.next()}
+              disabled={messages.isLoading || !messages.hasMore}
+              className="text-sm font-medium text-primary hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+
+        <div>
+          {selected ? (
+            <div className="space-y-4">
+              <MessageDetails key={selected.seq} message={selected} />
+              {canDelete && (
+                <ConfirmButton
+                  label="Delete message"
+                  confirmLabel={`Delete #${selected.seq}`}
+                  onConfirm={() => handleDelete(selected.seq)}
+                />
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Select a message to inspect it.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Shared
+// =============================================================================
+
+function DetailRow({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="break-all text-right font-medium text-foreground">{value}</dd>
+    </div>
+  );
+}
+
+export { JetStreamPage as default };
@@ -0,0 +1,434 @@
+/**
+ * KV Page
+ *
+ * Browses and edits the KV buckets of the account. Writes expect the loaded
+ * revision, so a key changed by someone else is not overwritten unnoticed.
+ */
+
+import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useKvBuckets, useKvKeys } from "@/hooks/useKvBuckets";
+import { useKvValue } from "@/hooks/useKvValue";
+import { useKvWatch } from "@/hooks/useKvWatch";
+import { usePermissions } from "@/hooks/usePermissions";
+import { ConfirmButton } from "@/components/ConfirmButton";
+import { kvSubject, type KvBucketInfo, type KvValue, type KvWriteResult } from "@/services/nats/kv";
+import { decodeText, formatBytes, formatPayload, detectPayloadFormat } from "@/utils/payload";
+
+const inputClassName =
+  "rounded-md border border-border bg-card px-3 py-2 text-sm text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary";
+
+const OPERATION_LABELS: Record<KvValue["operation"], string> = {
+  PUT: "Put",
+  DEL: "Deleted",
+  PURGE: "Purged",
+};
+
+/**
+ * KV bucket browser and editor
+ */
+export function KvPage() {
+  const { connectionStatus } = useAuth();
+  const canBrowse = connectionStatus === "connected";
+  const { buckets, isLoading, error, refresh } = useKvBuckets(canBrowse);
+  const [selected, setSelected] = useState<string | null>(null);
+  const bucket = buckets.find((info) => info.bucket === selected) ?? null;
+
+  return (
+    <div className="py-10">
+      <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-foreground">Key-Value</h1>
+        <p className="mt-2 text-muted-foreground">
+          Browse, watch and edit the KV buckets of your account.
+        </p>
+
+        {error && (
+          <div
+            className="mt-6 rounded-md border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive"
+            role="alert"
+          >
+            {error}
+          </div>
+        )}
+
+        <div className="mt-8 grid gap-6 lg:grid-cols-4">
+          <aside className="rounded-lg border border-border bg-card p-4 shadow lg:col-span-1">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-medium text-card-foreground">Buckets</h2>
+              <button
+                onClick={refresh}
+                disabled={!canBrowse || isLoading}
+                className="text-xs font-medium text-primary hover:underline disabled:opacity-50"
+              >
+                {isLoading ? "Loading..." : "Refresh"}
+              </button>
+            </div>
+            {buckets.length === 0 ? (
+              <p className="mt-2 text-xs text-muted-foreground">
+                {isLoading ? "Loading buckets..." : "No buckets."}
+              </p>
+            ) : (
+              <ul className="mt-2 space-y-1">
+                {buckets.map((info) => (
+                  <li key={info.bucket}>
+                    <button
+                      onClick={() => setSelected(info.bucket)}
+                      className={`w-full rounded px-2 py-1.5 text-left ${
+                        info.bucket === selected ? "bg-primary/10" : "hover:bg-muted"
+                      }`}
+                    >
+                      <span className="block truncate text-sm text-foreground">{info.bucket}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {info.values.toLocaleString()} values · {formatBytes(info.size)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </aside>
+
+          <div className="lg:col-span-3">
+            {bucket ? (
+              <BucketPanel key={bucket.bucket} info={bucket} />
+            ) : (
+              <div className="rounded-lg border border-border bg-card p-6 text-sm text-muted-foreground shadow">
+                Select a bucket to browse its keys.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Bucket
+// =============================================================================
+
+function BucketPanel({ info }: { info: KvBucketInfo }) {
+  const [prefixInput, setPrefixInput] = useState("");
+  const [prefix, setPrefix] = useState("");
+  const [isWatching, setIsWatching] = useState(false);
+  const [newKey, setNewKey] = useState("");
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const listing = useKvKeys(info.bucket, prefix);
+  const watch = useKvWatch(info.bucket, { prefix, enabled: isWatching });
+
+  // While watching, the watch holds the current keys; deleted keys drop out
+  const keys = isWatching
+    ? Object.values(watch.values)
+        .filter((value) => value.operation === "PUT")
+        .map((value) => value.key)
+        .sort()
+    : listing.keys;
+  const error = isWatching ? watch.error : listing.error;
+
+  const toggleWatch = () => {
+    // Pick up the changes made while watching
+    if (isWatching) listing.refresh();
+    setIsWatching(!isWatching);
+  };
+
+  return (
+    <section className="rounded-lg border border-border bg-card p-6 shadow">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h2 className="text-lg font-medium text-card-foreground">{info.bucket}</h2>
+        <span className="text-xs text-muted-foreground">
+          {info.history} revisions per key · {info.ttl ? `TTL ${info.ttl / 1000}s` : "No TTL"} ·{" "}
+          {info.storage} · {info.replicas}x
+        </span>
+      </div>
+      {info.description && <p className="mt-1 text-sm text-muted-foreground">{info.description}</p>}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setPrefix(prefixInput.trim());
+        }}
+        className="mt-4 flex flex-wrap gap-2"
+      >
+        <input
+          type="text"
+          value={prefixInput}
+          onChange={(e) => setPrefixInput(e.target.value)}
+          placeholder="Key prefix"
+          aria-label="Key prefix"
+          spellCheck={false}
+          className={`${inputClassName} min-w-0 flex-1 font-mono`}
+        />
+        <button
+          type="submit"
+          className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90"
+        >
+          Filter
+        </button>
+        <button
+          type="button"
+          onClick={toggleWatch}
+          aria-pressed={isWatching}
+          className={`rounded-md px-4 py-2 text-sm font-medium ${
+            isWatching ? "bg-success/15 text-success" : "bg-muted text-foreground hover:bg-muted/80"
+          }`}
+        >
+          {isWatching ? "Watching" : "Watch"}
+        </button>
+      </form>
+
+      {error && <p className="mt-3 text-sm text-destructive">{error}</p>}
+
+      <div className="mt-4 grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-1">
+          <ul className="max-h-[480px] overflow-auto rounded-md border border-border">
+            {keys.length === 0 && (
+              <li className="p-3 text-sm text-muted-foreground">
+                {listing.isLoading && !isWatching ? "Loading keys..." : "No keys."}
+              </li>
+            )}
+            {keys.map((key) => (
+              <li key={key}>
+                <button
+                  onClick={() => setSelectedKey(key)}
+                  className={`w-full truncate border-b border-border px-3 py-2 text-left font-mono text-xs transition-colors ${
+                    watch.highlighted.has(key)
+                      ? "bg-warning/20 text-foreground"
+                      : key === selectedKey
+                        ? "bg-primary/10 text-foreground"
+                        : "text-foreground hover:bg-muted"
+                  }`}
+                  title={key}
+                >
+                  {key}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newKey.trim()) {
+                setSelectedKey(newKey.trim());
+                setNewKey("");
+              }
+            }}
+            className="mt-3 flex gap-2"
+          >
+            <input
+              type="text"
+              value={newKey}
+              onChange={(e) => setNewKey(e.target.value)}
+              placeholder="New key"
+              aria-label="New key"
+              spellCheck={false}
+              className={`${inputClassName} min-w-0 flex-1 font-mono`}
+            />
+            <button
+              type="submit"
+              className="rounded-md bg-muted px-3 py-2 text-sm font-medium text-foreground hover:bg-muted/80"
+            >
+              Open
+            </button>
+          </form>
+        </div>
+
+        <div className="lg:col-span-2">
+          {selectedKey ? (
+            <KeyEditor
+              key={`${info.bucket}/${selectedKey}`}
+              bucket={info.bucket}
+              entryKey={selectedKey}
+              onChanged={isWatching ? undefined : listing.refresh}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">Select a key to view and edit it.</p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+// =============================================================================
+// Key
+// =============================================================================
+
+interface KeyEditorProps {
+  bucket: string;
+  entryKey: string;
+  /** Called after a write succeeded */
+  onChanged?: () => void;
+}
+
+function KeyEditor({ bucket, entryKey, onChanged }: KeyEditorProps) {
+  const { canPublish } = usePermissions();
+  const kv = useKvValue(bucket, entryKey, { withHistory: true });
+  const [draft, setDraft] = useState<string | null>(null);
+  const [result, setResult] = useState<KvWriteResult | null>(null);
+  const [viewedRevision, setViewedRevision] = useState<number | null>(null);
+
+  const canWrite = canPublish(kvSubject(bucket, entryKey));
+  const current = kv.value?.operation === "PUT" ? kv.value : null;
+  const currentText = current ? decodeText(current.value) : "";
+  const isBinary = currentText === null;
+  const text = draft ?? currentText ?? "";
+  const viewed = kv.history.find((revision) => revision.revision === viewedRevision) ?? null;
+
+  const handleWrite = async (write: Promise<KvWriteResult>) => {
+    const outcome = await write;
+    setResult(outcome);
+    if (outcome.success) {
+      setDraft(null);
+      onChanged?.();
+    }
+  };
+
+  const reload = () => {
+    setResult(null);
+    setDraft(null);
+    kv.refresh();
+  };
+
+  if (kv.isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <code className="break-all text-sm text-foreground">{entryKey}</code>
+        <span className="text-xs text-muted-foreground">
+          {kv.value
+            ? `Revision ${kv.value.revision} · ${OPERATION_LABELS[kv.value.operation]} ${new Date(
+                kv.value.created
+              ).toLocaleString()}`
+            : "New key"}
+        </span>
+      </div>
+
+      {kv.error && <p className="text-sm text-destructive">{kv.error}</p>}
+
+      {isBinary && current ? (
+        <div>
+          <p className="text-xs text-muted-foreground">Binary value; it cannot be edited here.</p>
+          <pre className="mt-2 max-h-80 overflow-auto rounded-md bg-muted p-3 font-mono text-xs text-foreground">
+            {formatPayload(current.value, "hex")}
+          </pre>
+        </div>
+      ) : (
+        <textarea
+          value={text}
+          onChange={(e) => setDraft(e.target.value)}
+          readOnly={!canWrite}
+          rows={10}
+          spellCheck={false}
+          aria-label="Value"
+          className={`${inputClassName} w-full font-mono text-xs`}
+        />
+      )}
+
+      {result && !result.success && (
+        <div
+          className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive"
+          role="alert"
+        >
+          <span>{result.error}</span>
+          {result.conflict && (
+            <button onClick={reload} className="font-medium underline">
+              Reload
+            </button>
+          )}
+        </div>
+      )}
+
+      {canWrite ? (
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => handleWrite(kv.put(text))}
+            disabled={isBinary || draft === null}
+            className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {current ? "Save" : "Create"}
+          </button>
+          <ConfirmButton
+            label="Delete"
+            confirmLabel="Delete key"
+            disabled={!current}
+            onConfirm={() => handleWrite(kv.remove())}
+          />
+          <ConfirmButton
+            label="Purge"
+            confirmLabel="Purge key and history"
+            disabled={!kv.value}
+            onConfirm={() => handleWrite(kv.purge())}
+          />
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Your credential does not allow writing this key.
+        </p>
+      )}
+
+      {kv.history.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-foreground">History</h3>
+          <ul className="mt-2 divide-y divide-border rounded-md border border-border">
+            {kv.history.map((revision) => (
+              <li key={revision.revision}>
+                <button
+                  onClick={() =>
+                    setViewedRevision(
+                      viewedRevision === revision.revision ? null : revision.revision
+                    )
+                  }
+                  className={`flex w-full items-center gap-3 px-3 py-2 text-left text-sm ${
+                    revision.revision === viewedRevision ? "bg-primary/10" : "hover:bg-muted"
+                  }`}
+                >
+                  <span className="w-12 shrink-0 text-xs text-muted-foreground">
+                    #{revision.revision}
+                  </span>
+                  <span className="flex-1 text-foreground">
+                    {OPERATION_LABELS[revision.operation]}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(revision.created).toLocaleString()}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {viewed && (
+        <div>
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-foreground">Revision {viewed.revision}</h3>
+            {canWrite &&
+              viewed.operation === "PUT" &&
+              viewed.revision !== kv.value?.revision &&
+              decodeText(viewed.value) !== null && (
+                <button
+                  onClick={() => setDraft(decodeText(viewed.value))}
+                  className="text-xs font-medium text-primary hover:underline"
+                >
+                  Edit from this revision
+                </button>
+              )}
+          </div>
+          {viewed.operation === "PUT" ? (
+            <pre className="mt-2 max-h-80 overflow-auto whitespace-pre-wrap break-all rounded-md bg-muted p-3 font-mono text-xs text-foreground">
+              {formatPayload(viewed.value, detectPayloadFormat(viewed.value))}
+            </pre>
+          ) : (
+            <p className="mt-2 text-sm text-muted-foreground">No value at this revision.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { KvPage as default };
@@ -0,0 +1,356 @@
+/**
+ * Monitoring Page
+ *
+ * Server, JetStream and account statistics from the NATS system endpoints,
+ * refreshed on an interval. Sections the credential cannot see explain why
+ * instead of failing the page.
+ */
+
+import { useState, type ReactNode } from "react";
+import { MONITOR_INTERVALS_MS, useSystemMonitor } from "@/hooks/useSystemMonitor";
+import { Sparkline } from "@/components/Sparkline";
+import type { EndpointResult } from "@/services/nats/monitoring";
+import { formatBytes } from "@/utils/payload";
+
+/** Connections listed, busiest first */
+const MAX_CONNECTIONS = 25;
+
+const formatCount = (value: number) => Math.round(value).toLocaleString();
+const formatRate = (value: number) => `${value.toFixed(1)}/s`;
+
+/**
+ * Monitoring dashboard over the $SYS endpoints
+ */
+export function MonitoringPage() {
+  const [intervalMs, setIntervalMs] = useState<number>(MONITOR_INTERVALS_MS[1]);
+  const monitor = useSystemMonitor(intervalMs);
+  const { results, history } = monitor;
+
+  const hasServerAccess = results.varz?.status === "ok" || results.ping?.status === "ok";
+  const connz = results.connz?.status === "ok" ? results.connz : results.accountConnz;
+  const connections =
+    connz?.status === "ok"
+      ? connz.responses
+          .flatMap(({ server, data }) =>
+            data.connections.map((connection) => ({ server, connection }))
+          )
+          .sort(
+            (a, b) =>
+              b.connection.in_msgs +
+              b.connection.out_msgs -
+              (a.connection.in_msgs + a.connection.out_msgs)
+          )
+          .slice(0, MAX_CONNECTIONS)
+      : [];
+  const memory = history.map((sample) => sample.memory).filter((value) => value !== null);
+
+  return (
+    <div className="py-10">
+      <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Monitoring</h1>
+            <p className="mt-2 text-muted-foreground">
+              Server and account statistics from the NATS system endpoints.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="monitoring-interval" className="text-sm text-muted-foreground">
+              Refresh every
+            </label>
+            <select
+              id="monitoring-interval"
+              value={intervalMs}
+              onChange={(e) => setIntervalMs(Number(e.target.value))}
+              className="rounded-md border border-border bg-card px-2 py-1.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {MONITOR_INTERVALS_MS.map((ms) => (
+                <option key={ms} value={ms}>
+                  {ms / 1000}s
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={monitor.refresh}
+              disabled={!monitor.canPoll || monitor.isRefreshing}
+              className="rounded-md bg-muted px-3 py-1.5 text-sm font-medium text-foreground hover:bg-muted/80 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {monitor.isRefreshing ? "Refreshing..." : "Refresh"}
+            </button>
+          </div>
+        </div>
+
+        {monitor.lastUpdated && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            Updated {new Date(monitor.lastUpdated).toLocaleTimeString()}
+          </p>
+        )}
+
+        {monitor.lastUpdated && !hasServerAccess && (
+          <div className="mt-6 rounded-md border border-border bg-muted p-4 text-sm text-muted-foreground">
+            The server endpoints only answer credentials of the system account. Showing the
+            statistics of your own account.
+          </div>
+        )}
+
+        {/* Charts */}
+        <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <Sparkline
+            label="Connections"
+            values={history.map((sample) => sample.connections)}
+            format={formatCount}
+          />
+          <Sparkline
+            label="Subscriptions"
+            values={history.map((sample) => sample.subscriptions)}
+            format={formatCount}
+          />
+          <Sparkline
+            label="Messages in"
+            values={history.map((sample) => sample.inMsgsPerSec)}
+            format={formatRate}
+          />
+          <Sparkline
+            label="Messages out"
+            values={history.map((sample) => sample.outMsgsPerSec)}
+            format={formatRate}
+          />
+          {memory.length > 0 && (
+            <Sparkline label="Server memory" values={memory} format={formatBytes} />
+          )}
+        </div>
+
+        <Section
+          title="Servers"
+          result={results.varz?.status === "ok" ? results.varz : results.ping}
+        >
+          {results.varz?.status === "ok" ? (
+            <Table
+              headers={[
+                "Server",
+                "Version",
+                "Uptime",
+                "Conns",
+                "Subs",
+                "CPU",
+                "Memory",
+                "In",
+                "Out",
+              ]}
+              rows={results.varz.responses.map(({ server, data }) => [
+                server.name,
+                data.version,
+                data.uptime,
+                formatCount(data.connections),
+                formatCount(data.subscriptions),
+                `${data.cpu.toFixed(1)}%`,
+                formatBytes(data.mem),
+                formatCount(data.in_msgs),
+                formatCount(data.out_msgs),
+              ])}
+            />
+          ) : results.ping?.status === "ok" ? (
+            <Table
+              headers={["Server", "Version", "Conns", "Subs", "CPU", "Memory", "In", "Out"]}
+              rows={results.ping.responses.map(({ server, data }) => [
+                server.name,
+                server.ver,
+                formatCount(data.connections),
+                formatCount(data.subscriptions),
+                `${data.cpu.toFixed(1)}%`,
+                formatBytes(data.mem),
+                formatCount(data.received.msgs),
+                formatCount(data.sent.msgs),
+              ])}
+            />
+          ) : null}
+        </Section>
+
+        <Section title="JetStream" result={results.jsz}>
+          {results.jsz?.status === "ok" && (
+            <Table
+              headers={[
+                "Server",
+                "Streams",
+                "Consumers",
+                "Messages",
+                "Data",
+                "Memory",
+                "Storage",
+                "API calls",
+                "API errors",
+              ]}
+              rows={results.jsz.responses.map(({ server, data }) =>
+                data.disabled
+                  ? [server.name, "Disabled", "", "", "", "", "", "", ""]
+                  : [
+                      server.name,
+                      formatCount(data.streams),
+                      formatCount(data.consumers),
+                      formatCount(data.messages),
+                      formatBytes(data.bytes),
+                      formatBytes(data.memory),
+                      formatBytes(data.storage),
+                      formatCount(data.api.total),
+                      formatCount(data.api.errors),
+                    ]
+              )}
+            />
+          )}
+        </Section>
+
+        <Section title="Subscriptions" result={results.subsz}>
+          {results.subsz?.status === "ok" && (
+            <Table
+              headers={[
+                "Server",
+                "Subscriptions",
+                "Cache",
+                "Matches",
+                "Cache hit rate",
+                "Max fanout",
+                "Avg fanout",
+              ]}
+              rows={results.subsz.responses.map(({ server, data }) => [
+                server.name,
+                formatCount(data.num_subscriptions),
+                formatCount(data.num_cache),
+                formatCount(data.num_matches),
+                `${(data.cache_hit_rate * 100).toFixed(1)}%`,
+                formatCount(data.max_fanout),
+                data.avg_fanout.toFixed(1),
+              ])}
+            />
+          )}
+        </Section>
+
+        <Section title="Account" result={results.accountStatz}>
+          {results.accountStatz?.status === "ok" && (
+            <Table
+              headers={[
+                "Server",
+                "Account",
+                "Conns",
+                "Leafnodes",
+                "Subs",
+                "Sent",
+                "Received",
+                "Slow consumers",
+              ]}
+              rows={results.accountStatz.responses.flatMap(({ server, data }) =>
+                data.account_statz.map((stat) => [
+                  server.name,
+                  <code key="account" title={stat.acc}>
+                    {stat.acc.slice(0, 12)}...
+                  </code>,
+                  formatCount(stat.conns),
+                  formatCount(stat.leafnodes),
+                  formatCount(stat.num_subscriptions),
+                  formatCount(stat.sent.msgs),
+                  formatCount(stat.received.msgs),
+                  formatCount(stat.slow_consumers),
+                ])
+              )}
+            />
+          )}
+        </Section>
+
+        <Section title="Connections" result={connz}>
+          {connections.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No connections.</p>
+          ) : (
+            <Table
+              headers={[
+                "Server",
+                "CID",
+                "Name",
+                "Address",
+                "Client",
+                "Uptime",
+                "Subs",
+                "In",
+                "Out",
+                "Pending",
+              ]}
+              rows={connections.map(({ server, connection }) => [
+                server.name,
+                connection.cid,
+                connection.name ?? "",
+                `${connection.ip}:${connection.port}`,
+                [connection.lang, connection.version].filter(Boolean).join(" "),
+                connection.uptime,
+                formatCount(connection.subscriptions),
+                formatCount(connection.in_msgs),
+                formatCount(connection.out_msgs),
+                formatBytes(connection.pending_bytes),
+              ])}
+            />
+          )}
+        </Section>
+      </div>
+    </div>
+  );
+}
+
+interface SectionProps {
+  title: string;
+  result: EndpointResult<unknown> | undefined;
+  children: ReactNode;
+}
+
+/**
+ * Dashboard section that shows why an endpoint has no data in place of its
+ * content
+ */
+function Section({ title, result, children }: SectionProps) {
+  return (
+    <section className="mt-6 rounded-lg border border-border bg-card p-6 shadow">
+      <h2 className="text-lg font-medium text-card-foreground">{title}</h2>
+      <div className="mt-4">
+        {!result ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : result.status === "ok" ? (
+          children
+        ) : (
+          <p
+            className={`text-sm ${result.status === "error" ? "text-destructive" : "text-muted-foreground"}`}
+          >
+            {result.status === "denied" ? "Not permitted. " : "Not available. "}
+            {result.error}
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
+
+function Table({ headers, rows }: { headers: string[]; rows: ReactNode[][] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-border text-left text-xs text-muted-foreground">
+            {headers.map((header) => (
+              <th key={header} className="whitespace-nowrap px-3 py-2 font-medium">
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="border-b border-border last:border-0">
+              {row.map((cell, cellIndex) => (
+                <td key={cellIndex} className="whitespace-nowrap px-3 py-2 text-foreground">
+                  {cell}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export { MonitoringPage as default };
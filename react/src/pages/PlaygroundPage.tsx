@@ -0,0 +1,438 @@
+/**
+ * Playground Page
+ *
+ * Composes a message and publishes it or sends it as a request, to exercise
+ * command handlers and other services without writing code.
+ */
+
+import { useMemo, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useRequestTemplates } from "@/hooks/useRequestTemplates";
+import { MessageDetails } from "@/components/MessageDetails";
+import { getTimeouts } from "@/config/runtime";
+import {
+  getCommandTemplates,
+  publishDraft,
+  requestDraft,
+  requestManyDraft,
+  type MessageDraft,
+  type PlaygroundResponse,
+} from "@/services/nats/playground";
+import type { RequestTemplateInput } from "@/services/state/templates";
+import { getNamespace, isValidSubject } from "@/utils/subjects";
+
+type Action = "publish" | "request" | "requestMany";
+
+type Outcome =
+  | { action: "publish"; at: number }
+  | { action: "request" | "requestMany"; responses: PlaygroundResponse[] };
+
+const EMPTY_DRAFT: MessageDraft = { subject: "", headers: [], body: "", bodyFormat: "json" };
+
+const inputClassName =
+  "w-full rounded-md border border-border bg-card px-3 py-2 text-sm text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50";
+
+/**
+ * Request/publish playground with saved templates
+ */
+export function PlaygroundPage() {
+  const { connectionStatus } = useAuth();
+  const { canPublish, canRequest } = usePermissions();
+  const { templates, save, remove } = useRequestTemplates();
+  const commandTemplates = useMemo(() => getCommandTemplates(getNamespace()), []);
+
+  const [draft, setDraft] = useState<MessageDraft>(EMPTY_DRAFT);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [templateName, setTemplateName] = useState("");
+  const [timeoutMs, setTimeoutMs] = useState(() => getTimeouts().commandMs);
+  const [maxMessages, setMaxMessages] = useState("");
+  const [pending, setPending] = useState<Action | null>(null);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedResponse, setSelectedResponse] = useState<number | null>(null);
+
+  const subject = draft.subject.trim();
+  const subjectValid = isValidSubject(subject);
+  const mayPublish = subjectValid && canPublish(subject);
+  const mayRequest = subjectValid && canRequest(subject);
+  const canSend = connectionStatus === "connected" && pending === null;
+
+  const updateDraft = (changes: Partial<MessageDraft>) => setDraft({ ...draft, ...changes });
+
+  const loadTemplate = (template: RequestTemplateInput, id: string | null) => {
+    setDraft({
+      subject: template.subject,
+      headers: template.headers.map((header) => ({ ...header })),
+      body: template.body,
+      bodyFormat: template.bodyFormat,
+    });
+    setTemplateId(id);
+    setTemplateName(id ? template.name : "");
+    setOutcome(null);
+    setError(null);
+  };
+
+  const handleSave = async (asNew: boolean) => {
+    const name = templateName.trim() || subject;
+    if (!name) return;
+    const saved = await save({ ...draft, name }, asNew ? undefined : (templateId ?? undefined));
+    setTemplateId(saved.id);
+    setTemplateName(saved.name);
+  };
+
+  const send = async (action: Action) => {
+    setPending(action);
+    setError(null);
+    setOutcome(null);
+    setSelectedResponse(null);
+
+    try {
+      const sendDraft = { ...draft, subject };
+      if (action === "publish") {
+        await publishDraft(sendDraft);
+        setOutcome({ action, at: Date.now() });
+      } else if (action === "request") {
+        const response = await requestDraft(sendDraft, timeoutMs);
+        setOutcome({ action, responses: [response] });
+        setSelectedResponse(response.id);
+      } else {
+        const limit = Number(maxMessages);
+        const responses = await requestManyDraft(sendDraft, {
+          maxWait: timeoutMs,
+          maxMessages: limit > 0 ? limit : undefined,
+        });
+        setOutcome({ action, responses });
+        setSelectedResponse(responses[0]?.id ?? null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sending failed");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const responses = outcome && outcome.action !== "publish" ? outcome.responses : [];
+  const selected = responses.find((response) => response.id === selectedResponse) ?? null;
+
+  return (
+    <div className="py-10">
+      <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-foreground">Playground</h1>
+        <p className="mt-2 text-muted-foreground">
+          Publish messages and send requests. <code>{"{{uuid}}"}</code> and <code>{"{{now}}"}</code>{" "}
+          in the body and headers are replaced on every send.
+        </p>
+
+        <div className="mt-8 grid gap-6 lg:grid-cols-4">
+          {/* Templates */}
+          <aside className="space-y-6 lg:col-span-1">
+            <section className="rounded-lg border border-border bg-card p-4 shadow">
+              <h2 className="text-sm font-medium text-card-foreground">Saved templates</h2>
+              {templates.length === 0 ? (
+                <p className="mt-2 text-xs text-muted-foreground">No saved templates yet.</p>
+              ) : (
+                <ul className="mt-2 space-y-1">
+                  {templates.map((template) => (
+                    <li key={template.id} className="flex items-center gap-1">
+                      <button
+                        onClick={() => loadTemplate(template, template.id)}
+                        className={`min-w-0 flex-1 truncate rounded px-2 py-1 text-left text-sm ${
+                          template.id === templateId
+                            ? "bg-primary/10 text-foreground"
+                            : "text-muted-foreground hover:bg-muted hover:text-foreground"
+                        }`}
+                        title={template.subject}
+                      >
+                        {template.name}
+                      </button>
+                      <button
+                        onClick={() => {
+                          remove(template.id);
+                          if (template.id === templateId) setTemplateId(null);
+                        }}
+                        className="rounded px-1 text-xs text-muted-foreground hover:text-destructive"
+                        aria-label={`Delete template ${template.name}`}
+                      >
+                        ✕
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="rounded-lg border border-border bg-card p-4 shadow">
+              <h2 className="text-sm font-medium text-card-foreground">Commands</h2>
+              <ul className="mt-2 space-y-1">
+                {commandTemplates.map((template) => (
+                  <li key={template.subject}>
+                    <button
+                      onClick={() => loadTemplate(template, null)}
+                      className="w-full truncate rounded px-2 py-1 text-left text-sm text-muted-foreground hover:bg-muted hover:text-foreground"
+                      title={template.subject}
+                    >
+                      {template.name}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </aside>
+
+          {/* Composer */}
+          <section className="space-y-4 rounded-lg border border-border bg-card p-6 shadow lg:col-span-3">
+            <div>
+              <label
+                htmlFor="playground-subject"
+                className="mb-1 block text-sm font-medium text-foreground"
+              >
+                Subject
+              </label>
+              <input
+                id="playground-subject"
+                type="text"
+                value={draft.subject}
+                onChange={(e) => updateDraft({ subject: e.target.value })}
+                spellCheck={false}
+                placeholder={`${getNamespace()}.commands.user.updateProfile`}
+                className={`${inputClassName} font-mono`}
+              />
+              {subject && !subjectValid && (
+                <p className="mt-1 text-xs text-destructive">
+                  Enter a subject without wildcards or empty tokens.
+                </p>
+              )}
+              {subjectValid && !mayPublish && (
+                <p className="mt-1 text-xs text-destructive">
+                  Your credential does not allow publishing to this subject.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <div className="mb-1 flex items-center justify-between">
+                <span className="text-sm font-medium text-foreground">Headers</span>
+                <button
+                  onClick={() =>
+                    updateDraft({ headers: [...draft.headers, { name: "", value: "" }] })
+                  }
+                  className="text-xs font-medium text-primary hover:underline"
+                >
+                  Add header
+                </button>
+              </div>
+              {draft.headers.map((header, index) => (
+                <div key={index} className="mt-2 flex gap-2">
+                  <input
+                    type="text"
+                    value={header.name}
+                    onChange={(e) =>
+                      updateDraft({
+                        headers: draft.headers.map((entry, i) =>
+                          i === index ? { ...entry, name: e.target.value } : entry
+                        ),
+                      })
+                    }
+                    placeholder="Name"
+                    aria-label="Header name"
+                    className={`${inputClassName} font-mono`}
+                  />
+                  <input
+                    type="text"
+                    value={header.value}
+                    onChange={(e) =>
+                      updateDraft({
+                        headers: draft.headers.map((entry, i) =>
+                          i === index ? { ...entry, value: e.target.value } : entry
+                        ),
+                      })
+                    }
+                    placeholder="Value"
+                    aria-label="Header value"
+                    className={`${inputClassName} font-mono`}
+                  />
+                  <button
+                    onClick={() =>
+                      updateDraft({ headers: draft.headers.filter((_, i) => i !== index) })
+                    }
+                    className="rounded px-2 text-sm text-muted-foreground hover:text-destructive"
+                    aria-label="Remove header"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <div className="mb-1 flex items-center justify-between">
+                <label htmlFor="playground-body" className="text-sm font-medium text-foreground">
+                  Body
+                </label>
+                <div className="flex rounded-md border border-border p-0.5" role="tablist">
+                  {(["json", "text"] as const).map((format) => (
+                    <button
+                      key={format}
+                      role="tab"
+                      aria-selected={draft.bodyFormat === format}
+                      onClick={() => updateDraft({ bodyFormat: format })}
+                      className={`rounded px-2 py-0.5 text-xs font-medium ${
+                        draft.bodyFormat === format
+                          ? "bg-primary text-primary-foreground"
+                          : "text-muted-foreground hover:text-foreground"
+                      }`}
+                    >
+                      {format === "json" ? "JSON" : "Text"}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <textarea
+                id="playground-body"
+                value={draft.body}
+                onChange={(e) => updateDraft({ body: e.target.value })}
+                rows={10}
+                spellCheck={false}
+                className={`${inputClassName} font-mono text-xs`}
+              />
+            </div>
+
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label
+                  htmlFor="playground-timeout"
+                  className="mb-1 block text-xs font-medium text-muted-foreground"
+                >
+                  Timeout / max wait (ms)
+                </label>
+                <input
+                  id="playground-timeout"
+                  type="number"
+                  min={1}
+                  value={timeoutMs}
+                  onChange={(e) => setTimeoutMs(Math.max(1, Number(e.target.value)))}
+                  className={`${inputClassName} w-36`}
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="playground-max-messages"
+                  className="mb-1 block text-xs font-medium text-muted-foreground"
+                >
+                  Max replies (request many)
+                </label>
+                <input
+                  id="playground-max-messages"
+                  type="number"
+                  min={1}
+                  value={maxMessages}
+                  onChange={(e) => setMaxMessages(e.target.value)}
+                  placeholder="Unlimited"
+                  className={`${inputClassName} w-36`}
+                />
+              </div>
+              <div className="flex flex-1 flex-wrap justify-end gap-2">
+                <button
+                  onClick={() => send("publish")}
+                  disabled={!canSend || !mayPublish}
+                  className="rounded-md bg-muted px-4 py-2 text-sm font-medium text-foreground hover:bg-muted/80 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {pending === "publish" ? "Publishing..." : "Publish"}
+                </button>
+                <button
+                  onClick={() => send("requestMany")}
+                  disabled={!canSend || !mayRequest}
+                  className="rounded-md bg-muted px-4 py-2 text-sm font-medium text-foreground hover:bg-muted/80 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {pending === "requestMany" ? "Collecting..." : "Request many"}
+                </button>
+                <button
+                  onClick={() => send("request")}
+                  disabled={!canSend || !mayRequest}
+                  className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {pending === "request" ? "Waiting..." : "Request"}
+                </button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 border-t border-border pt-4">
+              <input
+                type="text"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder="Template name"
+                aria-label="Template name"
+                className={`${inputClassName} max-w-xs`}
+              />
+              <button
+                onClick={() => handleSave(false)}
+                disabled={!subject}
+                className="rounded-md bg-muted px-3 py-2 text-sm font-medium text-foreground hover:bg-muted/80 disabled:opacity-50"
+              >
+                {templateId ? "Update template" : "Save template"}
+              </button>
+              {templateId && (
+                <button
+                  onClick={() => handleSave(true)}
+                  disabled={!subject}
+                  className="rounded-md px-3 py-2 text-sm font-medium text-muted-foreground hover:text-foreground disabled:opacity-50"
+                >
+                  Save as new
+                </button>
+              )}
+            </div>
+          </section>
+        </div>
+
+        {/* Results */}
+        {(error || outcome) && (
+          <section className="mt-6 rounded-lg border border-border bg-card p-6 shadow">
+            <h2 className="text-lg font-medium text-card-foreground">Result</h2>
+            {error && (
+              <div
+                className="mt-3 rounded-md border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive"
+                role="alert"
+              >
+                {error}
+              </div>
+            )}
+            {outcome?.action === "publish" && (
+              <p className="mt-3 text-sm text-muted-foreground">
+                Published at {new Date(outcome.at).toLocaleTimeString()}.
+              </p>
+            )}
+            {outcome && outcome.action !== "publish" && (
+              <div className="mt-4 grid gap-6 lg:grid-cols-2">
+                <ul className="space-y-1">
+                  {responses.length === 0 && (
+                    <li className="text-sm text-muted-foreground">No replies.</li>
+                  )}
+                  {responses.map((response) => (
+                    <li key={response.id}>
+                      <button
+                        onClick={() => setSelectedResponse(response.id)}
+                        className={`flex w-full items-center justify-between rounded px-3 py-2 text-left text-sm ${
+                          response.id === selectedResponse ? "bg-primary/10" : "hover:bg-muted"
+                        }`}
+                      >
+                        <span className="text-foreground">Reply {response.id}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {response.latencyMs} ms
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                {selected && <MessageDetails key={selected.id} message={selected} />}
+              </div>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export { PlaygroundPage as default };
@@ -9,6 +9,7 @@
 import { useTheme } from "@/hooks/useTheme";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { ProfileEditor } from "@/components/ProfileEditor";
+import { VaultSettings } from "@/components/VaultSettings";
 import { useAppState } from "@/hooks/useAppState";
 
 /**
@@ -63,6 +64,9 @@ export function SettingsPage() {
           {/* Profile Section */}
           {user && <ProfileEditor />}
 
+          {/* Credential Vault Section */}
+          <VaultSettings />
+
           {/* Connection Info Section */}
           <section className="rounded-lg bg-card p-6 shadow border border-border">
             <h2 className="text-lg font-medium text-card-foreground">Connection</h2>
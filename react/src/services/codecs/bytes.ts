@@ -0,0 +1,181 @@
+/**
+ * Byte Buffers
+ *
+ * Big-endian readers and writers shared by the binary codecs.
+ */
+
+/**
+ * Growable buffer that values are appended to
+ */
+export class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  /**
+   * Grow the buffer for `size` more bytes; returns the offset to write at.
+   * Call it before touching `buffer` or `view`, which growing replaces.
+   */
+  private reserve(size: number): number {
+    const offset = this.length;
+    const required = offset + size;
+    if (required > this.buffer.length) {
+      let capacity = this.buffer.length * 2;
+      while (capacity < required) capacity *= 2;
+      const next = new Uint8Array(capacity);
+      next.set(this.buffer.subarray(0, offset));
+      this.buffer = next;
+      this.view = new DataView(next.buffer);
+    }
+    this.length = required;
+    return offset;
+  }
+
+  u8(value: number): void {
+    const offset = this.reserve(1);
+    this.view.setUint8(offset, value);
+  }
+
+  u16(value: number): void {
+    const offset = this.reserve(2);
+    this.view.setUint16(offset, value);
+  }
+
+  u32(value: number): void {
+    const offset = this.reserve(4);
+    this.view.setUint32(offset, value);
+  }
+
+  u64(value: bigint): void {
+    const offset = this.reserve(8);
+    this.view.setBigUint64(offset, value);
+  }
+
+  i8(value: number): void {
+    const offset = this.reserve(1);
+    this.view.setInt8(offset, value);
+  }
+
+  i16(value: number): void {
+    const offset = this.reserve(2);
+    this.view.setInt16(offset, value);
+  }
+
+  i32(value: number): void {
+    const offset = this.reserve(4);
+    this.view.setInt32(offset, value);
+  }
+
+  i64(value: bigint): void {
+    const offset = this.reserve(8);
+    this.view.setBigInt64(offset, value);
+  }
+
+  f64(value: number): void {
+    const offset = this.reserve(8);
+    this.view.setFloat64(offset, value);
+  }
+
+  bytes(data: Uint8Array): void {
+    const offset = this.reserve(data.length);
+    this.buffer.set(data, offset);
+  }
+
+  /** Copy of the bytes written so far */
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/**
+ * Cursor over a payload. Reading past the end throws.
+ */
+export class ByteReader {
+  private readonly data: Uint8Array;
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  /** Whether every byte was read */
+  get done(): boolean {
+    return this.offset >= this.data.length;
+  }
+
+  private take(size: number): number {
+    if (this.offset + size > this.data.length) {
+      throw new Error("Unexpected end of data");
+    }
+    const offset = this.offset;
+    this.offset += size;
+    return offset;
+  }
+
+  /** Next byte, without consuming it */
+  peek(): number {
+    if (this.done) {
+      throw new Error("Unexpected end of data");
+    }
+    return this.data[this.offset];
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.take(1));
+  }
+
+  u16(): number {
+    return this.view.getUint16(this.take(2));
+  }
+
+  u32(): number {
+    return this.view.getUint32(this.take(4));
+  }
+
+  u64(): bigint {
+    return this.view.getBigUint64(this.take(8));
+  }
+
+  i8(): number {
+    return this.view.getInt8(this.take(1));
+  }
+
+  i16(): number {
+    return this.view.getInt16(this.take(2));
+  }
+
+  i32(): number {
+    return this.view.getInt32(this.take(4));
+  }
+
+  i64(): bigint {
+    return this.view.getBigInt64(this.take(8));
+  }
+
+  f32(): number {
+    return this.view.getFloat32(this.take(4));
+  }
+
+  f64(): number {
+    return this.view.getFloat64(this.take(8));
+  }
+
+  bytes(size: number): Uint8Array {
+    const offset = this.take(size);
+    return this.data.slice(offset, offset + size);
+  }
+}
+
+/**
+ * 64-bit integers within the safe range as numbers, larger ones as bigints
+ */
+export function toSafeNumber(value: bigint): number | bigint {
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value;
+}
+
+export const textEncoder = new TextEncoder();
+export const textDecoder = new TextDecoder();
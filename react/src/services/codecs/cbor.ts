@@ -0,0 +1,349 @@
+/**
+ * CBOR Codec
+ *
+ * Implements CBOR (RFC 8949) for JSON-like values, plus binary data as
+ * Uint8Array, bignums as bigint and date tags as Date. Decoding accepts
+ * indefinite-length items and half-precision floats; unknown tags yield the
+ * tagged value. Like JSON, undefined object properties are left out.
+ */
+
+import { ByteReader, ByteWriter, textDecoder, textEncoder, toSafeNumber } from "./bytes";
+import type { PayloadCodec } from "./types";
+
+// Major types
+const UNSIGNED = 0;
+const NEGATIVE = 1;
+const BYTES = 2;
+const TEXT = 3;
+const ARRAY = 4;
+const MAP = 5;
+const TAG = 6;
+const SIMPLE = 7;
+
+// Tags
+const DATE_STRING_TAG = 0;
+const EPOCH_TAG = 1;
+const POSITIVE_BIGNUM_TAG = 2;
+const NEGATIVE_BIGNUM_TAG = 3;
+
+/** Additional information of indefinite-length items */
+const INDEFINITE = 31;
+const BREAK = 0xff;
+
+const UINT64_MAX = 2n ** 64n - 1n;
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+/**
+ * Write the initial byte of an item and its argument in the fewest bytes
+ */
+function encodeHead(writer: ByteWriter, major: number, argument: number | bigint): void {
+  const prefix = major << 5;
+  if (typeof argument === "bigint") {
+    writer.u8(prefix | 27);
+    writer.u64(argument);
+  } else if (argument < 24) {
+    writer.u8(prefix | argument);
+  } else if (argument <= 0xff) {
+    writer.u8(prefix | 24);
+    writer.u8(argument);
+  } else if (argument <= 0xffff) {
+    writer.u8(prefix | 25);
+    writer.u16(argument);
+  } else if (argument <= 0xffffffff) {
+    writer.u8(prefix | 26);
+    writer.u32(argument);
+  } else {
+    writer.u8(prefix | 27);
+    writer.u64(BigInt(argument));
+  }
+}
+
+function bigIntToBytes(value: bigint): Uint8Array {
+  const hex = value.toString(16);
+  const padded = hex.length % 2 ? `0${hex}` : hex;
+  return Uint8Array.from(padded.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+}
+
+function encodeBigInt(writer: ByteWriter, value: bigint): void {
+  if (value >= 0n) {
+    if (value <= UINT64_MAX) {
+      encodeHead(writer, UNSIGNED, value);
+    } else {
+      encodeHead(writer, TAG, POSITIVE_BIGNUM_TAG);
+      encodeBytes(writer, BYTES, bigIntToBytes(value));
+    }
+  } else {
+    const magnitude = -1n - value;
+    if (magnitude <= UINT64_MAX) {
+      encodeHead(writer, NEGATIVE, magnitude);
+    } else {
+      encodeHead(writer, TAG, NEGATIVE_BIGNUM_TAG);
+      encodeBytes(writer, BYTES, bigIntToBytes(magnitude));
+    }
+  }
+}
+
+function encodeBytes(writer: ByteWriter, major: number, bytes: Uint8Array): void {
+  encodeHead(writer, major, bytes.length);
+  writer.bytes(bytes);
+}
+
+function encodeValue(writer: ByteWriter, value: unknown): void {
+  switch (typeof value) {
+    case "undefined":
+      writer.u8(0xf7);
+      return;
+    case "boolean":
+      writer.u8(value ? 0xf5 : 0xf4);
+      return;
+    case "number":
+      if (Number.isSafeInteger(value)) {
+        if (value >= 0) encodeHead(writer, UNSIGNED, value);
+        else encodeHead(writer, NEGATIVE, -1 - value);
+      } else {
+        writer.u8(0xfb);
+        writer.f64(value);
+      }
+      return;
+    case "bigint":
+      encodeBigInt(writer, value);
+      return;
+    case "string":
+      encodeBytes(writer, TEXT, textEncoder.encode(value));
+      return;
+    case "object":
+      break;
+    default:
+      throw new Error(`Cannot encode a ${typeof value} as CBOR`);
+  }
+
+  if (value === null) {
+    writer.u8(0xf6);
+  } else if (value instanceof Uint8Array) {
+    encodeBytes(writer, BYTES, value);
+  } else if (value instanceof Date) {
+    const ms = value.getTime();
+    if (Number.isNaN(ms)) {
+      throw new Error("Cannot encode an invalid date");
+    }
+    encodeHead(writer, TAG, EPOCH_TAG);
+    encodeValue(writer, ms / 1000);
+  } else if (Array.isArray(value)) {
+    encodeHead(writer, ARRAY, value.length);
+    for (const item of value) {
+      encodeValue(writer, item);
+    }
+  } else {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    encodeHead(writer, MAP, entries.length);
+    for (const [key, item] of entries) {
+      encodeValue(writer, key);
+      encodeValue(writer, item);
+    }
+  }
+}
+
+/**
+ * Encode a value as CBOR
+ */
+export function encodeCbor(value: unknown): Uint8Array {
+  const writer = new ByteWriter();
+  encodeValue(writer, value);
+  return writer.finish();
+}
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+function decodeFloat16(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+}
+
+function readArgument(reader: ByteReader, info: number): number | bigint {
+  if (info < 24) return info;
+  switch (info) {
+    case 24:
+      return reader.u8();
+    case 25:
+      return reader.u16();
+    case 26:
+      return reader.u32();
+    case 27:
+      return toSafeNumber(reader.u64());
+    default:
+      throw new Error(`Invalid CBOR additional information ${info}`);
+  }
+}
+
+function toLength(argument: number | bigint): number {
+  if (typeof argument === "bigint") {
+    throw new Error("CBOR item is too long");
+  }
+  return argument;
+}
+
+function decodeSimple(reader: ByteReader, info: number): unknown {
+  switch (info) {
+    case 20:
+      return false;
+    case 21:
+      return true;
+    case 22:
+      return null;
+    case 23:
+      return undefined;
+    case 25:
+      return decodeFloat16(reader.u16());
+    case 26:
+      return reader.f32();
+    case 27:
+      return reader.f64();
+    case INDEFINITE:
+      throw new Error("Unexpected CBOR break");
+    default:
+      throw new Error(`Unsupported CBOR simple value ${info}`);
+  }
+}
+
+function toObject(entries: Array<[string, unknown]>): Record<string, unknown> {
+  // fromEntries keeps "__proto__" keys as plain properties
+  return Object.fromEntries(entries);
+}
+
+function decodeEntry(reader: ByteReader): [string, unknown] {
+  const key = decodeItem(reader);
+  return [typeof key === "string" ? key : String(key), decodeItem(reader)];
+}
+
+/**
+ * Read items until the break byte of an indefinite-length item
+ */
+function untilBreak<T>(reader: ByteReader, read: () => T): T[] {
+  const items: T[] = [];
+  while (reader.peek() !== BREAK) {
+    items.push(read());
+  }
+  reader.u8();
+  return items;
+}
+
+function decodeIndefinite(reader: ByteReader, major: number): unknown {
+  switch (major) {
+    case BYTES:
+    case TEXT: {
+      // Concatenation of definite-length chunks of the same type
+      const chunks = untilBreak(reader, () => {
+        const initial = reader.u8();
+        if (initial >> 5 !== major || (initial & 0x1f) === INDEFINITE) {
+          throw new Error("Invalid chunk in an indefinite-length CBOR string");
+        }
+        return reader.bytes(toLength(readArgument(reader, initial & 0x1f)));
+      });
+      const bytes = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+      let offset = 0;
+      for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+      }
+      return major === TEXT ? textDecoder.decode(bytes) : bytes;
+    }
+    case ARRAY:
+      return untilBreak(reader, () => decodeItem(reader));
+    case MAP:
+      return toObject(untilBreak(reader, () => decodeEntry(reader)));
+    default:
+      throw new Error(`CBOR major type ${major} cannot have an indefinite length`);
+  }
+}
+
+function decodeTag(reader: ByteReader, tag: number | bigint): unknown {
+  const value = decodeItem(reader);
+  switch (tag) {
+    case DATE_STRING_TAG:
+      if (typeof value !== "string") throw new Error("Invalid CBOR date string");
+      return new Date(value);
+    case EPOCH_TAG:
+      if (typeof value !== "number") throw new Error("Invalid CBOR epoch date");
+      return new Date(value * 1000);
+    case POSITIVE_BIGNUM_TAG:
+    case NEGATIVE_BIGNUM_TAG: {
+      if (!(value instanceof Uint8Array)) throw new Error("Invalid CBOR bignum");
+      const magnitude = bytesToBigInt(value);
+      return toSafeNumber(tag === POSITIVE_BIGNUM_TAG ? magnitude : -1n - magnitude);
+    }
+    default:
+      // Tags without a JavaScript type, e.g. the self-described CBOR tag
+      return value;
+  }
+}
+
+function decodeItem(reader: ByteReader): unknown {
+  const initial = reader.u8();
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (major === SIMPLE) return decodeSimple(reader, info);
+  if (info === INDEFINITE) return decodeIndefinite(reader, major);
+
+  const argument = readArgument(reader, info);
+  switch (major) {
+    case UNSIGNED:
+      return argument;
+    case NEGATIVE:
+      return typeof argument === "bigint" ? toSafeNumber(-1n - argument) : -1 - argument;
+    case BYTES:
+      return reader.bytes(toLength(argument));
+    case TEXT:
+      return textDecoder.decode(reader.bytes(toLength(argument)));
+    case ARRAY: {
+      const length = toLength(argument);
+      const items: unknown[] = [];
+      for (let i = 0; i < length; i++) {
+        items.push(decodeItem(reader));
+      }
+      return items;
+    }
+    case MAP: {
+      const length = toLength(argument);
+      const entries: Array<[string, unknown]> = [];
+      for (let i = 0; i < length; i++) {
+        entries.push(decodeEntry(reader));
+      }
+      return toObject(entries);
+    }
+    default:
+      return decodeTag(reader, argument);
+  }
+}
+
+/**
+ * Decode a CBOR payload holding a single item
+ */
+export function decodeCbor(data: Uint8Array): unknown {
+  const reader = new ByteReader(data);
+  const value = decodeItem(reader);
+  if (!reader.done) {
+    throw new Error("Unexpected data after the CBOR item");
+  }
+  return value;
+}
+
+export const cborCodec: PayloadCodec = {
+  name: "cbor",
+  contentType: "application/cbor",
+  encode: encodeCbor,
+  decode: decodeCbor,
+};
@@ -0,0 +1,332 @@
+/**
+ * MessagePack Codec
+ *
+ * Implements the MessagePack format (https://github.com/msgpack/msgpack/blob/master/spec.md)
+ * for JSON-like values, plus binary data as Uint8Array, integers beyond the
+ * safe range as bigint and the timestamp extension as Date. Like JSON,
+ * undefined object properties are left out.
+ */
+
+import { ByteReader, ByteWriter, textDecoder, textEncoder, toSafeNumber } from "./bytes";
+import type { PayloadCodec } from "./types";
+
+/** Extension type of timestamps */
+const TIMESTAMP_EXTENSION = -1;
+
+const UINT64_MAX = 2n ** 64n - 1n;
+const INT64_MIN = -(2n ** 63n);
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+function encodeNumber(writer: ByteWriter, value: number): void {
+  if (!Number.isSafeInteger(value)) {
+    writer.u8(0xcb);
+    writer.f64(value);
+  } else if (value >= 0) {
+    if (value < 0x80) {
+      writer.u8(value);
+    } else if (value <= 0xff) {
+      writer.u8(0xcc);
+      writer.u8(value);
+    } else if (value <= 0xffff) {
+      writer.u8(0xcd);
+      writer.u16(value);
+    } else if (value <= 0xffffffff) {
+      writer.u8(0xce);
+      writer.u32(value);
+    } else {
+      writer.u8(0xcf);
+      writer.u64(BigInt(value));
+    }
+  } else if (value >= -32) {
+    // Negative fixint
+    writer.u8(value & 0xff);
+  } else if (value >= -0x80) {
+    writer.u8(0xd0);
+    writer.i8(value);
+  } else if (value >= -0x8000) {
+    writer.u8(0xd1);
+    writer.i16(value);
+  } else if (value >= -0x80000000) {
+    writer.u8(0xd2);
+    writer.i32(value);
+  } else {
+    writer.u8(0xd3);
+    writer.i64(BigInt(value));
+  }
+}
+
+function encodeBigInt(writer: ByteWriter, value: bigint): void {
+  if (value >= 0n && value <= UINT64_MAX) {
+    writer.u8(0xcf);
+    writer.u64(value);
+  } else if (value < 0n && value >= INT64_MIN) {
+    writer.u8(0xd3);
+    writer.i64(value);
+  } else {
+    throw new Error("MessagePack integers are limited to 64 bits");
+  }
+}
+
+/**
+ * Write a length for the fix/8/16/32 variants of a type. `fixLimit` is 0 for
+ * types without a fix variant and `first8` null for types without an 8-bit one.
+ */
+function encodeLength(
+  writer: ByteWriter,
+  length: number,
+  fixPrefix: number,
+  fixLimit: number,
+  first8: number | null,
+  first16: number,
+  first32: number
+): void {
+  if (length < fixLimit) {
+    writer.u8(fixPrefix | length);
+  } else if (first8 !== null && length <= 0xff) {
+    writer.u8(first8);
+    writer.u8(length);
+  } else if (length <= 0xffff) {
+    writer.u8(first16);
+    writer.u16(length);
+  } else {
+    writer.u8(first32);
+    writer.u32(length);
+  }
+}
+
+function encodeTimestamp(writer: ByteWriter, date: Date): void {
+  const ms = date.getTime();
+  if (Number.isNaN(ms)) {
+    throw new Error("Cannot encode an invalid date");
+  }
+  const seconds = Math.floor(ms / 1000);
+  const nanoseconds = (ms - seconds * 1000) * 1e6;
+
+  if (nanoseconds === 0 && seconds >= 0 && seconds <= 0xffffffff) {
+    // timestamp 32
+    writer.u8(0xd6);
+    writer.i8(TIMESTAMP_EXTENSION);
+    writer.u32(seconds);
+  } else if (seconds >= 0 && seconds < 2 ** 34) {
+    // timestamp 64: 30-bit nanoseconds and 34-bit seconds
+    writer.u8(0xd7);
+    writer.i8(TIMESTAMP_EXTENSION);
+    writer.u64((BigInt(nanoseconds) << 34n) | BigInt(seconds));
+  } else {
+    // timestamp 96
+    writer.u8(0xc7);
+    writer.u8(12);
+    writer.i8(TIMESTAMP_EXTENSION);
+    writer.u32(nanoseconds);
+    writer.i64(BigInt(seconds));
+  }
+}
+
+function encodeValue(writer: ByteWriter, value: unknown): void {
+  switch (typeof value) {
+    case "undefined":
+      writer.u8(0xc0);
+      return;
+    case "boolean":
+      writer.u8(value ? 0xc3 : 0xc2);
+      return;
+    case "number":
+      encodeNumber(writer, value);
+      return;
+    case "bigint":
+      encodeBigInt(writer, value);
+      return;
+    case "string": {
+      const bytes = textEncoder.encode(value);
+      encodeLength(writer, bytes.length, 0xa0, 32, 0xd9, 0xda, 0xdb);
+      writer.bytes(bytes);
+      return;
+    }
+    case "object":
+      break;
+    default:
+      throw new Error(`Cannot encode a ${typeof value} as MessagePack`);
+  }
+
+  if (value === null) {
+    writer.u8(0xc0);
+  } else if (value instanceof Uint8Array) {
+    encodeLength(writer, value.length, 0, 0, 0xc4, 0xc5, 0xc6);
+    writer.bytes(value);
+  } else if (value instanceof Date) {
+    encodeTimestamp(writer, value);
+  } else if (Array.isArray(value)) {
+    encodeLength(writer, value.length, 0x90, 16, null, 0xdc, 0xdd);
+    for (const item of value) {
+      encodeValue(writer, item);
+    }
+  } else {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    encodeLength(writer, entries.length, 0x80, 16, null, 0xde, 0xdf);
+    for (const [key, item] of entries) {
+      encodeValue(writer, key);
+      encodeValue(writer, item);
+    }
+  }
+}
+
+/**
+ * Encode a value as MessagePack
+ */
+export function encodeMsgpack(value: unknown): Uint8Array {
+  const writer = new ByteWriter();
+  encodeValue(writer, value);
+  return writer.finish();
+}
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+function decodeTimestamp(data: Uint8Array): Date {
+  const reader = new ByteReader(data);
+  switch (data.length) {
+    case 4:
+      return new Date(reader.u32() * 1000);
+    case 8: {
+      const value = reader.u64();
+      const nanoseconds = Number(value >> 34n);
+      const seconds = Number(value & 0x3ffffffffn);
+      return new Date(seconds * 1000 + nanoseconds / 1e6);
+    }
+    case 12: {
+      const nanoseconds = reader.u32();
+      const seconds = Number(reader.i64());
+      return new Date(seconds * 1000 + nanoseconds / 1e6);
+    }
+    default:
+      throw new Error(`Invalid MessagePack timestamp of ${data.length} bytes`);
+  }
+}
+
+function decodeExtension(reader: ByteReader, size: number): unknown {
+  const type = reader.i8();
+  const data = reader.bytes(size);
+  if (type === TIMESTAMP_EXTENSION) {
+    return decodeTimestamp(data);
+  }
+  throw new Error(`Unsupported MessagePack extension type ${type}`);
+}
+
+function decodeArray(reader: ByteReader, length: number): unknown[] {
+  const items: unknown[] = [];
+  for (let i = 0; i < length; i++) {
+    items.push(decodeValue(reader));
+  }
+  return items;
+}
+
+function decodeMap(reader: ByteReader, length: number): Record<string, unknown> {
+  const entries: Array<[string, unknown]> = [];
+  for (let i = 0; i < length; i++) {
+    const key = decodeValue(reader);
+    entries.push([typeof key === "string" ? key : String(key), decodeValue(reader)]);
+  }
+  // Unlike assignment, fromEntries cannot replace the prototype via a "__proto__" key
+  return Object.fromEntries(entries);
+}
+
+function decodeValue(reader: ByteReader): unknown {
+  const type = reader.u8();
+
+  if (type < 0x80) return type;
+  if (type < 0x90) return decodeMap(reader, type & 0x0f);
+  if (type < 0xa0) return decodeArray(reader, type & 0x0f);
+  if (type < 0xc0) return textDecoder.decode(reader.bytes(type & 0x1f));
+  if (type >= 0xe0) return type - 0x100;
+
+  switch (type) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+      return reader.bytes(reader.u8());
+    case 0xc5:
+      return reader.bytes(reader.u16());
+    case 0xc6:
+      return reader.bytes(reader.u32());
+    case 0xc7:
+      return decodeExtension(reader, reader.u8());
+    case 0xc8:
+      return decodeExtension(reader, reader.u16());
+    case 0xc9:
+      return decodeExtension(reader, reader.u32());
+    case 0xca:
+      return reader.f32();
+    case 0xcb:
+      return reader.f64();
+    case 0xcc:
+      return reader.u8();
+    case 0xcd:
+      return reader.u16();
+    case 0xce:
+      return reader.u32();
+    case 0xcf:
+      return toSafeNumber(reader.u64());
+    case 0xd0:
+      return reader.i8();
+    case 0xd1:
+      return reader.i16();
+    case 0xd2:
+      return reader.i32();
+    case 0xd3:
+      return toSafeNumber(reader.i64());
+    case 0xd4:
+      return decodeExtension(reader, 1);
+    case 0xd5:
+      return decodeExtension(reader, 2);
+    case 0xd6:
+      return decodeExtension(reader, 4);
+    case 0xd7:
+      return decodeExtension(reader, 8);
+    case 0xd8:
+      return decodeExtension(reader, 16);
+    case 0xd9:
+      return textDecoder.decode(reader.bytes(reader.u8()));
+    case 0xda:
+      return textDecoder.decode(reader.bytes(reader.u16()));
+    case 0xdb:
+      return textDecoder.decode(reader.bytes(reader.u32()));
+    case 0xdc:
+      return decodeArray(reader, reader.u16());
+    case 0xdd:
+      return decodeArray(reader, reader.u32());
+    case 0xde:
+      return decodeMap(reader, reader.u16());
+    case 0xdf:
+      return decodeMap(reader, reader.u32());
+    default:
+      throw new Error(`Invalid MessagePack type 0x${type.toString(16)}`);
+  }
+}
+
+/**
+ * Decode a MessagePack payload holding a single value
+ */
+export function decodeMsgpack(data: Uint8Array): unknown {
+  const reader = new ByteReader(data);
+  const value = decodeValue(reader);
+  if (!reader.done) {
+    throw new Error("Unexpected data after the MessagePack value");
+  }
+  return value;
+}
+
+export const msgpackCodec: PayloadCodec = {
+  name: "msgpack",
+  contentType: "application/msgpack",
+  aliases: ["application/x-msgpack", "application/vnd.msgpack"],
+  encode: encodeMsgpack,
+  decode: decodeMsgpack,
+};
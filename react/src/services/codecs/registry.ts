@@ -0,0 +1,121 @@
+/**
+ * Payload Codec Registry
+ *
+ * Picks the codec that encodes and decodes a message. A Content-Type header
+ * on an incoming message names its codec; otherwise the first route matching
+ * the subject does, and JSON is the default. Routes registered in code are
+ * checked before the configured ones (`features.payloadCodecs`). Further
+ * codecs can be registered next to the built-in JSON, MessagePack and CBOR.
+ */
+
+import type { MsgHdrs } from "@nats-io/nats-core";
+import { getPayloadCodecRoutes } from "../../config/codecs";
+import { subjectMatches } from "../../utils/subjects";
+import { textDecoder, textEncoder } from "./bytes";
+import { cborCodec } from "./cbor";
+import { msgpackCodec } from "./msgpack";
+import type { PayloadCodec } from "./types";
+
+export const CONTENT_TYPE_HEADER = "Content-Type";
+
+export const jsonCodec: PayloadCodec = {
+  name: "json",
+  contentType: "application/json",
+  encode: (value) => textEncoder.encode(JSON.stringify(value)),
+  decode: (data) => JSON.parse(textDecoder.decode(data)),
+};
+
+/**
+ * MIME type of a Content-Type value, without parameters such as charset
+ */
+function mediaType(contentType: string): string {
+  return contentType.split(";")[0].trim().toLowerCase();
+}
+
+// =============================================================================
+// Codec Registry
+// =============================================================================
+
+export class CodecRegistry {
+  private codecs = new Map<string, PayloadCodec>();
+  private routes: Array<{ subject: string; codec: string }> = [];
+
+  constructor(codecs: PayloadCodec[] = [jsonCodec, msgpackCodec, cborCodec]) {
+    codecs.forEach((codec) => this.register(codec));
+  }
+
+  /**
+   * Add a codec, replacing a registered one of the same name
+   */
+  register(codec: PayloadCodec): void {
+    this.codecs.set(codec.name, codec);
+  }
+
+  get(name: string): PayloadCodec | undefined {
+    return this.codecs.get(name);
+  }
+
+  /**
+   * Use a registered codec for the subjects matching a pattern. Routes added
+   * here win over the configured routes, in the order they were added.
+   */
+  route(subject: string, codecName: string): void {
+    if (!this.codecs.has(codecName)) {
+      throw new Error(`Unknown payload codec "${codecName}"`);
+    }
+    this.routes.push({ subject, codec: codecName });
+  }
+
+  /**
+   * Codec of the first route matching a subject, or JSON
+   */
+  forSubject(subject: string): PayloadCodec {
+    const route = [...this.routes, ...getPayloadCodecRoutes()].find((entry) =>
+      subjectMatches(entry.subject, subject)
+    );
+    return (route && this.codecs.get(route.codec)) || jsonCodec;
+  }
+
+  /**
+   * Codec registered for a Content-Type value, if any
+   */
+  forContentType(contentType: string): PayloadCodec | undefined {
+    const type = mediaType(contentType);
+    for (const codec of this.codecs.values()) {
+      if (codec.contentType === type || codec.aliases?.includes(type)) {
+        return codec;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Codec of an incoming message: its Content-Type header if a codec is
+   * registered for it, else the route of its subject
+   */
+  resolve(subject: string, headers?: MsgHdrs): PayloadCodec {
+    const contentType = headers?.get(CONTENT_TYPE_HEADER);
+    return (contentType && this.forContentType(contentType)) || this.forSubject(subject);
+  }
+
+  /**
+   * Decode an incoming message. Throws if the payload is not valid in the
+   * resolved format.
+   */
+  decode(subject: string, data: Uint8Array, headers?: MsgHdrs): unknown {
+    return this.resolve(subject, headers).decode(data);
+  }
+}
+
+// =============================================================================
+// Singleton
+// =============================================================================
+
+let codecRegistryInstance: CodecRegistry | null = null;
+
+export function getCodecRegistry(): CodecRegistry {
+  if (!codecRegistryInstance) {
+    codecRegistryInstance = new CodecRegistry();
+  }
+  return codecRegistryInstance;
+}
@@ -0,0 +1,18 @@
+/**
+ * Payload Codec Types
+ */
+
+/**
+ * Encodes values into message payloads and back
+ */
+export interface PayloadCodec {
+  /** Name subject routes refer to */
+  name: string;
+  /** MIME type sent in the Content-Type header of encoded messages */
+  contentType: string;
+  /** Further Content-Type values the codec decodes */
+  aliases?: string[];
+  encode(value: unknown): Uint8Array;
+  /** Decode a payload; throws if it is not valid in the format */
+  decode(data: Uint8Array): unknown;
+}
@@ -0,0 +1,178 @@
+/**
+ * Credential Expiry Monitor
+ *
+ * Tracks the `exp` claim of the active user JWT and schedules warnings at the
+ * configured lead times, so the user can swap in a renewed credential before
+ * the server drops the connection.
+ */
+
+import type { Credential, CredentialExpiryState } from "@/types";
+import { getExpiryWarningLeadTimes } from "@/config/auth";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CredentialExpiryCallback = (state: CredentialExpiryState) => void;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Longest delay setTimeout supports (~24.8 days); longer waits are chained */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const IDLE_STATE: CredentialExpiryState = {
+  credentialId: null,
+  expiresAt: null,
+  stage: "valid",
+  warningLeadTime: null,
+};
+
+// =============================================================================
+// Monitor
+// =============================================================================
+
+class CredentialExpiryMonitor {
+  private credential: Credential | null = null;
+  private state: CredentialExpiryState = IDLE_STATE;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<CredentialExpiryCallback>();
+  private readonly leadTimes: number[];
+
+  constructor(leadTimes: number[]) {
+    this.leadTimes = leadTimes;
+  }
+
+  /**
+   * Track a credential, replacing the previous one. Passing the credential
+   * that is already tracked keeps the current schedule.
+   */
+  watch(credential: Credential | null): void {
+    if (credential === this.credential) return;
+    if (
+      credential &&
+      this.credential &&
+      credential.id === this.credential.id &&
+      getExpiresAt(credential) === this.state.expiresAt
+    ) {
+      this.credential = credential;
+      return;
+    }
+
+    this.credential = credential;
+    this.evaluate();
+  }
+
+  /**
+   * Stop tracking and clear the scheduled warnings
+   */
+  stop(): void {
+    this.watch(null);
+  }
+
+  getState(): CredentialExpiryState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to expiry state changes
+   */
+  onChange(callback: CredentialExpiryCallback): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Recompute the stage and schedule the next warning or the expiry
+   */
+  private evaluate(): void {
+    this.clearTimer();
+
+    const credential = this.credential;
+    const expiresAt = credential ? getExpiresAt(credential) : null;
+    if (!credential || expiresAt === null) {
+      this.setState(credential ? { ...IDLE_STATE, credentialId: credential.id } : IDLE_STATE);
+      return;
+    }
+
+    const remaining = expiresAt - Date.now();
+    const passed = this.leadTimes.filter((leadTime) => remaining <= leadTime);
+    const upcoming = this.leadTimes.filter((leadTime) => remaining > leadTime);
+
+    this.setState({
+      credentialId: credential.id,
+      expiresAt,
+      stage: remaining <= 0 ? "expired" : passed.length > 0 ? "expiring" : "valid",
+      warningLeadTime: passed.length > 0 ? passed[passed.length - 1] : null,
+    });
+
+    if (remaining <= 0) return;
+
+    // Next event: the nearest upcoming warning, or the expiry itself
+    const nextAt = upcoming.length > 0 ? remaining - upcoming[0] : remaining;
+    this.timer = setTimeout(() => this.evaluate(), Math.min(nextAt, MAX_TIMER_DELAY));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private setState(state: CredentialExpiryState): void {
+    const previous = this.state;
+    if (
+      previous.credentialId === state.credentialId &&
+      previous.expiresAt === state.expiresAt &&
+      previous.stage === state.stage &&
+      previous.warningLeadTime === state.warningLeadTime
+    ) {
+      return;
+    }
+
+    this.state = state;
+    for (const listener of this.listeners) {
+      try {
+        listener(state);
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+}
+
+/**
+ * Expiry of a credential; only user JWTs (credential files and JWTs with a
+ * remote signer) expire
+ */
+function getExpiresAt(credential: Credential): number | null {
+  return "claims" in credential ? (credential.claims?.expiresAt ?? null) : null;
+}
+
+// =============================================================================
+// Singleton
+// =============================================================================
+
+let monitorInstance: CredentialExpiryMonitor | null = null;
+
+/**
+ * Get the credential expiry monitor singleton instance
+ */
+export function getCredentialExpiryMonitor(): CredentialExpiryMonitor {
+  if (!monitorInstance) {
+    monitorInstance = new CredentialExpiryMonitor(getExpiryWarningLeadTimes());
+  }
+  return monitorInstance;
+}
+
+/**
+ * Reset the credential expiry monitor (for testing purposes)
+ */
+export function resetCredentialExpiryMonitor(): void {
+  monitorInstance?.stop();
+  monitorInstance = null;
+}
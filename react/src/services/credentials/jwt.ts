@@ -0,0 +1,162 @@
+/**
+ * NATS User JWT Claims
+ *
+ * Decodes the claims of the user JWT in a .creds file for display and to
+ * explain permission errors. The signature is not verified here - the server
+ * does that on connect - so the claims must not be used for access decisions.
+ */
+
+import type {
+  Credential,
+  NatsSubjectPermission,
+  NatsUserClaims,
+  PermissionViolation,
+} from "@/types";
+import { subjectMatches } from "@/utils/subjects";
+
+// =============================================================================
+// Raw JWT Shape
+// =============================================================================
+
+interface RawPermission {
+  allow?: string[] | null;
+  deny?: string[] | null;
+}
+
+interface RawUserClaims {
+  jti?: string;
+  iat?: number;
+  exp?: number;
+  nbf?: number;
+  iss?: string;
+  sub?: string;
+  name?: string;
+  /** v1 JWTs carry the type at the top level */
+  type?: string;
+  nats?: {
+    type?: string;
+    issuer_account?: string;
+    pub?: RawPermission;
+    sub?: RawPermission;
+    resp?: { max?: number; ttl?: number } | null;
+    subs?: number;
+    data?: number;
+    payload?: number;
+    tags?: string[] | null;
+    bearer_token?: boolean;
+  };
+}
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+/**
+ * Decode a base64url-encoded JWT segment holding JSON
+ */
+export function decodeBase64UrlJson(segment: string): unknown {
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+function toPermission(raw: RawPermission | undefined): NatsSubjectPermission {
+  return { allow: raw?.allow ?? [], deny: raw?.deny ?? [] };
+}
+
+/** JWT times are in seconds */
+function toMillis(seconds: number | undefined): number | undefined {
+  return seconds ? seconds * 1000 : undefined;
+}
+
+/**
+ * Decode the claims of a NATS user JWT. Returns null if the JWT cannot be
+ * decoded or is not a user JWT.
+ */
+export function decodeUserJwt(jwt: string): NatsUserClaims | null {
+  const parts = jwt.split(".");
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  let payload: RawUserClaims;
+  try {
+    payload = decodeBase64UrlJson(parts[1]) as RawUserClaims;
+  } catch {
+    return null;
+  }
+
+  const nats = payload.nats ?? {};
+  if ((nats.type ?? payload.type) !== "user" || !payload.sub || !payload.iss) {
+    return null;
+  }
+
+  return {
+    name: payload.name ?? "",
+    subject: payload.sub,
+    issuer: payload.iss,
+    issuerAccount: nats.issuer_account || undefined,
+    id: payload.jti,
+    issuedAt: toMillis(payload.iat),
+    expiresAt: toMillis(payload.exp),
+    notBefore: toMillis(payload.nbf),
+    pub: toPermission(nats.pub),
+    sub: toPermission(nats.sub),
+    // ttl is a Go duration in nanoseconds
+    resp: nats.resp
+      ? { max: nats.resp.max ?? 0, ttl: Math.round((nats.resp.ttl ?? 0) / 1e6) }
+      : undefined,
+    limits: {
+      subs: nats.subs ?? -1,
+      data: nats.data ?? -1,
+      payload: nats.payload ?? -1,
+    },
+    tags: nats.tags ?? [],
+    bearerToken: nats.bearer_token ?? false,
+  };
+}
+
+/**
+ * Claims of the user JWT a credential carries, if any
+ */
+export function getCredentialClaims(credential: Credential | null): NatsUserClaims | undefined {
+  if (credential?.authType === "credsfile" || credential?.authType === "jwtsigner") {
+    return credential.claims;
+  }
+  return undefined;
+}
+
+// =============================================================================
+// Permission Explanations
+// =============================================================================
+
+/**
+ * Explain why the server rejected a publish or subscription, based on the
+ * permissions in the user JWT. Without claims (e.g. username/password users)
+ * the permissions are only known to the server.
+ */
+export function explainPermissionDenied(
+  violation: PermissionViolation,
+  claims?: NatsUserClaims
+): string {
+  const action = violation.operation === "publish" ? "publish to" : "subscribe to";
+  const target = `"${violation.subject}"${violation.queue ? ` (queue "${violation.queue}")` : ""}`;
+
+  if (!claims) {
+    return `The server does not allow this user to ${action} ${target}. The permissions are configured on the server.`;
+  }
+
+  const permission = violation.operation === "publish" ? claims.pub : claims.sub;
+  const denied = permission.deny.find((pattern) => subjectMatches(pattern, violation.subject));
+  if (denied) {
+    return `Your JWT denies ${action} ${target}: it matches the deny rule "${denied}".`;
+  }
+
+  const allowed = permission.allow.some((pattern) => subjectMatches(pattern, violation.subject));
+  if (permission.allow.length > 0 && !allowed) {
+    return `Your JWT does not allow ${action} ${target}: it matches none of the allowed subjects (${permission.allow.join(", ")}).`;
+  }
+
+  return `Your JWT allows ${action} ${target}, so the account or server configuration denied it (e.g. an updated or revoked JWT, or a missing import).`;
+}
@@ -1,6 +1,15 @@
 import { fromSeed } from "@nats-io/nkeys";
-import type { CredsFileCredential, ConnectionError } from "@/types";
+import type {
+  Credential,
+  CredsFileCredential,
+  ConnectionError,
+  JwtSignerCredential,
+  NKeyCredential,
+} from "@/types";
 import { createConnectionError } from "@/utils/errors";
+import { getCredentialTrustConfig } from "@/config/auth";
+import { decodeUserJwt } from "./jwt";
+import { verifyCredentialChain } from "./verifier";
 
 /**
  * Regex pattern to extract sections from .creds file
@@ -25,11 +34,11 @@ const USER_SEED_PREFIX = "SU";
 const USER_PUBLIC_KEY_PREFIX = "U";
 
 /**
- * Result of parsing a .creds file
+ * Result of parsing a credential (a .creds file unless noted)
  */
-export interface ParseResult {
+export interface ParseResult<C extends Credential = CredsFileCredential> {
   success: true;
-  credential: CredsFileCredential;
+  credential: C;
 }
 
 /**
@@ -129,20 +138,22 @@ export function parseCredentials(credsText: string): ParseResult | ParseError {
     };
   }
 
-  // Validate JWT format (basic check - it should be base64url encoded)
-  try {
-    // JWT has 3 parts separated by dots
-    const jwtParts = sections.jwt.split(".");
-    if (jwtParts.length !== 3) {
-      return {
-        success: false,
-        error: createConnectionError("INVALID_CREDENTIAL", "Invalid JWT format in credential file"),
-      };
-    }
-  } catch {
+  // Validate JWT format: 3 base64url parts with user claims
+  if (sections.jwt.split(".").length !== 3) {
     return {
       success: false,
-      error: createConnectionError("INVALID_CREDENTIAL", "Invalid JWT encoding in credential file"),
+      error: createConnectionError("INVALID_CREDENTIAL", "Invalid JWT format in credential file"),
+    };
+  }
+
+  const claims = decodeUserJwt(sections.jwt);
+  if (!claims) {
+    return {
+      success: false,
+      error: createConnectionError(
+        "INVALID_CREDENTIAL",
+        "Invalid JWT encoding in credential file. Expected a NATS user JWT."
+      ),
     };
   }
 
@@ -158,6 +169,25 @@ export function parseCredentials(credsText: string): ParseResult | ParseError {
     };
   }
 
+  if (claims.subject !== keyData.publicKey) {
+    return {
+      success: false,
+      error: createConnectionError(
+        "UNTRUSTED_CREDENTIAL",
+        "The JWT in the credential file was issued for a different user than its seed."
+      ),
+    };
+  }
+
+  // Verify the signature chain when trusted operators are configured
+  const trust = getCredentialTrustConfig();
+  if (trust) {
+    const verification = verifyCredentialChain(sections.jwt, keyData.publicKey, trust);
+    if (!verification.success) {
+      return verification;
+    }
+  }
+
   return {
     success: true,
     credential: {
@@ -166,6 +196,7 @@ export function parseCredentials(credsText: string): ParseResult | ParseError {
       jwt: sections.jwt,
       seed: keyData.seed,
       publicKey: keyData.publicKey,
+      claims,
       loadedAt: Date.now(),
       source: "file",
     },
@@ -198,6 +229,89 @@ export async function parseCredentialFile(file: File): Promise<ParseResult | Par
   }
 }
 
+/**
+ * Parses a user NKey seed for seed-only NKey authentication
+ */
+export function parseNKeySeed(seedText: string): ParseResult<NKeyCredential> | ParseError {
+  const keyData = validateAndExtractPublicKey(seedText.trim());
+  if (!keyData) {
+    return {
+      success: false,
+      error: createConnectionError(
+        "INVALID_CREDENTIAL",
+        "Invalid NKey seed. Seed must be a valid user seed starting with 'SU'."
+      ),
+    };
+  }
+
+  return {
+    success: true,
+    credential: {
+      authType: "nkey",
+      id: generateCredentialId(),
+      seed: keyData.seed,
+      publicKey: keyData.publicKey,
+      loadedAt: Date.now(),
+      source: "form",
+    },
+  };
+}
+
+/**
+ * Parses a user JWT whose nonce is signed by a remote signer. The public key
+ * the signer must sign with is the JWT subject.
+ */
+export function parseSignerJwt(
+  jwtText: string,
+  signerUrl: string
+): ParseResult<JwtSignerCredential> | ParseError {
+  const jwt = jwtText.trim();
+  const claims = decodeUserJwt(jwt);
+  if (!claims) {
+    return {
+      success: false,
+      error: createConnectionError("INVALID_CREDENTIAL", "Invalid JWT. Expected a NATS user JWT."),
+    };
+  }
+
+  const trust = getCredentialTrustConfig();
+  if (trust) {
+    const verification = verifyCredentialChain(jwt, claims.subject, trust);
+    if (!verification.success) {
+      return verification;
+    }
+  }
+
+  return {
+    success: true,
+    credential: {
+      authType: "jwtsigner",
+      id: generateCredentialId(),
+      jwt,
+      publicKey: claims.subject,
+      signerUrl,
+      claims,
+      loadedAt: Date.now(),
+      source: "form",
+    },
+  };
+}
+
+/**
+ * Verify the JWT of a stored credential against the trusted operators, which
+ * may have changed since it was parsed. Returns null for credentials without
+ * a JWT and when no operators are configured.
+ */
+export function verifyCredentialTrust(credential: Credential): ParseError | null {
+  const trust = getCredentialTrustConfig();
+  if (!trust || (credential.authType !== "credsfile" && credential.authType !== "jwtsigner")) {
+    return null;
+  }
+
+  const verification = verifyCredentialChain(credential.jwt, credential.publicKey, trust);
+  return verification.success ? null : verification;
+}
+
 /**
  * Validates a credential file without fully parsing it
  * Useful for quick validation before upload
@@ -0,0 +1,67 @@
+/**
+ * Subject Permissions
+ *
+ * Evaluates the pub/sub permissions in the user JWT claims, so the UI can
+ * hide or disable actions the server would reject. Without claims (e.g.
+ * username/password users) the permissions are only known to the server, and
+ * everything is assumed to be allowed.
+ */
+
+import type { NatsSubjectPermission, NatsUserClaims } from "@/types";
+import { subjectMatches } from "@/utils/subjects";
+
+/**
+ * Subscription the client makes to receive replies to its requests
+ * (`_INBOX.<id>.*` with the default inbox prefix)
+ */
+export const REPLY_SUBSCRIPTION = "_INBOX.*.*";
+
+/**
+ * Subjects the UI checks before offering an action
+ */
+export interface SubjectRequirement {
+  publish?: string[];
+  subscribe?: string[];
+  /** Subjects sent requests, which also need the reply subscription */
+  request?: string[];
+}
+
+/**
+ * Check a subject against allow/deny rules: deny wins, and an empty allow
+ * list allows everything that is not denied
+ */
+export function isSubjectAllowed(permission: NatsSubjectPermission, subject: string): boolean {
+  if (permission.deny.some((pattern) => subjectMatches(pattern, subject))) {
+    return false;
+  }
+  return (
+    permission.allow.length === 0 ||
+    permission.allow.some((pattern) => subjectMatches(pattern, subject))
+  );
+}
+
+export function canPublish(claims: NatsUserClaims | undefined, subject: string): boolean {
+  return !claims || isSubjectAllowed(claims.pub, subject);
+}
+
+export function canSubscribe(claims: NatsUserClaims | undefined, subject: string): boolean {
+  return !claims || isSubjectAllowed(claims.sub, subject);
+}
+
+export function canRequest(claims: NatsUserClaims | undefined, subject: string): boolean {
+  return canPublish(claims, subject) && canSubscribe(claims, REPLY_SUBSCRIPTION);
+}
+
+/**
+ * Check that every subject in a requirement is allowed
+ */
+export function satisfiesRequirement(
+  claims: NatsUserClaims | undefined,
+  requirement: SubjectRequirement
+): boolean {
+  return (
+    (requirement.publish ?? []).every((subject) => canPublish(claims, subject)) &&
+    (requirement.subscribe ?? []).every((subject) => canSubscribe(claims, subject)) &&
+    (requirement.request ?? []).every((subject) => canRequest(claims, subject))
+  );
+}
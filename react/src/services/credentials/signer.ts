@@ -0,0 +1,150 @@
+/**
+ * Nonce Signers
+ *
+ * With a "JWT with remote signer" credential the browser holds only the user
+ * JWT; the nonce the server sends on connect is signed elsewhere. By default
+ * the credential's signer endpoint signs it. Applications can install their
+ * own signer instead, e.g. a bridge to a hardware-backed key.
+ *
+ * nats.js asks for the signature synchronously while it writes the CONNECT
+ * message. The connection therefore signs the nonce as soon as the server's
+ * INFO arrives and holds the INFO back until the signature is ready
+ * (presignNonce); the authenticator then only picks it up
+ * (takeNonceSignature). Signers may answer asynchronously and are given the
+ * signer timeout to do so.
+ */
+
+import type { JwtSignerCredential } from "@/types";
+import { getTimeouts } from "@/config/runtime";
+import { fromBase64Url } from "./webauthn";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Sign the server nonce with the user's key and return the raw signature
+ */
+export type NonceSigner = (
+  nonce: Uint8Array,
+  credential: JwtSignerCredential
+) => Uint8Array | Promise<Uint8Array>;
+
+/**
+ * Body the signer endpoint receives
+ */
+export interface SignNonceRequest {
+  /** Server nonce, as sent by the server */
+  nonce: string;
+  /** User public key the JWT was issued for */
+  publicKey: string;
+}
+
+/**
+ * Body the signer endpoint answers with
+ */
+export interface SignNonceResponse {
+  /** Base64url-encoded ed25519 signature of the nonce */
+  signature: string;
+}
+
+// =============================================================================
+// Signers
+// =============================================================================
+
+let customSigner: NonceSigner | null = null;
+
+/**
+ * Install a signer used instead of the credential's signer endpoint, or
+ * remove it with null
+ */
+export function setNonceSigner(signer: NonceSigner | null): void {
+  customSigner = signer;
+}
+
+/**
+ * Signer to use: the installed one, else the credential's endpoint
+ */
+export function getNonceSigner(): NonceSigner {
+  return customSigner ?? signWithEndpoint;
+}
+
+/**
+ * POST the nonce to the credential's signer endpoint
+ */
+async function signWithEndpoint(
+  nonce: Uint8Array,
+  credential: JwtSignerCredential
+): Promise<Uint8Array> {
+  const body: SignNonceRequest = {
+    nonce: new TextDecoder().decode(nonce),
+    publicKey: credential.publicKey,
+  };
+
+  const response = await fetch(credential.signerUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  if (response.status !== 200) {
+    throw new Error(`Nonce signer failed with status ${response.status}`);
+  }
+
+  const { signature } = (await response.json()) as SignNonceResponse;
+  return fromBase64Url(signature);
+}
+
+// =============================================================================
+// Signing Ahead of the Authenticator
+// =============================================================================
+
+/** Signatures (or signing failures) by nonce, until the authenticator takes them */
+const signedNonces = new Map<string, { signature: Uint8Array } | { error: Error }>();
+
+/**
+ * Sign a server nonce with the current signer and keep the result for
+ * takeNonceSignature(). Never rejects; a failure is kept instead and thrown
+ * when the signature is taken.
+ */
+export async function presignNonce(nonce: string, credential: JwtSignerCredential): Promise<void> {
+  const timeoutMs = getTimeouts().signerMs;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const signature = await Promise.race([
+      getNonceSigner()(new TextEncoder().encode(nonce), credential),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Nonce signer did not answer within ${timeoutMs} ms`)),
+          timeoutMs
+        );
+      }),
+    ]);
+    signedNonces.set(nonce, { signature });
+  } catch (error) {
+    signedNonces.set(nonce, {
+      error: error instanceof Error ? error : new Error("Nonce signer failed"),
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Signature presignNonce() made for a nonce
+ *
+ * @throws Error when signing failed or the nonce was not signed
+ */
+export function takeNonceSignature(nonce: string): Uint8Array {
+  const result = signedNonces.get(nonce);
+  signedNonces.delete(nonce);
+
+  if (!result) {
+    throw new Error("The server nonce was not signed before connecting");
+  }
+  if ("error" in result) {
+    throw result.error;
+  }
+  return result.signature;
+}
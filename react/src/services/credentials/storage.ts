@@ -1,12 +1,26 @@
 import type {
   StoredCredential,
+  StoreCredentialOptions,
   CredentialStorageOptions,
   Credential,
-  CredsFileCredential,
-  UserPassCredential,
   AuthType,
+  KeyWrappingScheme,
+  VaultStatus,
 } from "@/types";
-import { isCredsFileCredential } from "@/types";
+import { getDefaultAutoLockMinutes } from "@/config/auth";
+import { normalizeServerUrls } from "@/config/servers";
+import { decodeUserJwt } from "./jwt";
+import { enrollPrfCredential, evaluatePrf, fromBase64Url, toBase64Url } from "./webauthn";
+
+/**
+ * Encrypted payload of a stored credential, per credential type
+ */
+type SerializedCredential =
+  | { type: "credsfile"; jwt: string; seed: number[]; publicKey: string }
+  | { type: "userpass"; username: string; password: string }
+  | { type: "token"; token: string }
+  | { type: "nkey"; seed: number[]; publicKey: string }
+  | { type: "jwtsigner"; jwt: string; publicKey: string; signerUrl: string };
 
 /**
  * Default storage options
@@ -17,12 +31,157 @@ const DEFAULT_OPTIONS: Required<CredentialStorageOptions> = {
   iterations: 100000,
 };
 
+/**
+ * Object store and record holding the passphrase settings
+ */
+const VAULT_STORE = "vault";
+const VAULT_RECORD_ID = "vault";
+
+/**
+ * HKDF info binding a WebAuthn PRF output to its use as a wrapping key
+ */
+const PRF_KEY_INFO = "nats-ui-vault-key";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Vault key wrapped with a PBKDF2 key derived from the passphrase
+ */
+interface PassphraseKeySlot {
+  scheme: "passphrase";
+  /** Base64-encoded PBKDF2 salt */
+  salt: string;
+  iterations: number;
+  /** Base64-encoded IV + vault key encrypted with the passphrase key */
+  wrappedKey: string;
+}
+
+/**
+ * Vault key wrapped with an HKDF key derived from a WebAuthn PRF output
+ */
+interface WebAuthnKeySlot {
+  scheme: "webauthn-prf";
+  /** Base64url WebAuthn credential ID */
+  credentialId: string;
+  /** Base64-encoded PRF input, also used as HKDF salt */
+  prfSalt: string;
+  /** Base64-encoded IV + vault key encrypted with the PRF key */
+  wrappedKey: string;
+  label: string;
+  createdAt: number;
+}
+
+type KeySlot = PassphraseKeySlot | WebAuthnKeySlot;
+
+/**
+ * Vault settings; only present when the vault is passphrase-protected.
+ * Credentials are encrypted with a random vault key, which every slot wraps
+ * for one unlock method.
+ */
+interface VaultRecord {
+  id: typeof VAULT_RECORD_ID;
+  keySlots: KeySlot[];
+  autoLockMinutes: number;
+}
+
+function isWebAuthnSlot(slot: KeySlot): slot is WebAuthnKeySlot {
+  return slot.scheme === "webauthn-prf";
+}
+
+/**
+ * Unlock methods of a vault
+ */
+function schemesOf(vault: VaultRecord): KeyWrappingScheme[] {
+  return [...new Set(vault.keySlots.map((slot) => slot.scheme))];
+}
+
+type VaultChangeCallback = (status: VaultStatus) => void;
+
+/**
+ * Secret fields of a credential, as encrypted into the vault
+ */
+function serializeCredential(credential: Credential): SerializedCredential {
+  switch (credential.authType) {
+    case "credsfile":
+      return {
+        type: "credsfile",
+        jwt: credential.jwt,
+        seed: Array.from(credential.seed),
+        publicKey: credential.publicKey,
+      };
+    case "userpass":
+      return { type: "userpass", username: credential.username, password: credential.password };
+    case "token":
+      return { type: "token", token: credential.token };
+    case "nkey":
+      return { type: "nkey", seed: Array.from(credential.seed), publicKey: credential.publicKey };
+    case "jwtsigner":
+      return {
+        type: "jwtsigner",
+        jwt: credential.jwt,
+        publicKey: credential.publicKey,
+        signerUrl: credential.signerUrl,
+      };
+  }
+}
+
+/**
+ * Reconstruct a credential from its decrypted fields; null for unknown types
+ */
+function deserializeCredential(data: SerializedCredential, id: string): Credential | null {
+  const base = { id, loadedAt: Date.now(), source: "storage" as const };
+
+  switch (data.type) {
+    case "credsfile":
+      return {
+        ...base,
+        authType: "credsfile",
+        jwt: data.jwt,
+        seed: new Uint8Array(data.seed),
+        publicKey: data.publicKey,
+        claims: decodeUserJwt(data.jwt) ?? undefined,
+      };
+    case "userpass":
+      return { ...base, authType: "userpass", username: data.username, password: data.password };
+    case "token":
+      return { ...base, authType: "token", token: data.token };
+    case "nkey":
+      return {
+        ...base,
+        authType: "nkey",
+        seed: new Uint8Array(data.seed),
+        publicKey: data.publicKey,
+      };
+    case "jwtsigner":
+      return {
+        ...base,
+        authType: "jwtsigner",
+        jwt: data.jwt,
+        publicKey: data.publicKey,
+        signerUrl: data.signerUrl,
+        claims: decodeUserJwt(data.jwt) ?? undefined,
+      };
+    default:
+      return null;
+  }
+}
+
 /**
  * IndexedDB credential storage service with AES-256-GCM encryption
+ * Holds any number of labelled credentials (a vault); one of them is the default
+ * used by AutoConnect. Storing the same identity and servers again updates the
+ * existing entry instead of adding another.
+ *
+ * Credentials are encrypted with a key derived from browser properties unless the
+ * user opts into a passphrase. They are then encrypted with a random vault key,
+ * wrapped by the passphrase and optionally by platform authenticators (WebAuthn
+ * PRF). The unwrapped vault key is held in memory only while the vault is unlocked.
  */
 class CredentialStorage {
   private options: Required<CredentialStorageOptions>;
   private db: IDBDatabase | null = null;
+  private vaultKey: CryptoKey | null = null;
+  private vaultListeners = new Set<VaultChangeCallback>();
 
   constructor(options: CredentialStorageOptions = {}) {
     this.options = { ...DEFAULT_OPTIONS, ...options };
@@ -35,7 +194,7 @@ class CredentialStorage {
     if (this.db) return this.db;
 
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.options.dbName, 1);
+      const request = indexedDB.open(this.options.dbName, 2);
 
       request.onerror = () => reject(request.error);
 
@@ -49,15 +208,47 @@ class CredentialStorage {
         if (!db.objectStoreNames.contains(this.options.storeName)) {
           db.createObjectStore(this.options.storeName, { keyPath: "id" });
         }
+        if (!db.objectStoreNames.contains(VAULT_STORE)) {
+          db.createObjectStore(VAULT_STORE, { keyPath: "id" });
+        }
       };
     });
   }
 
   /**
-   * Derive an AES-256 key from a password using PBKDF2
+   * Derive an AES-256 key from a password using PBKDF2, or from a high-entropy
+   * secret such as a WebAuthn PRF output using HKDF
    */
-  private async deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
+  private async deriveKey(
+    password: string | Uint8Array,
+    salt: Uint8Array,
+    iterations = this.options.iterations
+  ): Promise<CryptoKey> {
     const encoder = new TextEncoder();
+
+    if (typeof password !== "string") {
+      const secretKey = await crypto.subtle.importKey(
+        "raw",
+        new Uint8Array(password) as unknown as ArrayBuffer,
+        "HKDF",
+        false,
+        ["deriveKey"]
+      );
+
+      return crypto.subtle.deriveKey(
+        {
+          name: "HKDF",
+          hash: "SHA-256",
+          salt: new Uint8Array(salt) as unknown as ArrayBuffer,
+          info: encoder.encode(PRF_KEY_INFO),
+        },
+        secretKey,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+      );
+    }
+
     const passwordKey = await crypto.subtle.importKey(
       "raw",
       encoder.encode(password),
@@ -70,7 +261,7 @@ class CredentialStorage {
       {
         name: "PBKDF2",
         salt: new Uint8Array(salt) as unknown as ArrayBuffer,
-        iterations: this.options.iterations,
+        iterations,
         hash: "SHA-256",
       },
       passwordKey,
@@ -88,14 +279,27 @@ class CredentialStorage {
     password: string
   ): Promise<{ encrypted: string; salt: string }> {
     const salt = crypto.getRandomValues(new Uint8Array(16));
-    const iv = crypto.getRandomValues(new Uint8Array(12));
     const key = await this.deriveKey(password, salt);
 
+    return {
+      encrypted: await this.encryptWithKey(data, key),
+      salt: this.arrayBufferToBase64(salt),
+    };
+  }
+
+  /**
+   * Encrypt data with an AES-GCM key, returning Base64 IV + ciphertext
+   */
+  private async encryptWithKey(data: string | Uint8Array, key: CryptoKey): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+
     const encoder = new TextEncoder();
     const ciphertext = await crypto.subtle.encrypt(
       { name: "AES-GCM", iv },
       key,
-      encoder.encode(data)
+      typeof data === "string"
+        ? encoder.encode(data)
+        : (new Uint8Array(data) as unknown as ArrayBuffer)
     );
 
     // Combine IV + ciphertext
@@ -103,29 +307,36 @@ class CredentialStorage {
     combined.set(iv);
     combined.set(new Uint8Array(ciphertext), iv.length);
 
-    return {
-      encrypted: this.arrayBufferToBase64(combined),
-      salt: this.arrayBufferToBase64(salt),
-    };
+    return this.arrayBufferToBase64(combined);
   }
 
   /**
    * Decrypt credential data
    */
   private async decrypt(encrypted: string, salt: string, password: string): Promise<string> {
+    const key = await this.deriveKey(password, this.base64ToArrayBuffer(salt));
+    return this.decryptWithKey(encrypted, key);
+  }
+
+  /**
+   * Decrypt Base64 IV + ciphertext with an AES-GCM key
+   */
+  private async decryptWithKey(encrypted: string, key: CryptoKey): Promise<string> {
+    const decoder = new TextDecoder();
+    return decoder.decode(await this.decryptBytes(encrypted, key));
+  }
+
+  /**
+   * Decrypt Base64 IV + ciphertext with an AES-GCM key to raw bytes
+   */
+  private async decryptBytes(encrypted: string, key: CryptoKey): Promise<Uint8Array> {
     const combined = this.base64ToArrayBuffer(encrypted);
-    const saltBytes = this.base64ToArrayBuffer(salt);
 
     // Extract IV (first 12 bytes) and ciphertext
     const iv = combined.slice(0, 12);
     const ciphertext = combined.slice(12);
 
-    const key = await this.deriveKey(password, saltBytes);
-
-    const decrypted = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, ciphertext);
-
-    const decoder = new TextDecoder();
-    return decoder.decode(decrypted);
+    return new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, ciphertext));
   }
 
   /**
@@ -173,59 +384,138 @@ class CredentialStorage {
   }
 
   /**
-   * Store a credential (T031)
+   * Upgrade records written before multi-server support (single `serverUrl` field)
+   * or before the vault (no label or default flag)
    */
-  async storeCredential(credential: Credential, serverUrl: string): Promise<StoredCredential> {
-    const db = await this.initDB();
-    const password = await this.getDevicePassword();
+  private normalizeStored(
+    record: Omit<StoredCredential, "label" | "isDefault"> &
+      Partial<Pick<StoredCredential, "label" | "isDefault">> & { serverUrl?: string }
+  ): StoredCredential {
+    const { serverUrl, ...rest } = record;
+    const serverUrls = Array.isArray(rest.serverUrls)
+      ? rest.serverUrls
+      : serverUrl
+        ? [serverUrl]
+        : [];
+    return {
+      ...rest,
+      serverUrls,
+      label: rest.label || `Stored credential (${this.hostOf(serverUrls)})`,
+      isDefault: rest.isDefault ?? false,
+    };
+  }
 
-    // Serialize credential data based on type
-    let dataToEncrypt: string;
-    let authType: AuthType;
+  /**
+   * Host of the first server, for labels
+   */
+  private hostOf(serverUrls: string[]): string {
+    const first = serverUrls[0] ?? "";
+    try {
+      return new URL(first).host || first;
+    } catch {
+      return first || "no server";
+    }
+  }
 
-    if (isCredsFileCredential(credential)) {
-      authType = "credsfile";
-      dataToEncrypt = JSON.stringify({
-        type: "credsfile",
-        jwt: credential.jwt,
-        seed: Array.from(credential.seed),
-        publicKey: credential.publicKey,
-      });
-    } else {
-      authType = "userpass";
-      dataToEncrypt = JSON.stringify({
-        type: "userpass",
-        username: credential.username,
-        password: credential.password,
-      });
+  /**
+   * Label for a credential stored without one
+   */
+  private defaultLabel(credential: Credential, serverUrls: string[]): string {
+    let identity: string;
+    switch (credential.authType) {
+      case "userpass":
+        identity = credential.username;
+        break;
+      case "token":
+        identity = "Token";
+        break;
+      default:
+        identity = `${credential.publicKey.slice(0, 8)}…`;
     }
+    return `${identity} @ ${this.hostOf(serverUrls)}`;
+  }
 
-    const { encrypted, salt } = await this.encrypt(dataToEncrypt, password);
+  /**
+   * Hash of the identity and servers, so the secret itself is never stored in the clear
+   */
+  private async fingerprint(credential: Credential, serverUrls: string[]): Promise<string> {
+    let identity: string;
+    switch (credential.authType) {
+      case "userpass":
+        identity = `userpass:${credential.username}`;
+        break;
+      case "token":
+        // Hashed below like everything else
+        identity = `token:${credential.token}`;
+        break;
+      default:
+        identity = `${credential.authType}:${credential.publicKey}`;
+    }
+    const encoder = new TextEncoder();
+    const hash = await crypto.subtle.digest(
+      "SHA-256",
+      encoder.encode(`${identity}|${serverUrls.join(",")}`)
+    );
+    return this.arrayBufferToBase64(hash);
+  }
 
-    const storedCredential: StoredCredential = {
-      id: credential.id,
-      encrypted,
-      salt,
-      iterations: this.options.iterations,
-      storedAt: Date.now(),
-      serverUrl,
-      authType,
-    };
+  /**
+   * Read all stored records
+   */
+  private async getAllRecords(): Promise<StoredCredential[]> {
+    const db = await this.initDB();
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.options.storeName, "readwrite");
+      const transaction = db.transaction(this.options.storeName, "readonly");
       const store = transaction.objectStore(this.options.storeName);
-      const request = store.put(storedCredential);
+      const request = store.getAll();
 
       request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(storedCredential);
+      request.onsuccess = () => {
+        const records = (request.result as StoredCredential[]).map((r) => this.normalizeStored(r));
+        resolve(records.sort((a, b) => a.storedAt - b.storedAt));
+      };
     });
   }
 
   /**
-   * Retrieve and decrypt a stored credential (T032)
+   * Write and delete records in one transaction, optionally replacing the
+   * passphrase settings (null removes them)
    */
-  async retrieveCredential(id: string): Promise<Credential | null> {
+  private async writeRecords(
+    records: StoredCredential[],
+    deleteIds: string[] = [],
+    vault?: VaultRecord | null
+  ): Promise<void> {
+    const db = await this.initDB();
+
+    return new Promise((resolve, reject) => {
+      const storeNames =
+        vault === undefined ? [this.options.storeName] : [this.options.storeName, VAULT_STORE];
+      const transaction = db.transaction(storeNames, "readwrite");
+      const store = transaction.objectStore(this.options.storeName);
+
+      for (const id of deleteIds) {
+        store.delete(id);
+      }
+      for (const record of records) {
+        store.put(record);
+      }
+      if (vault === null) {
+        transaction.objectStore(VAULT_STORE).delete(VAULT_RECORD_ID);
+      } else if (vault) {
+        transaction.objectStore(VAULT_STORE).put(vault);
+      }
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  /**
+   * Read a single stored record
+   */
+  private async getRecord(id: string): Promise<StoredCredential | null> {
     const db = await this.initDB();
 
     return new Promise((resolve, reject) => {
@@ -234,52 +524,157 @@ class CredentialStorage {
       const request = store.get(id);
 
       request.onerror = () => reject(request.error);
-      request.onsuccess = async () => {
+      request.onsuccess = () => {
         const stored = request.result as StoredCredential | undefined;
-        if (!stored) {
-          resolve(null);
-          return;
-        }
-
-        try {
-          const password = await this.getDevicePassword();
-          const decrypted = await this.decrypt(stored.encrypted, stored.salt, password);
-          const data = JSON.parse(decrypted);
-
-          // Reconstruct credential based on type
-          if (data.type === "credsfile") {
-            const credential: CredsFileCredential = {
-              authType: "credsfile",
-              id: stored.id,
-              jwt: data.jwt,
-              seed: new Uint8Array(data.seed),
-              publicKey: data.publicKey,
-              loadedAt: Date.now(),
-              source: "storage",
-            };
-            resolve(credential);
-          } else if (data.type === "userpass") {
-            const credential: UserPassCredential = {
-              authType: "userpass",
-              id: stored.id,
-              username: data.username,
-              password: data.password,
-              loadedAt: Date.now(),
-              source: "storage",
-            };
-            resolve(credential);
-          } else {
-            // Unknown credential type
-            resolve(null);
-          }
-        } catch {
-          // Decryption or parsing failed - credential may be corrupted or from different device
-          resolve(null);
-        }
+        resolve(stored ? this.normalizeStored(stored) : null);
       };
     });
   }
 
+  /**
+   * Read the passphrase settings, or null when the device key is used
+   */
+  private async getVaultRecord(): Promise<VaultRecord | null> {
+    const db = await this.initDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(VAULT_STORE, "readonly");
+      const request = transaction.objectStore(VAULT_STORE).get(VAULT_RECORD_ID);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve((request.result as VaultRecord | undefined) ?? null);
+    });
+  }
+
+  /**
+   * Encrypt serialized credential data with the key of the current vault mode
+   */
+  private async encryptForStorage(
+    data: string
+  ): Promise<
+    Pick<StoredCredential, "encrypted" | "salt" | "iterations" | "keyMode" | "keyWrapping">
+  > {
+    const vault = await this.getVaultRecord();
+
+    if (!vault) {
+      const password = await this.getDevicePassword();
+      const { encrypted, salt } = await this.encrypt(data, password);
+      return { encrypted, salt, iterations: this.options.iterations, keyMode: "device" };
+    }
+
+    if (!this.vaultKey) {
+      throw new Error("Credential vault is locked");
+    }
+    return this.vaultEncrypted(await this.encryptWithKey(data, this.vaultKey), vault);
+  }
+
+  /**
+   * Storage fields of data encrypted with the vault key
+   */
+  private vaultEncrypted(
+    encrypted: string,
+    vault: VaultRecord
+  ): Pick<StoredCredential, "encrypted" | "salt" | "iterations" | "keyMode" | "keyWrapping"> {
+    // The vault key is random, so there is no per-credential salt
+    return {
+      encrypted,
+      salt: "",
+      iterations: 0,
+      keyMode: "passphrase",
+      keyWrapping: schemesOf(vault),
+    };
+  }
+
+  /**
+   * Decrypt a stored record. Throws if it needs the passphrase key and none is given.
+   */
+  private async decryptStored(
+    record: StoredCredential,
+    passphraseKey: CryptoKey | null
+  ): Promise<string> {
+    if (record.keyMode === "passphrase") {
+      if (!passphraseKey) {
+        throw new Error("Credential vault is locked");
+      }
+      return this.decryptWithKey(record.encrypted, passphraseKey);
+    }
+
+    const password = await this.getDevicePassword();
+    return this.decrypt(record.encrypted, record.salt, password);
+  }
+
+  /**
+   * The given record as the only default
+   */
+  private withDefault(records: StoredCredential[], id: string): StoredCredential[] {
+    return records
+      .filter((r) => r.isDefault !== (r.id === id))
+      .map((r) => ({ ...r, isDefault: r.id === id }));
+  }
+
+  /**
+   * Store a credential (T031)
+   */
+  async storeCredential(
+    credential: Credential,
+    serverUrls: string | string[],
+    options: StoreCredentialOptions = {}
+  ): Promise<StoredCredential> {
+    const servers = normalizeServerUrls(serverUrls);
+
+    const authType: AuthType = credential.authType;
+    const dataToEncrypt = JSON.stringify(serializeCredential(credential));
+    const encryptedFields = await this.encryptForStorage(dataToEncrypt);
+
+    // Replace an earlier entry for the same identity and servers
+    const fingerprint = await this.fingerprint(credential, servers);
+    const records = await this.getAllRecords();
+    const existing = records.find((r) => r.fingerprint === fingerprint);
+    const isDefault =
+      options.makeDefault ?? existing?.isDefault ?? !records.some((r) => r.isDefault);
+
+    const storedCredential: StoredCredential = {
+      id: credential.id,
+      ...encryptedFields,
+      storedAt: Date.now(),
+      serverUrls: servers,
+      authType,
+      label: options.label?.trim() || existing?.label || this.defaultLabel(credential, servers),
+      isDefault,
+      fingerprint,
+    };
+
+    const others = records.filter((r) => r.id !== credential.id && r !== existing);
+    await this.writeRecords(
+      [...(isDefault ? this.withDefault(others, credential.id) : []), storedCredential],
+      existing && existing.id !== credential.id ? [existing.id] : []
+    );
+    return storedCredential;
+  }
+
+  /**
+   * Retrieve and decrypt a stored credential (T032)
+   * Throws if the credential is passphrase-protected and the vault is locked.
+   */
+  async retrieveCredential(id: string): Promise<Credential | null> {
+    const stored = await this.getRecord(id);
+    if (!stored) {
+      return null;
+    }
+
+    if (stored.keyMode === "passphrase" && !this.vaultKey) {
+      throw new Error("Credential vault is locked");
+    }
+
+    try {
+      const decrypted = await this.decryptStored(stored, this.vaultKey);
+      return deserializeCredential(JSON.parse(decrypted), stored.id);
+    } catch {
+      // Decryption or parsing failed - credential may be corrupted or from different device
+      return null;
+    }
+  }
+
   /**
    * Check if a stored credential exists (T033)
    */
@@ -303,26 +698,401 @@ class CredentialStorage {
   }
 
   /**
-   * Get the stored credential metadata (without decrypting)
+   * Get stored credential metadata (without decrypting): the given credential,
+   * or else the default one, falling back to the most recently stored
    */
-  async getStoredCredentialMeta(): Promise<StoredCredential | null> {
-    const db = await this.initDB();
+  async getStoredCredentialMeta(id?: string): Promise<StoredCredential | null> {
+    const records = await this.getAllRecords();
+    if (id) {
+      return records.find((r) => r.id === id) ?? null;
+    }
+    return records.find((r) => r.isDefault) ?? records[records.length - 1] ?? null;
+  }
 
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.options.storeName, "readonly");
-      const store = transaction.objectStore(this.options.storeName);
-      const request = store.openCursor();
+  /**
+   * List the metadata of all stored credentials, oldest first
+   */
+  async listStoredCredentials(): Promise<StoredCredential[]> {
+    return this.getAllRecords();
+  }
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        const cursor = request.result;
-        if (cursor) {
-          resolve(cursor.value as StoredCredential);
-        } else {
-          resolve(null);
-        }
+  /**
+   * Make a stored credential the one AutoConnect uses
+   */
+  async setDefaultCredential(id: string): Promise<void> {
+    const records = await this.getAllRecords();
+    if (!records.some((r) => r.id === id)) {
+      throw new Error(`No stored credential with id ${id}`);
+    }
+    await this.writeRecords(this.withDefault(records, id));
+  }
+
+  /**
+   * Change the label of a stored credential
+   */
+  async renameCredential(id: string, label: string): Promise<void> {
+    const record = await this.getStoredCredentialMeta(id);
+    const trimmed = label.trim();
+    if (!record || !trimmed) return;
+    await this.writeRecords([{ ...record, label: trimmed }]);
+  }
+
+  /**
+   * Current key mode, lock state and unlock methods
+   */
+  async getVaultStatus(): Promise<VaultStatus> {
+    const vault = await this.getVaultRecord();
+    if (!vault) {
+      return {
+        mode: "device",
+        locked: false,
+        autoLockMinutes: 0,
+        unlockMethods: [],
+        authenticators: [],
       };
-    });
+    }
+
+    return {
+      mode: "passphrase",
+      locked: this.vaultKey === null,
+      autoLockMinutes: vault.autoLockMinutes,
+      unlockMethods: schemesOf(vault),
+      authenticators: vault.keySlots
+        .filter(isWebAuthnSlot)
+        .map(({ credentialId, label, createdAt }) => ({ id: credentialId, label, createdAt })),
+    };
+  }
+
+  /**
+   * Subscribe to lock, unlock and mode changes
+   */
+  onVaultChange(callback: VaultChangeCallback): () => void {
+    this.vaultListeners.add(callback);
+    return () => {
+      this.vaultListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Unlock the vault with the passphrase. Returns false for a wrong passphrase.
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    if (!(await this.getVaultRecord())) return true;
+
+    const opened = await this.openVault(passphrase);
+    if (!opened) return false;
+
+    this.vaultKey = await this.importVaultKey(opened.rawKey);
+    await this.notifyVaultChange();
+    return true;
+  }
+
+  /**
+   * Unlock the vault with an enrolled platform authenticator. Prompts the user;
+   * throws if the prompt is cancelled. Returns false if no slot accepts the result.
+   */
+  async unlockWithAuthenticator(): Promise<boolean> {
+    const vault = await this.getVaultRecord();
+    if (!vault) return true;
+
+    const slots = vault.keySlots.filter(isWebAuthnSlot);
+    const assertion = await evaluatePrf(
+      slots.map((slot) => ({
+        credentialId: fromBase64Url(slot.credentialId),
+        prfSalt: this.base64ToArrayBuffer(slot.prfSalt),
+      }))
+    );
+
+    const slot = slots.find((s) => s.credentialId === toBase64Url(assertion.credentialId));
+    if (!slot) return false;
+
+    const wrappingKey = await this.deriveKey(
+      assertion.output,
+      this.base64ToArrayBuffer(slot.prfSalt)
+    );
+    const rawKey = await this.unwrapVaultKey(slot, wrappingKey);
+    if (!rawKey) return false;
+
+    this.vaultKey = await this.importVaultKey(rawKey);
+    await this.notifyVaultChange();
+    return true;
+  }
+
+  /**
+   * Forget the vault key; stored credentials cannot be read until unlocked
+   */
+  lock(): void {
+    if (!this.vaultKey) return;
+    this.vaultKey = null;
+    void this.notifyVaultChange();
+  }
+
+  /**
+   * Protect the vault with a passphrase, re-encrypting all stored credentials
+   * with a new vault key. The vault stays unlocked afterwards.
+   */
+  async enablePassphrase(passphrase: string): Promise<void> {
+    if (await this.getVaultRecord()) {
+      throw new Error("The vault is already protected by a passphrase");
+    }
+
+    const rawKey = crypto.getRandomValues(new Uint8Array(32));
+    const key = await this.importVaultKey(rawKey);
+    const vault: VaultRecord = {
+      id: VAULT_RECORD_ID,
+      keySlots: [await this.createPassphraseSlot(passphrase, rawKey)],
+      autoLockMinutes: getDefaultAutoLockMinutes(),
+    };
+
+    const records = await this.reencryptAll(null, { key, vault });
+    await this.writeRecords(records, [], vault);
+
+    this.vaultKey = key;
+    await this.notifyVaultChange();
+  }
+
+  /**
+   * Change the passphrase by re-wrapping the vault key. Enrolled authenticators
+   * keep working. Returns false if the current passphrase is wrong.
+   */
+  async changePassphrase(current: string, next: string): Promise<boolean> {
+    const opened = await this.openVault(current);
+    if (!opened) return false;
+
+    const vault: VaultRecord = {
+      ...opened.vault,
+      keySlots: [
+        await this.createPassphraseSlot(next, opened.rawKey),
+        ...opened.vault.keySlots.filter((slot) => slot.scheme !== "passphrase"),
+      ],
+    };
+    await this.writeRecords([], [], vault);
+
+    this.vaultKey = await this.importVaultKey(opened.rawKey);
+    await this.notifyVaultChange();
+    return true;
+  }
+
+  /**
+   * Go back to the device key, removing enrolled authenticators as well.
+   * Returns false if the passphrase is wrong.
+   */
+  async disablePassphrase(passphrase: string): Promise<boolean> {
+    if (!(await this.getVaultRecord())) return true;
+
+    const opened = await this.openVault(passphrase);
+    if (!opened) return false;
+
+    const currentKey = await this.importVaultKey(opened.rawKey);
+    const records = await this.reencryptAll(currentKey, null);
+    await this.writeRecords(records, [], null);
+
+    this.vaultKey = null;
+    await this.notifyVaultChange();
+    return true;
+  }
+
+  /**
+   * Enroll a platform authenticator as an additional unlock method. The
+   * passphrase is needed to unwrap the vault key; it remains the fallback.
+   * Returns false if the passphrase is wrong; throws if enrollment fails.
+   */
+  async enrollAuthenticator(passphrase: string, label: string): Promise<boolean> {
+    const opened = await this.openVault(passphrase);
+    if (!opened) return false;
+
+    const enrollment = await enrollPrfCredential(label);
+    const wrappingKey = await this.deriveKey(enrollment.output, enrollment.prfSalt);
+    const slot: WebAuthnKeySlot = {
+      scheme: "webauthn-prf",
+      credentialId: toBase64Url(enrollment.credentialId),
+      prfSalt: this.arrayBufferToBase64(enrollment.prfSalt),
+      wrappedKey: await this.encryptWithKey(opened.rawKey, wrappingKey),
+      label,
+      createdAt: Date.now(),
+    };
+
+    await this.writeKeySlots(opened.vault, [...opened.vault.keySlots, slot]);
+    this.vaultKey = await this.importVaultKey(opened.rawKey);
+    await this.notifyVaultChange();
+    return true;
+  }
+
+  /**
+   * Remove an enrolled authenticator. The passkey itself stays on the device.
+   */
+  async removeAuthenticator(id: string): Promise<void> {
+    const vault = await this.getVaultRecord();
+    if (!vault) return;
+
+    await this.writeKeySlots(
+      vault,
+      vault.keySlots.filter((slot) => !isWebAuthnSlot(slot) || slot.credentialId !== id)
+    );
+    await this.notifyVaultChange();
+  }
+
+  /**
+   * Change the inactivity timeout of a passphrase-protected vault (0 = never)
+   */
+  async setAutoLockMinutes(minutes: number): Promise<void> {
+    const vault = await this.getVaultRecord();
+    if (!vault) return;
+
+    await this.writeRecords([], [], { ...vault, autoLockMinutes: Math.max(0, minutes) });
+    await this.notifyVaultChange();
+  }
+
+  /**
+   * Read the vault and unwrap its key with the passphrase. Null if the
+   * passphrase is wrong.
+   */
+  private async openVault(
+    passphrase: string
+  ): Promise<{ vault: VaultRecord; rawKey: Uint8Array } | null> {
+    const vault = await this.getVaultRecord();
+    if (!vault) {
+      throw new Error("The vault is not protected by a passphrase");
+    }
+    const slot = vault.keySlots.find((s): s is PassphraseKeySlot => s.scheme === "passphrase");
+    if (!slot) return null;
+
+    const wrappingKey = await this.deriveKey(
+      passphrase,
+      this.base64ToArrayBuffer(slot.salt),
+      slot.iterations
+    );
+    const rawKey = await this.unwrapVaultKey(slot, wrappingKey);
+    return rawKey ? { vault, rawKey } : null;
+  }
+
+  /**
+   * Wrap the vault key with a new passphrase
+   */
+  private async createPassphraseSlot(
+    passphrase: string,
+    rawKey: Uint8Array
+  ): Promise<PassphraseKeySlot> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`The passphrase must have at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const wrappingKey = await this.deriveKey(passphrase, salt);
+    return {
+      scheme: "passphrase",
+      salt: this.arrayBufferToBase64(salt),
+      iterations: this.options.iterations,
+      wrappedKey: await this.encryptWithKey(rawKey, wrappingKey),
+    };
+  }
+
+  /**
+   * Unwrap the raw vault key from a slot, or null if the wrapping key does not fit
+   */
+  private async unwrapVaultKey(slot: KeySlot, wrappingKey: CryptoKey): Promise<Uint8Array | null> {
+    try {
+      return await this.decryptBytes(slot.wrappedKey, wrappingKey);
+    } catch {
+      // AES-GCM authentication fails for a wrong key
+      return null;
+    }
+  }
+
+  /**
+   * Import the raw vault key as a non-extractable AES-GCM key
+   */
+  private async importVaultKey(rawKey: Uint8Array): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+      "raw",
+      new Uint8Array(rawKey) as unknown as ArrayBuffer,
+      "AES-GCM",
+      false,
+      ["encrypt", "decrypt"]
+    );
+  }
+
+  /**
+   * Replace the key slots, updating the wrapping metadata of stored credentials
+   */
+  private async writeKeySlots(vault: VaultRecord, keySlots: KeySlot[]): Promise<void> {
+    const updated: VaultRecord = { ...vault, keySlots };
+    const keyWrapping = schemesOf(updated);
+    const records = (await this.getAllRecords())
+      .filter((record) => record.keyMode === "passphrase")
+      .map((record) => ({ ...record, keyWrapping }));
+    await this.writeRecords(records, [], updated);
+  }
+
+  /**
+   * Re-encrypt all stored credentials with a new vault key, or with the device
+   * key when `next` is null. Nothing is written here; the caller stores the
+   * result together with the vault record.
+   *
+   * @throws Error when a stored credential cannot be decrypted, e.g. because
+   *   the device key changed with the browser's language or screen. Nothing is
+   *   changed then; the user can remove the credential and try again.
+   */
+  private async reencryptAll(
+    currentKey: CryptoKey | null,
+    next: { key: CryptoKey; vault: VaultRecord } | null
+  ): Promise<StoredCredential[]> {
+    const stored = await this.getAllRecords();
+    const plaintexts: string[] = [];
+    const unreadable: string[] = [];
+
+    for (const record of stored) {
+      try {
+        plaintexts.push(await this.decryptStored(record, currentKey));
+      } catch {
+        unreadable.push(`"${record.label}"`);
+      }
+    }
+
+    if (unreadable.length > 0) {
+      throw new Error(
+        `Cannot decrypt ${unreadable.join(", ")}. Nothing was changed; remove ` +
+          `${unreadable.length > 1 ? "these credentials" : "this credential"} and try again.`
+      );
+    }
+
+    const records: StoredCredential[] = [];
+    for (const [index, record] of stored.entries()) {
+      const plaintext = plaintexts[index];
+
+      if (next) {
+        records.push({
+          ...record,
+          ...this.vaultEncrypted(await this.encryptWithKey(plaintext, next.key), next.vault),
+        });
+      } else {
+        const password = await this.getDevicePassword();
+        const { encrypted, salt } = await this.encrypt(plaintext, password);
+        const deviceRecord: StoredCredential = {
+          ...record,
+          encrypted,
+          salt,
+          iterations: this.options.iterations,
+          keyMode: "device",
+        };
+        // Device-encrypted records have no key wrapping
+        delete deviceRecord.keyWrapping;
+        records.push(deviceRecord);
+      }
+    }
+
+    return records;
+  }
+
+  private async notifyVaultChange(): Promise<void> {
+    const status = await this.getVaultStatus();
+    for (const listener of this.vaultListeners) {
+      try {
+        listener(status);
+      } catch {
+        // Ignore listener errors
+      }
+    }
   }
 
   /**
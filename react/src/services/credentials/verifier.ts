@@ -0,0 +1,166 @@
+/**
+ * Credential Chain Verifier
+ *
+ * Verifies a user JWT offline, before any connection attempt: the user JWT
+ * must be signed by its account (or one of the account's signing keys), and
+ * the account JWT must be signed by a trusted operator. A .creds file does not
+ * carry the account JWT, so the accounts users may belong to are configured
+ * alongside the operators.
+ */
+
+import { fromPublic } from "@nats-io/nkeys";
+import type { ConnectionError, CredentialTrustConfig } from "@/types";
+import { createConnectionError } from "@/utils/errors";
+import { decodeBase64UrlJson } from "./jwt";
+import { fromBase64Url } from "./webauthn";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type VerifyResult =
+  | {
+      success: true;
+      /** Account the user belongs to */
+      account: string;
+      /** Trusted key that signed the account JWT */
+      operator: string;
+    }
+  | { success: false; error: ConnectionError };
+
+interface SignedJwt {
+  header: { alg?: string };
+  claims: {
+    iss?: string;
+    sub?: string;
+    exp?: number;
+    type?: string;
+    nats?: {
+      type?: string;
+      issuer_account?: string;
+      /** Plain keys, or scoped signing keys as `{ key, kind, ... }` */
+      signing_keys?: Array<string | { key?: string }> | null;
+    };
+  };
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** `ed25519` is the algorithm of v1 JWTs */
+const SUPPORTED_ALGORITHMS = ["ed25519-nkey", "ed25519"];
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Verify the signature chain of a user JWT against trusted operators
+ *
+ * @param jwt - User JWT from the .creds file
+ * @param publicKey - Public key derived from the seed in the .creds file
+ * @param trust - Trusted operators and known account JWTs
+ */
+export function verifyCredentialChain(
+  jwt: string,
+  publicKey: string,
+  trust: CredentialTrustConfig
+): VerifyResult {
+  const user = decodeAndVerify(jwt);
+  if (!user || jwtType(user) !== "user") {
+    return untrusted("The user JWT signature is invalid.");
+  }
+
+  if (user.claims.sub !== publicKey) {
+    return untrusted(
+      "The JWT in the credential file was issued for a different user than its seed."
+    );
+  }
+
+  const signer = user.claims.iss ?? "";
+  const accountKey = user.claims.nats?.issuer_account || signer;
+  if (!accountKey.startsWith("A")) {
+    return untrusted("The user JWT is not signed by an account.");
+  }
+
+  const account = findAccount(accountKey, trust.accountJwts);
+  if (!account) {
+    return untrusted(`Account ${accountKey} is not one of the trusted accounts.`);
+  }
+
+  if (signer !== accountKey && !signingKeys(account).includes(signer)) {
+    return untrusted(
+      `The user JWT is signed by ${signer}, which is not a signing key of its account.`
+    );
+  }
+
+  if (account.claims.exp && account.claims.exp * 1000 <= Date.now()) {
+    return untrusted(`The JWT of account ${accountKey} has expired.`);
+  }
+
+  const operator = account.claims.iss ?? "";
+  if (!trust.operators.includes(operator)) {
+    return untrusted(
+      `Account ${accountKey} is signed by ${operator}, which is not a trusted operator.`
+    );
+  }
+
+  return { success: true, account: accountKey, operator };
+}
+
+/**
+ * Find the verified account JWT for an account key
+ */
+function findAccount(accountKey: string, accountJwts: string[]): SignedJwt | null {
+  for (const accountJwt of accountJwts) {
+    const account = decodeAndVerify(accountJwt);
+    if (account && jwtType(account) === "account" && account.claims.sub === accountKey) {
+      return account;
+    }
+  }
+  return null;
+}
+
+function signingKeys(account: SignedJwt): string[] {
+  return (account.claims.nats?.signing_keys ?? []).map((entry) =>
+    typeof entry === "string" ? entry : (entry.key ?? "")
+  );
+}
+
+function jwtType(jwt: SignedJwt): string | undefined {
+  return jwt.claims.nats?.type ?? jwt.claims.type;
+}
+
+/**
+ * Decode a JWT and check that its issuer signed it. Returns null if the JWT
+ * cannot be decoded or the signature does not verify.
+ */
+function decodeAndVerify(jwt: string): SignedJwt | null {
+  const parts = jwt.trim().split(".");
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const header = decodeBase64UrlJson(parts[0]) as SignedJwt["header"];
+    const claims = decodeBase64UrlJson(parts[1]) as SignedJwt["claims"];
+    if (!SUPPORTED_ALGORITHMS.includes(header.alg ?? "") || !claims.iss) {
+      return null;
+    }
+
+    const signed = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+    if (!fromPublic(claims.iss).verify(signed, fromBase64Url(parts[2]))) {
+      return null;
+    }
+
+    return { header, claims };
+  } catch {
+    // Malformed segment or issuer key
+    return null;
+  }
+}
+
+function untrusted(message: string): VerifyResult {
+  return { success: false, error: createConnectionError("UNTRUSTED_CREDENTIAL", message) };
+}
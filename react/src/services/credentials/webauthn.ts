@@ -0,0 +1,191 @@
+/**
+ * WebAuthn PRF Key Source
+ *
+ * Derives vault key material from a platform authenticator (Touch ID, Windows
+ * Hello, Android screen lock) through the WebAuthn PRF extension. The
+ * authenticator returns the same 32-byte secret for the same credential and
+ * salt, and only after user verification.
+ *
+ * There is no relying-party server: challenges are random and assertions are
+ * not verified. The PRF output itself is the proof - a wrong or missing
+ * authenticator yields a key that cannot unwrap the vault key.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PrfEnrollment {
+  /** WebAuthn credential ID */
+  credentialId: Uint8Array;
+  /** Salt passed to the PRF */
+  prfSalt: Uint8Array;
+  /** PRF output for the salt */
+  output: Uint8Array;
+}
+
+export interface PrfAllowedCredential {
+  credentialId: Uint8Array;
+  prfSalt: Uint8Array;
+}
+
+export interface PrfAssertion {
+  /** Credential the user chose */
+  credentialId: Uint8Array;
+  /** PRF output for that credential's salt */
+  output: Uint8Array;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const RP_NAME = "NATS UI";
+const TIMEOUT_MS = 60000;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function toBytes(value: BufferSource | undefined): Uint8Array | null {
+  if (!value) return null;
+  if (value instanceof ArrayBuffer) return new Uint8Array(value);
+  return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+/**
+ * Base64url without padding, as used for WebAuthn credential IDs
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decode base64url (with or without padding)
+ */
+export function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Check whether this browser offers a user-verifying platform authenticator
+ * with the PRF extension. Browsers without getClientCapabilities() are given
+ * the benefit of the doubt; enrollment fails cleanly if PRF is missing.
+ */
+export async function isPrfSupported(): Promise<boolean> {
+  if (typeof window === "undefined" || !window.PublicKeyCredential || !navigator.credentials) {
+    return false;
+  }
+
+  try {
+    if (typeof PublicKeyCredential.getClientCapabilities === "function") {
+      const capabilities = await PublicKeyCredential.getClientCapabilities();
+      if (capabilities["extension:prf"] === false) {
+        return false;
+      }
+    }
+    return await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Evaluate the PRF with one of the allowed credentials. Prompts the user.
+ */
+export async function evaluatePrf(allowed: PrfAllowedCredential[]): Promise<PrfAssertion> {
+  if (allowed.length === 0) {
+    throw new Error("No authenticator is enrolled");
+  }
+
+  const evalByCredential: Record<string, AuthenticationExtensionsPRFValues> = {};
+  for (const { credentialId, prfSalt } of allowed) {
+    evalByCredential[toBase64Url(credentialId)] = { first: new Uint8Array(prfSalt) };
+  }
+
+  const assertion = (await navigator.credentials.get({
+    publicKey: {
+      challenge: randomBytes(32),
+      allowCredentials: allowed.map(({ credentialId }) => ({
+        type: "public-key",
+        id: new Uint8Array(credentialId),
+      })),
+      userVerification: "required",
+      timeout: TIMEOUT_MS,
+      extensions: { prf: { evalByCredential } },
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!assertion) {
+    throw new Error("Authentication was cancelled");
+  }
+
+  const output = toBytes(assertion.getClientExtensionResults().prf?.results?.first);
+  if (!output) {
+    throw new Error("The authenticator did not return a PRF result");
+  }
+
+  return { credentialId: new Uint8Array(assertion.rawId), output };
+}
+
+/**
+ * Create a platform credential with the PRF extension and evaluate it once.
+ * Prompts the user, possibly twice for authenticators that only evaluate the
+ * PRF during authentication.
+ */
+export async function enrollPrfCredential(label: string): Promise<PrfEnrollment> {
+  const prfSalt = randomBytes(32);
+
+  const created = (await navigator.credentials.create({
+    publicKey: {
+      rp: { name: RP_NAME },
+      user: { id: randomBytes(16), name: label, displayName: label },
+      challenge: randomBytes(32),
+      pubKeyCredParams: [
+        { type: "public-key", alg: -7 }, // ES256
+        { type: "public-key", alg: -257 }, // RS256
+      ],
+      authenticatorSelection: {
+        authenticatorAttachment: "platform",
+        userVerification: "required",
+        residentKey: "discouraged",
+      },
+      timeout: TIMEOUT_MS,
+      extensions: { prf: { eval: { first: prfSalt } } },
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!created) {
+    throw new Error("Enrollment was cancelled");
+  }
+
+  const credentialId = new Uint8Array(created.rawId);
+  const prf = created.getClientExtensionResults().prf;
+  if (!prf?.enabled) {
+    throw new Error("This authenticator does not support the PRF extension");
+  }
+
+  // Some authenticators only evaluate the PRF during authentication
+  const output =
+    toBytes(prf.results?.first) ?? (await evaluatePrf([{ credentialId, prfSalt }])).output;
+
+  return { credentialId, prfSalt, output };
+}
@@ -0,0 +1,170 @@
+/**
+ * JetStream Browser Service
+ *
+ * Lists streams and consumers and reads, deletes and purges stream messages
+ * on the NatsService connection. Messages are read with short-lived ordered
+ * consumers, so browsing needs no durable consumer and leaves no state
+ * behind on the server.
+ */
+
+import {
+  DeliverPolicy,
+  jetstream,
+  jetstreamManager,
+  type ConsumerInfo,
+  type JetStreamManager,
+  type PurgeResponse,
+  type StreamInfo,
+} from "@nats-io/jetstream";
+import type { NatsConnection } from "@nats-io/nats-core";
+import { getDirectConnection } from "../nats/connection";
+import { headersToObject, type ExplorerMessage } from "../nats/explorer";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Message stored in a stream. The id is the stream sequence and receivedAt
+ * the time the stream stored the message.
+ */
+export interface StreamMessage extends ExplorerMessage {
+  seq: number;
+}
+
+/** Where to start reading a page of messages */
+export type MessageStart = { seq: number } | { time: Date };
+
+export interface ReadMessagesOptions {
+  /** Messages per page */
+  limit: number;
+  /** Only read messages on subjects matching this filter */
+  filter?: string;
+}
+
+export interface PurgeOptions {
+  /** Only purge messages on subjects matching this filter */
+  filter?: string;
+  /** Keep this many of the newest messages */
+  keep?: number;
+}
+
+/** How long to wait for a page of messages */
+const FETCH_EXPIRES_MS = 5000;
+
+// =============================================================================
+// JetStream Service
+// =============================================================================
+
+/**
+ * JetStream stream and consumer browser on the shared connection
+ */
+export class JetStreamService {
+  private manager: JetStreamManager | null = null;
+  private managerConnection: NatsConnection | null = null;
+
+  /**
+   * JetStream manager for the current connection, recreated after a new login
+   */
+  private async getManager(): Promise<JetStreamManager> {
+    const connection = await getDirectConnection();
+    if (!this.manager || this.managerConnection !== connection) {
+      this.manager = await jetstreamManager(connection);
+      this.managerConnection = connection;
+    }
+    return this.manager;
+  }
+
+  /**
+   * Every stream of the account, by name
+   */
+  async listStreams(): Promise<StreamInfo[]> {
+    const manager = await this.getManager();
+    const streams: StreamInfo[] = [];
+    for await (const stream of manager.streams.list()) {
+      streams.push(stream);
+    }
+    return streams.sort((a, b) => a.config.name.localeCompare(b.config.name));
+  }
+
+  async getStream(stream: string): Promise<StreamInfo> {
+    const manager = await this.getManager();
+    return manager.streams.info(stream);
+  }
+
+  /**
+   * Every consumer of a stream, by name
+   */
+  async listConsumers(stream: string): Promise<ConsumerInfo[]> {
+    const manager = await this.getManager();
+    const consumers: ConsumerInfo[] = [];
+    for await (const consumer of manager.consumers.list(stream)) {
+      consumers.push(consumer);
+    }
+    return consumers.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Read a page of messages from a sequence or time onwards
+   */
+  async readMessages(
+    stream: string,
+    start: MessageStart,
+    { limit, filter }: ReadMessagesOptions
+  ): Promise<StreamMessage[]> {
+    const consumer = await jetstream(await getDirectConnection()).consumers.get(stream, {
+      ...("seq" in start
+        ? { deliver_policy: DeliverPolicy.StartSequence, opt_start_seq: start.seq }
+        : { deliver_policy: DeliverPolicy.StartTime, opt_start_time: start.time.toISOString() }),
+      ...(filter ? { filter_subjects: filter } : {}),
+    });
+
+    // Fetch only what is there, so a short last page does not wait for expiry
+    const info = await consumer.info(true);
+    const count = Math.min(limit, info.num_pending);
+    if (count === 0) return [];
+
+    const messages: StreamMessage[] = [];
+    const batch = await consumer.fetch({ max_messages: count, expires: FETCH_EXPIRES_MS });
+    for await (const msg of batch) {
+      messages.push({
+        id: msg.seq,
+        seq: msg.seq,
+        subject: msg.subject,
+        headers: headersToObject(msg.headers),
+        size: msg.data.length,
+        receivedAt: msg.time.getTime(),
+        data: msg.data,
+      });
+      if (messages.length === count) break;
+    }
+    return messages;
+  }
+
+  async deleteMessage(stream: string, seq: number): Promise<void> {
+    const manager = await this.getManager();
+    await manager.streams.deleteMessage(stream, seq);
+  }
+
+  async purgeStream(stream: string, options: PurgeOptions = {}): Promise<PurgeResponse> {
+    const manager = await this.getManager();
+    const { filter, keep } = options;
+    if (keep !== undefined) {
+      return manager.streams.purge(stream, { filter, keep });
+    }
+    return manager.streams.purge(stream, filter ? { filter } : undefined);
+  }
+}
+
+// =============================================================================
+// Singleton
+// =============================================================================
+
+let jetStreamServiceInstance: JetStreamService | null = null;
+
+export function getJetStreamService(): JetStreamService {
+  if (!jetStreamServiceInstance) {
+    jetStreamServiceInstance = new JetStreamService();
+  }
+  return jetStreamServiceInstance;
+}
@@ -0,0 +1,265 @@
+/**
+ * Avatar Service
+ *
+ * Profile avatars stored in a JetStream Object Store bucket. Uploads are
+ * resized in the browser and written in chunks with progress reporting;
+ * profiles reference the stored object by name. Downloaded avatars are cached
+ * in IndexedDB and handed out as blob URLs, so they show without a round trip
+ * and while offline.
+ */
+
+import type { NatsConnection } from "@nats-io/nats-core";
+import { Objm, type ObjectStore } from "@nats-io/obj";
+import { AVATAR_LIMITS, getAvatarBucket } from "../../config/avatars";
+import { formatBytes } from "../../utils/payload";
+import { db, isIndexedDBAvailable } from "../state/database";
+import { getDirectConnection } from "./connection";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AvatarUploadProgress {
+  /** Bytes stored so far */
+  loaded: number;
+  /** Size of the resized image */
+  total: number;
+}
+
+export type AvatarUploadResult =
+  | { success: true; name: string; size: number }
+  | { success: false; error: string };
+
+/** Image type avatars are stored as; browsers without WebP encoding fall back to PNG */
+const AVATAR_TYPE = "image/webp";
+const AVATAR_QUALITY = 0.85;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Crop an image to a centered square and scale it to the avatar size
+ */
+export async function resizeAvatar(
+  file: Blob,
+  sizePx: number = AVATAR_LIMITS.sizePx
+): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const side = Math.min(bitmap.width, bitmap.height);
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = Math.min(sizePx, side);
+
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Images cannot be resized in this browser");
+    }
+    context.imageSmoothingQuality = "high";
+    context.drawImage(
+      bitmap,
+      (bitmap.width - side) / 2,
+      (bitmap.height - side) / 2,
+      side,
+      side,
+      0,
+      0,
+      canvas.width,
+      canvas.height
+    );
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode the image"))),
+        AVATAR_TYPE,
+        AVATAR_QUALITY
+      )
+    );
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Stream of fixed-size chunks. The store reads the next chunk only after it
+ * stored the previous one, so each read reports the bytes stored so far.
+ */
+function chunkedStream(
+  data: Uint8Array,
+  chunkBytes: number,
+  onProgress?: (progress: AvatarUploadProgress) => void
+): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>(
+    {
+      pull(controller) {
+        onProgress?.({ loaded: offset, total: data.length });
+        if (offset >= data.length) {
+          controller.close();
+          return;
+        }
+        const chunk = data.slice(offset, offset + chunkBytes);
+        offset += chunk.length;
+        controller.enqueue(chunk);
+      },
+    },
+    { highWaterMark: 0 }
+  );
+}
+
+// =============================================================================
+// Avatar Service
+// =============================================================================
+
+export class AvatarService {
+  private store: Promise<ObjectStore> | null = null;
+  private storeKey: { connection: NatsConnection; bucket: string } | null = null;
+  /** Blob URLs by object name, including downloads in progress */
+  private urls = new Map<string, Promise<string | null>>();
+
+  private async open(): Promise<ObjectStore> {
+    const bucket = getAvatarBucket();
+    if (!bucket) {
+      throw new Error("Avatar uploads are not configured");
+    }
+    const connection = await getDirectConnection();
+
+    if (
+      !this.store ||
+      this.storeKey?.connection !== connection ||
+      this.storeKey.bucket !== bucket
+    ) {
+      const store = new Objm(connection).open(bucket);
+      // Do not cache a failed open
+      store.catch(() => {
+        if (this.store === store) this.store = null;
+      });
+      this.store = store;
+      this.storeKey = { connection, bucket };
+    }
+    return this.store;
+  }
+
+  /**
+   * Resize an image and store it as a new object named after the user.
+   * Files over the size limit are rejected before they are read.
+   */
+  async upload(
+    userId: string,
+    file: File,
+    onProgress?: (progress: AvatarUploadProgress) => void
+  ): Promise<AvatarUploadResult> {
+    if (!file.type.startsWith("image/")) {
+      return { success: false, error: "Choose an image file" };
+    }
+    if (file.size > AVATAR_LIMITS.maxFileBytes) {
+      return {
+        success: false,
+        error: `Images can be at most ${formatBytes(AVATAR_LIMITS.maxFileBytes)}`,
+      };
+    }
+
+    try {
+      const image = await resizeAvatar(file);
+      if (image.size > AVATAR_LIMITS.maxObjectBytes) {
+        return {
+          success: false,
+          error: `The resized image exceeds ${formatBytes(AVATAR_LIMITS.maxObjectBytes)}`,
+        };
+      }
+
+      const data = new Uint8Array(await image.arrayBuffer());
+      const name = `${userId}/${Date.now().toString(36)}`;
+      const store = await this.open();
+      await store.put(
+        {
+          name,
+          description: `Avatar of ${userId}`,
+          options: { max_chunk_size: AVATAR_LIMITS.chunkBytes },
+          metadata: { "content-type": image.type },
+        },
+        chunkedStream(data, AVATAR_LIMITS.chunkBytes, onProgress)
+      );
+      onProgress?.({ loaded: data.length, total: data.length });
+
+      await this.cache(name, image);
+      return { success: true, name, size: data.length };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Upload failed",
+      };
+    }
+  }
+
+  /**
+   * Blob URL of a stored avatar, from the IndexedDB cache or downloaded.
+   * Null if the object does not exist.
+   */
+  getUrl(name: string): Promise<string | null> {
+    let url = this.urls.get(name);
+    if (!url) {
+      url = this.load(name);
+      // Retry failed downloads on the next request
+      url.catch(() => this.urls.delete(name));
+      this.urls.set(name, url);
+    }
+    return url;
+  }
+
+  /**
+   * Delete a stored avatar, e.g. after it was replaced
+   */
+  async delete(name: string): Promise<void> {
+    const store = await this.open();
+    await store.delete(name);
+    await this.forget(name);
+  }
+
+  private async load(name: string): Promise<string | null> {
+    if (isIndexedDBAvailable()) {
+      const cached = await db.avatars.get(name);
+      if (cached) return URL.createObjectURL(cached.blob);
+    }
+
+    const store = await this.open();
+    const result = await store.get(name);
+    if (!result) return null;
+
+    const data = await new Response(result.data).arrayBuffer();
+    const error = await result.error;
+    if (error) throw error;
+
+    const blob = new Blob([data], { type: result.info.metadata?.["content-type"] ?? AVATAR_TYPE });
+    await this.cache(name, blob);
+    return URL.createObjectURL(blob);
+  }
+
+  private async cache(name: string, blob: Blob): Promise<void> {
+    if (isIndexedDBAvailable()) {
+      await db.avatars.put({ name, blob, cachedAt: Date.now() });
+    }
+  }
+
+  private async forget(name: string): Promise<void> {
+    const url = this.urls.get(name);
+    this.urls.delete(name);
+    url?.then((value) => value && URL.revokeObjectURL(value)).catch(() => {});
+    if (isIndexedDBAvailable()) {
+      await db.avatars.delete(name);
+    }
+  }
+}
+
+// =============================================================================
+// Singleton
+// =============================================================================
+
+let avatarServiceInstance: AvatarService | null = null;
+
+export function getAvatarService(): AvatarService {
+  if (!avatarServiceInstance) {
+    avatarServiceInstance = new AvatarService();
+  }
+  return avatarServiceInstance;
+}
@@ -3,22 +3,44 @@
  *
  * Feature: 002-event-driven-state
  *
- * Handles sending commands to the backend via NATS request/response.
+ * Handles sending commands to the backend via NATS request/response. Subjects
+ * and timeouts come from the command definitions registered in src/domains.
+ * Commands issued while offline are queued in the outbox and replayed in order
+ * when the connection is restored. Every command carries its id, the issuing
+ * tab and trace context as NATS headers so events can be correlated to it.
+ * Follower tabs of a shared connection send commands through the leader tab,
+ * which is also the tab that replays the outbox; a Web Lock keeps tabs without a
+ * shared connection from replaying it at the same time. Commands are encoded with
+ * the payload codec of their subject, which is named in the Content-Type header.
  */
 
-import type { NatsConnection } from "@nats-io/nats-core";
+import {
+  NoRespondersError,
+  PermissionViolationError,
+  RequestError,
+  TimeoutError,
+} from "@nats-io/nats-core";
+import { getCommandDefinition } from "../../domains";
 import {
   createCommand,
+  isCommandSuccess,
   type AppCommand,
+  type CommandErrorCode,
+  type CommandPayloadOf,
   type CommandResult,
-  type DismissNotificationCommand,
-  type MarkAllNotificationsReadCommand,
-  type MarkNotificationReadCommand,
-  type UpdateProfileCommand,
+  type CommandResultFailure,
+  type CommandType,
+  type OutboxStatus,
 } from "../../types/commands";
-import { NATS_DEFAULTS } from "../../types/state";
-import { createSubjects, getNamespace } from "../../utils/subjects";
+import { getTimeouts } from "../../config/runtime";
+import { commandSubject, getNamespace } from "../../utils/subjects";
+import { CONTENT_TYPE_HEADER, getCodecRegistry } from "../codecs/registry";
+import { getCommandOutbox, type CommandOutbox } from "../state/outbox";
 import { getNatsService } from "./connection";
+import { createCommandHeaders, SERVICE_ERROR_HEADERS } from "./headers";
+
+/** Web Lock held while replaying the outbox, which all tabs share */
+const OUTBOX_REPLAY_LOCK = "outbox-replay";
 
 // =============================================================================
 // Types
@@ -26,67 +48,77 @@ import { getNatsService } from "./connection";
 
 export interface CommandServiceConfig {
   namespace?: string;
+  /** Timeout for commands whose definition does not declare one */
   defaultTimeoutMs?: number;
 }
 
-export interface CommandTimeouts {
-  updateProfile: number;
-  dismissNotification: number;
-  markRead: number;
-  markAllRead: number;
-}
-
 export interface CommandService {
-  updateProfile(payload: UpdateProfileCommand["payload"]): Promise<CommandResult>;
-  dismissNotification(notificationId: string): Promise<CommandResult>;
-  markNotificationRead(notificationId: string): Promise<CommandResult>;
-  markAllNotificationsRead(): Promise<CommandResult>;
+  /** Send a registered command, or queue it while offline */
+  execute<K extends CommandType>(
+    type: K,
+    payload: CommandPayloadOf<K>,
+    commandId?: string
+  ): Promise<CommandResult>;
   isOnline(): boolean;
+  /** Send queued commands in order; stops at the first delivery failure */
+  replayOutbox(): Promise<void>;
+  /**
+   * Resolve with the status of a queued command once a replay (in any tab)
+   * settled it, or null if it was discarded
+   */
+  whenReplayed(commandId: string): Promise<OutboxStatus | null>;
+  /** Re-queue a failed or conflicting command and replay if online */
+  retryQueued(commandId: string): Promise<void>;
+  /** Drop a queued command without sending it */
+  discardQueued(commandId: string): Promise<void>;
 }
 
-// =============================================================================
-// Default Timeouts
-// =============================================================================
-
-const DEFAULT_TIMEOUTS: CommandTimeouts = {
-  updateProfile: 10000,
-  dismissNotification: NATS_DEFAULTS.COMMAND_TIMEOUT_MS,
-  markRead: NATS_DEFAULTS.COMMAND_TIMEOUT_MS,
-  markAllRead: 10000,
-};
+/**
+ * Run a replay while holding the outbox lock. Tabs that each hold their own
+ * connection wait for each other, so a command is read as pending and sent by
+ * one tab only.
+ */
+async function withOutboxLock(replay: () => Promise<void>): Promise<void> {
+  if (typeof navigator === "undefined" || !navigator.locks) {
+    return replay();
+  }
+  await navigator.locks.request(OUTBOX_REPLAY_LOCK, replay);
+}
 
 // =============================================================================
 // Command Service Implementation
 // =============================================================================
 
-// Simple JSON codec since @nats-io/nats-core v3.x doesn't export JSONCodec
-const jsonCodec = {
-  encode: <T>(data: T): Uint8Array => new TextEncoder().encode(JSON.stringify(data)),
-  decode: <T>(data: Uint8Array): T => JSON.parse(new TextDecoder().decode(data)) as T,
-};
-
 class NatsCommandService implements CommandService {
   private readonly namespace: string;
-  private readonly subjects: ReturnType<typeof createSubjects>;
-  private readonly codec = jsonCodec;
-  private readonly timeouts: CommandTimeouts;
+  private readonly defaultTimeoutMs: number;
+  private readonly outbox: CommandOutbox;
+  private replayPromise: Promise<void> | null = null;
 
   constructor(config: CommandServiceConfig = {}) {
     this.namespace = config.namespace || getNamespace();
-    this.subjects = createSubjects(this.namespace);
-    this.timeouts = { ...DEFAULT_TIMEOUTS };
-    if (config.defaultTimeoutMs) {
-      this.timeouts.dismissNotification = config.defaultTimeoutMs;
-      this.timeouts.markRead = config.defaultTimeoutMs;
+    this.defaultTimeoutMs = config.defaultTimeoutMs || getTimeouts().commandMs;
+    this.outbox = getCommandOutbox();
+
+    // Flush the outbox whenever the connection (re)establishes, and once now in
+    // case commands were queued before a page reload
+    getNatsService().onEvent((event) => {
+      if (event.type === "connected" || event.type === "reconnected") {
+        this.flushOutbox();
+      }
+    });
+    if (this.isOnline()) {
+      this.flushOutbox();
     }
   }
 
-  private getConnection(): NatsConnection {
-    const service = getNatsService();
-    if (!service.connection) {
-      throw new Error("Not connected to NATS");
-    }
-    return service.connection;
+  private flushOutbox(): void {
+    // The outbox is shared between tabs; the leader tab replays it
+    if (getNatsService().tabRole === "follower") return;
+
+    this.replayOutbox().catch((error) => {
+      console.error("Failed to replay command outbox:", error);
+    });
   }
 
   /**
@@ -98,14 +130,87 @@ class NatsCommandService implements CommandService {
   }
 
   /**
-   * Execute a command and return the result.
+   * Execute a registered command and return the result.
+   */
+  async execute<K extends CommandType>(
+    type: K,
+    payload: CommandPayloadOf<K>,
+    commandId?: string
+  ): Promise<CommandResult> {
+    const definition = getCommandDefinition(type);
+    const command = createCommand<AppCommand>(type, payload, commandId);
+
+    return this.executeCommand(
+      commandSubject(this.namespace, definition.subject),
+      command,
+      definition.timeoutMs ?? this.defaultTimeoutMs
+    );
+  }
+
+  /**
+   * Send a command, or queue it while offline.
    */
-  private async executeCommand<T extends AppCommand>(
+  private async executeCommand(
     subject: string,
-    command: T,
+    command: AppCommand,
     timeoutMs: number
   ): Promise<CommandResult> {
     if (!this.isOnline()) {
+      return this.enqueueCommand(subject, command, timeoutMs);
+    }
+
+    try {
+      return await this.sendCommand(subject, command, timeoutMs);
+    } catch (error) {
+      return this.handleCommandError(command.id, error);
+    }
+  }
+
+  /**
+   * Send a command and decode the backend's result. Throws on transport errors.
+   */
+  private async sendCommand(
+    subject: string,
+    command: AppCommand,
+    timeoutMs: number
+  ): Promise<CommandResult> {
+    const codec = getCodecRegistry().forSubject(subject);
+    const headers = createCommandHeaders(command.id);
+    headers.set(CONTENT_TYPE_HEADER, codec.contentType);
+
+    const reply = await getNatsService().request(subject, codec.encode(command), {
+      timeout: timeoutMs,
+      headers,
+    });
+
+    const serviceError = reply.headers?.get(SERVICE_ERROR_HEADERS.message);
+    if (serviceError) {
+      return {
+        commandId: command.id,
+        success: false,
+        error: {
+          code: serviceErrorCode(reply.headers?.get(SERVICE_ERROR_HEADERS.code)),
+          message: serviceError,
+        },
+        timestamp: Date.now(),
+      };
+    }
+
+    // Replies carry their own Content-Type, else the codec the command was sent with
+    return getCodecRegistry().resolve(subject, reply.headers).decode(reply.data) as CommandResult;
+  }
+
+  /**
+   * Store a command in the outbox for delivery once back online.
+   */
+  private async enqueueCommand(
+    subject: string,
+    command: AppCommand,
+    timeoutMs: number
+  ): Promise<CommandResult> {
+    try {
+      await this.outbox.enqueue(command, subject, timeoutMs);
+    } catch {
       return {
         commandId: command.id,
         success: false,
@@ -117,25 +222,130 @@ class NatsCommandService implements CommandService {
       };
     }
 
-    const connection = this.getConnection();
+    return {
+      commandId: command.id,
+      success: false,
+      error: {
+        code: "QUEUED",
+        message: "Command queued and will be sent when the connection is restored",
+      },
+      timestamp: Date.now(),
+    };
+  }
 
-    try {
-      const response = await connection.request(subject, this.codec.encode(command), {
-        timeout: timeoutMs,
+  /**
+   * Replay queued commands in creation order.
+   */
+  async replayOutbox(): Promise<void> {
+    // Only one replay at a time so commands are never sent twice or out of order
+    if (!this.replayPromise) {
+      this.replayPromise = withOutboxLock(() => this.doReplayOutbox()).finally(() => {
+        this.replayPromise = null;
       });
+    }
+    return this.replayPromise;
+  }
 
-      return this.codec.decode(response.data) as CommandResult;
-    } catch (error) {
-      return this.handleCommandError(command.id, error);
+  private async doReplayOutbox(): Promise<void> {
+    await this.outbox.pruneSent();
+    const pending = await this.outbox.getPending();
+
+    for (const entry of pending) {
+      if (!this.isOnline()) break;
+
+      let result: CommandResult;
+      try {
+        result = await this.sendCommand(entry.subject, entry.command, entry.timeoutMs);
+      } catch (error) {
+        // Delivery failed - keep the command pending and preserve ordering
+        await this.outbox.recordAttempt(entry.id, this.handleCommandError(entry.id, error).error);
+        break;
+      }
+
+      await this.outbox.recordAttempt(
+        entry.id,
+        isCommandSuccess(result) ? undefined : result.error
+      );
+
+      if (isCommandSuccess(result)) {
+        await this.outbox.markSent(entry.id);
+      } else {
+        await this.outbox.markRejected(
+          entry.id,
+          result.error.code === "CONFLICT" ? "conflict" : "failed",
+          result.error
+        );
+      }
+    }
+  }
+
+  whenReplayed(commandId: string): Promise<OutboxStatus | null> {
+    return this.outbox.whenSettled(commandId);
+  }
+
+  /**
+   * Re-queue a failed or conflicting command.
+   */
+  async retryQueued(commandId: string): Promise<void> {
+    await this.outbox.retry(commandId);
+    if (this.isOnline()) {
+      await this.replayOutbox();
     }
   }
 
+  /**
+   * Remove a command from the outbox.
+   */
+  async discardQueued(commandId: string): Promise<void> {
+    await this.outbox.discard(commandId);
+  }
+
   /**
    * Handle command execution errors.
    */
-  private handleCommandError(commandId: string, error: unknown): CommandResult {
+  private handleCommandError(commandId: string, error: unknown): CommandResultFailure {
     const timestamp = Date.now();
 
+    if (error instanceof PermissionViolationError) {
+      return {
+        commandId,
+        success: false,
+        error: {
+          code: "PERMISSION_DENIED",
+          message: error.message,
+          details: { operation: error.operation, subject: error.subject },
+        },
+        timestamp,
+      };
+    }
+
+    if (
+      error instanceof NoRespondersError ||
+      (error instanceof RequestError && error.isNoResponders())
+    ) {
+      return {
+        commandId,
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Command service unavailable",
+        },
+        timestamp,
+      };
+    }
+
+    if (error instanceof TimeoutError) {
+      return {
+        commandId,
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Command timed out",
+        },
+        timestamp,
+      };
+    }
+
     if (error instanceof Error) {
       if (error.message.includes("503")) {
         return {
@@ -180,115 +390,25 @@ class NatsCommandService implements CommandService {
       timestamp,
     };
   }
-
-  /**
-   * Update the current user's profile.
-   */
-  async updateProfile(payload: UpdateProfileCommand["payload"]): Promise<CommandResult> {
-    const command = createCommand<UpdateProfileCommand>("user.updateProfile", payload);
-
-    return this.executeCommand(
-      this.subjects.commands.user.updateProfile,
-      command,
-      this.timeouts.updateProfile
-    );
-  }
-
-  /**
-   * Dismiss a notification.
-   */
-  async dismissNotification(notificationId: string): Promise<CommandResult> {
-    const command = createCommand<DismissNotificationCommand>("notification.dismiss", {
-      notificationId,
-    });
-
-    return this.executeCommand(
-      this.subjects.commands.notification.dismiss,
-      command,
-      this.timeouts.dismissNotification
-    );
-  }
-
-  /**
-   * Mark a notification as read.
-   */
-  async markNotificationRead(notificationId: string): Promise<CommandResult> {
-    const command = createCommand<MarkNotificationReadCommand>("notification.markRead", {
-      notificationId,
-    });
-
-    return this.executeCommand(
-      this.subjects.commands.notification.markRead,
-      command,
-      this.timeouts.markRead
-    );
-  }
-
-  /**
-   * Mark all notifications as read.
-   */
-  async markAllNotificationsRead(): Promise<CommandResult> {
-    const command = createCommand<MarkAllNotificationsReadCommand>(
-      "notification.markAllRead",
-      {} as Record<string, never>
-    );
-
-    return this.executeCommand(
-      this.subjects.commands.notification.markAllRead,
-      command,
-      this.timeouts.markAllRead
-    );
-  }
 }
 
-// =============================================================================
-// Validation
-// =============================================================================
-
 /**
- * Validate command payload before sending.
+ * Command error code for the status code a service sent with its error
  */
-export function validateUpdateProfilePayload(payload: UpdateProfileCommand["payload"]): {
-  valid: boolean;
-  error?: string;
-} {
-  if (payload.name !== undefined) {
-    if (typeof payload.name !== "string") {
-      return { valid: false, error: "Name must be a string" };
-    }
-    if (payload.name.length === 0) {
-      return { valid: false, error: "Name cannot be empty" };
-    }
-    if (payload.name.length > 255) {
-      return { valid: false, error: "Name cannot exceed 255 characters" };
-    }
-  }
-
-  if (payload.avatarUrl !== undefined) {
-    if (typeof payload.avatarUrl !== "string") {
-      return { valid: false, error: "Avatar URL must be a string" };
-    }
-  }
-
-  // At least one field must be provided
-  if (payload.name === undefined && payload.avatarUrl === undefined) {
-    return { valid: false, error: "At least one field must be provided" };
-  }
-
-  return { valid: true };
-}
-
-/**
- * Validate notification ID.
- */
-export function validateNotificationId(notificationId: string): { valid: boolean; error?: string } {
-  if (!notificationId || typeof notificationId !== "string") {
-    return { valid: false, error: "Notification ID is required" };
-  }
-  if (notificationId.length === 0) {
-    return { valid: false, error: "Notification ID cannot be empty" };
+function serviceErrorCode(status: string | undefined): CommandErrorCode {
+  switch (status) {
+    case "400":
+      return "INVALID_PAYLOAD";
+    case "401":
+    case "403":
+      return "PERMISSION_DENIED";
+    case "404":
+      return "NOT_FOUND";
+    case "409":
+      return "CONFLICT";
+    default:
+      return "INTERNAL_ERROR";
   }
-  return { valid: true };
 }
 
 // =============================================================================
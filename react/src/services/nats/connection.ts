@@ -1,15 +1,80 @@
-import { wsconnect, credsAuthenticator, usernamePasswordAuthenticator } from "@nats-io/nats-core";
+import {
+  wsconnect,
+  credsAuthenticator,
+  nkeyAuthenticator,
+  tokenAuthenticator,
+  usernamePasswordAuthenticator,
+  PermissionViolationError,
+  UserAuthenticationExpiredError,
+} from "@nats-io/nats-core";
 import type { NatsConnection, Status, Authenticator } from "@nats-io/nats-core";
-import type { ConnectionStatus, Credential } from "@/types";
-import { isCredsFileCredential } from "@/types";
+import type {
+  ConnectionError,
+  ConnectionErrorCode,
+  ConnectionStatus,
+  Credential,
+  CredsFileCredential,
+  JwtSignerCredential,
+  NKeyCredential,
+  TokenCredential,
+  UserPassCredential,
+} from "@/types";
+import type {
+  ConnectionStatusPayload,
+  ConnectRejectedPayload,
+  ConnectRequestedPayload,
+  CredentialReplacedPayload,
+  TabSyncMessage,
+} from "@/types/state";
 import { createConnectionError, createErrorFromUnknown } from "@/utils/errors";
 import { getCredentialBytes } from "@/services/credentials/parser";
-import type { INatsService, NatsEventCallback, NatsEvent, NatsServiceConfig } from "./types";
+import { presignNonce, takeNonceSignature } from "@/services/credentials/signer";
+import { toBase64Url } from "@/services/credentials/webauthn";
+import { getLeaderElection, isLeaderElectionSupported } from "@/services/state/leader";
+import type { LeaderElection } from "@/services/state/leader";
+import { getStateSyncService } from "@/services/state/sync";
+import { isSharedConnectionEnabled } from "@/config/connection";
+import { getTimeouts } from "@/config/runtime";
+import { normalizeServerUrls } from "@/config/servers";
+import { presigningWsFactory } from "./presign";
+import { requestThroughLeader, serveFollowerRequests } from "./proxy";
+import type {
+  INatsService,
+  NatsEventCallback,
+  NatsEvent,
+  NatsEventType,
+  NatsReply,
+  NatsRequestOptions,
+  NatsServiceConfig,
+  TabRole,
+} from "./types";
 import { DEFAULT_NATS_CONFIG } from "./types";
 
+/**
+ * Whether two credentials authenticate as the same user
+ */
+function isSameIdentity(a: Credential, b: Credential): boolean {
+  switch (a.authType) {
+    case "userpass":
+      return b.authType === "userpass" && a.username === b.username;
+    case "token":
+      return b.authType === "token" && a.token === b.token;
+    default:
+      return "publicKey" in b && a.publicKey === b.publicKey;
+  }
+}
+
 /**
  * NATS connection service
- * Manages WebSocket connection to NATS server with credential-based authentication
+ * Manages WebSocket connection to NATS server(s) with credential-based authentication.
+ * Servers are tried in the configured order; servers advertised by the cluster are
+ * tracked so the UI can show the full topology and the member currently in use.
+ *
+ * With a shared connection only the elected leader tab connects. Follower tabs
+ * mirror its status, send requests through it and take over the connection
+ * with their own credential when the leader tab closes. Subscriptions,
+ * JetStream, KV and Object Store cannot go through the leader tab, so a
+ * follower tab that uses them opens a connection of its own.
  */
 class NatsService implements INatsService {
   private _connection: NatsConnection | null = null;
@@ -18,9 +83,34 @@ class NatsService implements INatsService {
   private _statusIteratorAbort: AbortController | null = null;
   private _config: Required<NatsServiceConfig>;
   private _connectionPromise: Promise<void> | null = null;
+  private _configuredServers: string[] = [];
+  private _discoveredServers: string[] = [];
+  private _currentServer: string | null = null;
+  private _election: LeaderElection | null = null;
+  /** Credential this tab connected with, kept to take over the shared connection */
+  private _sharedCredential: { credential: Credential; servers: string[] } | null = null;
+  /** Last connect request this follower tab sent to the leader */
+  private _connectRequestId: string | null = null;
+  private _lastPermissionError: ConnectionError | null = null;
+  /** Credential the authenticator signs with; replaced in place on renewal */
+  private _credential: Credential | null = null;
+  /** Connection of a follower tab of its own, for APIs the leader tab cannot proxy */
+  private _followerConnection: Promise<NatsConnection> | null = null;
 
   constructor(config: NatsServiceConfig = {}) {
-    this._config = { ...DEFAULT_NATS_CONFIG, ...config };
+    const timeouts = getTimeouts();
+    this._config = {
+      ...DEFAULT_NATS_CONFIG,
+      timeout: timeouts.connectMs,
+      reconnectTimeWait: timeouts.reconnectTimeWaitMs,
+      pingInterval: timeouts.pingIntervalMs,
+      sharedConnection: isSharedConnectionEnabled(),
+      ...config,
+    };
+
+    if (this._config.sharedConnection && isLeaderElectionSupported()) {
+      this._initSharedConnection();
+    }
   }
 
   get status(): ConnectionStatus {
@@ -31,14 +121,34 @@ class NatsService implements INatsService {
     return this._connection;
   }
 
+  get tabRole(): TabRole {
+    if (!this._election) return "independent";
+    return this._election.isLeader() ? "leader" : "follower";
+  }
+
+  get currentServer(): string | null {
+    return this._currentServer;
+  }
+
+  get lastPermissionError(): ConnectionError | null {
+    return this._lastPermissionError;
+  }
+
+  get servers(): string[] {
+    return [
+      ...this._configuredServers,
+      ...this._discoveredServers.filter((server) => !this._isConfiguredServer(server)),
+    ];
+  }
+
   isConnected(): boolean {
     return this._status === "connected";
   }
 
   /**
-   * Connect to NATS server with credentials
+   * Connect to NATS server(s) with credentials
    */
-  async connect(credential: Credential, serverUrl: string): Promise<void> {
+  async connect(credential: Credential, servers: string | string[]): Promise<void> {
     // Don't reconnect if already connected to same server
     if (this._status === "connected" && this._connection) {
       return;
@@ -51,7 +161,12 @@ class NatsService implements INatsService {
     }
 
     // Start the connection and store the promise
-    this._connectionPromise = this._doConnect(credential, serverUrl);
+    const serverUrls = normalizeServerUrls(servers);
+    this._lastPermissionError = null;
+    this._connectionPromise =
+      this.tabRole === "follower"
+        ? this._connectThroughLeader(credential, serverUrls)
+        : this._doConnect(credential, serverUrls);
 
     try {
       await this._connectionPromise;
@@ -63,38 +178,41 @@ class NatsService implements INatsService {
   /**
    * Internal connection logic
    */
-  private async _doConnect(credential: Credential, serverUrl: string): Promise<void> {
+  private async _doConnect(
+    credential: Credential,
+    servers: string[],
+    connectedEvent: "connected" | "reconnected" = "connected"
+  ): Promise<void> {
     // Disconnect existing connection if any
     if (this._connection) {
       await this.disconnect();
     }
 
+    if (this._election) {
+      this._sharedCredential = { credential, servers };
+    }
+
+    if (servers.length === 0) {
+      const error = createConnectionError("CONNECTION_REFUSED", "No NATS servers configured");
+      this._setStatus("failed");
+      this._emitEvent({ type: "error", timestamp: Date.now(), error });
+      throw error;
+    }
+
+    this._configuredServers = servers;
+    this._discoveredServers = [];
+
     this._setStatus("connecting");
     this._emitEvent({ type: "connecting", timestamp: Date.now() });
 
-    // Select authenticator based on credential type
-    let authenticator: Authenticator;
-    if (isCredsFileCredential(credential)) {
-      const credsBytes = getCredentialBytes(credential);
-      authenticator = credsAuthenticator(credsBytes);
-    } else {
-      authenticator = usernamePasswordAuthenticator(credential.username, credential.password);
-    }
+    this._credential = credential;
 
     try {
-      this._connection = await wsconnect({
-        servers: serverUrl,
-        authenticator,
-        timeout: this._config.timeout,
-        reconnect: this._config.reconnect,
-        maxReconnectAttempts: this._config.maxReconnectAttempts,
-        reconnectTimeWait: this._config.reconnectTimeWait,
-        pingInterval: this._config.pingInterval,
-        maxPingOut: this._config.maxPingOut,
-      });
+      this._connection = await this._open(credential, servers);
 
+      this._currentServer = this._connection.getServer();
       this._setStatus("connected");
-      this._emitEvent({ type: "connected", timestamp: Date.now() });
+      this._emitEvent({ type: connectedEvent, timestamp: Date.now(), server: this._currentServer });
 
       // Start listening to connection status events
       this._startStatusListener();
@@ -110,10 +228,124 @@ class NatsService implements INatsService {
     }
   }
 
+  /**
+   * Open a WebSocket connection with the configured options
+   */
+  private _open(credential: Credential, servers: string[]): Promise<NatsConnection> {
+    return wsconnect({
+      servers,
+      authenticator: this._createAuthenticator(credential),
+      timeout: this._config.timeout,
+      reconnect: this._config.reconnect,
+      maxReconnectAttempts: this._config.maxReconnectAttempts,
+      reconnectTimeWait: this._config.reconnectTimeWait,
+      pingInterval: this._config.pingInterval,
+      maxPingOut: this._config.maxPingOut,
+      noRandomize: this._config.noRandomize,
+      ignoreClusterUpdates: this._config.ignoreClusterUpdates,
+      // The nonce is signed before nats.js asks the authenticator for it
+      wsFactory:
+        credential.authType === "jwtsigner"
+          ? presigningWsFactory((nonce) =>
+              presignNonce(nonce, this._credential as JwtSignerCredential)
+            )
+          : undefined,
+    });
+  }
+
+  /**
+   * Select the authenticator for a credential type. It reads the credential on
+   * every (re)connect, so replaceCredential() takes effect without a new connection.
+   */
+  private _createAuthenticator(credential: Credential): Authenticator {
+    switch (credential.authType) {
+      case "credsfile":
+        return credsAuthenticator(() =>
+          getCredentialBytes(this._credential as CredsFileCredential)
+        );
+      case "userpass":
+        return usernamePasswordAuthenticator(
+          () => (this._credential as UserPassCredential).username,
+          () => (this._credential as UserPassCredential).password
+        );
+      case "token":
+        return tokenAuthenticator(() => (this._credential as TokenCredential).token);
+      case "nkey":
+        return nkeyAuthenticator(() => (this._credential as NKeyCredential).seed);
+      case "jwtsigner":
+        return (nonce?: string) => {
+          const current = this._credential as JwtSignerCredential;
+          return {
+            jwt: current.jwt,
+            nkey: current.publicKey,
+            sig: nonce ? toBase64Url(takeNonceSignature(nonce)) : undefined,
+          };
+        };
+    }
+  }
+
+  /**
+   * Reconnect with a renewed credential of the same type, keeping subscribers
+   * (and the state built from them) in place. On a follower tab the leader
+   * tab reconnects the shared connection.
+   */
+  async replaceCredential(credential: Credential): Promise<void> {
+    const current = this._sharedCredential?.credential ?? this._credential;
+    if (current && current.authType !== credential.authType) {
+      throw createConnectionError(
+        "INVALID_CREDENTIAL",
+        "A renewed credential must use the same authentication type"
+      );
+    }
+
+    if (this._sharedCredential) {
+      this._sharedCredential = { ...this._sharedCredential, credential };
+    }
+
+    if (this.tabRole === "follower") {
+      getStateSyncService().requestCredentialReplace(credential);
+      if (this._followerConnection) {
+        this._credential = credential;
+        const connection = await this._followerConnection.catch(() => null);
+        await connection?.reconnect();
+      }
+      return;
+    }
+
+    if (!this._connection || this._connection.isClosed()) {
+      // The connection is gone (e.g. the server closed it on expiry) - start over
+      await this._closeConnection();
+      await this.connect(credential, this._configuredServers);
+      return;
+    }
+
+    this._credential = credential;
+    await this._connection.reconnect();
+  }
+
   /**
    * Disconnect from NATS server
    */
   async disconnect(): Promise<void> {
+    if (this.tabRole === "follower" && this._sharedCredential) {
+      // Logging out in any tab closes the shared connection
+      getStateSyncService().requestDisconnect();
+    }
+    this._sharedCredential = null;
+    this._credential = null;
+
+    await this._closeConnection();
+    await this._closeFollowerConnection();
+
+    this._currentServer = null;
+    this._setStatus("disconnected");
+    this._emitEvent({ type: "disconnected", timestamp: Date.now() });
+  }
+
+  /**
+   * Stop the status listener and close the connection without emitting events
+   */
+  private async _closeConnection(): Promise<void> {
     // Stop status listener
     if (this._statusIteratorAbort) {
       this._statusIteratorAbort.abort();
@@ -135,9 +367,73 @@ class NatsService implements INatsService {
 
       this._connection = null;
     }
+  }
 
-    this._setStatus("disconnected");
-    this._emitEvent({ type: "disconnected", timestamp: Date.now() });
+  /**
+   * Close the connection this follower tab opened of its own
+   */
+  private async _closeFollowerConnection(): Promise<void> {
+    const pending = this._followerConnection;
+    if (!pending) return;
+    this._followerConnection = null;
+
+    try {
+      await (await pending).drain();
+    } catch {
+      // Ignore connections that failed to open or drain
+    }
+  }
+
+  /**
+   * The connection of this tab, or on a follower tab a connection of its own
+   * opened with its credential on first use
+   */
+  async openDirectConnection(): Promise<NatsConnection> {
+    if (this.tabRole !== "follower") {
+      if (!this._connection) {
+        throw new Error("Not connected to NATS");
+      }
+      return this._connection;
+    }
+
+    if (!this._sharedCredential || this._status !== "connected") {
+      throw new Error("Not connected to NATS");
+    }
+
+    if (!this._followerConnection) {
+      const { credential, servers } = this._sharedCredential;
+      this._credential = credential;
+      const pending = this._open(credential, servers);
+      // Do not keep a connection that failed to open
+      pending.catch(() => {
+        if (this._followerConnection === pending) this._followerConnection = null;
+      });
+      this._followerConnection = pending;
+    }
+
+    try {
+      return await this._followerConnection;
+    } catch (error) {
+      throw createErrorFromUnknown(error);
+    }
+  }
+
+  /**
+   * Send a request and return the reply body and headers
+   */
+  async request(
+    subject: string,
+    data: Uint8Array,
+    options: NatsRequestOptions
+  ): Promise<NatsReply> {
+    if (this.tabRole === "follower") {
+      return requestThroughLeader(subject, data, options);
+    }
+    if (!this._connection) {
+      throw new Error("Not connected to NATS");
+    }
+    const reply = await this._connection.request(subject, data, options);
+    return { data: reply.data, headers: reply.headers };
   }
 
   /**
@@ -190,14 +486,18 @@ class NatsService implements INatsService {
         this._emitEvent({
           type: "disconnected",
           timestamp: Date.now(),
+          server: status.server,
         });
         break;
 
       case "reconnect":
+        // The client may have failed over to another cluster member
+        this._currentServer = status.server;
         this._setStatus("connected");
         this._emitEvent({
           type: "reconnected",
           timestamp: Date.now(),
+          server: status.server,
         });
         break;
 
@@ -213,10 +513,34 @@ class NatsService implements INatsService {
         break;
 
       case "update":
-        // Server update event - cluster topology change
+        // Server update event - cluster topology change (connect_urls)
+        this._applyClusterUpdate(status.added ?? [], status.deleted ?? []);
         break;
 
       case "error": {
+        if (status.error instanceof UserAuthenticationExpiredError) {
+          this._emitEvent({
+            type: "error",
+            timestamp: Date.now(),
+            error: createConnectionError("CREDENTIAL_EXPIRED", status.error.message),
+          });
+          break;
+        }
+
+        if (status.error instanceof PermissionViolationError) {
+          // Not fatal - the server rejected a single publish or subscription
+          const { operation, subject, queue } = status.error;
+          this._emitEvent({
+            type: "permissionDenied",
+            timestamp: Date.now(),
+            error: {
+              ...createConnectionError("PERMISSION_DENIED", status.error.message),
+              permission: { operation, subject, queue },
+            },
+          });
+          break;
+        }
+
         const error = createConnectionError(
           "SERVER_ERROR",
           status.error instanceof Error ? status.error.message : "Unknown server error"
@@ -275,11 +599,48 @@ class NatsService implements INatsService {
     }
   }
 
+  /**
+   * Track servers added to or removed from the cluster. Configured servers are
+   * never removed, so they remain available as seeds for the next connection.
+   */
+  private _applyClusterUpdate(added: string[], deleted: string[]): void {
+    if (this._config.ignoreClusterUpdates) return;
+
+    const discovered = this._discoveredServers.filter((server) => !deleted.includes(server));
+    for (const server of added) {
+      if (!discovered.includes(server)) {
+        discovered.push(server);
+      }
+    }
+    this._discoveredServers = discovered;
+
+    this._emitEvent({
+      type: "serversChanged",
+      timestamp: Date.now(),
+      server: this._currentServer ?? undefined,
+      servers: this.servers,
+    });
+  }
+
+  /**
+   * Check whether a host:port advertised by the cluster matches a configured URL
+   */
+  private _isConfiguredServer(hostport: string): boolean {
+    return this._configuredServers.some(
+      (url) =>
+        url === hostport || url.replace(/^[a-z]+:\/\//i, "").replace(/\/.*$/, "") === hostport
+    );
+  }
+
   private _setStatus(status: ConnectionStatus): void {
     this._status = status;
   }
 
   private _emitEvent(event: NatsEvent): void {
+    if (event.type === "permissionDenied" && event.error) {
+      this._lastPermissionError = event.error;
+    }
+
     for (const listener of this._eventListeners) {
       try {
         listener(event);
@@ -287,6 +648,267 @@ class NatsService implements INatsService {
         // Ignore listener errors
       }
     }
+
+    if (this.tabRole === "leader") {
+      this._broadcastStatus(event);
+    }
+  }
+
+  // ===========================================================================
+  // Shared Connection
+  // ===========================================================================
+
+  private _initSharedConnection(): void {
+    this._election = getLeaderElection();
+    getStateSyncService().subscribe(this._handleSyncMessage);
+    serveFollowerRequests(() => (this.tabRole === "leader" ? this._connection : null));
+    this._election.onChange(this._handleLeadershipChange);
+  }
+
+  private _handleSyncMessage = (message: TabSyncMessage): void => {
+    const isLeader = this.tabRole === "leader";
+
+    switch (message.type) {
+      case "CONNECTION_STATUS_CHANGED":
+        if (!isLeader) {
+          this._applyLeaderStatus(message.payload as ConnectionStatusPayload);
+        }
+        break;
+
+      case "CONNECTION_STATUS_REQUESTED":
+        if (isLeader) {
+          this._broadcastStatus();
+        }
+        break;
+
+      case "CONNECT_REQUESTED":
+        if (isLeader) {
+          this._connectForFollower(message.payload as ConnectRequestedPayload);
+        }
+        break;
+
+      case "CONNECT_REJECTED":
+        if (!isLeader) {
+          this._handleConnectRejected(message.payload as ConnectRejectedPayload);
+        }
+        break;
+
+      case "CREDENTIAL_REPLACED":
+        if (isLeader) {
+          const { credential } = message.payload as CredentialReplacedPayload;
+          this.replaceCredential(credential).catch(() => {
+            // Reported to the follower through the status broadcast
+          });
+        }
+        break;
+
+      case "DISCONNECT_REQUESTED":
+        if (isLeader) {
+          this.disconnect();
+        }
+        break;
+    }
+  };
+
+  private _handleLeadershipChange = (isLeader: boolean): void => {
+    if (isLeader) {
+      this._takeOver();
+    } else {
+      this._stepDown();
+    }
+  };
+
+  /**
+   * Wait for the leader tab to report a connection, asking it to connect first
+   */
+  private _connectThroughLeader(credential: Credential, servers: string[]): Promise<void> {
+    this._sharedCredential = { credential, servers };
+    this._setStatus("connecting");
+    this._emitEvent({ type: "connecting", timestamp: Date.now() });
+
+    return new Promise<void>((resolve, reject) => {
+      const unsubscribe = this.onEvent((event) => {
+        if (event.type === "connected" || event.type === "reconnected") {
+          clearTimeout(timer);
+          unsubscribe();
+          resolve();
+        } else if (event.type === "error" && this._status === "failed") {
+          clearTimeout(timer);
+          unsubscribe();
+          reject(event.error);
+        }
+      });
+
+      const timer = setTimeout(() => {
+        unsubscribe();
+        const error = createConnectionError("CONNECTION_TIMEOUT", "Leader tab did not connect");
+        this._setStatus("failed");
+        this._emitEvent({ type: "error", timestamp: Date.now(), error });
+        reject(error);
+      }, this._config.timeout);
+
+      this._requestConnect(credential, servers);
+    });
+  }
+
+  private _requestConnect(credential: Credential, servers: string[]): void {
+    this._connectRequestId = crypto.randomUUID();
+    getStateSyncService().requestConnect(this._connectRequestId, credential, servers);
+  }
+
+  /**
+   * Connect on behalf of a follower tab, unless already connected. A tab
+   * whose credential is for another user is refused the existing connection.
+   */
+  private _connectForFollower({ requestId, credential, servers }: ConnectRequestedPayload): void {
+    if (this._status === "connected" || this._connectionPromise) {
+      if (this._credential && !isSameIdentity(this._credential, credential)) {
+        getStateSyncService().rejectConnect(
+          requestId,
+          createConnectionError("AUTH_FAILED", "Another tab is connected as a different user")
+        );
+        return;
+      }
+      this._broadcastStatus();
+      return;
+    }
+
+    this.connect(credential, servers).catch(() => {
+      // Reported to the follower through the status broadcast
+    });
+  }
+
+  /**
+   * The leader refused our credential - stop following its connection
+   */
+  private _handleConnectRejected({ requestId, error }: ConnectRejectedPayload): void {
+    if (requestId !== this._connectRequestId) return;
+
+    this._connectRequestId = null;
+    this._sharedCredential = null;
+    this._setStatus("failed");
+    this._emitEvent({
+      type: "error",
+      timestamp: Date.now(),
+      error: {
+        ...createConnectionError(error.code as ConnectionErrorCode, error.message),
+        userMessage:
+          "Another tab is signed in as a different user. Log out there to sign in with this credential.",
+      },
+    });
+  }
+
+  /**
+   * This tab became the leader - open the shared connection with its credential
+   */
+  private async _takeOver(): Promise<void> {
+    if (!this._sharedCredential) {
+      // Nothing to connect with - followers that have a credential will ask
+      this._broadcastStatus();
+      return;
+    }
+
+    // The shared connection replaces the one this tab opened as a follower
+    await this._closeFollowerConnection();
+
+    // Subscribers that were using the previous leader's connection see a reconnect
+    const connectedEvent = this._status === "connected" ? "reconnected" : "connected";
+    const { credential, servers } = this._sharedCredential;
+
+    try {
+      await this._doConnect(credential, servers, connectedEvent);
+    } catch {
+      // Reported through the error event
+    }
+  }
+
+  /**
+   * Another tab won the election - close our connection and follow it instead
+   */
+  private async _stepDown(): Promise<void> {
+    if (!this._connection) return;
+
+    await this._closeConnection();
+    this._setStatus("reconnecting");
+    this._emitEvent({ type: "reconnecting", timestamp: Date.now() });
+    getStateSyncService().requestConnectionStatus();
+  }
+
+  /**
+   * Report this leader tab's connection status to follower tabs
+   */
+  private _broadcastStatus(event?: NatsEvent): void {
+    getStateSyncService().notifyConnectionStatusChanged(this._status, {
+      event: event?.type,
+      server: this._currentServer,
+      servers: this.servers,
+      reconnectAttempt: event?.reconnectAttempt,
+      error: event?.error,
+    });
+  }
+
+  /**
+   * Mirror the leader tab's connection status and re-emit its events
+   */
+  private _applyLeaderStatus(payload: ConnectionStatusPayload): void {
+    // Only tabs that asked to connect follow the shared connection
+    if (!this._sharedCredential) return;
+
+    if (payload.status === "disconnected" && !payload.event) {
+      // A leader without a connection of its own - hand it our credential
+      const { credential, servers } = this._sharedCredential;
+      this._requestConnect(credential, servers);
+      return;
+    }
+
+    if (payload.status === "disconnected" || payload.status === "failed") {
+      // The leader tab logged out or lost its connection for good
+      this._closeFollowerConnection();
+    }
+
+    const previous = this._status;
+    this._setStatus(payload.status);
+    this._currentServer = payload.server ?? null;
+    this._configuredServers = payload.servers ?? [];
+    this._discoveredServers = [];
+
+    const type = (payload.event as NatsEventType | undefined) ?? this._eventForStatus(previous);
+    if (!type) return;
+
+    this._emitEvent({
+      type,
+      timestamp: Date.now(),
+      server: payload.server ?? undefined,
+      servers: payload.servers,
+      reconnectAttempt: payload.reconnectAttempt,
+      error: payload.error
+        ? {
+            ...createConnectionError(
+              payload.error.code as ConnectionErrorCode,
+              payload.error.message
+            ),
+            permission: payload.error.permission,
+          }
+        : undefined,
+    });
+  }
+
+  /**
+   * Event for a status reported without one (an answer to a status request)
+   */
+  private _eventForStatus(previous: ConnectionStatus): NatsEventType | null {
+    if (previous === this._status) return null;
+
+    switch (this._status) {
+      case "connected":
+        return previous === "reconnecting" ? "reconnected" : "connected";
+      case "connecting":
+      case "reconnecting":
+      case "disconnected":
+        return this._status;
+      default:
+        return null;
+    }
   }
 }
 
@@ -303,6 +925,17 @@ export function getNatsService(config?: NatsServiceConfig): INatsService {
   return natsServiceInstance;
 }
 
+/**
+ * The connection of this tab, for APIs that cannot go through the leader tab:
+ * subscriptions, JetStream, KV and Object Store. A follower tab of a shared
+ * connection opens a connection of its own for them.
+ *
+ * @throws Error when not connected
+ */
+export function getDirectConnection(): Promise<NatsConnection> {
+  return getNatsService().openDirectConnection();
+}
+
 /**
  * Reset the NATS service (for testing purposes)
  */
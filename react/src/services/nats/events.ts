@@ -4,55 +4,104 @@
  * Feature: 002-event-driven-state
  *
  * Handles subscribing to NATS event streams and processing incoming events.
+ * Correlation headers on incoming events are merged into the event so callers
+ * can wait for the event caused by a specific command. Payloads are decoded
+ * with the codec named by their Content-Type header or routed by subject.
+ *
+ * With an event stream configured, events are consumed from JetStream with an
+ * ordered consumer instead. The stream sequence of the last applied event is
+ * kept in IndexedDB, so after a reconnect or page reload the subscription
+ * resumes where it left off; the state is only refetched in full when the
+ * stream no longer holds the next event.
  */
 
-import type { NatsConnection, Subscription } from "@nats-io/nats-core";
+import { DeliverPolicy, jetstream, type ConsumerMessages } from "@nats-io/jetstream";
+import type { MsgHdrs, NatsConnection, Subscription } from "@nats-io/nats-core";
+import { getEventStreamName } from "../../config/events";
 import type { AppEvent, GetStateResponse, NatsUserInfoResponse } from "../../types/events";
-import { NATS_DEFAULTS } from "../../types/state";
+import { getTimeouts } from "../../config/runtime";
 import { createSubjects, getNamespace, NATS_SYSTEM_SUBJECTS } from "../../utils/subjects";
+import { getCodecRegistry } from "../codecs/registry";
+import { getEventStreamSequence, setEventStreamSequence } from "../state/database";
 import { isValidEvent } from "../state/reducer";
 import { getNatsService } from "./connection";
+import { readCorrelationHeaders } from "./headers";
 
 // =============================================================================
 // Types
 // =============================================================================
 
-export type EventCallback = (event: AppEvent) => void;
+/** Called for each event; the next event is delivered once a returned promise settles */
+export type EventCallback = (event: AppEvent) => void | Promise<void>;
 export type StateLoadedCallback = (state: GetStateResponse) => void;
 export type ErrorCallback = (error: Error) => void;
 
 export interface EventServiceConfig {
   namespace?: string;
   stateTimeoutMs?: number;
+  /** JetStream stream to replay events from (default: VITE_NATS_EVENTS_STREAM, null disables) */
+  stream?: string | null;
+}
+
+export interface SubscriptionPlan {
+  /** The state must be fetched in full before subscribing */
+  refetchState: boolean;
+}
+
+export interface PrepareSubscriptionOptions {
+  /** Refetch the state even if the missed events could be replayed */
+  forceRefetch?: boolean;
+}
+
+export interface CorrelatedEventWait {
+  /** Resolves with the first event correlated to the command, or null on timeout */
+  event: Promise<AppEvent | null>;
+  /** Stop waiting (the promise is left pending) */
+  cancel: () => void;
 }
 
 export interface EventService {
+  /**
+   * Decide where the next subscription starts. Call before subscribing, and
+   * fetch the initial state first if the plan says so.
+   */
+  prepareSubscription(options?: PrepareSubscriptionOptions): Promise<SubscriptionPlan>;
   subscribe(onEvent: EventCallback, onError?: ErrorCallback): Promise<() => void>;
   fetchInitialState(): Promise<GetStateResponse>;
   isSubscribed(): boolean;
+  /** Whether events are replayed from a JetStream stream */
+  isReplayEnabled(): boolean;
+  /**
+   * Wait for the event caused by a command. Register before sending the command
+   * so a fast event cannot be missed.
+   */
+  waitForCorrelatedEvent(correlationId: string, timeoutMs: number): CorrelatedEventWait;
+  /** Hand an event received by the leader tab to anyone waiting for it */
+  resolveCorrelatedEvent(event: AppEvent): void;
 }
 
 // =============================================================================
 // Event Service Implementation
 // =============================================================================
 
-// Simple JSON codec since @nats-io/nats-core v3.x doesn't export JSONCodec
-const jsonCodec = {
-  encode: <T>(data: T): Uint8Array => new TextEncoder().encode(JSON.stringify(data)),
-  decode: <T>(data: Uint8Array): T => JSON.parse(new TextDecoder().decode(data)) as T,
-};
-
 class NatsEventService implements EventService {
   private subscription: Subscription | null = null;
+  private consumerMessages: ConsumerMessages | null = null;
   private readonly namespace: string;
   private readonly subjects: ReturnType<typeof createSubjects>;
-  private readonly codec = jsonCodec;
   private readonly stateTimeoutMs: number;
+  private readonly correlationWaiters = new Map<string, (event: AppEvent) => void>();
+  private readonly stream: string | null;
+  /** Stream sequence the next JetStream subscription starts at */
+  private startSequence: number | null = null;
+  /** The state was refetched for the next subscription - record its start as applied */
+  private recordStartSequence = false;
 
   constructor(config: EventServiceConfig = {}) {
     this.namespace = config.namespace || getNamespace();
     this.subjects = createSubjects(this.namespace);
-    this.stateTimeoutMs = config.stateTimeoutMs || NATS_DEFAULTS.STATE_FETCH_TIMEOUT_MS;
+    this.stateTimeoutMs = config.stateTimeoutMs || getTimeouts().stateFetchMs;
+    this.stream = config.stream !== undefined ? config.stream : getEventStreamName();
   }
 
   private getConnection(): NatsConnection {
@@ -63,6 +112,37 @@ class NatsEventService implements EventService {
     return service.connection;
   }
 
+  /**
+   * Check whether missed events can be replayed, or the state must be refetched.
+   */
+  async prepareSubscription(options: PrepareSubscriptionOptions = {}): Promise<SubscriptionPlan> {
+    if (!this.stream) {
+      // Core NATS keeps no history - always start from a fresh state
+      return { refetchState: true };
+    }
+
+    const stream = await jetstream(this.getConnection()).streams.get(this.stream);
+    const { state } = await stream.info();
+    const lastApplied = options.forceRefetch ? null : await this.loadSequence();
+
+    if (
+      lastApplied !== null &&
+      lastApplied + 1 >= state.first_seq &&
+      lastApplied <= state.last_seq
+    ) {
+      this.startSequence = lastApplied + 1;
+      this.recordStartSequence = false;
+      return { refetchState: false };
+    }
+
+    // Nothing applied yet, or the stream no longer holds the next event (it was
+    // purged, hit its limits or was recreated). Events published from now on are
+    // replayed on top of the refetched state.
+    this.startSequence = state.last_seq + 1;
+    this.recordStartSequence = true;
+    return { refetchState: true };
+  }
+
   /**
    * Subscribe to all events on the configured namespace.
    *
@@ -77,10 +157,14 @@ class NatsEventService implements EventService {
     await this.unsubscribe();
 
     try {
-      this.subscription = connection.subscribe(this.subjects.events.all);
+      if (this.stream) {
+        await this.subscribeToStream(connection, this.stream, onEvent, onError);
+      } else {
+        this.subscription = connection.subscribe(this.subjects.events.all);
 
-      // Start processing messages asynchronously
-      this.processMessages(onEvent, onError);
+        // Start processing messages asynchronously
+        this.processMessages(onEvent, onError);
+      }
 
       return () => {
         this.unsubscribe();
@@ -108,7 +192,11 @@ class NatsEventService implements EventService {
         { timeout: this.stateTimeoutMs }
       );
 
-      const info = this.codec.decode(response.data) as NatsUserInfoResponse;
+      const info = getCodecRegistry().decode(
+        NATS_SYSTEM_SUBJECTS.userInfo,
+        response.data,
+        response.headers
+      ) as NatsUserInfoResponse;
 
       return {
         user: {
@@ -137,9 +225,94 @@ class NatsEventService implements EventService {
    * Check if currently subscribed to events.
    */
   isSubscribed(): boolean {
+    if (this.consumerMessages) return true;
     return this.subscription !== null && !this.subscription.isClosed();
   }
 
+  /**
+   * Check if events are replayed from JetStream.
+   */
+  isReplayEnabled(): boolean {
+    return this.stream !== null;
+  }
+
+  /**
+   * Wait for the event correlated to a command.
+   */
+  waitForCorrelatedEvent(correlationId: string, timeoutMs: number): CorrelatedEventWait {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const cancel = () => {
+      clearTimeout(timer);
+      this.correlationWaiters.delete(correlationId);
+    };
+
+    const event = new Promise<AppEvent | null>((resolve) => {
+      timer = setTimeout(() => {
+        cancel();
+        resolve(null);
+      }, timeoutMs);
+
+      this.correlationWaiters.set(correlationId, (received) => {
+        cancel();
+        resolve(received);
+      });
+    });
+
+    return { event, cancel };
+  }
+
+  /**
+   * Resolve the wait for a correlated event, if any.
+   */
+  resolveCorrelatedEvent(event: AppEvent): void {
+    if (event.correlationId) {
+      this.correlationWaiters.get(event.correlationId)?.(event);
+    }
+  }
+
+  /**
+   * Merge correlation headers into an event. Values in the event body win.
+   */
+  private withCorrelation(event: AppEvent, msg: { headers?: MsgHdrs }): AppEvent {
+    const meta = readCorrelationHeaders(msg.headers);
+    return {
+      ...event,
+      correlationId: event.correlationId ?? meta.correlationId ?? meta.commandId,
+      originTabId: event.originTabId ?? meta.tabId,
+      traceparent: event.traceparent ?? meta.traceparent,
+    };
+  }
+
+  /**
+   * Decode, validate and deliver a single event message.
+   */
+  private async handleMessage(
+    msg: { subject: string; data: Uint8Array; headers?: MsgHdrs },
+    onEvent: EventCallback
+  ): Promise<void> {
+    let event: unknown;
+    try {
+      event = getCodecRegistry().decode(msg.subject, msg.data, msg.headers);
+    } catch (decodeError) {
+      console.error("Error decoding event:", decodeError);
+      return;
+    }
+
+    if (!isValidEvent(event)) {
+      console.warn("Received invalid event:", event);
+      return;
+    }
+
+    const correlated = this.withCorrelation(event, msg);
+    try {
+      await onEvent(correlated);
+    } catch (error) {
+      console.error("Error handling event:", error);
+    }
+    this.resolveCorrelatedEvent(correlated);
+  }
+
   /**
    * Process incoming messages from the subscription.
    */
@@ -148,17 +321,7 @@ class NatsEventService implements EventService {
 
     try {
       for await (const msg of this.subscription) {
-        try {
-          const event = this.codec.decode(msg.data);
-
-          if (isValidEvent(event)) {
-            onEvent(event);
-          } else {
-            console.warn("Received invalid event:", event);
-          }
-        } catch (decodeError) {
-          console.error("Error decoding event:", decodeError);
-        }
+        await this.handleMessage(msg, onEvent);
       }
     } catch (error) {
       // Subscription ended or error occurred
@@ -169,10 +332,99 @@ class NatsEventService implements EventService {
     }
   }
 
+  /**
+   * Start an ordered consumer on the event stream at the prepared sequence.
+   */
+  private async subscribeToStream(
+    connection: NatsConnection,
+    stream: string,
+    onEvent: EventCallback,
+    onError?: ErrorCallback
+  ): Promise<void> {
+    if (this.startSequence === null) {
+      // Not prepared - resume where we left off without recording a refetch
+      await this.prepareSubscription();
+      this.recordStartSequence = false;
+    }
+
+    const startSequence = this.startSequence ?? 1;
+    const recordStart = this.recordStartSequence;
+    // Each subscription consumes its plan; the next one is prepared again
+    this.startSequence = null;
+    this.recordStartSequence = false;
+
+    if (recordStart) {
+      // The state was just refetched, so everything before the start is applied
+      await this.saveSequence(startSequence - 1);
+    }
+
+    const consumer = await jetstream(connection).consumers.get(stream, {
+      filter_subjects: this.subjects.events.all,
+      deliver_policy: DeliverPolicy.StartSequence,
+      opt_start_seq: startSequence,
+    });
+    const messages = await consumer.consume();
+    this.consumerMessages = messages;
+
+    // Start processing messages asynchronously
+    this.processStreamMessages(messages, onEvent, onError);
+  }
+
+  /**
+   * Process messages from the ordered consumer, recording each applied sequence.
+   */
+  private async processStreamMessages(
+    messages: ConsumerMessages,
+    onEvent: EventCallback,
+    onError?: ErrorCallback
+  ): Promise<void> {
+    try {
+      for await (const msg of messages) {
+        await this.handleMessage(msg, onEvent);
+        await this.saveSequence(msg.seq);
+      }
+    } catch (error) {
+      // Consumer ended or error occurred
+      if (this.consumerMessages === messages) {
+        const err = error instanceof Error ? error : new Error("Stream consumer error");
+        onError?.(err);
+      }
+    }
+  }
+
+  private async loadSequence(): Promise<number | null> {
+    if (!this.stream) return null;
+    try {
+      return await getEventStreamSequence(this.stream);
+    } catch {
+      // IndexedDB unavailable - nothing to resume from
+      return null;
+    }
+  }
+
+  private async saveSequence(sequence: number): Promise<void> {
+    if (!this.stream) return;
+    try {
+      await setEventStreamSequence(this.stream, sequence);
+    } catch (error) {
+      console.warn("Failed to record event stream sequence:", error);
+    }
+  }
+
   /**
    * Unsubscribe from events.
    */
   private async unsubscribe(): Promise<void> {
+    if (this.consumerMessages) {
+      const messages = this.consumerMessages;
+      this.consumerMessages = null;
+      try {
+        await messages.close();
+      } catch {
+        // Ignore close errors
+      }
+    }
+
     if (this.subscription && !this.subscription.isClosed()) {
       try {
         await this.subscription.drain();
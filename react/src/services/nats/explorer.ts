@@ -0,0 +1,95 @@
+/**
+ * Subject Explorer Service
+ *
+ * Ad-hoc subscriptions for watching traffic on arbitrary subjects, on the
+ * shared NatsService connection. Messages are copied into plain objects so
+ * they can be kept and rendered after the subscription has moved on.
+ */
+
+import type { Msg, MsgHdrs, Subscription } from "@nats-io/nats-core";
+import { getDirectConnection } from "./connection";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ExplorerMessage {
+  /** Sequence number within the subscription */
+  id: number;
+  subject: string;
+  reply?: string;
+  /** Header values by name; NATS headers can repeat */
+  headers: Record<string, string[]>;
+  /** Payload size in bytes */
+  size: number;
+  /** When the message was received (ms since epoch) */
+  receivedAt: number;
+  data: Uint8Array;
+}
+
+export interface ExplorerSubscription {
+  /** Stop receiving messages */
+  unsubscribe(): void;
+}
+
+// =============================================================================
+// Subscriptions
+// =============================================================================
+
+/**
+ * Subscribe to a subject or wildcard. The error callback receives the
+ * server's rejection when the credential may not subscribe to the subject.
+ *
+ * @throws Error when this tab is not connected
+ */
+export async function subscribeToSubject(
+  subject: string,
+  onMessage: (message: ExplorerMessage) => void,
+  onError: (error: Error) => void
+): Promise<ExplorerSubscription> {
+  const connection = await getDirectConnection();
+
+  let sequence = 0;
+  const subscription: Subscription = connection.subscribe(subject, {
+    callback: (error, msg) => {
+      if (error) {
+        onError(error);
+        return;
+      }
+      onMessage(toExplorerMessage(++sequence, msg));
+    },
+  });
+
+  // Closed by the server, e.g. after a permissions violation
+  subscription.closed.then((error) => {
+    if (error) onError(error);
+  });
+
+  return {
+    unsubscribe: () => subscription.unsubscribe(),
+  };
+}
+
+/**
+ * Copy header values into a plain object
+ */
+export function headersToObject(hdrs?: MsgHdrs): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  if (!hdrs) return result;
+  for (const key of hdrs.keys()) {
+    result[key] = hdrs.values(key);
+  }
+  return result;
+}
+
+function toExplorerMessage(id: number, msg: Msg): ExplorerMessage {
+  return {
+    id,
+    subject: msg.subject,
+    reply: msg.reply || undefined,
+    headers: headersToObject(msg.headers),
+    size: msg.data.length,
+    receivedAt: Date.now(),
+    data: msg.data,
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * NATS Message Headers
+ *
+ * Feature: 002-event-driven-state
+ *
+ * Correlation metadata carried as NATS headers: commands are sent with their id,
+ * the id of the tab that issued them and W3C trace context. Backends copy these
+ * onto the events a command causes, which lets the client tie an event back to
+ * the command that produced it.
+ */
+
+import { headers, type MsgHdrs } from "@nats-io/nats-core";
+import { generateTabId } from "../state/sync";
+
+// =============================================================================
+// Header Names
+// =============================================================================
+
+export const NATS_HEADERS = {
+  /** ID of the command being sent, or of the command that caused an event */
+  commandId: "Nats-Command-Id",
+  /** Correlation ID set by backends on events (falls back to the command ID) */
+  correlationId: "Nats-Correlation-Id",
+  /** ID of the browser tab that issued the command */
+  tabId: "Nats-Tab-Id",
+  /** W3C trace context (https://www.w3.org/TR/trace-context/) */
+  traceparent: "traceparent",
+  tracestate: "tracestate",
+} as const;
+
+/** Set by NATS services (the micro protocol) on the reply to a failed request */
+export const SERVICE_ERROR_HEADERS = {
+  message: "Nats-Service-Error",
+  /** HTTP-like status code, e.g. "404" */
+  code: "Nats-Service-Error-Code",
+} as const;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Correlation metadata read from an incoming message
+ */
+export interface CorrelationHeaders {
+  commandId?: string;
+  correlationId?: string;
+  tabId?: string;
+  traceparent?: string;
+  tracestate?: string;
+}
+
+// =============================================================================
+// Tab Identity
+// =============================================================================
+
+let tabId: string | null = null;
+
+/**
+ * ID of this tab, stable for the lifetime of the page.
+ */
+export function getTabId(): string {
+  if (!tabId) {
+    tabId = generateTabId();
+  }
+  return tabId;
+}
+
+// =============================================================================
+// Trace Context
+// =============================================================================
+
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Create a W3C `traceparent` value for a new, sampled trace.
+ */
+export function createTraceparent(): string {
+  return `00-${randomHex(16)}-${randomHex(8)}-01`;
+}
+
+// =============================================================================
+// Header Helpers
+// =============================================================================
+
+/**
+ * Build the headers sent with a command.
+ */
+export function createCommandHeaders(
+  commandId: string,
+  traceparent = createTraceparent()
+): MsgHdrs {
+  const h = headers();
+  h.set(NATS_HEADERS.commandId, commandId);
+  h.set(NATS_HEADERS.tabId, getTabId());
+  h.set(NATS_HEADERS.traceparent, traceparent);
+  return h;
+}
+
+/**
+ * Read correlation metadata from a message's headers. Missing headers are omitted.
+ */
+export function readCorrelationHeaders(h?: MsgHdrs): CorrelationHeaders {
+  if (!h) return {};
+
+  const result: CorrelationHeaders = {};
+  for (const key of Object.keys(NATS_HEADERS) as Array<keyof typeof NATS_HEADERS>) {
+    const value = h.get(NATS_HEADERS[key]);
+    if (value) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
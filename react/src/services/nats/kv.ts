@@ -0,0 +1,286 @@
+/**
+ * NATS KV Service
+ *
+ * Reusable access to JetStream KV buckets on the NatsService connection:
+ * listing buckets and keys, reading values and their history, writing with
+ * optimistic concurrency on the revision, and watching keys for changes.
+ * Opened buckets are cached until the connection changes.
+ */
+
+import { JetStreamApiCodes, JetStreamApiError } from "@nats-io/jetstream";
+import { Kvm, type KV, type KvEntry, type KvWatchInclude } from "@nats-io/kv";
+import type { NatsConnection, QueuedIterator } from "@nats-io/nats-core";
+import { getDirectConnection } from "./connection";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface KvBucketInfo {
+  bucket: string;
+  description: string;
+  /** Number of stored entries, including history */
+  values: number;
+  /** Revisions kept per key */
+  history: number;
+  /** Maximum age of a value in milliseconds (0 for no limit) */
+  ttl: number;
+  /** Stored bytes */
+  size: number;
+  storage: string;
+  replicas: number;
+}
+
+/**
+ * Revision of a key. Deletes and purges are revisions without a value.
+ */
+export interface KvValue {
+  key: string;
+  revision: number;
+  operation: "PUT" | "DEL" | "PURGE";
+  /** When the revision was written (ms since epoch) */
+  created: number;
+  value: Uint8Array;
+}
+
+/**
+ * Result of a write. `conflict` is set when the expected revision is no
+ * longer the latest revision of the key.
+ */
+export type KvWriteResult =
+  | { success: true; revision?: number }
+  | { success: false; error: string; conflict: boolean };
+
+export interface KvWatchOptions {
+  /** Keys to watch; wildcards allowed (default: every key) */
+  key?: string;
+  /** Which values to deliver first (default: the latest value of each key) */
+  include?: KvWatchInclude;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Subject a key is written on, for permission checks
+ */
+export function kvSubject(bucket: string, key: string): string {
+  return `$KV.${bucket}.${key}`;
+}
+
+export function toKvValue(entry: KvEntry): KvValue {
+  return {
+    key: entry.key,
+    revision: entry.revision,
+    operation: entry.operation,
+    created: entry.created.getTime(),
+    value: entry.value,
+  };
+}
+
+/**
+ * Server-side filter for a key prefix. Whole tokens (a prefix ending in a
+ * dot) are filtered by the server; other prefixes must also be matched
+ * client-side.
+ */
+export function kvPrefixFilter(prefix: string): string {
+  return prefix.endsWith(".") ? `${prefix}>` : ">";
+}
+
+/**
+ * The key changed since the expected revision. Clustered servers answer with
+ * StreamWrongLastSequenceUnknown instead when they cannot tell the key's
+ * current revision; the update was not applied either way.
+ */
+function isRevisionConflict(error: unknown): boolean {
+  return (
+    error instanceof JetStreamApiError &&
+    (error.code === JetStreamApiCodes.StreamWrongLastSequence ||
+      error.code === JetStreamApiCodes.StreamWrongLastSequenceUnknown)
+  );
+}
+
+async function collect<T, R>(iterator: QueuedIterator<T>, map: (item: T) => R): Promise<R[]> {
+  const items: R[] = [];
+  for await (const item of iterator) {
+    items.push(map(item));
+  }
+  return items;
+}
+
+// =============================================================================
+// KV Service
+// =============================================================================
+
+export class KvService {
+  private buckets = new Map<string, Promise<KV>>();
+  private bucketsConnection: NatsConnection | null = null;
+
+  private async open(bucket: string): Promise<KV> {
+    const connection = await getDirectConnection();
+    if (this.bucketsConnection !== connection) {
+      this.buckets.clear();
+      this.bucketsConnection = connection;
+    }
+
+    let kv = this.buckets.get(bucket);
+    if (!kv) {
+      kv = new Kvm(connection).open(bucket);
+      // Do not cache a failed open
+      kv.catch(() => this.buckets.delete(bucket));
+      this.buckets.set(bucket, kv);
+    }
+    return kv;
+  }
+
+  /**
+   * Every KV bucket of the account, by name
+   */
+  async listBuckets(): Promise<KvBucketInfo[]> {
+    const buckets: KvBucketInfo[] = [];
+    for await (const status of new Kvm(await getDirectConnection()).list()) {
+      const { config } = status.streamInfo;
+      buckets.push({
+        bucket: status.bucket,
+        description: config.description ?? "",
+        values: status.values,
+        history: status.history,
+        ttl: status.ttl,
+        size: status.size,
+        storage: config.storage,
+        replicas: config.num_replicas,
+      });
+    }
+    return buckets.sort((a, b) => a.bucket.localeCompare(b.bucket));
+  }
+
+  /**
+   * Keys with a current value, sorted, optionally starting with a prefix
+   */
+  async listKeys(bucket: string, prefix = ""): Promise<string[]> {
+    const kv = await this.open(bucket);
+    const keys = await collect(await kv.keys(kvPrefixFilter(prefix)), (key) => key);
+    return keys.filter((key) => key.startsWith(prefix)).sort();
+  }
+
+  /**
+   * Latest revision of a key, or a specific one. Null if the key was never
+   * written or the revision is gone.
+   */
+  async get(bucket: string, key: string, revision?: number): Promise<KvValue | null> {
+    const kv = await this.open(bucket);
+    const entry = await kv.get(key, revision ? { revision } : undefined);
+    return entry ? toKvValue(entry) : null;
+  }
+
+  /**
+   * Every revision the bucket keeps of a key, newest first
+   */
+  async history(bucket: string, key: string): Promise<KvValue[]> {
+    const kv = await this.open(bucket);
+    const entries = await collect(await kv.history({ key }), toKvValue);
+    return entries.reverse();
+  }
+
+  /**
+   * Write a value. With an expected revision the write only succeeds if that
+   * is still the latest revision of the key; 0 expects the key not to exist.
+   */
+  async put(
+    bucket: string,
+    key: string,
+    value: Uint8Array | string,
+    expectedRevision?: number
+  ): Promise<KvWriteResult> {
+    return this.write(bucket, (kv) => {
+      if (expectedRevision === undefined) return kv.put(key, value);
+      if (expectedRevision === 0) return kv.create(key, value);
+      return kv.update(key, value, expectedRevision);
+    });
+  }
+
+  /**
+   * Delete a key, keeping its history
+   */
+  async delete(bucket: string, key: string, expectedRevision?: number): Promise<KvWriteResult> {
+    return this.write(bucket, (kv) =>
+      kv.delete(key, expectedRevision ? { previousSeq: expectedRevision } : undefined)
+    );
+  }
+
+  /**
+   * Delete a key and its history
+   */
+  async purge(bucket: string, key: string, expectedRevision?: number): Promise<KvWriteResult> {
+    return this.write(bucket, (kv) =>
+      kv.purge(key, expectedRevision ? { previousSeq: expectedRevision } : undefined)
+    );
+  }
+
+  private async write(
+    bucket: string,
+    operation: (kv: KV) => Promise<number | void>
+  ): Promise<KvWriteResult> {
+    try {
+      const revision = await operation(await this.open(bucket));
+      return { success: true, revision: revision ?? undefined };
+    } catch (error) {
+      if (isRevisionConflict(error)) {
+        return {
+          success: false,
+          conflict: true,
+          error: "The key was changed by someone else. Reload it and try again.",
+        };
+      }
+      return {
+        success: false,
+        conflict: false,
+        error: error instanceof Error ? error.message : "Write failed",
+      };
+    }
+  }
+
+  /**
+   * Watch keys of a bucket. `isUpdate` is false for the values delivered
+   * when the watch starts. Returns a function that stops watching.
+   */
+  async watch(
+    bucket: string,
+    onChange: (value: KvValue, isUpdate: boolean) => void,
+    options: KvWatchOptions = {},
+    onError?: (error: Error) => void
+  ): Promise<() => void> {
+    const kv = await this.open(bucket);
+    const watcher = await kv.watch({ key: options.key ?? ">", include: options.include });
+    let stopped = false;
+
+    (async () => {
+      try {
+        for await (const entry of watcher) {
+          onChange(toKvValue(entry), entry.isUpdate);
+        }
+      } catch (error) {
+        if (!stopped) onError?.(error instanceof Error ? error : new Error("KV watch failed"));
+      }
+    })();
+
+    return () => {
+      stopped = true;
+      watcher.stop();
+    };
+  }
+}
+
+// =============================================================================
+// Singleton
+// =============================================================================
+
+let kvServiceInstance: KvService | null = null;
+
+export function getKvService(): KvService {
+  if (!kvServiceInstance) {
+    kvServiceInstance = new KvService();
+  }
+  return kvServiceInstance;
+}
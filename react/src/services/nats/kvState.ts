@@ -0,0 +1,271 @@
+/**
+ * NATS KV State Service
+ *
+ * Feature: 002-event-driven-state
+ *
+ * Reads the materialized state from a JetStream KV bucket instead of the
+ * initial state request plus events. Keys below the configured prefix map to
+ * state slices:
+ *
+ * - `{prefix}.user`                 - the current user
+ * - `{prefix}.sessions.{id}`        - a session
+ * - `{prefix}.notifications.{id}`   - a notification
+ *
+ * Values are decoded with the payload codec routed to the key's subject
+ * (`$KV.{bucket}.{key}`). Deletes and purges remove the value. The revision of the last applied entry
+ * is kept in IndexedDB so a later watch resumes from it; the state is only
+ * reloaded in full when the bucket no longer holds the revisions in between.
+ */
+
+import { Kvm, type KvWatchEntry } from "@nats-io/kv";
+import type { NatsConnection, QueuedIterator } from "@nats-io/nats-core";
+import type { Notification, Session, User } from "../../types/events";
+import type { KvStateChange } from "../../types/state";
+import { getCodecRegistry } from "../codecs/registry";
+import { getKvStateRevision, setKvStateRevision } from "../state/database";
+import { getNatsService } from "./connection";
+import { kvSubject } from "./kv";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface KvStateServiceConfig {
+  /** KV bucket holding the state */
+  bucket: string;
+  /** Key prefix of the state within the bucket (empty for the whole bucket) */
+  prefix?: string;
+}
+
+export interface KvStateHandlers {
+  /** The stored state cannot be resumed - discard it before initial values arrive */
+  onReset: () => void | Promise<void>;
+  /** Apply a change; the next entry is delivered once a returned promise settles */
+  onChange: (change: KvStateChange) => void | Promise<void>;
+  /** Initial values have been applied (or the watch resumed from the stored revision) */
+  onReady: () => void;
+  /** Watch failed or ended unexpectedly */
+  onError?: (error: Error) => void;
+}
+
+export interface KvWatchStateOptions {
+  /** Reload all values even if the stored revision could be resumed */
+  forceReload?: boolean;
+}
+
+export interface KvStateService {
+  /** Watch the bucket and report changes. Returns a function that stops watching. */
+  watch(handlers: KvStateHandlers, options?: KvWatchStateOptions): Promise<() => void>;
+  isWatching(): boolean;
+}
+
+// =============================================================================
+// Key Mapping
+// =============================================================================
+
+function decodeValue<T>(entry: KvWatchEntry): T {
+  return getCodecRegistry().decode(kvSubject(entry.bucket, entry.key), entry.value) as T;
+}
+
+/**
+ * Map a KV entry to a state change. Returns null for keys outside the layout
+ * or values that cannot be decoded.
+ */
+export function toKvStateChange(entry: KvWatchEntry, prefix: string): KvStateChange | null {
+  const key = prefix ? entry.key.slice(prefix.length + 1) : entry.key;
+  const [slice, ...rest] = key.split(".");
+  const id = rest.join(".");
+  const isDelete = entry.operation === "DEL" || entry.operation === "PURGE";
+
+  try {
+    switch (slice) {
+      case "user":
+        if (id) return null;
+        return isDelete
+          ? { slice, op: "delete" }
+          : { slice, op: "put", value: decodeValue<User>(entry) };
+
+      case "sessions":
+        if (!id) return null;
+        return isDelete
+          ? { slice, op: "delete", id }
+          : { slice, op: "put", id, value: decodeValue<Session>(entry) };
+
+      case "notifications":
+        if (!id) return null;
+        return isDelete
+          ? { slice, op: "delete", id }
+          : { slice, op: "put", id, value: decodeValue<Notification>(entry) };
+
+      default:
+        return null;
+    }
+  } catch (error) {
+    console.warn(`Failed to decode KV entry "${entry.key}":`, error);
+    return null;
+  }
+}
+
+// =============================================================================
+// KV State Service Implementation
+// =============================================================================
+
+class NatsKvStateService implements KvStateService {
+  private watcher: QueuedIterator<KvWatchEntry> | null = null;
+  private readonly bucket: string;
+  private readonly prefix: string;
+  private readonly filter: string;
+
+  constructor(config: KvStateServiceConfig) {
+    this.bucket = config.bucket;
+    this.prefix = config.prefix || "";
+    this.filter = this.prefix ? `${this.prefix}.>` : ">";
+  }
+
+  private getConnection(): NatsConnection {
+    const service = getNatsService();
+    if (!service.connection) {
+      throw new Error("Not connected to NATS");
+    }
+    return service.connection;
+  }
+
+  /**
+   * Watch the state keys, resuming from the stored revision when possible.
+   */
+  async watch(handlers: KvStateHandlers, options: KvWatchStateOptions = {}): Promise<() => void> {
+    const connection = this.getConnection();
+
+    // Stop the existing watch if any
+    this.stop();
+
+    const kv = await new Kvm(connection).open(this.bucket);
+    const { streamInfo } = await kv.status();
+    const lastApplied = options.forceReload ? null : await this.loadRevision();
+    const resume =
+      lastApplied !== null &&
+      lastApplied + 1 >= streamInfo.state.first_seq &&
+      lastApplied <= streamInfo.state.last_seq;
+
+    if (!resume) {
+      await handlers.onReset();
+    }
+
+    const watcher = await kv.watch({
+      key: this.filter,
+      resumeFromRevision: resume ? lastApplied + 1 : undefined,
+    });
+    this.watcher = watcher;
+
+    // The stored state is shown while missed updates stream in. A full reload
+    // waits for the initial values, unless there are none.
+    const waitForInitial = !resume && (await this.hasKeys(kv.keys(this.filter)));
+    if (!waitForInitial) {
+      handlers.onReady();
+    }
+
+    // Start processing entries asynchronously
+    this.processEntries(watcher, handlers, waitForInitial);
+
+    return () => {
+      this.stop();
+    };
+  }
+
+  /**
+   * Check if currently watching the bucket.
+   */
+  isWatching(): boolean {
+    return this.watcher !== null;
+  }
+
+  private async processEntries(
+    watcher: QueuedIterator<KvWatchEntry>,
+    handlers: KvStateHandlers,
+    waitForInitial: boolean
+  ): Promise<void> {
+    let ready = !waitForInitial;
+
+    try {
+      for await (const entry of watcher) {
+        const change = toKvStateChange(entry, this.prefix);
+        if (change) {
+          try {
+            await handlers.onChange(change);
+          } catch (error) {
+            console.error("Error applying KV state change:", error);
+          }
+        }
+        await this.saveRevision(entry.revision);
+
+        // delta is the number of entries still pending for the watch
+        if (!ready && entry.delta === 0) {
+          ready = true;
+          handlers.onReady();
+        }
+      }
+    } catch (error) {
+      if (this.watcher === watcher) {
+        const err = error instanceof Error ? error : new Error("KV watch error");
+        handlers.onError?.(err);
+      }
+    }
+  }
+
+  private async hasKeys(keys: Promise<AsyncIterable<string>>): Promise<boolean> {
+    for await (const _key of await keys) {
+      void _key; // Intentionally unused - one key is enough
+      return true;
+    }
+    return false;
+  }
+
+  private async loadRevision(): Promise<number | null> {
+    try {
+      return await getKvStateRevision(this.bucket, this.filter);
+    } catch {
+      // IndexedDB unavailable - nothing to resume from
+      return null;
+    }
+  }
+
+  private async saveRevision(revision: number): Promise<void> {
+    try {
+      await setKvStateRevision(this.bucket, this.filter, revision);
+    } catch (error) {
+      console.warn("Failed to record KV state revision:", error);
+    }
+  }
+
+  private stop(): void {
+    if (this.watcher) {
+      const watcher = this.watcher;
+      this.watcher = null;
+      watcher.stop();
+    }
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+let kvStateServiceInstance: NatsKvStateService | null = null;
+
+/**
+ * Get the KV state service singleton instance.
+ * The config is only used when the instance is first created.
+ */
+export function getKvStateService(config: KvStateServiceConfig): KvStateService {
+  if (!kvStateServiceInstance) {
+    kvStateServiceInstance = new NatsKvStateService(config);
+  }
+  return kvStateServiceInstance;
+}
+
+/**
+ * Reset the KV state service (for testing purposes).
+ */
+export function resetKvStateService(): void {
+  kvStateServiceInstance = null;
+}
@@ -0,0 +1,120 @@
+/**
+ * System Monitoring Service
+ *
+ * Queries the `$SYS.REQ.*` system request subjects on the NatsService
+ * connection. Server endpoints are answered by every server in the cluster,
+ * but only for system-account credentials; account endpoints are answered for
+ * the requester's own account. Endpoints nobody answers are reported as
+ * unavailable rather than failing the whole dashboard.
+ */
+
+import { NoRespondersError, RequestError } from "@nats-io/nats-core";
+import type {
+  AccountStatz,
+  Connz,
+  Jsz,
+  ServerStatsz,
+  Subsz,
+  SystemResponse,
+  SystemServerInfo,
+  Varz,
+} from "../../types/monitoring";
+import { decodeJson } from "../../utils/payload";
+import { NATS_SYSTEM_SUBJECTS } from "../../utils/subjects";
+import { getDirectConnection } from "./connection";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Data returned by each system endpoint */
+export interface SystemEndpointData {
+  ping: ServerStatsz;
+  varz: Varz;
+  connz: Connz;
+  subsz: Subsz;
+  jsz: Jsz;
+  accountConnz: Connz;
+  accountStatz: AccountStatz;
+}
+
+export type SystemEndpoint = keyof SystemEndpointData;
+
+/**
+ * Outcome of querying an endpoint: the data from every server that answered,
+ * or why there is none
+ */
+export type EndpointResult<T> =
+  | { status: "ok"; responses: Array<{ server: SystemServerInfo; data: T }> }
+  | { status: "denied" | "unavailable" | "error"; error: string };
+
+/** Latest result of each endpoint that has been queried */
+export type SystemResults = { [E in SystemEndpoint]?: EndpointResult<SystemEndpointData[E]> };
+
+// =============================================================================
+// Endpoints
+// =============================================================================
+
+export const SYSTEM_ENDPOINT_SUBJECTS: Record<SystemEndpoint, string> = {
+  ping: NATS_SYSTEM_SUBJECTS.serverPing,
+  varz: NATS_SYSTEM_SUBJECTS.serverVarz,
+  connz: NATS_SYSTEM_SUBJECTS.serverConnz,
+  subsz: NATS_SYSTEM_SUBJECTS.serverSubsz,
+  jsz: NATS_SYSTEM_SUBJECTS.serverJsz,
+  accountConnz: NATS_SYSTEM_SUBJECTS.accountConnz,
+  accountStatz: NATS_SYSTEM_SUBJECTS.accountStatz,
+};
+
+export const SYSTEM_ENDPOINTS = Object.keys(SYSTEM_ENDPOINT_SUBJECTS) as SystemEndpoint[];
+
+const EMPTY_REQUEST = new TextEncoder().encode("{}");
+
+/**
+ * Query a system endpoint and collect the answers of every server that
+ * replies within maxWait.
+ *
+ * @throws Error when this tab is not connected
+ */
+export async function querySystemEndpoint<E extends SystemEndpoint>(
+  endpoint: E,
+  maxWait: number
+): Promise<EndpointResult<SystemEndpointData[E]>> {
+  const connection = await getDirectConnection();
+
+  const subject = SYSTEM_ENDPOINT_SUBJECTS[endpoint];
+  const responses: Array<{ server: SystemServerInfo; data: SystemEndpointData[E] }> = [];
+  const errors: string[] = [];
+
+  try {
+    const replies = await connection.requestMany(subject, EMPTY_REQUEST, {
+      strategy: "timer",
+      maxWait,
+    });
+    for await (const msg of replies) {
+      // A status-only reply means nobody serves the subject
+      if (msg.headers?.code === 503) break;
+
+      const response = decodeJson(msg.data) as SystemResponse<SystemEndpointData[E]> | undefined;
+      if (response?.error) {
+        errors.push(response.error.description);
+      } else if (response?.server && response.data) {
+        responses.push({ server: response.server, data: response.data });
+      }
+    }
+  } catch (error) {
+    const noResponders =
+      error instanceof NoRespondersError ||
+      (error instanceof RequestError && error.isNoResponders());
+    if (!noResponders) {
+      return { status: "error", error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  if (responses.length > 0) {
+    return { status: "ok", responses };
+  }
+  if (errors.length > 0) {
+    return { status: "error", error: errors[0] };
+  }
+  return { status: "unavailable", error: `No server answered ${subject}.` };
+}
@@ -0,0 +1,222 @@
+/**
+ * Request Playground Service
+ *
+ * Publishes hand-written messages and sends requests on the NatsService
+ * connection, timing each reply. Bodies may contain `{{uuid}}` and `{{now}}`
+ * placeholders, replaced on every send so saved templates produce fresh
+ * command IDs and timestamps.
+ */
+
+import {
+  headers as createHeaders,
+  NoRespondersError,
+  RequestError,
+  TimeoutError,
+  type Msg,
+  type MsgHdrs,
+} from "@nats-io/nats-core";
+import { domains } from "../../domains";
+import type { RequestTemplateInput } from "../state/templates";
+import { commandSubject } from "../../utils/subjects";
+import { getDirectConnection } from "./connection";
+import { headersToObject, type ExplorerMessage } from "./explorer";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Message composed in the playground
+ */
+export interface MessageDraft {
+  subject: string;
+  headers: Array<{ name: string; value: string }>;
+  body: string;
+  bodyFormat: "json" | "text";
+}
+
+/**
+ * Reply to a request, with the time it took
+ */
+export interface PlaygroundResponse extends ExplorerMessage {
+  /** Time from sending the request to receiving this reply */
+  latencyMs: number;
+}
+
+export interface RequestManyOptions {
+  /** How long to collect replies, in milliseconds */
+  maxWait: number;
+  /** Stop after this many replies (unlimited when omitted) */
+  maxMessages?: number;
+}
+
+type EncodedDraft =
+  | { success: true; data: Uint8Array; headers?: MsgHdrs }
+  | { success: false; error: string };
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+/**
+ * Replace the `{{uuid}}` and `{{now}}` placeholders
+ */
+export function expandPlaceholders(body: string): string {
+  return body
+    .replace(/\{\{uuid\}\}/g, () => crypto.randomUUID())
+    .replace(/\{\{now\}\}/g, () => String(Date.now()));
+}
+
+/**
+ * Encode the body and headers of a draft. JSON bodies must parse.
+ */
+export function encodeDraft(draft: MessageDraft): EncodedDraft {
+  const body = expandPlaceholders(draft.body);
+  if (draft.bodyFormat === "json" && body.trim() !== "") {
+    try {
+      JSON.parse(body);
+    } catch (error) {
+      return {
+        success: false,
+        error: `The body is not valid JSON: ${error instanceof Error ? error.message : error}`,
+      };
+    }
+  }
+
+  const entries = draft.headers.filter((header) => header.name.trim() !== "");
+  let hdrs: MsgHdrs | undefined;
+  if (entries.length > 0) {
+    hdrs = createHeaders();
+    for (const { name, value } of entries) {
+      hdrs.append(name.trim(), expandPlaceholders(value));
+    }
+  }
+
+  return { success: true, data: new TextEncoder().encode(body), headers: hdrs };
+}
+
+// =============================================================================
+// Sending
+// =============================================================================
+
+function encodeOrThrow(draft: MessageDraft): { data: Uint8Array; headers?: MsgHdrs } {
+  const encoded = encodeDraft(draft);
+  if (!encoded.success) {
+    throw new Error(encoded.error);
+  }
+  return encoded;
+}
+
+function toResponse(id: number, msg: Msg, sentAt: number): PlaygroundResponse {
+  const receivedAt = Date.now();
+  return {
+    id,
+    subject: msg.subject,
+    reply: msg.reply || undefined,
+    headers: headersToObject(msg.headers),
+    size: msg.data.length,
+    receivedAt,
+    data: msg.data,
+    latencyMs: receivedAt - sentAt,
+  };
+}
+
+/**
+ * Publish a draft without waiting for replies
+ */
+export async function publishDraft(draft: MessageDraft): Promise<void> {
+  const connection = await getDirectConnection();
+  const { data, headers } = encodeOrThrow(draft);
+  connection.publish(draft.subject, data, { headers });
+  // Surface server errors (e.g. a permissions violation) for this publish
+  await connection.flush();
+}
+
+/**
+ * Send a draft as a request and wait for the first reply
+ */
+export async function requestDraft(
+  draft: MessageDraft,
+  timeoutMs: number
+): Promise<PlaygroundResponse> {
+  const connection = await getDirectConnection();
+  const { data, headers } = encodeOrThrow(draft);
+  const sentAt = Date.now();
+
+  try {
+    const msg = await connection.request(draft.subject, data, { timeout: timeoutMs, headers });
+    return toResponse(1, msg, sentAt);
+  } catch (error) {
+    throw describeRequestError(error, draft.subject, timeoutMs);
+  }
+}
+
+/**
+ * Send a draft as a request and collect every reply until maxWait passes
+ */
+export async function requestManyDraft(
+  draft: MessageDraft,
+  options: RequestManyOptions
+): Promise<PlaygroundResponse[]> {
+  const connection = await getDirectConnection();
+  const { data, headers } = encodeOrThrow(draft);
+  const sentAt = Date.now();
+  const responses: PlaygroundResponse[] = [];
+
+  try {
+    const replies = await connection.requestMany(draft.subject, data, {
+      strategy: "timer",
+      maxWait: options.maxWait,
+      maxMessages: options.maxMessages,
+      headers,
+    });
+    for await (const msg of replies) {
+      responses.push(toResponse(responses.length + 1, msg, sentAt));
+    }
+  } catch (error) {
+    throw describeRequestError(error, draft.subject, options.maxWait);
+  }
+  return responses;
+}
+
+function describeRequestError(error: unknown, subject: string, timeoutMs: number): Error {
+  const noResponders =
+    error instanceof NoRespondersError || (error instanceof RequestError && error.isNoResponders());
+  if (noResponders) {
+    return new Error(`No service is listening on "${subject}".`);
+  }
+  if (error instanceof TimeoutError) {
+    return new Error(`No reply within ${timeoutMs}ms.`);
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+// =============================================================================
+// Command Templates
+// =============================================================================
+
+/**
+ * Templates for the commands registered by the domain modules, with a command
+ * envelope around each command's example payload
+ */
+export function getCommandTemplates(namespace: string): RequestTemplateInput[] {
+  return domains
+    .flatMap((domain) => [...domain.commands])
+    .map((definition) => {
+      const envelope = {
+        id: "{{uuid}}",
+        type: definition.type,
+        timestamp: "{{now}}",
+        payload: definition.examplePayload ?? {},
+      };
+
+      return {
+        name: definition.type,
+        subject: commandSubject(namespace, definition.subject),
+        headers: [],
+        // The timestamp placeholder stands for a number
+        body: JSON.stringify(envelope, null, 2).replace('"{{now}}"', "{{now}}"),
+        bodyFormat: "json",
+      };
+    });
+}
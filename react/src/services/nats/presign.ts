@@ -0,0 +1,70 @@
+/**
+ * Nonce Presigning
+ *
+ * nats.js builds the CONNECT message, and asks the authenticator for the
+ * nonce signature, synchronously when the server's INFO arrives. Remote
+ * signers answer asynchronously, so the WebSocket created here holds incoming
+ * frames back until the nonce in the INFO is signed. The authenticator then
+ * finds the signature ready instead of blocking the page on the signer.
+ */
+
+import type { WsSocketFactory } from "@nats-io/nats-core";
+
+const INFO_PATTERN = /^INFO\s+([^\r\n]+)\r\n/i;
+
+/**
+ * Nonce of the server's INFO message, if the frame holds one
+ */
+function nonceOf(data: unknown): string | null {
+  try {
+    // nats.js sets binaryType to "arraybuffer"
+    const text = typeof data === "string" ? data : new TextDecoder().decode(data as ArrayBuffer);
+    const match = INFO_PATTERN.exec(text);
+    if (!match) return null;
+
+    const info = JSON.parse(match[1]) as { nonce?: unknown };
+    return typeof info.nonce === "string" ? info.nonce : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * WebSocket factory for nats.js that signs the server nonce before the client
+ * sees the INFO message. Frames are delivered in order once signing settles,
+ * whether it succeeded or not; the authenticator reports a failure.
+ */
+export function presigningWsFactory(sign: (nonce: string) => Promise<void>): WsSocketFactory {
+  return async (url) => {
+    const socket = new WebSocket(url);
+    let deliver: ((event: MessageEvent) => void) | null = null;
+    let signed: Promise<void> | null = null;
+    let passThrough = false;
+
+    // nats.js installs its handler through onmessage; keep it to call later
+    Object.defineProperty(socket, "onmessage", {
+      configurable: true,
+      get: () => deliver,
+      set: (handler: ((event: MessageEvent) => void) | null) => {
+        deliver = handler;
+      },
+    });
+
+    socket.addEventListener("message", (event) => {
+      if (passThrough) {
+        deliver?.(event);
+        return;
+      }
+      if (!signed) {
+        const nonce = nonceOf(event.data);
+        const settle = () => {
+          passThrough = true;
+        };
+        signed = (nonce ? sign(nonce) : Promise.resolve()).then(settle, settle);
+      }
+      signed.then(() => deliver?.(event));
+    });
+
+    return { socket, encrypted: url.startsWith("wss://") };
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * Leader Tab Request Proxy
+ *
+ * Feature: 002-event-driven-state
+ *
+ * With a shared connection only the leader tab talks to NATS. Follower tabs
+ * post their requests on the state sync channel; the leader sends them on its
+ * connection and posts the reply back. Bodies are base64-encoded so messages
+ * stay JSON-safe; reply headers and the kind of a failure travel along, so a
+ * follower sees the same reply and error types as the leader.
+ */
+
+import {
+  headers,
+  NoRespondersError,
+  PermissionViolationError,
+  RequestError,
+  TimeoutError,
+  type MsgHdrs,
+  type NatsConnection,
+} from "@nats-io/nats-core";
+import type { NatsRequestPayload, NatsResponsePayload } from "../../types/state";
+import { getStateSyncService, type StateSyncService } from "../state/sync";
+import type { NatsReply, NatsRequestOptions } from "./types";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface PendingRequest {
+  resolve: (reply: NatsReply) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Extra time for the round trip between tabs */
+const LEADER_RESPONSE_GRACE_MS = 1000;
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+function encodeBase64(data: Uint8Array): string {
+  let binary = "";
+  for (const byte of data) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(data: string): Uint8Array {
+  return Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+}
+
+function headersToRecord(hdrs?: MsgHdrs): Record<string, string> | undefined {
+  if (!hdrs) return undefined;
+  const record: Record<string, string> = {};
+  for (const key of hdrs.keys()) {
+    record[key] = hdrs.get(key);
+  }
+  return record;
+}
+
+function recordToHeaders(record?: Record<string, string>): MsgHdrs | undefined {
+  if (!record) return undefined;
+  const hdrs = headers();
+  for (const [key, value] of Object.entries(record)) {
+    hdrs.set(key, value);
+  }
+  return hdrs;
+}
+
+/**
+ * Describe a failed request for the follower that sent it
+ */
+function describeError(error: unknown): Omit<NatsResponsePayload, "requestId"> {
+  if (error instanceof PermissionViolationError) {
+    return {
+      error: error.message,
+      errorKind: "permission",
+      permission: { operation: error.operation, subject: error.subject, queue: error.queue },
+    };
+  }
+  if (
+    error instanceof NoRespondersError ||
+    (error instanceof RequestError && error.isNoResponders())
+  ) {
+    return { error: error.message, errorKind: "no_responders" };
+  }
+  if (
+    error instanceof TimeoutError ||
+    (error instanceof RequestError && error.cause instanceof TimeoutError)
+  ) {
+    return { error: error.message, errorKind: "timeout" };
+  }
+  return {
+    error: error instanceof Error ? error.message : "Request failed",
+    errorKind: "error",
+  };
+}
+
+/**
+ * Rebuild the leader's error in the follower tab
+ */
+function rebuildError(response: NatsResponsePayload, subject: string): Error {
+  const message = response.error ?? "Request failed";
+  switch (response.errorKind) {
+    case "permission":
+      return response.permission
+        ? new PermissionViolationError(
+            message,
+            response.permission.operation,
+            response.permission.subject,
+            response.permission.queue
+          )
+        : new Error(message);
+    case "no_responders":
+      // Like a direct request: a RequestError caused by NoRespondersError
+      return new RequestError(message, { cause: new NoRespondersError(subject) });
+    case "timeout":
+      return new TimeoutError();
+    default:
+      return new Error(message);
+  }
+}
+
+// =============================================================================
+// Follower Side
+// =============================================================================
+
+const pendingRequests = new Map<string, PendingRequest & { subject: string }>();
+let unsubscribeResponses: (() => void) | null = null;
+
+function listenForResponses(sync: StateSyncService): void {
+  if (unsubscribeResponses) return;
+
+  unsubscribeResponses = sync.subscribe((message) => {
+    if (message.type !== "NATS_RESPONSE") return;
+
+    const response = message.payload as NatsResponsePayload;
+    const pending = pendingRequests.get(response.requestId);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    pendingRequests.delete(response.requestId);
+    if (response.error !== undefined) {
+      pending.reject(rebuildError(response, pending.subject));
+    } else {
+      pending.resolve({
+        data: decodeBase64(response.data ?? ""),
+        headers: recordToHeaders(response.headers),
+      });
+    }
+  });
+}
+
+/**
+ * Send a request through the leader tab and return the reply.
+ */
+export function requestThroughLeader(
+  subject: string,
+  data: Uint8Array,
+  options: NatsRequestOptions
+): Promise<NatsReply> {
+  const sync = getStateSyncService();
+  listenForResponses(sync);
+
+  const requestId = crypto.randomUUID();
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pendingRequests.delete(requestId);
+      reject(new TimeoutError());
+    }, options.timeout + LEADER_RESPONSE_GRACE_MS);
+
+    pendingRequests.set(requestId, { resolve, reject, timer, subject });
+    sync.sendNatsRequest({
+      requestId,
+      subject,
+      data: encodeBase64(data),
+      headers: headersToRecord(options.headers),
+      timeoutMs: options.timeout,
+    });
+  });
+}
+
+// =============================================================================
+// Leader Side
+// =============================================================================
+
+async function answerRequest(
+  sync: StateSyncService,
+  connection: NatsConnection,
+  request: NatsRequestPayload
+): Promise<void> {
+  try {
+    const reply = await connection.request(request.subject, decodeBase64(request.data), {
+      timeout: request.timeoutMs,
+      headers: recordToHeaders(request.headers),
+    });
+    sync.sendNatsResponse({
+      requestId: request.requestId,
+      data: encodeBase64(reply.data),
+      headers: headersToRecord(reply.headers),
+    });
+  } catch (error) {
+    sync.sendNatsResponse({ requestId: request.requestId, ...describeError(error) });
+  }
+}
+
+/**
+ * Answer requests from follower tabs. getConnection returns null while this tab
+ * is not the leader, in which case requests are left to the leader.
+ */
+export function serveFollowerRequests(getConnection: () => NatsConnection | null): () => void {
+  const sync = getStateSyncService();
+
+  return sync.subscribe((message) => {
+    if (message.type !== "NATS_REQUEST") return;
+
+    const connection = getConnection();
+    if (!connection) return;
+    void answerRequest(sync, connection, message.payload as NatsRequestPayload);
+  });
+}
@@ -0,0 +1,55 @@
+/**
+ * Remote Runtime Configuration
+ *
+ * Loads the runtime config overrides from the NATS KV key named in the
+ * `remote` setting of `config.json` once connected. Only timeouts and feature
+ * toggles can be set remotely; settings that are read when the connection or
+ * the EventProvider is created take effect the next time they are created.
+ */
+
+import { Kvm } from "@nats-io/kv";
+import { getRuntimeConfig, getRuntimeConfigStore } from "../../config/runtime";
+import { getNatsService } from "./connection";
+
+/**
+ * Apply the remote overrides after every connect. Followers mirror the leader
+ * tab's connection and keep the local configuration. Returns a function that
+ * stops listening.
+ */
+export function startRemoteConfig(): () => void {
+  const service = getNatsService();
+
+  return service.onEvent((event) => {
+    if (event.type === "connected" && service.tabRole !== "follower") {
+      loadRemoteConfig().catch((error) => {
+        console.warn("Failed to load the remote configuration:", error);
+      });
+    }
+  });
+}
+
+/**
+ * Read the configured KV key and apply it. A missing key keeps the current
+ * configuration; an invalid one is reported and not applied.
+ */
+export async function loadRemoteConfig(): Promise<void> {
+  const remote = getRuntimeConfig().remote;
+  const connection = getNatsService().connection;
+  if (!remote || !connection) {
+    return;
+  }
+
+  const kv = await new Kvm(connection).open(remote.bucket);
+  const entry = await kv.get(remote.key);
+  if (!entry || entry.operation !== "PUT") {
+    return;
+  }
+
+  const result = getRuntimeConfigStore().applyRemote(entry.json());
+  if (!result.success) {
+    console.warn(
+      `Ignoring the remote configuration in ${remote.bucket}/${remote.key}:`,
+      result.errors
+    );
+  }
+}
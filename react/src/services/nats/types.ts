@@ -1,4 +1,4 @@
-import type { NatsConnection } from "@nats-io/nats-core";
+import type { MsgHdrs, NatsConnection } from "@nats-io/nats-core";
 import type { ConnectionStatus, ConnectionError, Credential } from "@/types";
 
 /**
@@ -11,7 +11,9 @@ export type NatsEventType =
   | "reconnecting"
   | "reconnected"
   | "error"
-  | "closed";
+  | "closed"
+  | "serversChanged"
+  | "permissionDenied";
 
 /**
  * Event payload for connection events
@@ -21,6 +23,10 @@ export interface NatsEvent {
   timestamp: number;
   reconnectAttempt?: number;
   error?: ConnectionError;
+  /** Server the client is (re)connected to, when known */
+  server?: string;
+  /** Known server list after a cluster topology change */
+  servers?: string[];
 }
 
 /**
@@ -28,6 +34,31 @@ export interface NatsEvent {
  */
 export type NatsEventCallback = (event: NatsEvent) => void;
 
+/**
+ * Role of this tab in the connection
+ * - independent: the tab has its own connection (shared connection disabled)
+ * - leader: the tab holds the connection shared by all tabs
+ * - follower: the tab uses the leader tab's connection
+ */
+export type TabRole = "independent" | "leader" | "follower";
+
+/**
+ * Options for a request sent through the NATS service
+ */
+export interface NatsRequestOptions {
+  /** Request timeout in milliseconds */
+  timeout: number;
+  headers?: MsgHdrs;
+}
+
+/**
+ * Reply to a request sent through the NATS service
+ */
+export interface NatsReply {
+  data: Uint8Array;
+  headers?: MsgHdrs;
+}
+
 /**
  * NATS service interface
  */
@@ -35,11 +66,26 @@ export interface INatsService {
   /** Current connection status */
   readonly status: ConnectionStatus;
 
-  /** The active NATS connection (null if disconnected) */
+  /** The active NATS connection (null if disconnected or a follower tab) */
   readonly connection: NatsConnection | null;
 
-  /** Connect to NATS server */
-  connect(credential: Credential, serverUrl: string): Promise<void>;
+  /** Role of this tab when the connection is shared between tabs */
+  readonly tabRole: TabRole;
+
+  /** Server the client is currently connected to (null if disconnected) */
+  readonly currentServer: string | null;
+
+  /** Configured servers followed by servers advertised by the cluster */
+  readonly servers: string[];
+
+  /** Last publish or subscription the server rejected on this connection */
+  readonly lastPermissionError: ConnectionError | null;
+
+  /** Connect to NATS server(s), tried in the given order */
+  connect(credential: Credential, servers: string | string[]): Promise<void>;
+
+  /** Reconnect with a renewed credential without dropping subscribers */
+  replaceCredential(credential: Credential): Promise<void>;
 
   /** Disconnect from NATS server */
   disconnect(): Promise<void>;
@@ -49,6 +95,12 @@ export interface INatsService {
 
   /** Check if connected */
   isConnected(): boolean;
+
+  /** Send a request and return the reply (through the leader tab on followers) */
+  request(subject: string, data: Uint8Array, options: NatsRequestOptions): Promise<NatsReply>;
+
+  /** This tab's connection; a follower tab opens a connection of its own */
+  openDirectConnection(): Promise<NatsConnection>;
 }
 
 /**
@@ -67,6 +119,12 @@ export interface NatsServiceConfig {
   pingInterval?: number;
   /** Max outstanding pings before connection is considered stale (default: 2) */
   maxPingOut?: number;
+  /** Try servers in the given order instead of shuffling them (default: true) */
+  noRandomize?: boolean;
+  /** Ignore servers advertised by the cluster via connect_urls (default: false) */
+  ignoreClusterUpdates?: boolean;
+  /** Share one connection between tabs through an elected leader tab (default: false) */
+  sharedConnection?: boolean;
 }
 
 /**
@@ -79,4 +137,7 @@ export const DEFAULT_NATS_CONFIG: Required<NatsServiceConfig> = {
   reconnectTimeWait: 2000,
   pingInterval: 120000,
   maxPingOut: 2,
+  noRandomize: true,
+  ignoreClusterUpdates: false,
+  sharedConnection: false,
 };
@@ -7,6 +7,7 @@
  */
 
 import Dexie, { type Table } from "dexie";
+import type { AppCommand, CommandError, OutboxStatus } from "../../types/commands";
 import type { Notification, Session, User } from "../../types/events";
 
 // =============================================================================
@@ -29,6 +30,50 @@ export interface StateMeta {
   key: string;
   lastSyncedAt: number;
   version: number;
+  /** JetStream stream the state is read from (eventStream and kvState records) */
+  stream?: string;
+  /** KV key filter being watched (kvState record only) */
+  filter?: string;
+  /** Stream sequence / KV revision of the last applied change */
+  sequence?: number;
+}
+
+/** A command queued for delivery while the connection was unavailable */
+export interface OutboxEntry {
+  /** Command ID (primary key) */
+  id: string;
+  command: AppCommand;
+  /** Subject the command is sent to */
+  subject: string;
+  timeoutMs: number;
+  status: OutboxStatus;
+  /** Number of delivery attempts so far */
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Error from the last failed attempt */
+  lastError?: CommandError;
+}
+
+/** A reusable message saved in the playground */
+export interface RequestTemplate {
+  /** Template ID (primary key) */
+  id: string;
+  name: string;
+  subject: string;
+  headers: Array<{ name: string; value: string }>;
+  body: string;
+  bodyFormat: "json" | "text";
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** An avatar downloaded from the Object Store, kept for offline use */
+export interface CachedAvatar {
+  /** Object name (primary key); uploads never reuse a name */
+  name: string;
+  blob: Blob;
+  cachedAt: number;
 }
 
 // =============================================================================
@@ -40,6 +85,9 @@ export class AppDatabase extends Dexie {
   sessions!: Table<StoredSession, string>;
   notifications!: Table<StoredNotification, string>;
   meta!: Table<StateMeta, string>;
+  outbox!: Table<OutboxEntry, string>;
+  templates!: Table<RequestTemplate, string>;
+  avatars!: Table<CachedAvatar, string>;
 
   constructor() {
     super("nats-ui-state");
@@ -50,6 +98,18 @@ export class AppDatabase extends Dexie {
       notifications: "id, userId, read, dismissed, createdAt",
       meta: "key",
     });
+
+    this.version(2).stores({
+      outbox: "id, status, createdAt",
+    });
+
+    this.version(3).stores({
+      templates: "id, name, updatedAt",
+    });
+
+    this.version(4).stores({
+      avatars: "name, cachedAt",
+    });
   }
 }
 
@@ -75,15 +135,22 @@ export function isIndexedDBAvailable(): boolean {
 }
 
 /**
- * Clear all data from the database.
+ * Clear all data from the database. Request templates are kept; they do not
+ * belong to an account.
  */
 export async function clearDatabase(): Promise<void> {
-  await db.transaction("rw", [db.users, db.sessions, db.notifications, db.meta], async () => {
-    await db.users.clear();
-    await db.sessions.clear();
-    await db.notifications.clear();
-    await db.meta.clear();
-  });
+  await db.transaction(
+    "rw",
+    [db.users, db.sessions, db.notifications, db.meta, db.outbox, db.avatars],
+    async () => {
+      await db.users.clear();
+      await db.sessions.clear();
+      await db.notifications.clear();
+      await db.meta.clear();
+      await db.outbox.clear();
+      await db.avatars.clear();
+    }
+  );
 }
 
 /**
@@ -104,3 +171,58 @@ export async function setLastSyncedAt(timestamp: number): Promise<void> {
     version: 1,
   });
 }
+
+/**
+ * Get the stream sequence of the last event applied to the stored state.
+ * Returns null if nothing was recorded for the stream.
+ */
+export async function getEventStreamSequence(stream: string): Promise<number | null> {
+  const meta = await db.meta.get("eventStream");
+  if (!meta || meta.stream !== stream || meta.sequence === undefined) {
+    return null;
+  }
+  return meta.sequence;
+}
+
+/**
+ * Record the stream sequence of the last event applied to the stored state.
+ */
+export async function setEventStreamSequence(stream: string, sequence: number): Promise<void> {
+  await db.meta.put({
+    key: "eventStream",
+    lastSyncedAt: Date.now(),
+    version: 1,
+    stream,
+    sequence,
+  });
+}
+
+/**
+ * Get the revision of the last KV entry applied to the stored state.
+ * Returns null if nothing was recorded for the bucket and key filter.
+ */
+export async function getKvStateRevision(bucket: string, filter: string): Promise<number | null> {
+  const meta = await db.meta.get("kvState");
+  if (!meta || meta.stream !== bucket || meta.filter !== filter || meta.sequence === undefined) {
+    return null;
+  }
+  return meta.sequence;
+}
+
+/**
+ * Record the revision of the last KV entry applied to the stored state.
+ */
+export async function setKvStateRevision(
+  bucket: string,
+  filter: string,
+  revision: number
+): Promise<void> {
+  await db.meta.put({
+    key: "kvState",
+    lastSyncedAt: Date.now(),
+    version: 1,
+    stream: bucket,
+    filter,
+    sequence: revision,
+  });
+}
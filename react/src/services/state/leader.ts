@@ -0,0 +1,222 @@
+/**
+ * Leader Tab Election
+ *
+ * Feature: 002-event-driven-state
+ *
+ * Elects one tab to hold the shared NATS connection. The Web Locks API is used
+ * where available: the browser grants the lock to the next waiting tab as soon
+ * as the holder closes or crashes, so hand-off needs no timers. Otherwise tabs
+ * fall back to heartbeats over BroadcastChannel, where a tab claims leadership
+ * once the leader has been silent for a few heartbeats.
+ *
+ * The connection stays in a tab rather than a SharedWorker: a worker would need
+ * the decrypted credential and cannot call the nonce signer installed in the
+ * page, and the leader tab path is needed anyway on browsers without
+ * SharedWorker such as Chrome for Android.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type LeaderChangeCallback = (isLeader: boolean) => void;
+
+export interface LeaderElection {
+  /** Whether this tab currently holds leadership */
+  isLeader(): boolean;
+  /** Subscribe to leadership changes of this tab */
+  onChange(callback: LeaderChangeCallback): () => void;
+  /** Give up leadership and stop taking part in the election */
+  close(): void;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const LOCK_NAME = "nats-ui-leader";
+const CHANNEL_NAME = "nats-ui-leader";
+const HEARTBEAT_INTERVAL_MS = 1000;
+const LEADER_TIMEOUT_MS = 3000;
+
+// =============================================================================
+// Shared Base
+// =============================================================================
+
+abstract class BaseLeaderElection implements LeaderElection {
+  private leader = false;
+  private readonly listeners = new Set<LeaderChangeCallback>();
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  onChange(callback: LeaderChangeCallback): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  protected setLeader(leader: boolean): void {
+    if (this.leader === leader) return;
+    this.leader = leader;
+
+    for (const listener of this.listeners) {
+      try {
+        listener(leader);
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+
+  abstract close(): void;
+}
+
+// =============================================================================
+// Web Locks Implementation
+// =============================================================================
+
+class WebLocksLeaderElection extends BaseLeaderElection {
+  private readonly abort = new AbortController();
+  private release: (() => void) | null = null;
+
+  constructor() {
+    super();
+    navigator.locks
+      .request(LOCK_NAME, { signal: this.abort.signal }, () => {
+        this.setLeader(true);
+        // Hold the lock until this tab closes or resigns
+        return new Promise<void>((resolve) => {
+          this.release = resolve;
+        });
+      })
+      .catch(() => {
+        // Aborted while waiting for the lock
+      });
+  }
+
+  close(): void {
+    this.abort.abort();
+    this.release?.();
+    this.release = null;
+    this.setLeader(false);
+  }
+}
+
+// =============================================================================
+// BroadcastChannel Implementation
+// =============================================================================
+
+interface LeaderMessage {
+  type: "heartbeat" | "resign";
+  tabId: string;
+}
+
+class BroadcastLeaderElection extends BaseLeaderElection {
+  private readonly channel: BroadcastChannel;
+  private readonly tabId: string;
+  private readonly interval: ReturnType<typeof setInterval>;
+  /** Last heartbeat seen from another leader; starts now so an existing leader can speak up */
+  private lastHeartbeatAt = Date.now();
+
+  constructor(tabId: string) {
+    super();
+    this.tabId = tabId;
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.addEventListener("message", this.handleMessage);
+    this.interval = setInterval(this.tick, HEARTBEAT_INTERVAL_MS);
+
+    if (typeof window !== "undefined") {
+      window.addEventListener("pagehide", this.handlePageHide);
+    }
+  }
+
+  private tick = (): void => {
+    if (this.isLeader()) {
+      this.post("heartbeat");
+    } else if (Date.now() - this.lastHeartbeatAt > LEADER_TIMEOUT_MS) {
+      this.setLeader(true);
+      this.post("heartbeat");
+    }
+  };
+
+  private handleMessage = (event: MessageEvent<LeaderMessage>): void => {
+    const message = event.data;
+    if (message.tabId === this.tabId) return;
+
+    if (message.type === "resign") {
+      // Let the next tick claim leadership
+      this.lastHeartbeatAt = 0;
+      return;
+    }
+
+    this.lastHeartbeatAt = Date.now();
+    // Two tabs claimed at the same time - the lower tab ID keeps leadership
+    if (this.isLeader() && message.tabId < this.tabId) {
+      this.setLeader(false);
+    }
+  };
+
+  private handlePageHide = (): void => {
+    if (this.isLeader()) {
+      this.post("resign");
+    }
+  };
+
+  private post(type: LeaderMessage["type"]): void {
+    const message: LeaderMessage = { type, tabId: this.tabId };
+    this.channel.postMessage(message);
+  }
+
+  close(): void {
+    this.handlePageHide();
+    clearInterval(this.interval);
+    this.channel.removeEventListener("message", this.handleMessage);
+    this.channel.close();
+
+    if (typeof window !== "undefined") {
+      window.removeEventListener("pagehide", this.handlePageHide);
+    }
+
+    this.setLeader(false);
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+let leaderElectionInstance: LeaderElection | null = null;
+
+/**
+ * Check whether this browser can elect a leader tab. Followers reach the leader
+ * over BroadcastChannel, so it is required with Web Locks as well.
+ */
+export function isLeaderElectionSupported(): boolean {
+  return typeof BroadcastChannel !== "undefined";
+}
+
+/**
+ * Get the leader election singleton, joining the election on first use.
+ */
+export function getLeaderElection(tabId?: string): LeaderElection {
+  if (!leaderElectionInstance) {
+    leaderElectionInstance =
+      typeof navigator !== "undefined" && navigator.locks
+        ? new WebLocksLeaderElection()
+        : new BroadcastLeaderElection(tabId || crypto.randomUUID());
+  }
+  return leaderElectionInstance;
+}
+
+/**
+ * Reset the leader election (for testing purposes).
+ */
+export function resetLeaderElection(): void {
+  if (leaderElectionInstance) {
+    leaderElectionInstance.close();
+    leaderElectionInstance = null;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Optimistic Update Layer
+ *
+ * Feature: 002-event-driven-state
+ *
+ * Pending mutations are kept as lists of predicted events, keyed by the id of the
+ * command that caused them. They are applied on top of the confirmed state when
+ * rendering, so reverting one is just dropping it - the confirmed state is never
+ * modified optimistically.
+ */
+
+import { getCommandDefinition } from "../../domains";
+import type { CommandPayloadOf, CommandType } from "../../types/commands";
+import type { AppEvent } from "../../types/events";
+import type { AppState } from "../../types/state";
+import { appStateReducer } from "./reducer";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface OptimisticMutation {
+  /** ID of the command this mutation predicts the outcome of */
+  commandId: string;
+  /** Events expected to be emitted by the backend for the command */
+  events: AppEvent[];
+  /** When the mutation was applied */
+  createdAt: number;
+}
+
+// =============================================================================
+// Mutation Helpers
+// =============================================================================
+
+/**
+ * Apply pending mutations, in order, on top of the confirmed state.
+ */
+export function applyOptimisticMutations<S extends AppState>(
+  state: S,
+  mutations: OptimisticMutation[]
+): S {
+  let result = state;
+  for (const mutation of mutations) {
+    for (const event of mutation.events) {
+      result = appStateReducer(result, event) as S;
+    }
+  }
+  return result;
+}
+
+/**
+ * Remove the mutation predicted for a command. Returns the same array if not found.
+ */
+export function removeOptimisticMutation(
+  mutations: OptimisticMutation[],
+  commandId: string
+): OptimisticMutation[] {
+  const next = mutations.filter((m) => m.commandId !== commandId);
+  return next.length === mutations.length ? mutations : next;
+}
+
+/**
+ * Predict the events a command will produce, based on the current state.
+ * Returns an empty list when nothing can be predicted (e.g. unknown notification,
+ * or the command's definition declares no prediction).
+ */
+export function createOptimisticEvents<K extends CommandType>(
+  type: K,
+  payload: CommandPayloadOf<K>,
+  state: AppState,
+  commandId: string
+): AppEvent[] {
+  const predicted = getCommandDefinition(type).predict?.(payload, state) ?? [];
+  const timestamp = Date.now();
+
+  return predicted.map((event) => ({ ...event, timestamp, correlationId: commandId }) as AppEvent);
+}
@@ -0,0 +1,152 @@
+/**
+ * Offline Command Outbox
+ *
+ * Feature: 002-event-driven-state
+ *
+ * Persists commands created while offline or reconnecting so they can be
+ * replayed in order once the NATS connection is restored.
+ */
+
+import type { AppCommand, CommandError, OutboxStatus } from "../../types/commands";
+import { liveQuery } from "dexie";
+import { db, type OutboxEntry } from "./database";
+
+// =============================================================================
+// Outbox Interface
+// =============================================================================
+
+export interface CommandOutbox {
+  /** Queue a command for later delivery */
+  enqueue(command: AppCommand, subject: string, timeoutMs: number): Promise<OutboxEntry>;
+  /** Pending commands in creation order */
+  getPending(): Promise<OutboxEntry[]>;
+  /** All queued commands, oldest first */
+  list(): Promise<OutboxEntry[]>;
+  /** Record a delivery attempt */
+  recordAttempt(id: string, error?: CommandError): Promise<void>;
+  /** Mark a command as delivered */
+  markSent(id: string): Promise<void>;
+  /** Mark a command as rejected */
+  markRejected(id: string, status: "failed" | "conflict", error: CommandError): Promise<void>;
+  /** Put a failed or conflicting command back in the queue */
+  retry(id: string): Promise<void>;
+  /** Remove a command from the outbox without sending it */
+  discard(id: string): Promise<void>;
+  /**
+   * Resolve with the status of a command once it is no longer pending, or
+   * null if it was discarded. Sees changes made by other tabs.
+   */
+  whenSettled(id: string): Promise<OutboxStatus | null>;
+  /** Remove delivered commands (done at the start of each replay) */
+  pruneSent(): Promise<void>;
+}
+
+// =============================================================================
+// Dexie Implementation
+// =============================================================================
+
+class DexieCommandOutbox implements CommandOutbox {
+  async enqueue(command: AppCommand, subject: string, timeoutMs: number): Promise<OutboxEntry> {
+    const now = Date.now();
+    const entry: OutboxEntry = {
+      id: command.id,
+      command,
+      subject,
+      timeoutMs,
+      status: "pending",
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await db.outbox.put(entry);
+    return entry;
+  }
+
+  async getPending(): Promise<OutboxEntry[]> {
+    const entries = await db.outbox.where("status").equals("pending").toArray();
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    return db.outbox.orderBy("createdAt").toArray();
+  }
+
+  async recordAttempt(id: string, error?: CommandError): Promise<void> {
+    await db.outbox
+      .where("id")
+      .equals(id)
+      .modify((entry) => {
+        entry.attempts += 1;
+        entry.updatedAt = Date.now();
+        entry.lastError = error;
+      });
+  }
+
+  async markSent(id: string): Promise<void> {
+    await this.setStatus(id, "sent");
+  }
+
+  async markRejected(
+    id: string,
+    status: "failed" | "conflict",
+    error: CommandError
+  ): Promise<void> {
+    await this.setStatus(id, status, error);
+  }
+
+  async retry(id: string): Promise<void> {
+    await this.setStatus(id, "pending");
+  }
+
+  async discard(id: string): Promise<void> {
+    await db.outbox.delete(id);
+  }
+
+  async pruneSent(): Promise<void> {
+    await db.outbox.where("status").equals("sent").delete();
+  }
+
+  whenSettled(id: string): Promise<OutboxStatus | null> {
+    return new Promise((resolve, reject) => {
+      const subscription = liveQuery(() => db.outbox.get(id)).subscribe({
+        next: (entry) => {
+          if (entry?.status === "pending") return;
+          subscription.unsubscribe();
+          resolve(entry?.status ?? null);
+        },
+        error: (error) => {
+          subscription.unsubscribe();
+          reject(error);
+        },
+      });
+    });
+  }
+
+  private async setStatus(id: string, status: OutboxStatus, error?: CommandError): Promise<void> {
+    await db.outbox.update(id, { status, lastError: error, updatedAt: Date.now() });
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+let outboxInstance: CommandOutbox | null = null;
+
+/**
+ * Get the command outbox singleton instance.
+ */
+export function getCommandOutbox(): CommandOutbox {
+  if (!outboxInstance) {
+    outboxInstance = new DexieCommandOutbox();
+  }
+  return outboxInstance;
+}
+
+/**
+ * Reset the command outbox (for testing purposes).
+ */
+export function resetCommandOutbox(): void {
+  outboxInstance = null;
+}
@@ -4,78 +4,57 @@
  * Feature: 002-event-driven-state
  *
  * Applies events to the application state using immutable update patterns.
+ * Per-event reducers are declared by the domain modules in src/domains.
  */
 
+import { getEventDefinition, isRegisteredEventType } from "../../domains";
 import type { AppEvent } from "../../types/events";
-import type { AppState } from "../../types/state";
+import type { AppState, KvStateChange } from "../../types/state";
 
 /**
  * Applies an event to the application state, returning a new state.
- * This is a pure function with no side effects.
+ * This is a pure function with no side effects. The event's domain definition
+ * provides the actual state change; unknown events leave the state unchanged.
  *
  * @param state - Current application state
  * @param event - Event to apply
  * @returns New application state
  */
 export function appStateReducer(state: AppState, event: AppEvent): AppState {
-  switch (event.type) {
-    case "user.updated":
-      if (!state.user || state.user.id !== event.payload.id) {
-        return state;
-      }
-      return {
-        ...state,
-        user: { ...state.user, ...event.payload.changes },
-      };
+  const definition = getEventDefinition(event.type);
+  return definition ? definition.reduce(state, event) : state;
+}
 
-    case "session.created":
-      return {
-        ...state,
-        sessions: {
-          ...state.sessions,
-          [event.payload.id]: event.payload,
-        },
-      };
+/**
+ * Applies a KV state change to the application state, returning a new state.
+ * Used instead of events when the state is read from a KV bucket.
+ */
+export function applyKvStateChange(state: AppState, change: KvStateChange): AppState {
+  switch (change.slice) {
+    case "user":
+      return { ...state, user: change.op === "put" ? change.value : null };
 
-    case "session.expired": {
-      const { [event.payload.sessionId]: _removed, ...remainingSessions } = state.sessions;
+    case "sessions": {
+      const { [change.id]: _removed, ...remainingSessions } = state.sessions;
       void _removed; // Intentionally unused - destructuring to remove from object
       return {
         ...state,
-        sessions: remainingSessions,
-      };
-    }
-
-    case "notification.received":
-      return {
-        ...state,
-        notifications: {
-          ...state.notifications,
-          [event.payload.id]: event.payload,
-        },
-      };
-
-    case "notification.read": {
-      const notification = state.notifications[event.payload.notificationId];
-      if (!notification) return state;
-      return {
-        ...state,
-        notifications: {
-          ...state.notifications,
-          [event.payload.notificationId]: { ...notification, read: true },
-        },
+        sessions:
+          change.op === "put"
+            ? { ...state.sessions, [change.id]: change.value }
+            : remainingSessions,
       };
     }
 
-    case "notification.dismissed": {
-      const notification = state.notifications[event.payload.notificationId];
-      if (!notification) return state;
+    case "notifications": {
+      const { [change.id]: _removed, ...remainingNotifications } = state.notifications;
+      void _removed; // Intentionally unused - destructuring to remove from object
       return {
         ...state,
-        notifications: {
-          ...state.notifications,
-          [event.payload.notificationId]: { ...notification, dismissed: true },
-        },
+        notifications:
+          change.op === "put"
+            ? { ...state.notifications, [change.id]: change.value }
+            : remainingNotifications,
       };
     }
 
@@ -98,16 +77,7 @@ export function isValidEvent(obj: unknown): obj is AppEvent {
     return false;
   }
 
-  const validTypes = [
-    "user.updated",
-    "session.created",
-    "session.expired",
-    "notification.received",
-    "notification.read",
-    "notification.dismissed",
-  ];
-
-  return validTypes.includes(event.type);
+  return isRegisteredEventType(event.type);
 }
 
 /**
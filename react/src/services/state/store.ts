@@ -8,7 +8,7 @@
  */
 
 import type { Notification, Session, User } from "../../types/events";
-import type { AppState } from "../../types/state";
+import type { AppState, KvStateChange } from "../../types/state";
 import { INITIAL_APP_STATE } from "../../types/state";
 import {
   db,
@@ -201,6 +201,31 @@ class IndexedDBStorage implements StateStorage {
   }
 }
 
+// =============================================================================
+// KV State Changes
+// =============================================================================
+
+/**
+ * Persist a change read from the KV state bucket.
+ */
+export async function persistKvStateChange(
+  storage: StateStorage,
+  change: KvStateChange
+): Promise<void> {
+  switch (change.slice) {
+    case "user":
+      return storage.updateUser(change.op === "put" ? change.value : null);
+    case "sessions":
+      return change.op === "put"
+        ? storage.updateSession(change.value)
+        : storage.deleteSession(change.id);
+    case "notifications":
+      return change.op === "put"
+        ? storage.updateNotification(change.value)
+        : storage.deleteNotification(change.id);
+  }
+}
+
 // =============================================================================
 // Storage Factory
 // =============================================================================
@@ -4,12 +4,24 @@
  * Feature: 002-event-driven-state
  *
  * Uses BroadcastChannel to notify other tabs of state changes.
- * IndexedDB is the source of truth; this service only sends invalidation signals.
+ * IndexedDB is the source of truth. Invalidations carry the applied change so
+ * other tabs can apply it directly; they are numbered per tab, and a patch that
+ * follows a missed invalidation is dropped so the receiver reloads instead.
+ * With a shared connection it also carries the leader tab's connection status
+ * and proxied requests between the leader and follower tabs.
  */
 
+import type { Credential } from "../../types";
 import type {
+  ConnectionError,
   ConnectionStatusPayload,
+  ConnectRejectedPayload,
+  ConnectRequestedPayload,
+  CredentialReplacedPayload,
+  NatsRequestPayload,
+  NatsResponsePayload,
   StateInvalidatedPayload,
+  StatePatch,
   TabSyncMessage,
   TabSyncMessageType,
   ThemeChangedPayload,
@@ -25,14 +37,31 @@ import type {
 export type StateSyncCallback = (message: TabSyncMessage) => void;
 
 export interface StateSyncService {
-  /** Notify other tabs that state has changed */
-  notifyStateInvalidated(keys: StateInvalidatedPayload["keys"]): void;
+  /** Notify other tabs that state has changed, with the change if it was a patch */
+  notifyStateInvalidated(keys: StateInvalidatedPayload["keys"], patch?: StatePatch): void;
   /** Notify other tabs that theme has changed */
   notifyThemeChanged(mode: ThemeMode, resolved: ResolvedTheme): void;
   /** Notify other tabs that user has logged out */
   notifyLogout(): void;
   /** Notify other tabs of connection status change */
-  notifyConnectionStatusChanged(status: ConnectionStatus): void;
+  notifyConnectionStatusChanged(
+    status: ConnectionStatus,
+    details?: Omit<ConnectionStatusPayload, "status">
+  ): void;
+  /** Ask the leader tab to report its connection status */
+  requestConnectionStatus(): void;
+  /** Ask the leader tab to connect with this tab's credential */
+  requestConnect(requestId: string, credential: Credential, servers: string[]): void;
+  /** Refuse a follower tab's connect request */
+  rejectConnect(requestId: string, error: ConnectionError): void;
+  /** Ask the leader tab to reconnect with a renewed credential */
+  requestCredentialReplace(credential: Credential): void;
+  /** Ask the leader tab to close the shared connection */
+  requestDisconnect(): void;
+  /** Send a request through the leader tab's connection */
+  sendNatsRequest(request: NatsRequestPayload): void;
+  /** Answer a request forwarded by a follower tab */
+  sendNatsResponse(response: NatsResponsePayload): void;
   /** Subscribe to sync messages from other tabs */
   subscribe(callback: StateSyncCallback): () => void;
   /** Close the sync service */
@@ -55,6 +84,10 @@ class BroadcastStateSyncService implements StateSyncService {
   private readonly tabId: string;
   private readonly listeners = new Set<StateSyncCallback>();
   private useFallback = false;
+  /** Sequence of the last invalidation sent by this tab */
+  private invalidationSequence = 0;
+  /** Sequence of the last invalidation received from each tab */
+  private readonly receivedSequences = new Map<string, number>();
 
   constructor(tabId: string) {
     this.tabId = tabId;
@@ -96,7 +129,27 @@ class BroadcastStateSyncService implements StateSyncService {
     }
   };
 
-  private notifyListeners(message: TabSyncMessage): void {
+  /**
+   * Drop the patch of an invalidation that follows a missed one: the receiver
+   * no longer has the state the patch applies to. The first invalidation from
+   * a tab is the baseline; the channel opens before this tab loads its state,
+   * so whatever that tab sent earlier is already in IndexedDB.
+   */
+  private checkSequence(message: TabSyncMessage): TabSyncMessage {
+    if (message.type !== "STATE_INVALIDATED") return message;
+
+    const payload = message.payload as StateInvalidatedPayload;
+    const previous = this.receivedSequences.get(message.tabId);
+    this.receivedSequences.set(message.tabId, payload.sequence);
+
+    if (!payload.patch || previous === undefined || payload.sequence === previous + 1) {
+      return message;
+    }
+    return { ...message, payload: { keys: payload.keys, sequence: payload.sequence } };
+  }
+
+  private notifyListeners(received: TabSyncMessage): void {
+    const message = this.checkSequence(received);
     for (const listener of this.listeners) {
       try {
         listener(message);
@@ -106,13 +159,17 @@ class BroadcastStateSyncService implements StateSyncService {
     }
   }
 
-  private send<T>(type: TabSyncMessageType, payload?: T): void {
-    const message: TabSyncMessage<T> = {
+  private createMessage<T>(type: TabSyncMessageType, payload?: T): TabSyncMessage<T> {
+    return {
       type,
       tabId: this.tabId,
       timestamp: Date.now(),
       payload,
     };
+  }
+
+  private send<T>(type: TabSyncMessageType, payload?: T): void {
+    const message = this.createMessage(type, payload);
 
     if (this.channel && !this.useFallback) {
       this.channel.postMessage(message);
@@ -121,8 +178,13 @@ class BroadcastStateSyncService implements StateSyncService {
     }
   }
 
-  notifyStateInvalidated(keys: StateInvalidatedPayload["keys"]): void {
-    this.send<StateInvalidatedPayload>("STATE_INVALIDATED", { keys });
+  notifyStateInvalidated(keys: StateInvalidatedPayload["keys"], patch?: StatePatch): void {
+    this.invalidationSequence++;
+    this.send<StateInvalidatedPayload>("STATE_INVALIDATED", {
+      keys,
+      sequence: this.invalidationSequence,
+      patch,
+    });
   }
 
   notifyThemeChanged(mode: ThemeMode, resolved: ResolvedTheme): void {
@@ -133,8 +195,51 @@ class BroadcastStateSyncService implements StateSyncService {
     this.send("LOGOUT");
   }
 
-  notifyConnectionStatusChanged(status: ConnectionStatus): void {
-    this.send<ConnectionStatusPayload>("CONNECTION_STATUS_CHANGED", { status });
+  notifyConnectionStatusChanged(
+    status: ConnectionStatus,
+    details: Omit<ConnectionStatusPayload, "status"> = {}
+  ): void {
+    this.send<ConnectionStatusPayload>("CONNECTION_STATUS_CHANGED", { ...details, status });
+  }
+
+  requestConnectionStatus(): void {
+    this.send("CONNECTION_STATUS_REQUESTED");
+  }
+
+  requestConnect(requestId: string, credential: Credential, servers: string[]): void {
+    // Credentials must never end up in localStorage, so there is no fallback
+    if (!this.channel || this.useFallback) return;
+    this.channel.postMessage(
+      this.createMessage<ConnectRequestedPayload>("CONNECT_REQUESTED", {
+        requestId,
+        credential,
+        servers,
+      })
+    );
+  }
+
+  rejectConnect(requestId: string, error: ConnectionError): void {
+    this.send<ConnectRejectedPayload>("CONNECT_REJECTED", { requestId, error });
+  }
+
+  requestCredentialReplace(credential: Credential): void {
+    // Like requestConnect, never through the localStorage fallback
+    if (!this.channel || this.useFallback) return;
+    this.channel.postMessage(
+      this.createMessage<CredentialReplacedPayload>("CREDENTIAL_REPLACED", { credential })
+    );
+  }
+
+  requestDisconnect(): void {
+    this.send("DISCONNECT_REQUESTED");
+  }
+
+  sendNatsRequest(request: NatsRequestPayload): void {
+    this.send<NatsRequestPayload>("NATS_REQUEST", request);
+  }
+
+  sendNatsResponse(response: NatsResponsePayload): void {
+    this.send<NatsResponsePayload>("NATS_RESPONSE", response);
   }
 
   subscribe(callback: StateSyncCallback): () => void {
@@ -0,0 +1,66 @@
+/**
+ * Request Templates
+ *
+ * Messages saved in the playground for reuse, kept in IndexedDB.
+ */
+
+import { db, type RequestTemplate } from "./database";
+
+// =============================================================================
+// Template Store Interface
+// =============================================================================
+
+export type RequestTemplateInput = Omit<RequestTemplate, "id" | "createdAt" | "updatedAt">;
+
+export interface RequestTemplateStore {
+  /** All templates, by name */
+  list(): Promise<RequestTemplate[]>;
+  /** Save a new template, or update the template with the given ID */
+  save(template: RequestTemplateInput, id?: string): Promise<RequestTemplate>;
+  /** Delete a template */
+  remove(id: string): Promise<void>;
+}
+
+// =============================================================================
+// Dexie Implementation
+// =============================================================================
+
+class DexieRequestTemplateStore implements RequestTemplateStore {
+  async list(): Promise<RequestTemplate[]> {
+    return db.templates.orderBy("name").toArray();
+  }
+
+  async save(template: RequestTemplateInput, id?: string): Promise<RequestTemplate> {
+    const now = Date.now();
+    const existing = id ? await db.templates.get(id) : undefined;
+    const saved: RequestTemplate = {
+      ...template,
+      id: existing?.id ?? crypto.randomUUID(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    await db.templates.put(saved);
+    return saved;
+  }
+
+  async remove(id: string): Promise<void> {
+    await db.templates.delete(id);
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+let storeInstance: RequestTemplateStore | null = null;
+
+/**
+ * Get the request template store singleton instance.
+ */
+export function getRequestTemplateStore(): RequestTemplateStore {
+  if (!storeInstance) {
+    storeInstance = new DexieRequestTemplateStore();
+  }
+  return storeInstance;
+}
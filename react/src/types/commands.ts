@@ -4,8 +4,11 @@
  * Feature: 002-event-driven-state
  *
  * These types define the contracts for commands sent via NATS request/response.
+ * Individual commands are declared by their domain modules in src/domains.
  */
 
+import type { RegisteredCommand, RegisteredCommandPayload } from "../domains";
+
 // =============================================================================
 // Base Command
 // =============================================================================
@@ -17,49 +20,29 @@ export interface BaseCommand {
 }
 
 // =============================================================================
-// User Commands
+// Domain Commands
 // =============================================================================
 
-export interface UpdateProfileCommand extends BaseCommand {
-  type: "user.updateProfile";
-  payload: {
-    name?: string;
-    avatarUrl?: string;
-  };
-}
+export type { UpdateProfileCommand } from "../domains/user";
+export type {
+  DismissNotificationCommand,
+  MarkAllNotificationsReadCommand,
+  MarkNotificationReadCommand,
+} from "../domains/notifications";
 
 // =============================================================================
-// Notification Commands
+// Command Union
 // =============================================================================
 
-export interface DismissNotificationCommand extends BaseCommand {
-  type: "notification.dismiss";
-  payload: {
-    notificationId: string;
-  };
-}
-
-export interface MarkNotificationReadCommand extends BaseCommand {
-  type: "notification.markRead";
-  payload: {
-    notificationId: string;
-  };
-}
+/** All registered commands (see domains/index.ts) */
+export type AppCommand = RegisteredCommand;
 
-export interface MarkAllNotificationsReadCommand extends BaseCommand {
-  type: "notification.markAllRead";
-  payload: Record<string, never>;
-}
+export type CommandType = AppCommand["type"];
 
-// =============================================================================
-// Command Union
-// =============================================================================
+export type CommandPayload = AppCommand["payload"];
 
-export type AppCommand =
-  | UpdateProfileCommand
-  | DismissNotificationCommand
-  | MarkNotificationReadCommand
-  | MarkAllNotificationsReadCommand;
+/** Payload of a specific command type */
+export type CommandPayloadOf<K extends CommandType> = RegisteredCommandPayload<K>;
 
 // =============================================================================
 // Command Results
@@ -70,6 +53,8 @@ export type CommandErrorCode =
   | "NOT_FOUND"
   | "PERMISSION_DENIED"
   | "CONFLICT"
+  | "QUEUED"
+  | "EVENT_TIMEOUT"
   | "INTERNAL_ERROR";
 
 export interface CommandError {
@@ -106,13 +91,38 @@ export function isCommandFailure(result: CommandResult): result is CommandResult
   return result.success === false;
 }
 
+/**
+ * A queued command has not failed: it was stored in the outbox and will be
+ * delivered once the connection is restored.
+ */
+export function isCommandQueued(result: CommandResult): boolean {
+  return result.success === false && result.error.code === "QUEUED";
+}
+
+// =============================================================================
+// Offline Outbox
+// =============================================================================
+
+/**
+ * Delivery status of a queued command
+ * - pending: waiting to be sent
+ * - sent: delivered and acknowledged by the backend
+ * - failed: rejected by the backend or could not be delivered
+ * - conflict: rejected because it conflicts with newer state
+ */
+export type OutboxStatus = "pending" | "sent" | "failed" | "conflict";
+
 // =============================================================================
 // Command Factory
 // =============================================================================
 
-export function createCommand<T extends AppCommand>(type: T["type"], payload: T["payload"]): T {
+export function createCommand<T extends AppCommand>(
+  type: T["type"],
+  payload: T["payload"],
+  id: string = crypto.randomUUID()
+): T {
   return {
-    id: crypto.randomUUID(),
+    id,
     type,
     timestamp: Date.now(),
     payload,
@@ -4,8 +4,18 @@
  * Feature: 002-event-driven-state
  *
  * These types define the contracts for events received from NATS subscriptions.
+ * Individual events are declared by their domain modules in src/domains.
  */
 
+import type { RegisteredEvent } from "../domains";
+import type {
+  NotificationDismissedEvent,
+  NotificationReadEvent,
+  NotificationReceivedEvent,
+} from "../domains/notifications";
+import type { SessionCreatedEvent, SessionExpiredEvent } from "../domains/sessions";
+import type { UserUpdatedEvent } from "../domains/user";
+
 // =============================================================================
 // Domain Entities
 // =============================================================================
@@ -15,6 +25,7 @@ export interface User {
   email: string;
   name: string;
   avatarUrl?: string;
+  avatarObject?: string; // Object name in the avatar bucket
   account?: string; // Account NKey
   server?: string; // Server name
   cluster?: string; // Cluster name
@@ -73,56 +84,24 @@ export interface Notification {
 export interface BaseEvent {
   type: string;
   timestamp: number;
+  /** ID of the command that caused the event (from the payload or message headers) */
   correlationId?: string;
-}
-
-export interface UserUpdatedEvent extends BaseEvent {
-  type: "user.updated";
-  payload: {
-    id: string;
-    changes: Partial<Omit<User, "id">>;
-  };
-}
-
-export interface SessionCreatedEvent extends BaseEvent {
-  type: "session.created";
-  payload: Session;
-}
-
-export interface SessionExpiredEvent extends BaseEvent {
-  type: "session.expired";
-  payload: {
-    sessionId: string;
-    reason: "timeout" | "logout" | "revoked";
-  };
-}
-
-export interface NotificationReceivedEvent extends BaseEvent {
-  type: "notification.received";
-  payload: Notification;
-}
-
-export interface NotificationReadEvent extends BaseEvent {
-  type: "notification.read";
-  payload: {
-    notificationId: string;
-  };
-}
-
-export interface NotificationDismissedEvent extends BaseEvent {
-  type: "notification.dismissed";
-  payload: {
-    notificationId: string;
-  };
-}
-
-export type AppEvent =
-  | UserUpdatedEvent
-  | SessionCreatedEvent
-  | SessionExpiredEvent
-  | NotificationReceivedEvent
-  | NotificationReadEvent
-  | NotificationDismissedEvent;
+  /** Tab that issued the causing command, when known */
+  originTabId?: string;
+  /** W3C trace context propagated from the causing command */
+  traceparent?: string;
+}
+
+export type { UserUpdatedEvent } from "../domains/user";
+export type { SessionCreatedEvent, SessionExpiredEvent } from "../domains/sessions";
+export type {
+  NotificationDismissedEvent,
+  NotificationReadEvent,
+  NotificationReceivedEvent,
+} from "../domains/notifications";
+
+/** All registered events (see domains/index.ts) */
+export type AppEvent = RegisteredEvent;
 
 // =============================================================================
 // Type Guards
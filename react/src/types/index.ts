@@ -6,6 +6,8 @@
  * components, services, and contexts.
  */
 
+import type { CommandType } from "./commands";
+
 // =============================================================================
 // Credential Types
 // =============================================================================
@@ -13,7 +15,7 @@
 /**
  * Authentication type discriminator
  */
-export type AuthType = "credsfile" | "userpass";
+export type AuthType = "credsfile" | "userpass" | "token" | "nkey" | "jwtsigner";
 
 /**
  * Base fields shared by all credential types
@@ -39,6 +41,54 @@ export interface CredsFileCredential extends BaseCredential {
   seed: Uint8Array;
   /** Derived public key (starts with 'U' for user) */
   publicKey: string;
+  /** Claims decoded from the user JWT (not verified) */
+  claims?: NatsUserClaims;
+}
+
+/**
+ * Subjects a user may or may not publish or subscribe to.
+ * Empty `allow` means everything not denied is allowed.
+ */
+export interface NatsSubjectPermission {
+  allow: string[];
+  deny: string[];
+}
+
+/**
+ * Claims of a NATS user JWT. Times are in milliseconds since the epoch;
+ * limits of -1 mean unlimited.
+ */
+export interface NatsUserClaims {
+  /** User name */
+  name: string;
+  /** User public key the JWT was issued for */
+  subject: string;
+  /** Key that signed the JWT - the account or one of its signing keys */
+  issuer: string;
+  /** Account public key when the JWT was signed by a signing key */
+  issuerAccount?: string;
+  /** JWT ID */
+  id?: string;
+  issuedAt?: number;
+  expiresAt?: number;
+  notBefore?: number;
+  pub: NatsSubjectPermission;
+  sub: NatsSubjectPermission;
+  /** Replies allowed to received requests without explicit publish permission */
+  resp?: {
+    /** Replies per request */
+    max: number;
+    /** How long the reply permission lasts, in milliseconds */
+    ttl: number;
+  };
+  limits: {
+    subs: number;
+    data: number;
+    payload: number;
+  };
+  tags: string[];
+  /** The server does not require the seed to sign the nonce */
+  bearerToken: boolean;
 }
 
 /**
@@ -53,10 +103,54 @@ export interface UserPassCredential extends BaseCredential {
   password: string;
 }
 
+/**
+ * Token authentication
+ */
+export interface TokenCredential extends BaseCredential {
+  /** Authentication type discriminator */
+  authType: "token";
+  /** Token configured on the server */
+  token: string;
+}
+
+/**
+ * Bare NKey authentication (a user seed without a JWT)
+ */
+export interface NKeyCredential extends BaseCredential {
+  /** Authentication type discriminator */
+  authType: "nkey";
+  /** NKey seed (private key material) - handle with care */
+  seed: Uint8Array;
+  /** Derived public key (starts with 'U' for user) */
+  publicKey: string;
+}
+
+/**
+ * User JWT whose nonce is signed elsewhere (a backend endpoint or a custom
+ * signer), so the seed never reaches the browser
+ */
+export interface JwtSignerCredential extends BaseCredential {
+  /** Authentication type discriminator */
+  authType: "jwtsigner";
+  /** User JWT */
+  jwt: string;
+  /** User public key the JWT was issued for */
+  publicKey: string;
+  /** Endpoint that signs the server nonce for this user */
+  signerUrl: string;
+  /** Claims decoded from the user JWT (not verified) */
+  claims?: NatsUserClaims;
+}
+
 /**
  * Union type for all credential types
  */
-export type Credential = CredsFileCredential | UserPassCredential;
+export type Credential =
+  | CredsFileCredential
+  | UserPassCredential
+  | TokenCredential
+  | NKeyCredential
+  | JwtSignerCredential;
 
 /**
  * Type guard for credential file credentials
@@ -72,6 +166,27 @@ export function isUserPassCredential(cred: Credential): cred is UserPassCredenti
   return cred.authType === "userpass";
 }
 
+/**
+ * Type guard for token credentials
+ */
+export function isTokenCredential(cred: Credential): cred is TokenCredential {
+  return cred.authType === "token";
+}
+
+/**
+ * Type guard for bare NKey credentials
+ */
+export function isNKeyCredential(cred: Credential): cred is NKeyCredential {
+  return cred.authType === "nkey";
+}
+
+/**
+ * Type guard for JWT credentials with a remote nonce signer
+ */
+export function isJwtSignerCredential(cred: Credential): cred is JwtSignerCredential {
+  return cred.authType === "jwtsigner";
+}
+
 /**
  * Credential status in the loading lifecycle
  */
@@ -91,10 +206,90 @@ export interface StoredCredential {
   iterations: number;
   /** Timestamp when stored */
   storedAt: number;
-  /** Associated NATS server URL */
-  serverUrl: string;
+  /** Associated NATS server URLs, in failover order */
+  serverUrls: string[];
   /** Authentication type used */
   authType: AuthType;
+  /** Display name shown in the account switcher */
+  label: string;
+  /** Whether AutoConnect uses this credential */
+  isDefault: boolean;
+  /** Hash of the identity and servers, used to update instead of duplicating */
+  fingerprint?: string;
+  /** Key the credential is encrypted with (default: device) */
+  keyMode?: CredentialKeyMode;
+  /** Passphrase mode: unlock methods that unwrap the vault key it is encrypted with */
+  keyWrapping?: KeyWrappingScheme[];
+}
+
+/**
+ * Source of the credential encryption key: derived from browser properties,
+ * or from a passphrase the user enters to unlock the vault
+ */
+export type CredentialKeyMode = "device" | "passphrase";
+
+/**
+ * Way the vault key is wrapped: with a passphrase-derived key, or with a key
+ * derived from a platform authenticator's WebAuthn PRF output
+ */
+export type KeyWrappingScheme = "passphrase" | "webauthn-prf";
+
+/**
+ * Platform authenticator enrolled to unlock the vault
+ */
+export interface VaultAuthenticator {
+  /** Base64url WebAuthn credential ID */
+  id: string;
+  label: string;
+  createdAt: number;
+}
+
+/**
+ * Lock state of the credential vault
+ */
+export interface VaultStatus {
+  /** Key source for newly stored credentials */
+  mode: CredentialKeyMode;
+  /** Passphrase mode only: the passphrase has not been entered yet */
+  locked: boolean;
+  /** Minutes of inactivity before the vault locks again (0 = never) */
+  autoLockMinutes: number;
+  /** Ways to unlock; the passphrase is always among them */
+  unlockMethods: KeyWrappingScheme[];
+  /** Enrolled platform authenticators */
+  authenticators: VaultAuthenticator[];
+}
+
+/**
+ * Trust anchors for verifying credential files before connecting.
+ * The account JWTs are needed because a .creds file only holds the user JWT.
+ */
+export interface CredentialTrustConfig {
+  /** Operator public keys (or operator signing keys) that may sign account JWTs */
+  operators: string[];
+  /** Account JWTs of the accounts users may belong to */
+  accountJwts: string[];
+}
+
+/**
+ * Where a credential is in its lifetime
+ * - valid: no expiry, or expiry further away than the first warning
+ * - expiring: a warning lead time has passed
+ * - expired: the JWT is past its `exp` claim
+ */
+export type CredentialExpiryStage = "valid" | "expiring" | "expired";
+
+/**
+ * Expiry of the active credential, as tracked by the expiry monitor
+ */
+export interface CredentialExpiryState {
+  /** Credential being tracked (null when none is loaded) */
+  credentialId: string | null;
+  /** JWT expiry in milliseconds since the epoch (null if it never expires) */
+  expiresAt: number | null;
+  stage: CredentialExpiryStage;
+  /** Lead time (ms) of the last warning that fired; a new one re-opens dismissed banners */
+  warningLeadTime: number | null;
 }
 
 // =============================================================================
@@ -117,6 +312,8 @@ export type ConnectionStatus =
 export type ConnectionErrorCode =
   | "INVALID_CREDENTIAL" // Credential file format error
   | "AUTH_FAILED" // Server rejected authentication
+  | "CREDENTIAL_EXPIRED" // User JWT has expired
+  | "UNTRUSTED_CREDENTIAL" // JWT chain does not verify against the trusted operators
   | "CONNECTION_REFUSED" // Server unreachable
   | "CONNECTION_TIMEOUT" // Connection timed out
   | "PERMISSION_DENIED" // User lacks permissions
@@ -137,6 +334,17 @@ export interface ConnectionError {
   timestamp: number;
   /** Whether the system can auto-recover */
   recoverable: boolean;
+  /** PERMISSION_DENIED only: the operation the server rejected */
+  permission?: PermissionViolation;
+}
+
+/**
+ * Publish or subscription the server rejected for lack of permission
+ */
+export interface PermissionViolation {
+  operation: "publish" | "subscription";
+  subject: string;
+  queue?: string;
 }
 
 /**
@@ -145,8 +353,10 @@ export interface ConnectionError {
 export interface Connection {
   /** Current connection status */
   status: ConnectionStatus;
-  /** Connected NATS server URL */
+  /** NATS server (cluster member) the client is currently connected to */
   serverUrl: string;
+  /** Known servers: configured ones in failover order, then cluster-advertised ones */
+  servers: string[];
   /** Timestamp when connection was established */
   connectedAt: number | null;
   /** Current reconnection attempt number */
@@ -219,7 +429,8 @@ export type AuthAction =
   | { type: "LOAD_CREDENTIAL_SUCCESS"; payload: Credential }
   | { type: "LOAD_CREDENTIAL_ERROR"; payload: ConnectionError }
   | { type: "SET_CONNECTING" }
-  | { type: "SET_CONNECTED"; payload: { serverUrl: string } }
+  | { type: "SET_CONNECTED"; payload: { serverUrl: string; servers: string[] } }
+  | { type: "SET_SERVERS"; payload: { serverUrl?: string; servers: string[] } }
   | { type: "SET_RECONNECTING"; payload: { attempt: number } }
   | { type: "SET_DISCONNECTED" }
   | { type: "SET_FAILED"; payload: ConnectionError }
@@ -271,8 +482,8 @@ export interface TabSyncMessage {
  * NATS connection options
  */
 export interface NatsConnectionOptions {
-  /** NATS server URL (wss://) */
-  serverUrl: string;
+  /** NATS server URLs (wss://), tried in order */
+  servers: string[];
   /** Credential for authentication */
   credential: Credential;
   /** Connection timeout in ms */
@@ -297,10 +508,33 @@ export interface CredentialStorageOptions {
   iterations?: number;
 }
 
+/**
+ * Options when storing a credential in the vault
+ */
+export interface StoreCredentialOptions {
+  /** Display name (default: derived from the identity and first server) */
+  label?: string;
+  /** Use this credential for AutoConnect (default: keep, or true for the first one) */
+  makeDefault?: boolean;
+}
+
 // =============================================================================
 // Component Props Types
 // =============================================================================
 
+/**
+ * Subjects and commands the user's JWT must allow. Checked against the
+ * credential's pub/sub claims; users without claims pass every check.
+ */
+export interface PermissionRequirement {
+  /** Subjects the user must be allowed to publish to */
+  publish?: string | string[];
+  /** Subjects the user must be allowed to subscribe to */
+  subscribe?: string | string[];
+  /** Commands the user must be allowed to send */
+  command?: CommandType | CommandType[];
+}
+
 /**
  * Props for ProtectedRoute component
  */
@@ -309,6 +543,8 @@ export interface ProtectedRouteProps {
   children: React.ReactNode;
   /** Where to redirect if not authenticated */
   redirectTo?: string;
+  /** Permissions needed to view the route; shows an access notice otherwise */
+  requiredPermission?: PermissionRequirement;
 }
 
 /**
@@ -317,6 +553,8 @@ export interface ProtectedRouteProps {
 export interface ConnectionStatusProps {
   /** Current connection state */
   status: ConnectionStatus;
+  /** Cluster member currently in use (shown as a tooltip) */
+  server?: string | null;
   /** Optional additional CSS classes */
   className?: string;
 }
@@ -0,0 +1,152 @@
+/**
+ * NATS System Monitoring Types
+ *
+ * Responses of the `$SYS.REQ.*` system request subjects. Only the fields the
+ * monitoring page reads are declared; the server sends more.
+ */
+
+// =============================================================================
+// Envelope
+// =============================================================================
+
+/** Server that answered a system request */
+export interface SystemServerInfo {
+  name: string;
+  host: string;
+  id: string;
+  cluster?: string;
+  domain?: string;
+  ver: string;
+  jetstream: boolean;
+  time: string;
+}
+
+/** Every system response wraps its data with the answering server */
+export interface SystemResponse<T> {
+  server: SystemServerInfo;
+  data?: T;
+  error?: { code: number; description: string };
+}
+
+export interface MessageTotals {
+  msgs: number;
+  bytes: number;
+}
+
+// =============================================================================
+// Server Endpoints
+// =============================================================================
+
+/** $SYS.REQ.SERVER.PING (server statsz) */
+export interface ServerStatsz {
+  start: string;
+  mem: number;
+  cores: number;
+  cpu: number;
+  connections: number;
+  total_connections: number;
+  active_accounts: number;
+  subscriptions: number;
+  sent: MessageTotals;
+  received: MessageTotals;
+  slow_consumers: number;
+}
+
+/** $SYS.REQ.SERVER.PING.VARZ */
+export interface Varz {
+  server_id: string;
+  server_name: string;
+  version: string;
+  uptime: string;
+  mem: number;
+  cpu: number;
+  cores: number;
+  connections: number;
+  total_connections: number;
+  subscriptions: number;
+  in_msgs: number;
+  out_msgs: number;
+  in_bytes: number;
+  out_bytes: number;
+  slow_consumers: number;
+}
+
+export interface ConnectionInfo {
+  cid: number;
+  ip: string;
+  port: number;
+  start: string;
+  last_activity: string;
+  rtt?: string;
+  uptime: string;
+  idle: string;
+  pending_bytes: number;
+  in_msgs: number;
+  out_msgs: number;
+  in_bytes: number;
+  out_bytes: number;
+  subscriptions: number;
+  name?: string;
+  lang?: string;
+  version?: string;
+  account?: string;
+}
+
+/** $SYS.REQ.SERVER.PING.CONNZ and $SYS.REQ.ACCOUNT.PING.CONNZ */
+export interface Connz {
+  server_id: string;
+  now: string;
+  num_connections: number;
+  total: number;
+  connections: ConnectionInfo[];
+}
+
+/** $SYS.REQ.SERVER.PING.SUBSZ */
+export interface Subsz {
+  server_id: string;
+  num_subscriptions: number;
+  num_cache: number;
+  num_inserts: number;
+  num_removes: number;
+  num_matches: number;
+  cache_hit_rate: number;
+  max_fanout: number;
+  avg_fanout: number;
+}
+
+/** $SYS.REQ.SERVER.PING.JSZ */
+export interface Jsz {
+  server_id: string;
+  disabled?: boolean;
+  memory: number;
+  storage: number;
+  accounts: number;
+  ha_assets: number;
+  streams: number;
+  consumers: number;
+  messages: number;
+  bytes: number;
+  api: { total: number; errors: number };
+}
+
+// =============================================================================
+// Account Endpoints
+// =============================================================================
+
+export interface AccountStat {
+  acc: string;
+  conns: number;
+  leafnodes: number;
+  total_conns: number;
+  num_subscriptions: number;
+  sent: MessageTotals;
+  received: MessageTotals;
+  slow_consumers: number;
+}
+
+/** $SYS.REQ.ACCOUNT.PING.STATZ */
+export interface AccountStatz {
+  server_id: string;
+  now: string;
+  account_statz: AccountStat[];
+}
@@ -6,7 +6,8 @@
  * These types define the application state structure and sync status.
  */
 
-import type { Notification, Session, User } from "./events";
+import type { AppEvent, Notification, Session, User } from "./events";
+import type { Credential, PermissionViolation } from "./index";
 
 // =============================================================================
 // Application State
@@ -34,6 +35,22 @@ export const INITIAL_APP_STATE: AppState = {
   syncStatus: "syncing",
 };
 
+// =============================================================================
+// KV State Changes
+// =============================================================================
+
+/**
+ * A change to one state slice, read from a KV bucket that holds the
+ * materialized state (see services/nats/kvState.ts for the key layout)
+ */
+export type KvStateChange =
+  | { slice: "user"; op: "put"; value: User }
+  | { slice: "user"; op: "delete" }
+  | { slice: "sessions"; op: "put"; id: string; value: Session }
+  | { slice: "sessions"; op: "delete"; id: string }
+  | { slice: "notifications"; op: "put"; id: string; value: Notification }
+  | { slice: "notifications"; op: "delete"; id: string };
+
 // =============================================================================
 // Theme
 // =============================================================================
@@ -61,6 +78,7 @@ export interface ConnectionError {
   code: string;
   message: string;
   recoverable: boolean;
+  permission?: PermissionViolation;
 }
 
 export interface ConnectionState {
@@ -79,7 +97,14 @@ export type TabSyncMessageType =
   | "STATE_INVALIDATED"
   | "THEME_CHANGED"
   | "LOGOUT"
-  | "CONNECTION_STATUS_CHANGED";
+  | "CONNECTION_STATUS_CHANGED"
+  | "CONNECTION_STATUS_REQUESTED"
+  | "CONNECT_REQUESTED"
+  | "CONNECT_REJECTED"
+  | "CREDENTIAL_REPLACED"
+  | "DISCONNECT_REQUESTED"
+  | "NATS_REQUEST"
+  | "NATS_RESPONSE";
 
 export interface TabSyncMessage<T = unknown> {
   type: TabSyncMessageType;
@@ -88,8 +113,17 @@ export interface TabSyncMessage<T = unknown> {
   payload?: T;
 }
 
+/**
+ * A change another tab applied, so receivers can apply it without reloading
+ */
+export type StatePatch = { type: "event"; event: AppEvent } | { type: "kv"; change: KvStateChange };
+
 export interface StateInvalidatedPayload {
   keys: Array<"user" | "sessions" | "notifications">;
+  /** Per-tab counter; a gap means an earlier invalidation was missed */
+  sequence: number;
+  /** The change itself (absent when the whole state was replaced) */
+  patch?: StatePatch;
 }
 
 export interface ThemeChangedPayload {
@@ -99,6 +133,66 @@ export interface ThemeChangedPayload {
 
 export interface ConnectionStatusPayload {
   status: ConnectionStatus;
+  /** Connection event of the leader tab that caused the change */
+  event?: string;
+  /** Server the leader tab is connected to */
+  server?: string | null;
+  /** Servers known to the leader tab */
+  servers?: string[];
+  reconnectAttempt?: number;
+  error?: ConnectionError;
+}
+
+export interface ConnectRequestedPayload {
+  /** Echoed by CONNECT_REJECTED so only the requesting tab reacts */
+  requestId: string;
+  /** Credential of the requesting tab (only sent over BroadcastChannel) */
+  credential: Credential;
+  servers: string[];
+}
+
+/**
+ * The leader tab is connected as a different user than the requesting tab
+ */
+export interface ConnectRejectedPayload {
+  requestId: string;
+  error: ConnectionError;
+}
+
+export interface CredentialReplacedPayload {
+  /** Renewed credential for the shared connection (only sent over BroadcastChannel) */
+  credential: Credential;
+}
+
+export interface NatsRequestPayload {
+  requestId: string;
+  subject: string;
+  /** Base64-encoded request body */
+  data: string;
+  headers?: Record<string, string>;
+  timeoutMs: number;
+}
+
+/**
+ * Kind of a failed request, so the follower can rebuild the leader's error
+ */
+export type NatsRequestErrorKind = "permission" | "timeout" | "no_responders" | "error";
+
+export interface NatsResponsePayload {
+  requestId: string;
+  /** Base64-encoded response body */
+  data?: string;
+  /** Reply headers */
+  headers?: Record<string, string>;
+  /** Error message if the request failed */
+  error?: string;
+  errorKind?: NatsRequestErrorKind;
+  /** errorKind "permission" only: what the server rejected */
+  permission?: {
+    operation: "publish" | "subscription";
+    subject: string;
+    queue?: string;
+  };
 }
 
 // =============================================================================
@@ -114,4 +208,8 @@ export const NATS_DEFAULTS = {
   RECONNECT_TIMEOUT_MS: 10000,
   /** Stale threshold - when to show staleness indicator */
   STALE_THRESHOLD_MS: 30000,
+  /** How long an acknowledged optimistic update waits for its event before reverting */
+  OPTIMISTIC_RECONCILE_TIMEOUT_MS: 10000,
+  /** How long the nonce signer may take before the connection attempt fails */
+  SIGNER_TIMEOUT_MS: 5000,
 } as const;
@@ -8,6 +8,10 @@ const ERROR_MESSAGES: Record<ConnectionErrorCode, string> = {
     "The credential file appears to be invalid. Please ensure you're uploading a valid NATS .creds file.",
   AUTH_FAILED:
     "Authentication failed. Your credentials may have expired or been revoked. Please contact your NATS administrator.",
+  CREDENTIAL_EXPIRED:
+    "Your credential has expired. Please upload a renewed credential file to continue.",
+  UNTRUSTED_CREDENTIAL:
+    "The credential file was not issued by a trusted operator for this application. Please use a credential issued for this server.",
   CONNECTION_REFUSED:
     "Unable to connect to the NATS server. Please check your network connection and try again.",
   CONNECTION_TIMEOUT:
@@ -50,6 +54,10 @@ export function mapErrorToCode(error: unknown): ConnectionErrorCode {
   if (error instanceof Error) {
     const message = error.message.toLowerCase();
 
+    // The server reports "user authentication expired" - check before AUTH_FAILED
+    if (message.includes("expired")) {
+      return "CREDENTIAL_EXPIRED";
+    }
     if (message.includes("authorization") || message.includes("authentication")) {
       return "AUTH_FAILED";
     }
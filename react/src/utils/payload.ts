@@ -0,0 +1,100 @@
+/**
+ * Message Payload Formatting
+ *
+ * Renders raw NATS message payloads for inspection as JSON, text or a hex dump.
+ */
+
+export type PayloadFormat = "json" | "text" | "hex";
+
+/** Bytes shown in a hex dump before it is truncated */
+const MAX_HEX_BYTES = 4096;
+
+const BYTES_PER_LINE = 16;
+
+/**
+ * Decode a payload as UTF-8, or null if it is not valid UTF-8 text
+ */
+export function decodeText(data: Uint8Array): string | null {
+  // Control characters other than whitespace mark binary data
+  if (data.some((byte) => byte < 0x09 || (byte > 0x0d && byte < 0x20))) {
+    return null;
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a payload as JSON, or undefined if it is not JSON
+ */
+export function decodeJson(data: Uint8Array): unknown {
+  const text = decodeText(data);
+  if (text === null || text.trim() === "") {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Pick the most readable format for a payload
+ */
+export function detectPayloadFormat(data: Uint8Array): PayloadFormat {
+  if (decodeJson(data) !== undefined) return "json";
+  if (decodeText(data) !== null) return "text";
+  return "hex";
+}
+
+/**
+ * Render a payload in a format. Payloads that cannot be shown as JSON or text
+ * fall back to the next format that fits.
+ */
+export function formatPayload(data: Uint8Array, format: PayloadFormat): string {
+  if (format === "json") {
+    const json = decodeJson(data);
+    if (json !== undefined) return JSON.stringify(json, null, 2);
+  }
+  if (format !== "hex") {
+    const text = decodeText(data);
+    if (text !== null) return text;
+  }
+  return hexDump(data);
+}
+
+/**
+ * Hex dump with offsets and printable ASCII, like `hexdump -C`
+ */
+export function hexDump(data: Uint8Array): string {
+  const lines: string[] = [];
+  const length = Math.min(data.length, MAX_HEX_BYTES);
+
+  for (let offset = 0; offset < length; offset += BYTES_PER_LINE) {
+    const bytes = Array.from(data.subarray(offset, Math.min(offset + BYTES_PER_LINE, length)));
+    const hex = bytes.map((byte) => byte.toString(16).padStart(2, "0")).join(" ");
+    const ascii = bytes
+      .map((byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : "."))
+      .join("");
+    lines.push(
+      `${offset.toString(16).padStart(8, "0")}  ${hex.padEnd(BYTES_PER_LINE * 3 - 1)}  |${ascii}|`
+    );
+  }
+
+  if (data.length > MAX_HEX_BYTES) {
+    lines.push(`... ${data.length - MAX_HEX_BYTES} more bytes`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Human-readable byte size
+ */
+export function formatBytes(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
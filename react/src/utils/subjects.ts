@@ -6,50 +6,39 @@
  * Provides type-safe subject generation for NATS events, commands, and state requests.
  */
 
+import { getRuntimeConfig } from "@/config/runtime";
+
 export interface NatsSubjectConfig {
   namespace: string;
 }
 
 /**
- * Creates NATS subject builders for the given namespace.
+ * Creates the namespace-wide NATS subjects.
  *
- * Subject pattern: `{namespace}.{category}.{domain}.{action}`
+ * Subject pattern: `{namespace}.{category}.{domain}.{action}`. The subjects of
+ * single commands come from the domain modules (see `commandSubject`).
  *
  * @param namespace - The namespace prefix (default: 'app')
- * @returns Object with subject builders for events, commands, and state
+ * @returns Object with the event and state subjects
  */
 export const createSubjects = (namespace: string) => ({
   events: {
     /** Wildcard subscription for all events: `{namespace}.events.>` */
     all: `${namespace}.events.>`,
-    user: {
-      updated: `${namespace}.events.user.updated`,
-    },
-    session: {
-      created: `${namespace}.events.session.created`,
-      expired: `${namespace}.events.session.expired`,
-    },
-    notification: {
-      received: `${namespace}.events.notification.received`,
-      read: `${namespace}.events.notification.read`,
-      dismissed: `${namespace}.events.notification.dismissed`,
-    },
-  },
-  commands: {
-    user: {
-      updateProfile: `${namespace}.commands.user.updateProfile`,
-    },
-    notification: {
-      dismiss: `${namespace}.commands.notification.dismiss`,
-      markRead: `${namespace}.commands.notification.markRead`,
-      markAllRead: `${namespace}.commands.notification.markAllRead`,
-    },
   },
   state: {
     get: `${namespace}.state.get`,
   },
 });
 
+/**
+ * Full subject of a command declared in a domain module.
+ *
+ * @example commandSubject("app", "user.updateProfile") // "app.commands.user.updateProfile"
+ */
+export const commandSubject = (namespace: string, subject: string): string =>
+  `${namespace}.commands.${subject}`;
+
 /** Type of the subjects object returned by createSubjects */
 export type NatsSubjects = ReturnType<typeof createSubjects>;
 
@@ -59,13 +48,28 @@ export const DEFAULT_NAMESPACE = "app";
 /** NATS system subjects for built-in endpoints */
 export const NATS_SYSTEM_SUBJECTS = {
   userInfo: "$SYS.REQ.USER.INFO",
+  // Answered by every server in the cluster (system account only)
+  serverPing: "$SYS.REQ.SERVER.PING",
+  serverVarz: "$SYS.REQ.SERVER.PING.VARZ",
+  serverConnz: "$SYS.REQ.SERVER.PING.CONNZ",
+  serverSubsz: "$SYS.REQ.SERVER.PING.SUBSZ",
+  serverJsz: "$SYS.REQ.SERVER.PING.JSZ",
+  // Answered for the requester's own account
+  accountConnz: "$SYS.REQ.ACCOUNT.PING.CONNZ",
+  accountStatz: "$SYS.REQ.ACCOUNT.PING.STATZ",
+} as const;
+
+/** JetStream API subjects of stream operations, for permission checks */
+export const JETSTREAM_API_SUBJECTS = {
+  streamPurge: (stream: string) => `$JS.API.STREAM.PURGE.${stream}`,
+  messageDelete: (stream: string) => `$JS.API.STREAM.MSG.DELETE.${stream}`,
 } as const;
 
 /**
- * Gets the namespace from environment or uses default.
+ * Gets the namespace from the runtime config (VITE_NATS_NAMESPACE by default).
  */
 export function getNamespace(): string {
-  return import.meta.env.VITE_NATS_NAMESPACE || DEFAULT_NAMESPACE;
+  return getRuntimeConfig().namespace || DEFAULT_NAMESPACE;
 }
 
 /**
@@ -74,3 +78,51 @@ export function getNamespace(): string {
 export function createDefaultSubjects(): NatsSubjects {
   return createSubjects(getNamespace());
 }
+
+/**
+ * Check whether a subject matches a pattern with NATS wildcards: `*` matches
+ * one token and `>` one or more trailing tokens. A wildcard in the subject
+ * (e.g. of a subscription) only matches a pattern that covers it.
+ *
+ * @example subjectMatches("app.events.>", "app.events.user.updated") // true
+ */
+export const subjectMatches = (pattern: string, subject: string): boolean => {
+  const patternTokens = pattern.split(".");
+  const subjectTokens = subject.split(".");
+
+  for (let i = 0; i < patternTokens.length; i++) {
+    const token = patternTokens[i];
+    if (token === ">") {
+      return subjectTokens.length > i;
+    }
+    if (i >= subjectTokens.length) {
+      return false;
+    }
+    if (token === "*") {
+      if (subjectTokens[i] === ">") return false;
+      continue;
+    }
+    if (token !== subjectTokens[i]) {
+      return false;
+    }
+  }
+
+  return patternTokens.length === subjectTokens.length;
+};
+
+/**
+ * Check whether a subject is valid, optionally with wildcards: no empty
+ * tokens or whitespace, and `>` only as the last token.
+ *
+ * @example isValidSubject("app.events.>", true) // true
+ */
+export const isValidSubject = (subject: string, allowWildcards = false): boolean => {
+  const tokens = subject.split(".");
+  return tokens.every((token, index) => {
+    if (token === "" || /\s/.test(token)) return false;
+    if (token === "*" || token === ">") {
+      return allowWildcards && (token === "*" || index === tokens.length - 1);
+    }
+    return true;
+  });
+};
@@ -0,0 +1,27 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { ConfigError } from "@/components/ConfigError";
+
+describe("ConfigError", () => {
+  it("lists every problem with the configuration file", () => {
+    render(
+      <ConfigError
+        errors={['Unknown setting "server".', '"timeouts.connectMs" must be a positive number.']}
+      />
+    );
+
+    const alert = screen.getByRole("alert");
+    expect(alert).toHaveTextContent("Configuration error");
+    expect(alert).toHaveTextContent("/config.json");
+    expect(screen.getAllByRole("listitem").map((item) => item.textContent)).toEqual([
+      'Unknown setting "server".',
+      '"timeouts.connectMs" must be a positive number.',
+    ]);
+  });
+
+  it("offers a reload, e.g. after a network failure", () => {
+    render(<ConfigError errors={["Could not load /config.json: Failed to fetch"]} />);
+
+    expect(screen.getByRole("button", { name: "Reload" })).toBeInTheDocument();
+  });
+});
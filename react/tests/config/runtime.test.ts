@@ -0,0 +1,363 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createAccount, createOperator } from "@nats-io/nkeys";
+import {
+  getCredentialTrustConfig,
+  getDefaultAutoLockMinutes,
+  getExpiryWarningLeadTimes,
+  getSignerUrl,
+} from "@/config/auth";
+import {
+  getRuntimeConfig,
+  getRuntimeConfigStore,
+  resetRuntimeConfigStore,
+  validateRuntimeConfig,
+} from "@/config/runtime";
+
+describe("validateRuntimeConfig", () => {
+  it("accepts a complete configuration", () => {
+    const result = validateRuntimeConfig({
+      servers: ["wss://a.example.com", " wss://b.example.com:9443 "],
+      namespace: "acme.prod",
+      authTypes: ["userpass", "credsfile", "userpass"],
+      timeouts: { connectMs: 5000, commandMs: 2000 },
+      features: {
+        sharedConnection: true,
+        eventsStream: "APP_EVENTS",
+        avatarBucket: null,
+        stateSource: { type: "kv", bucket: " app-state ", prefix: "users.alice." },
+        payloadCodecs: [{ subject: "acme.events.billing.> ", codec: "msgpack" }],
+      },
+      remote: { bucket: "config", key: "web" },
+    });
+
+    expect(result).toEqual({
+      success: true,
+      overrides: {
+        servers: ["wss://a.example.com", "wss://b.example.com:9443"],
+        namespace: "acme.prod",
+        authTypes: ["userpass", "credsfile"],
+        timeouts: { connectMs: 5000, commandMs: 2000 },
+        features: {
+          sharedConnection: true,
+          eventsStream: "APP_EVENTS",
+          avatarBucket: null,
+          stateSource: { type: "kv", bucket: "app-state", prefix: "users.alice" },
+          payloadCodecs: [{ subject: "acme.events.billing.>", codec: "msgpack" }],
+        },
+        remote: { bucket: "config", key: "web" },
+      },
+    });
+  });
+
+  it("accepts an empty configuration and a single server", () => {
+    expect(validateRuntimeConfig({})).toEqual({ success: true, overrides: {} });
+    expect(validateRuntimeConfig({ servers: "wss://a.example.com" })).toEqual({
+      success: true,
+      overrides: { servers: ["wss://a.example.com"] },
+    });
+  });
+
+  it.each([
+    [null, "The configuration must be a JSON object."],
+    [[], "The configuration must be a JSON object."],
+    ["wss://a.example.com", "The configuration must be a JSON object."],
+    [{ server: "wss://a.example.com" }, 'Unknown setting "server".'],
+    [{ servers: [] }, '"servers" must be a non-empty list of ws:// or wss:// URLs.'],
+    [{ servers: ["https://a.example.com"] }, '"servers" must be a non-empty list'],
+    [{ namespace: "app.>" }, '"namespace" must be a subject prefix without wildcards'],
+    [{ namespace: "my app" }, '"namespace" must be a subject prefix without wildcards'],
+    [{ namespace: "app." }, '"namespace" must be a subject prefix without wildcards'],
+    [{ authTypes: ["oauth"] }, '"authTypes" must be a non-empty list of: credsfile'],
+    [{ authTypes: [] }, '"authTypes" must be a non-empty list of'],
+    [{ timeouts: 5000 }, '"timeouts" must be an object.'],
+    [{ timeouts: { connectMs: 0 } }, '"timeouts.connectMs" must be a positive number'],
+    [{ timeouts: { connectMs: "5000" } }, '"timeouts.connectMs" must be a positive number'],
+    [{ timeouts: { connectMS: 5000 } }, 'Unknown setting "timeouts.connectMS".'],
+    [{ features: [] }, '"features" must be an object.'],
+    [{ features: { sharedConnection: "yes" } }, '"features.sharedConnection" must be true'],
+    [{ features: { eventsStream: "" } }, '"features.eventsStream" must be a stream name'],
+    [{ features: { avatarBucket: 1 } }, '"features.avatarBucket" must be an Object Store'],
+    [{ features: { stateSource: { type: "kv" } } }, '"features.stateSource" must be'],
+    [{ features: { payloadCodecs: [{ subject: "a.>", codec: "xml" }] } }, "payloadCodecs"],
+    [{ features: { darkMode: true } }, 'Unknown setting "features.darkMode".'],
+    [{ remote: { bucket: "config" } }, '"remote" must be null or'],
+  ])("rejects %j", (input, error) => {
+    const result = validateRuntimeConfig(input);
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors.join("\n")).toContain(error);
+  });
+
+  it("reports every problem at once", () => {
+    const result = validateRuntimeConfig({
+      servers: [],
+      timeouts: { connectMs: -1, pingMs: 1 },
+      extra: true,
+    });
+    expect(!result.success && result.errors).toHaveLength(4);
+  });
+
+  it("limits remote overrides to timeouts and features", () => {
+    expect(
+      validateRuntimeConfig({ timeouts: { commandMs: 1000 }, features: {} }, "remote")
+    ).toEqual({ success: true, overrides: { timeouts: { commandMs: 1000 }, features: {} } });
+    expect(validateRuntimeConfig({ servers: ["wss://evil.example.com"] }, "remote")).toEqual({
+      success: false,
+      errors: ['"servers" cannot be set remotely; set it in config.json.'],
+    });
+  });
+});
+
+describe("credential settings", () => {
+  const operator = createOperator().getPublicKey();
+  const accountJwt = "eyJ0eXAiOiJKV1QifQ.eyJzdWIiOiJBIn0.c2ln";
+
+  it("accepts valid settings", () => {
+    expect(
+      validateRuntimeConfig({
+        auth: {
+          signerUrl: " https://signer.staging.example.com/sign-nonce ",
+          autoLockMinutes: 0,
+          expiryWarningMinutes: [5, 1440, 60, 5],
+          trustedOperators: [` ${operator}`],
+          accountJwts: [accountJwt],
+        },
+      })
+    ).toEqual({
+      success: true,
+      overrides: {
+        auth: {
+          signerUrl: "https://signer.staging.example.com/sign-nonce",
+          autoLockMinutes: 0,
+          expiryWarningMinutes: [1440, 60, 5],
+          trustedOperators: [operator],
+          accountJwts: [accountJwt],
+        },
+      },
+    });
+    expect(validateRuntimeConfig({ auth: { signerUrl: "/api/sign-nonce" } }).success).toBe(true);
+    expect(validateRuntimeConfig({ auth: { expiryWarningMinutes: [] } }).success).toBe(true);
+  });
+
+  it.each([
+    [{ auth: [] }, '"auth" must be an object.'],
+    [{ auth: { signerUrl: "" } }, '"auth.signerUrl" must be an http:// or https:// URL or a path.'],
+    [{ auth: { signerUrl: "signer.example.com" } }, '"auth.signerUrl" must be an http://'],
+    [{ auth: { signerUrl: "javascript:alert(1)" } }, '"auth.signerUrl" must be an http://'],
+    [{ auth: { autoLockMinutes: -1 } }, '"auth.autoLockMinutes" must be a number of minutes'],
+    [{ auth: { autoLockMinutes: "15" } }, '"auth.autoLockMinutes" must be a number of minutes'],
+    [{ auth: { expiryWarningMinutes: 60 } }, '"auth.expiryWarningMinutes" must be a list'],
+    [{ auth: { expiryWarningMinutes: [60, 0] } }, '"auth.expiryWarningMinutes" must be a list'],
+    [{ auth: { trustedOperators: "OABC" } }, '"auth.trustedOperators" must be a list'],
+    [{ auth: { trustedOperators: ["OABC"] } }, '"auth.trustedOperators" must be a list'],
+    [
+      { auth: { trustedOperators: [createAccount().getPublicKey()] } },
+      '"auth.trustedOperators" must be a list',
+    ],
+    [
+      { auth: { accountJwts: ["not-a-jwt"] } },
+      '"auth.accountJwts" must be a list of account JWTs.',
+    ],
+    [{ auth: { signerURL: "/sign" } }, 'Unknown setting "auth.signerURL".'],
+  ])("rejects %j", (input, error) => {
+    const result = validateRuntimeConfig(input);
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors.join("\n")).toContain(error);
+  });
+
+  describe("signer URL", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      resetRuntimeConfigStore();
+    });
+
+    it("defaults to the dev server's mock signer in development", () => {
+      vi.stubEnv("DEV", true);
+      resetRuntimeConfigStore();
+
+      expect(getSignerUrl()).toBe("/dev/sign-nonce");
+    });
+
+    it("is not configured in production builds without one", () => {
+      vi.stubEnv("DEV", false);
+      resetRuntimeConfigStore();
+
+      expect(getSignerUrl()).toBeNull();
+    });
+
+    it("uses VITE_NATS_SIGNER_URL", () => {
+      vi.stubEnv("DEV", false);
+      vi.stubEnv("VITE_NATS_SIGNER_URL", "https://signer.example.com/sign");
+      resetRuntimeConfigStore();
+
+      expect(getSignerUrl()).toBe("https://signer.example.com/sign");
+    });
+  });
+
+  it("cannot be set remotely", () => {
+    expect(validateRuntimeConfig({ auth: { trustedOperators: [] } }, "remote")).toEqual({
+      success: false,
+      errors: ['"auth" cannot be set remotely; set it in config.json.'],
+    });
+  });
+
+  describe("from config.json", () => {
+    beforeEach(() => {
+      resetRuntimeConfigStore();
+      vi.stubGlobal(
+        "fetch",
+        vi.fn<typeof fetch>().mockResolvedValue(
+          Response.json({
+            auth: {
+              signerUrl: "https://signer.example.com/sign",
+              autoLockMinutes: 30,
+              expiryWarningMinutes: [10, 120],
+              trustedOperators: [operator],
+              accountJwts: [accountJwt],
+            },
+          })
+        )
+      );
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("replaces the build-time values", async () => {
+      expect(getCredentialTrustConfig()).toBeNull();
+
+      await getRuntimeConfigStore().load("/config.json");
+
+      expect(getSignerUrl()).toBe("https://signer.example.com/sign");
+      expect(getDefaultAutoLockMinutes()).toBe(30);
+      expect(getExpiryWarningLeadTimes()).toEqual([120 * 60_000, 10 * 60_000]);
+      expect(getCredentialTrustConfig()).toEqual({
+        operators: [operator],
+        accountJwts: [accountJwt],
+      });
+    });
+
+    it("keeps the other build-time values", async () => {
+      const defaults = getRuntimeConfig().auth;
+      vi.mocked(fetch).mockResolvedValue(Response.json({ auth: { autoLockMinutes: 0 } }));
+
+      await getRuntimeConfigStore().load("/config.json");
+
+      expect(getRuntimeConfig().auth).toEqual({ ...defaults, autoLockMinutes: 0 });
+    });
+  });
+});
+
+describe("loading config.json", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  function respond(status: number, body: string, contentType = "application/json") {
+    fetchMock.mockResolvedValue(
+      new Response(body, { status, headers: { "Content-Type": contentType } })
+    );
+  }
+
+  beforeEach(() => {
+    resetRuntimeConfigStore();
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("applies a valid file over the build-time defaults", async () => {
+    const defaults = getRuntimeConfig();
+    respond(200, JSON.stringify({ namespace: "acme", timeouts: { commandMs: 1234 } }));
+
+    expect(await getRuntimeConfigStore().load("/config.json")).toEqual({ success: true });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "/config.json",
+      expect.objectContaining({ cache: "no-cache" })
+    );
+    expect(getRuntimeConfig()).toEqual({
+      ...defaults,
+      namespace: "acme",
+      timeouts: { ...defaults.timeouts, commandMs: 1234 },
+    });
+    expect(getRuntimeConfigStore().getSources()).toEqual(["build", "file"]);
+  });
+
+  it("notifies listeners of the new configuration", async () => {
+    const listener = vi.fn();
+    getRuntimeConfigStore().onChange(listener);
+    respond(200, JSON.stringify({ namespace: "acme" }));
+
+    await getRuntimeConfigStore().load("/config.json");
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ namespace: "acme" }));
+  });
+
+  it("keeps the defaults without a file", async () => {
+    const defaults = getRuntimeConfig();
+    respond(404, "Not Found", "text/plain");
+
+    expect(await getRuntimeConfigStore().load("/config.json")).toEqual({ success: true });
+    expect(getRuntimeConfig()).toBe(defaults);
+    expect(getRuntimeConfigStore().getSources()).toEqual(["build"]);
+  });
+
+  it("keeps the defaults when the dev server answers with index.html", async () => {
+    const defaults = getRuntimeConfig();
+    respond(200, "<!doctype html>", "text/html");
+
+    expect(await getRuntimeConfigStore().load("/config.json")).toEqual({ success: true });
+    expect(getRuntimeConfig()).toBe(defaults);
+  });
+
+  it("reports an invalid file and does not apply it", async () => {
+    const defaults = getRuntimeConfig();
+    respond(200, JSON.stringify({ namespace: "acme", timeouts: { commandMs: "soon" } }));
+
+    expect(await getRuntimeConfigStore().load("/config.json")).toEqual({
+      success: false,
+      errors: ['"timeouts.commandMs" must be a positive number of milliseconds.'],
+    });
+    expect(getRuntimeConfig()).toBe(defaults);
+  });
+
+  it.each([
+    [
+      "malformed JSON",
+      () => respond(200, '{ "namespace": '),
+      "Could not load /config.json: the file is not valid JSON.",
+    ],
+    [
+      "a server error",
+      () => respond(500, "Internal Server Error", "text/plain"),
+      "/config.json returned HTTP 500.",
+    ],
+    [
+      "a network failure",
+      () => fetchMock.mockRejectedValue(new TypeError("Failed to fetch")),
+      "Could not load /config.json: Failed to fetch",
+    ],
+  ])("reports %s", async (_, arrange, error) => {
+    arrange();
+    expect(await getRuntimeConfigStore().load("/config.json")).toEqual({
+      success: false,
+      errors: [error],
+    });
+  });
+
+  it("gives up when the server does not answer", async () => {
+    fetchMock.mockImplementation(
+      (_, init) =>
+        new Promise((_, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+        })
+    );
+
+    expect(await getRuntimeConfigStore().load("/config.json", 20)).toEqual({
+      success: false,
+      errors: ["Could not load /config.json: no response within 0.02 seconds."],
+    });
+  });
+});
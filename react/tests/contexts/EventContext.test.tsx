@@ -0,0 +1,221 @@
+import { act, renderHook } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EventProvider, useEventContext } from "@/contexts/EventContext";
+import type { AppEvent, Notification } from "@/types/events";
+import type { AppState, TabSyncMessage } from "@/types/state";
+
+const RECONCILE_MS = 5000;
+
+const services = vi.hoisted(() => ({
+  tabRole: "leader" as "leader" | "follower",
+  stored: null as AppState | null,
+  onEvent: null as ((event: AppEvent) => Promise<void>) | null,
+  syncListeners: new Set<(message: TabSyncMessage) => void>(),
+  resolveCorrelatedEvent: vi.fn(),
+}));
+
+vi.mock("@/config/runtime", () => ({
+  getTimeouts: () => ({ optimisticReconcileMs: 5000, staleThresholdMs: 60_000 }),
+}));
+
+vi.mock("@/services/state/store", () => ({
+  getStateStorage: () => ({
+    getState: async () => services.stored,
+    setState: async (state: AppState) => {
+      services.stored = state;
+    },
+  }),
+  persistKvStateChange: async () => {},
+}));
+
+vi.mock("@/services/state/sync", () => ({
+  generateTabId: () => "tab-a",
+  getStateSyncService: () => ({
+    subscribe: (listener: (message: TabSyncMessage) => void) => {
+      services.syncListeners.add(listener);
+      return () => services.syncListeners.delete(listener);
+    },
+    notifyStateInvalidated: () => {},
+  }),
+}));
+
+vi.mock("@/services/nats/events", () => ({
+  getEventService: () => ({
+    prepareSubscription: async () => ({ refetchState: false }),
+    subscribe: async (onEvent: (event: AppEvent) => Promise<void>) => {
+      services.onEvent = onEvent;
+      return () => {
+        services.onEvent = null;
+      };
+    },
+    fetchInitialState: async () => {
+      throw new Error("not expected");
+    },
+    resolveCorrelatedEvent: services.resolveCorrelatedEvent,
+  }),
+}));
+
+vi.mock("@/services/nats/kvState", () => ({ getKvStateService: () => null }));
+
+vi.mock("@/services/nats/connection", () => ({
+  getNatsService: () => ({
+    get tabRole() {
+      return services.tabRole;
+    },
+    isConnected: () => true,
+    onEvent: () => () => {},
+  }),
+}));
+
+const notification: Notification = {
+  id: "n1",
+  userId: "u1",
+  type: "info",
+  title: "Welcome",
+  message: "Hello",
+  read: false,
+  dismissed: false,
+  createdAt: 0,
+};
+
+function readEvent(correlationId?: string): AppEvent {
+  return {
+    type: "notification.read",
+    timestamp: 1,
+    payload: { notificationId: "n1" },
+    correlationId,
+  };
+}
+
+function wrapper({ children }: { children: ReactNode }) {
+  return <EventProvider stateSource={{ type: "events" }}>{children}</EventProvider>;
+}
+
+/** Render the provider and wait until it has caught up */
+async function renderContext() {
+  const { result } = await act(async () => renderHook(() => useEventContext(), { wrapper }));
+  expect(result.current.state.syncStatus).toBe("synced");
+  return result;
+}
+
+function isRead(result: { current: ReturnType<typeof useEventContext> }) {
+  return result.current.state.notifications.n1.read;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  services.tabRole = "leader";
+  services.stored = {
+    user: { id: "u1", email: "alice@example.com", name: "Alice", updatedAt: 0 },
+    sessions: {},
+    notifications: { n1: notification },
+    lastSyncedAt: 0,
+    syncStatus: "synced",
+  };
+  services.onEvent = null;
+  services.syncListeners.clear();
+  services.resolveCorrelatedEvent.mockClear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("optimistic updates", () => {
+  it("shows the prediction until the command's event confirms it", async () => {
+    const result = await renderContext();
+
+    act(() => result.current.applyOptimisticUpdate("cmd-1", [readEvent("cmd-1")]));
+    expect(isRead(result)).toBe(true);
+    expect(result.current.state.pendingMutations).toHaveLength(1);
+
+    act(() => result.current.confirmOptimisticUpdate("cmd-1"));
+    await act(() => services.onEvent!(readEvent("cmd-1")));
+
+    expect(result.current.state.pendingMutations).toEqual([]);
+    expect(isRead(result)).toBe(true);
+
+    act(() => vi.advanceTimersByTime(RECONCILE_MS));
+    expect(isRead(result)).toBe(true);
+  });
+
+  it("falls back to the confirmed state when the event never arrives", async () => {
+    const result = await renderContext();
+
+    act(() => result.current.applyOptimisticUpdate("cmd-1", [readEvent("cmd-1")]));
+    act(() => result.current.confirmOptimisticUpdate("cmd-1"));
+
+    act(() => vi.advanceTimersByTime(RECONCILE_MS - 1));
+    expect(isRead(result)).toBe(true);
+
+    act(() => vi.advanceTimersByTime(1));
+    expect(isRead(result)).toBe(false);
+    expect(result.current.state.pendingMutations).toEqual([]);
+  });
+
+  it("drops the prediction of a failed command", async () => {
+    const result = await renderContext();
+
+    act(() => result.current.applyOptimisticUpdate("cmd-1", [readEvent("cmd-1")]));
+    act(() => result.current.revertOptimisticUpdate("cmd-1"));
+
+    expect(isRead(result)).toBe(false);
+  });
+
+  it("keeps an unrelated prediction when another command's event arrives", async () => {
+    const result = await renderContext();
+
+    act(() => result.current.applyOptimisticUpdate("cmd-1", [readEvent("cmd-1")]));
+    await act(() => services.onEvent!(readEvent("cmd-2")));
+
+    expect(result.current.state.pendingMutations.map((m) => m.commandId)).toEqual(["cmd-1"]);
+  });
+
+  it("keeps predictions when the state is reloaded from storage", async () => {
+    const result = await renderContext();
+
+    act(() => result.current.applyOptimisticUpdate("cmd-1", [readEvent("cmd-1")]));
+    await act(async () => {
+      services.syncListeners.forEach((listener) =>
+        listener({
+          type: "STATE_INVALIDATED",
+          tabId: "tab-b",
+          timestamp: 0,
+          payload: { keys: ["notifications"], sequence: 1 },
+        })
+      );
+    });
+
+    expect(isRead(result)).toBe(true);
+    expect(result.current.state.pendingMutations).toHaveLength(1);
+  });
+
+  it("is confirmed by an event another tab patches in", async () => {
+    services.tabRole = "follower";
+    const result = await renderContext();
+
+    act(() => result.current.applyOptimisticUpdate("cmd-1", [readEvent("cmd-1")]));
+    act(() => result.current.confirmOptimisticUpdate("cmd-1"));
+    act(() =>
+      services.syncListeners.forEach((listener) =>
+        listener({
+          type: "STATE_INVALIDATED",
+          tabId: "tab-b",
+          timestamp: 0,
+          payload: {
+            keys: ["notifications"],
+            sequence: 1,
+            patch: { type: "event", event: readEvent("cmd-1") },
+          },
+        })
+      )
+    );
+
+    expect(result.current.state.pendingMutations).toEqual([]);
+    expect(services.resolveCorrelatedEvent).toHaveBeenCalledWith(readEvent("cmd-1"));
+
+    act(() => vi.advanceTimersByTime(RECONCILE_MS));
+    expect(isRead(result)).toBe(true);
+  });
+});
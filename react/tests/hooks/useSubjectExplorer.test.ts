@@ -0,0 +1,159 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useSubjectExplorer } from "@/hooks/useSubjectExplorer";
+import type { ExplorerMessage } from "@/services/nats/explorer";
+
+interface FakeSubscription {
+  subject: string;
+  onMessage: (message: ExplorerMessage) => void;
+  onError: (error: Error) => void;
+  unsubscribe: () => void;
+}
+
+const explorer = vi.hoisted(() => ({
+  subscriptions: [] as FakeSubscription[],
+  /** When set, subscribing waits for this promise, like a connection still opening */
+  opening: null as Promise<void> | null,
+}));
+
+vi.mock("@/services/nats/explorer", () => ({
+  subscribeToSubject: vi.fn(
+    async (
+      subject: string,
+      onMessage: FakeSubscription["onMessage"],
+      onError: FakeSubscription["onError"]
+    ) => {
+      await explorer.opening;
+      const subscription = { subject, onMessage, onError, unsubscribe: vi.fn() };
+      explorer.subscriptions.push(subscription);
+      return subscription;
+    }
+  ),
+}));
+
+function message(id: number): ExplorerMessage {
+  return {
+    id,
+    subject: "orders.created",
+    headers: {},
+    size: 0,
+    receivedAt: 0,
+    data: new Uint8Array(),
+  };
+}
+
+/** Deliver messages on the latest subscription */
+function receive(...ids: number[]) {
+  const subscription = explorer.subscriptions.at(-1)!;
+  act(() => ids.forEach((id) => subscription.onMessage(message(id))));
+}
+
+function flush() {
+  act(() => vi.advanceTimersByTime(100));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  explorer.subscriptions = [];
+  explorer.opening = null;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("batching", () => {
+  it("adds messages in one batch, newest first", async () => {
+    const { result } = renderHook(() => useSubjectExplorer());
+    await act(() => result.current.start("orders.>"));
+
+    receive(1, 2, 3);
+    expect(result.current.messages).toEqual([]);
+    expect(result.current.received).toBe(3);
+
+    flush();
+    expect(result.current.messages.map((m) => m.id)).toEqual([3, 2, 1]);
+
+    receive(4);
+    flush();
+    expect(result.current.messages.map((m) => m.id)).toEqual([4, 3, 2, 1]);
+  });
+
+  it("keeps the newest messages up to the limit", async () => {
+    const { result } = renderHook(() => useSubjectExplorer({ maxMessages: 3 }));
+    await act(() => result.current.start("orders.>"));
+
+    receive(1, 2);
+    flush();
+    receive(3, 4, 5, 6);
+    flush();
+
+    expect(result.current.messages.map((m) => m.id)).toEqual([6, 5, 4]);
+  });
+
+  it("holds messages back while paused and adds them on resume", async () => {
+    const { result } = renderHook(() => useSubjectExplorer());
+    await act(() => result.current.start("orders.>"));
+
+    act(() => result.current.pause());
+    receive(1, 2);
+    flush();
+    expect(result.current.messages).toEqual([]);
+    expect(result.current.heldCount).toBe(2);
+
+    act(() => result.current.resume());
+    expect(result.current.messages.map((m) => m.id)).toEqual([2, 1]);
+    expect(result.current.heldCount).toBe(0);
+  });
+});
+
+describe("subscriptions", () => {
+  it("reports the error of the current subscription", async () => {
+    const { result } = renderHook(() => useSubjectExplorer());
+    await act(() => result.current.start("orders.>"));
+
+    act(() => explorer.subscriptions[0].onError(new Error("Permissions Violation")));
+
+    expect(result.current.error).toBe("Permissions Violation");
+    expect(result.current.subject).toBeNull();
+  });
+
+  it("ignores errors from a subscription that was replaced", async () => {
+    const { result } = renderHook(() => useSubjectExplorer());
+    await act(() => result.current.start("orders.>"));
+    await act(() => result.current.start("payments.>"));
+
+    act(() => explorer.subscriptions[0].onError(new Error("Permissions Violation")));
+
+    expect(explorer.subscriptions[0].unsubscribe).toHaveBeenCalled();
+    expect(result.current.error).toBeNull();
+    expect(result.current.subject).toBe("payments.>");
+  });
+
+  it("ignores errors from a subscription that was stopped", async () => {
+    const { result } = renderHook(() => useSubjectExplorer());
+    await act(() => result.current.start("orders.>"));
+    act(() => result.current.stop());
+
+    act(() => explorer.subscriptions[0].onError(new Error("connection closed")));
+
+    expect(result.current.error).toBeNull();
+  });
+
+  it("drops a subscription that opens after the explorer was stopped", async () => {
+    let open = () => {};
+    explorer.opening = new Promise((resolve) => (open = resolve));
+    const { result } = renderHook(() => useSubjectExplorer());
+
+    let starting!: Promise<void>;
+    act(() => {
+      starting = result.current.start("orders.>");
+    });
+    act(() => result.current.stop());
+    open();
+    await act(() => starting);
+
+    expect(explorer.subscriptions[0].unsubscribe).toHaveBeenCalled();
+    expect(result.current.subject).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useSystemMonitor } from "@/hooks/useSystemMonitor";
+import type { EndpointResult, SystemEndpoint } from "@/services/nats/monitoring";
+
+const monitor = vi.hoisted(() => ({
+  /** Result of each endpoint; endpoints not listed are unavailable */
+  results: {} as Partial<Record<SystemEndpoint, EndpointResult<unknown>>>,
+  denied: new Set<string>(),
+  queried: [] as SystemEndpoint[],
+  /** When set, queries wait for this promise, like servers slow to answer */
+  answering: null as Promise<void> | null,
+}));
+
+vi.mock("@/hooks/useAuth", () => ({ useAuth: () => ({ connectionStatus: "connected" }) }));
+
+vi.mock("@/hooks/usePermissions", () => {
+  const permissions = { canRequest: (subject: string) => !monitor.denied.has(subject) };
+  return { usePermissions: () => permissions };
+});
+
+vi.mock("@/services/nats/monitoring", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/services/nats/monitoring")>()),
+  querySystemEndpoint: async (endpoint: SystemEndpoint) => {
+    monitor.queried.push(endpoint);
+    await monitor.answering;
+    return monitor.results[endpoint] ?? { status: "unavailable", error: "No answer" };
+  },
+}));
+
+/** VARZ answers of a cluster, one per server */
+function varz(...servers: Array<{ in: number; out: number; connections?: number }>) {
+  return {
+    status: "ok" as const,
+    responses: servers.map((server, index) => ({
+      server: { name: `n${index + 1}` },
+      data: {
+        connections: server.connections ?? 1,
+        subscriptions: 10,
+        in_msgs: server.in,
+        out_msgs: server.out,
+        mem: 1000,
+      },
+    })),
+  } as EndpointResult<unknown>;
+}
+
+/** Let the interval fire and the refresh collect its answers */
+async function tick(ms: number) {
+  await act(() => vi.advanceTimersByTimeAsync(ms));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: 0 });
+  monitor.results = {};
+  monitor.denied = new Set();
+  monitor.queried = [];
+  monitor.answering = null;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("useSystemMonitor", () => {
+  it("charts cluster totals and message rates from the second refresh on", async () => {
+    monitor.results.varz = varz({ in: 100, out: 50 }, { in: 200, out: 50 });
+    const { result } = renderHook(() => useSystemMonitor(2000));
+
+    await tick(0);
+    expect(result.current.results.varz).toEqual(monitor.results.varz);
+    expect(result.current.history).toEqual([]);
+
+    monitor.results.varz = varz({ in: 140, out: 60, connections: 2 }, { in: 260, out: 60 });
+    await tick(2000);
+
+    expect(result.current.history).toEqual([
+      {
+        at: 2000,
+        connections: 3,
+        subscriptions: 20,
+        inMsgsPerSec: 50,
+        outMsgsPerSec: 10,
+        memory: 2000,
+      },
+    ]);
+  });
+
+  it("does not chart negative rates after a server restarts", async () => {
+    monitor.results.varz = varz({ in: 100, out: 100 });
+    const { result } = renderHook(() => useSystemMonitor(2000));
+    await tick(0);
+
+    monitor.results.varz = varz({ in: 10, out: 10 });
+    await tick(2000);
+
+    expect(result.current.history[0]).toMatchObject({ inMsgsPerSec: 0, outMsgsPerSec: 0 });
+  });
+
+  it("falls back to the account's own statistics", async () => {
+    const statz = (sent: number) =>
+      ({
+        status: "ok",
+        responses: [
+          {
+            server: { name: "n1" },
+            data: {
+              account_statz: [
+                {
+                  conns: 2,
+                  num_subscriptions: 5,
+                  sent: { msgs: sent, bytes: 0 },
+                  received: { msgs: 0, bytes: 0 },
+                },
+              ],
+            },
+          },
+        ],
+      }) as EndpointResult<unknown>;
+    monitor.results.accountStatz = statz(0);
+    const { result } = renderHook(() => useSystemMonitor(2000));
+    await tick(0);
+
+    monitor.results.accountStatz = statz(20);
+    await tick(2000);
+
+    expect(result.current.history).toEqual([
+      {
+        at: 2000,
+        connections: 2,
+        subscriptions: 5,
+        inMsgsPerSec: 10,
+        outMsgsPerSec: 0,
+        memory: null,
+      },
+    ]);
+  });
+
+  it("reports endpoints the credential may not request without sending them", async () => {
+    monitor.denied.add("$SYS.REQ.SERVER.PING.VARZ");
+    const { result } = renderHook(() => useSystemMonitor(2000));
+
+    await tick(0);
+
+    expect(monitor.queried).not.toContain("varz");
+    expect(result.current.results.varz).toEqual({
+      status: "denied",
+      error: "Your credential may not request $SYS.REQ.SERVER.PING.VARZ.",
+    });
+  });
+
+  it("skips a refresh while the previous one is still collecting answers", async () => {
+    let answer = () => {};
+    monitor.answering = new Promise((resolve) => (answer = resolve));
+    const { result } = renderHook(() => useSystemMonitor(2000));
+
+    await tick(0);
+    const queriedOnce = monitor.queried.length;
+    await tick(2000);
+
+    expect(monitor.queried).toHaveLength(queriedOnce);
+    expect(result.current.isRefreshing).toBe(true);
+
+    answer();
+    await tick(0);
+    expect(result.current.isRefreshing).toBe(false);
+    expect(result.current.lastUpdated).toBe(2000);
+  });
+});
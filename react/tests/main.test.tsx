@@ -0,0 +1,73 @@
+import { act, screen, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const remoteConfig = vi.hoisted(() => ({ start: vi.fn() }));
+
+vi.mock("@/App", () => ({ default: () => <main>App</main> }));
+vi.mock("@/services/nats/remoteConfig", () => ({ startRemoteConfig: remoteConfig.start }));
+
+const fetchMock = vi.fn<typeof fetch>();
+
+/** Run the entry point against a fresh module graph and #root */
+async function start(): Promise<void> {
+  vi.resetModules();
+  document.body.innerHTML = '<div id="root"></div>';
+  await act(() => import("@/main"));
+}
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  remoteConfig.start.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  document.body.innerHTML = "";
+});
+
+describe("app startup", () => {
+  it("renders the app once config.json is applied", async () => {
+    fetchMock.mockResolvedValue(Response.json({ remote: { bucket: "config", key: "web" } }));
+
+    await start();
+
+    expect(await screen.findByRole("main")).toHaveTextContent("App");
+    expect(remoteConfig.start).toHaveBeenCalled();
+  });
+
+  it("renders the app without a config.json", async () => {
+    fetchMock.mockResolvedValue(new Response("Not Found", { status: 404 }));
+
+    await start();
+
+    expect(await screen.findByRole("main")).toHaveTextContent("App");
+    expect(remoteConfig.start).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["an invalid file", () => Response.json({ servers: [] })],
+    [
+      "malformed JSON",
+      () => new Response("{", { headers: { "Content-Type": "application/json" } }),
+    ],
+    ["a server error", () => new Response("", { status: 503 })],
+  ])("shows the configuration error for %s instead of the app", async (_, response) => {
+    fetchMock.mockResolvedValue(response());
+
+    await start();
+
+    await waitFor(() => expect(screen.getByRole("alert")).toHaveTextContent("Configuration error"));
+    expect(screen.queryByRole("main")).not.toBeInTheDocument();
+    expect(remoteConfig.start).not.toHaveBeenCalled();
+  });
+
+  it("shows the configuration error when the request fails", async () => {
+    fetchMock.mockRejectedValue(new TypeError("Failed to fetch"));
+
+    await start();
+
+    await waitFor(() => expect(screen.getByRole("listitem")).toHaveTextContent("Failed to fetch"));
+    expect(screen.getByRole("button", { name: "Reload" })).toBeInTheDocument();
+  });
+});
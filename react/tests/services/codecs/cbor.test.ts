@@ -0,0 +1,305 @@
+import { describe, expect, it } from "vitest";
+import { decodeCbor, encodeCbor } from "@/services/codecs/cbor";
+import { fromHex, toHex } from "./hex";
+
+// Vectors from RFC 8949, Appendix A, where the codec's output is canonical
+
+describe("CBOR integers", () => {
+  it.each([
+    [0, "00"],
+    [1, "01"],
+    [10, "0a"],
+    [23, "17"],
+    [24, "1818"],
+    [25, "1819"],
+    [100, "1864"],
+    [255, "18ff"],
+    [256, "190100"],
+    [1000, "1903e8"],
+    [65535, "19ffff"],
+    [65536, "1a00010000"],
+    [1000000, "1a000f4240"],
+    [4294967295, "1affffffff"],
+    [4294967296, "1b0000000100000000"],
+    [1000000000000, "1b000000e8d4a51000"],
+    [Number.MAX_SAFE_INTEGER, "1b001fffffffffffff"],
+    [-1, "20"],
+    [-10, "29"],
+    [-24, "37"],
+    [-25, "3818"],
+    [-100, "3863"],
+    [-256, "38ff"],
+    [-257, "390100"],
+    [-1000, "3903e7"],
+    [-65537, "3a00010000"],
+    [-4294967297, "3b0000000100000000"],
+    [Number.MIN_SAFE_INTEGER, "3b001ffffffffffffe"],
+  ])("encodes %d in the smallest head", (value, hex) => {
+    expect(toHex(encodeCbor(value))).toBe(hex);
+    expect(decodeCbor(fromHex(hex))).toBe(value);
+  });
+
+  it.each([
+    [2n ** 64n - 1n, "1bffffffffffffffff"],
+    [-(2n ** 64n), "3bffffffffffffffff"],
+    [2n ** 64n, "c249010000000000000000"],
+    [-(2n ** 64n) - 1n, "c349010000000000000000"],
+  ])("encodes %s as an integer or bignum", (value, hex) => {
+    expect(toHex(encodeCbor(value))).toBe(hex);
+    expect(decodeCbor(fromHex(hex))).toBe(value);
+  });
+
+  it("decodes bigints within the safe range as numbers", () => {
+    expect(decodeCbor(encodeCbor(5n))).toBe(5);
+    expect(decodeCbor(encodeCbor(-5n))).toBe(-5);
+    // bignum 1
+    expect(decodeCbor(fromHex("c24101"))).toBe(1);
+  });
+
+  it("decodes integers from a wider head than needed", () => {
+    expect(decodeCbor(fromHex("1b0000000000000001"))).toBe(1);
+    expect(decodeCbor(fromHex("3a00000000"))).toBe(-1);
+  });
+});
+
+describe("CBOR floats and simple values", () => {
+  it.each([
+    ["f90000", 0],
+    ["f98000", -0],
+    ["f93c00", 1],
+    ["f93e00", 1.5],
+    ["f97bff", 65504],
+    ["f90001", 5.960464477539063e-8],
+    ["f90400", 0.00006103515625],
+    ["f9c400", -4],
+    ["f97c00", Infinity],
+    ["f9fc00", -Infinity],
+    ["fa47c35000", 100000],
+    ["fa7f7fffff", 3.4028234663852886e38],
+    ["fb3ff199999999999a", 1.1],
+    ["fb7e37e43c8800759c", 1e300],
+    ["fbc010666666666666", -4.1],
+  ])("decodes %s", (hex, value) => {
+    expect(decodeCbor(fromHex(hex))).toBe(value);
+  });
+
+  it.each(["f97e00", "fa7fc00000", "fb7ff8000000000000"])("decodes %s as NaN", (hex) => {
+    expect(decodeCbor(fromHex(hex))).toBeNaN();
+  });
+
+  it("encodes non-integers as float 64", () => {
+    expect(toHex(encodeCbor(1.1))).toBe("fb3ff199999999999a");
+    expect(toHex(encodeCbor(Infinity))).toBe("fb7ff0000000000000");
+    expect(decodeCbor(encodeCbor(2 ** 53 + 2))).toBe(2 ** 53 + 2);
+    expect(decodeCbor(encodeCbor(NaN))).toBeNaN();
+  });
+
+  it.each([
+    [false, "f4"],
+    [true, "f5"],
+    [null, "f6"],
+    [undefined, "f7"],
+  ])("encodes %s", (value, hex) => {
+    expect(toHex(encodeCbor(value))).toBe(hex);
+    expect(decodeCbor(fromHex(hex))).toBe(value);
+  });
+
+  it("rejects unassigned simple values", () => {
+    expect(() => decodeCbor(fromHex("f0"))).toThrow("Unsupported CBOR simple value 16");
+    expect(() => decodeCbor(fromHex("f818"))).toThrow("Unsupported CBOR simple value 24");
+  });
+});
+
+describe("CBOR strings and bytes", () => {
+  it.each([
+    ["", "60"],
+    ["a", "6161"],
+    ["IETF", "6449455446"],
+    ['"\\', "62225c"],
+    ["ü", "62c3bc"],
+    ["水", "63e6b0b4"],
+    ["𐅑", "64f0908591"],
+  ])("encodes %j", (value, hex) => {
+    expect(toHex(encodeCbor(value))).toBe(hex);
+    expect(decodeCbor(fromHex(hex))).toBe(value);
+  });
+
+  it.each([
+    [23, "77"],
+    [24, "7818"],
+    [256, "790100"],
+    [65536, "7a00010000"],
+  ])("encodes a %d byte string with head %s", (length, head) => {
+    const value = "x".repeat(length);
+    const encoded = encodeCbor(value);
+    expect(toHex(encoded.subarray(0, head.length / 2))).toBe(head);
+    expect(decodeCbor(encoded)).toBe(value);
+  });
+
+  it.each([
+    [new Uint8Array(0), "40"],
+    [new Uint8Array([1, 2, 3, 4]), "4401020304"],
+  ])("encodes bytes %s", (value, hex) => {
+    expect(toHex(encodeCbor(value))).toBe(hex);
+    expect(decodeCbor(fromHex(hex))).toEqual(value);
+  });
+
+  it("round-trips large byte strings", () => {
+    const value = Uint8Array.from({ length: 70000 }, (_, i) => i % 251);
+    const encoded = encodeCbor(value);
+    expect(toHex(encoded.subarray(0, 5))).toBe("5a00011170");
+    expect(decodeCbor(encoded)).toEqual(value);
+  });
+});
+
+describe("CBOR arrays and maps", () => {
+  it.each([
+    [[], "80"],
+    [[1, 2, 3], "83010203"],
+    [[1, [2, 3], [4, 5]], "8301820203820405"],
+    [
+      Array.from({ length: 25 }, (_, i) => i + 1),
+      "98190102030405060708090a0b0c0d0e0f101112131415161718181819",
+    ],
+    [{}, "a0"],
+    [{ a: 1, b: [2, 3] }, "a26161016162820203"],
+    [["a", { b: "c" }], "826161a161626163"],
+    [{ a: "A", b: "B", c: "C", d: "D", e: "E" }, "a56161614161626142616361436164614461656145"],
+  ])("encodes %j", (value, hex) => {
+    expect(toHex(encodeCbor(value))).toBe(hex);
+    expect(decodeCbor(fromHex(hex))).toEqual(value);
+  });
+
+  it("converts non-string keys to strings", () => {
+    // {1: 2, 3: 4}
+    expect(decodeCbor(fromHex("a201020304"))).toEqual({ "1": 2, "3": 4 });
+  });
+
+  it("round-trips nested values", () => {
+    const value = {
+      id: "evt-1",
+      tags: ["a", "b", []],
+      nested: { deep: { list: [1, -1, 1.5, null, true, false, { x: new Uint8Array([1, 2]) }] } },
+      empty: {},
+    };
+    expect(decodeCbor(encodeCbor(value))).toEqual(value);
+  });
+
+  it("leaves out undefined properties", () => {
+    expect(decodeCbor(encodeCbor({ a: 1, b: undefined }))).toEqual({ a: 1 });
+  });
+
+  it("keeps a __proto__ key as a plain property", () => {
+    const decoded = decodeCbor(encodeCbor(JSON.parse('{"__proto__":{"polluted":true}}')));
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(Object.keys(decoded as object)).toEqual(["__proto__"]);
+  });
+});
+
+describe("CBOR indefinite-length items", () => {
+  it.each([
+    ["5f42010243030405ff", new Uint8Array([1, 2, 3, 4, 5])],
+    ["7f657374726561646d696e67ff", "streaming"],
+    ["9fff", []],
+    ["9f018202039f0405ffff", [1, [2, 3], [4, 5]]],
+    ["9f01820203820405ff", [1, [2, 3], [4, 5]]],
+    ["83018202039f0405ff", [1, [2, 3], [4, 5]]],
+    ["bf61610161629f0203ffff", { a: 1, b: [2, 3] }],
+    ["826161bf61626163ff", ["a", { b: "c" }]],
+    ["bf6346756ef563416d7421ff", { Fun: true, Amt: -2 }],
+  ])("decodes %s", (hex, value) => {
+    expect(decodeCbor(fromHex(hex))).toEqual(value);
+  });
+
+  it("rejects chunks of another type", () => {
+    expect(() => decodeCbor(fromHex("5f6161ff"))).toThrow(
+      "Invalid chunk in an indefinite-length CBOR string"
+    );
+    expect(() => decodeCbor(fromHex("7f7f6161ffff"))).toThrow(
+      "Invalid chunk in an indefinite-length CBOR string"
+    );
+  });
+
+  it("rejects indefinite-length integers and tags", () => {
+    expect(() => decodeCbor(fromHex("1f"))).toThrow(
+      "CBOR major type 0 cannot have an indefinite length"
+    );
+    expect(() => decodeCbor(fromHex("df00"))).toThrow(
+      "CBOR major type 6 cannot have an indefinite length"
+    );
+  });
+
+  it("rejects a break outside an indefinite-length item", () => {
+    expect(() => decodeCbor(fromHex("ff"))).toThrow("Unexpected CBOR break");
+    expect(() => decodeCbor(fromHex("82ff"))).toThrow("Unexpected CBOR break");
+  });
+});
+
+describe("CBOR tags", () => {
+  it("decodes date strings", () => {
+    expect(decodeCbor(fromHex("c074323031332d30332d32315432303a30343a30305a"))).toEqual(
+      new Date("2013-03-21T20:04:00Z")
+    );
+  });
+
+  it("decodes epoch dates", () => {
+    expect(decodeCbor(fromHex("c11a514b67b0"))).toEqual(new Date(1363896240000));
+    expect(decodeCbor(fromHex("c1fb41d452d9ec200000"))).toEqual(new Date(1363896240500));
+  });
+
+  it("encodes dates as epoch seconds", () => {
+    expect(toHex(encodeCbor(new Date(1363896240000)))).toBe("c11a514b67b0");
+    const date = new Date("2024-02-29T12:34:56.789Z");
+    expect(decodeCbor(encodeCbor(date))).toEqual(date);
+    expect(decodeCbor(encodeCbor(new Date(-1)))).toEqual(new Date(-1));
+  });
+
+  it("rejects invalid dates", () => {
+    expect(() => encodeCbor(new Date(NaN))).toThrow("Cannot encode an invalid date");
+    expect(() => decodeCbor(fromHex("c001"))).toThrow("Invalid CBOR date string");
+    expect(() => decodeCbor(fromHex("c16161"))).toThrow("Invalid CBOR epoch date");
+    expect(() => decodeCbor(fromHex("c201"))).toThrow("Invalid CBOR bignum");
+  });
+
+  it("yields the value of unknown tags", () => {
+    expect(decodeCbor(fromHex("d82076687474703a2f2f7777772e6578616d706c652e636f6d"))).toBe(
+      "http://www.example.com"
+    );
+    // Self-described CBOR
+    expect(decodeCbor(fromHex("d9d9f783010203"))).toEqual([1, 2, 3]);
+  });
+});
+
+describe("CBOR malformed input", () => {
+  it.each([
+    ["empty input", ""],
+    ["uint 16 without its second byte", "1901"],
+    ["uint 64 without its payload", "1b00"],
+    ["text shorter than its length", "636162"],
+    ["bytes shorter than its length", "4401"],
+    ["array missing an item", "8201"],
+    ["map missing a value", "a16161"],
+    ["indefinite array without a break", "9f01"],
+    ["float 16 without its second byte", "f93c"],
+    ["tag without its value", "c1"],
+  ])("rejects %s", (_, hex) => {
+    expect(() => decodeCbor(fromHex(hex))).toThrow("Unexpected end of data");
+  });
+
+  it("rejects trailing bytes", () => {
+    expect(() => decodeCbor(fromHex("0000"))).toThrow("Unexpected data after the CBOR item");
+    expect(() => decodeCbor(fromHex("8101ff"))).toThrow("Unexpected data after the CBOR item");
+  });
+
+  it("rejects reserved additional information", () => {
+    expect(() => decodeCbor(fromHex("1c"))).toThrow("Invalid CBOR additional information 28");
+  });
+
+  it("rejects lengths beyond the safe range", () => {
+    expect(() => decodeCbor(fromHex("5bffffffffffffffff"))).toThrow("CBOR item is too long");
+  });
+
+  it("rejects values without an encoding", () => {
+    expect(() => encodeCbor(() => {})).toThrow("Cannot encode a function as CBOR");
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, expect, it } from "vitest";
+import { decodeMsgpack, encodeMsgpack } from "@/services/codecs/msgpack";
+import { fromHex, toHex } from "./hex";
+
+describe("MessagePack integers", () => {
+  it.each([
+    // positive fixint
+    [0, "00"],
+    [127, "7f"],
+    // uint 8/16/32/64
+    [128, "cc80"],
+    [255, "ccff"],
+    [256, "cd0100"],
+    [65535, "cdffff"],
+    [65536, "ce00010000"],
+    [4294967295, "ceffffffff"],
+    [4294967296, "cf0000000100000000"],
+    [Number.MAX_SAFE_INTEGER, "cf001fffffffffffff"],
+    // negative fixint
+    [-1, "ff"],
+    [-32, "e0"],
+    // int 8/16/32/64
+    [-33, "d0df"],
+    [-128, "d080"],
+    [-129, "d1ff7f"],
+    [-32768, "d18000"],
+    [-32769, "d2ffff7fff"],
+    [-2147483648, "d280000000"],
+    [-2147483649, "d3ffffffff7fffffff"],
+    [Number.MIN_SAFE_INTEGER, "d3ffe0000000000001"],
+  ])("encodes %d in the smallest format", (value, hex) => {
+    expect(toHex(encodeMsgpack(value))).toBe(hex);
+    expect(decodeMsgpack(fromHex(hex))).toBe(value);
+  });
+
+  it.each([
+    ["cc00", 0],
+    ["cd0001", 1],
+    ["ce00000001", 1],
+    ["d0ff", -1],
+    ["d1ffff", -1],
+    ["d2ffffffff", -1],
+    ["d3ffffffffffffffff", -1],
+  ])("decodes %s from a wider format than needed", (hex, value) => {
+    expect(decodeMsgpack(fromHex(hex))).toBe(value);
+  });
+
+  it("round-trips integers beyond the safe range as bigint", () => {
+    for (const value of [2n ** 64n - 1n, 2n ** 53n, -(2n ** 63n), -(2n ** 53n) - 1n]) {
+      expect(decodeMsgpack(encodeMsgpack(value))).toBe(value);
+    }
+    expect(toHex(encodeMsgpack(2n ** 64n - 1n))).toBe("cfffffffffffffffff");
+    expect(toHex(encodeMsgpack(-(2n ** 63n)))).toBe("d38000000000000000");
+  });
+
+  it("decodes bigints within the safe range as numbers", () => {
+    expect(decodeMsgpack(encodeMsgpack(5n))).toBe(5);
+    expect(decodeMsgpack(encodeMsgpack(-5n))).toBe(-5);
+  });
+
+  it("rejects bigints wider than 64 bits", () => {
+    expect(() => encodeMsgpack(2n ** 64n)).toThrow("MessagePack integers are limited to 64 bits");
+    expect(() => encodeMsgpack(-(2n ** 63n) - 1n)).toThrow(
+      "MessagePack integers are limited to 64 bits"
+    );
+  });
+});
+
+describe("MessagePack floats", () => {
+  it.each([1.5, -0.1, 1e300, Number.MAX_VALUE, Number.EPSILON, 2 ** 53 + 2, Infinity, -Infinity])(
+    "round-trips %d as float 64",
+    (value) => {
+      const encoded = encodeMsgpack(value);
+      expect(encoded[0]).toBe(0xcb);
+      expect(decodeMsgpack(encoded)).toBe(value);
+    }
+  );
+
+  it("round-trips NaN", () => {
+    expect(decodeMsgpack(encodeMsgpack(NaN))).toBeNaN();
+  });
+
+  it("decodes float 32", () => {
+    expect(decodeMsgpack(fromHex("ca3fc00000"))).toBe(1.5);
+    expect(decodeMsgpack(fromHex("ca7f800000"))).toBe(Infinity);
+  });
+
+  it("encodes exact float 64 bytes", () => {
+    expect(toHex(encodeMsgpack(1.5))).toBe("cb3ff8000000000000");
+  });
+});
+
+describe("MessagePack strings and binary", () => {
+  it.each([
+    [0, "a0"],
+    [31, "bf"],
+    [32, "d920"],
+    [255, "d9ff"],
+    [256, "da0100"],
+    [65535, "daffff"],
+    [65536, "db00010000"],
+  ])("encodes a %d byte string with header %s", (length, header) => {
+    const value = "x".repeat(length);
+    const encoded = encodeMsgpack(value);
+    expect(toHex(encoded.subarray(0, header.length / 2))).toBe(header);
+    expect(encoded.length).toBe(header.length / 2 + length);
+    expect(decodeMsgpack(encoded)).toBe(value);
+  });
+
+  it("encodes strings as UTF-8", () => {
+    expect(toHex(encodeMsgpack("ü水"))).toBe("a5c3bce6b0b4");
+    expect(decodeMsgpack(encodeMsgpack("héllo ✓ 🚀"))).toBe("héllo ✓ 🚀");
+  });
+
+  it.each([
+    [0, "c400"],
+    [255, "c4ff"],
+    [256, "c50100"],
+    [65535, "c5ffff"],
+    [65536, "c600010000"],
+  ])("encodes %d bytes of binary with header %s", (length, header) => {
+    const value = Uint8Array.from({ length }, (_, i) => i % 251);
+    const encoded = encodeMsgpack(value);
+    expect(toHex(encoded.subarray(0, header.length / 2))).toBe(header);
+    expect(decodeMsgpack(encoded)).toEqual(value);
+  });
+});
+
+describe("MessagePack arrays and maps", () => {
+  it.each([
+    [0, "90"],
+    [15, "9f"],
+    [16, "dc0010"],
+    [65535, "dcffff"],
+    [65536, "dd00010000"],
+  ])("encodes an array of %d items with header %s", (length, header) => {
+    const value = new Array<number>(length).fill(1);
+    const encoded = encodeMsgpack(value);
+    expect(toHex(encoded.subarray(0, header.length / 2))).toBe(header);
+    expect(decodeMsgpack(encoded)).toEqual(value);
+  });
+
+  it.each([
+    [0, "80"],
+    [15, "8f"],
+    [16, "de0010"],
+    [65536, "df00010000"],
+  ])("encodes a map of %d entries with header %s", (size, header) => {
+    const value = Object.fromEntries(Array.from({ length: size }, (_, i) => [`k${i}`, i]));
+    const encoded = encodeMsgpack(value);
+    expect(toHex(encoded.subarray(0, header.length / 2))).toBe(header);
+    expect(decodeMsgpack(encoded)).toEqual(value);
+  });
+
+  it("round-trips nested values", () => {
+    const value = {
+      id: "evt-1",
+      tags: ["a", "b", []],
+      nested: { deep: { list: [1, -1, 1.5, null, true, false, { x: new Uint8Array([1, 2]) }] } },
+      empty: {},
+    };
+    expect(decodeMsgpack(encodeMsgpack(value))).toEqual(value);
+  });
+
+  it("encodes exact bytes of a small map", () => {
+    expect(toHex(encodeMsgpack({ a: 1, b: [2, 3] }))).toBe("82a16101a162920203");
+  });
+
+  it("leaves out undefined properties and encodes undefined as nil", () => {
+    expect(decodeMsgpack(encodeMsgpack({ a: 1, b: undefined }))).toEqual({ a: 1 });
+    expect(toHex(encodeMsgpack(undefined))).toBe("c0");
+    expect(decodeMsgpack(encodeMsgpack([undefined]))).toEqual([null]);
+  });
+
+  it("converts non-string keys to strings", () => {
+    // {1: true}
+    expect(decodeMsgpack(fromHex("8101c3"))).toEqual({ "1": true });
+  });
+
+  it("keeps a __proto__ key as a plain property", () => {
+    // {"__proto__": {"polluted": true}}
+    const decoded = decodeMsgpack(encodeMsgpack(JSON.parse('{"__proto__":{"polluted":true}}')));
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(Object.keys(decoded as object)).toEqual(["__proto__"]);
+  });
+});
+
+describe("MessagePack timestamps", () => {
+  it("encodes whole seconds as timestamp 32", () => {
+    expect(toHex(encodeMsgpack(new Date(0)))).toBe("d6ff00000000");
+    expect(decodeMsgpack(fromHex("d6ff5a4ec5a0"))).toEqual(new Date("2018-01-05T00:24:00Z"));
+  });
+
+  it("encodes milliseconds as timestamp 64", () => {
+    const date = new Date("2024-02-29T12:34:56.789Z");
+    const encoded = encodeMsgpack(date);
+    expect(toHex(encoded.subarray(0, 2))).toBe("d7ff");
+    expect(decodeMsgpack(encoded)).toEqual(date);
+  });
+
+  it("encodes dates before 1970 as timestamp 96", () => {
+    const date = new Date("1960-06-15T08:00:00.250Z");
+    const encoded = encodeMsgpack(date);
+    expect(toHex(encoded.subarray(0, 3))).toBe("c70cff");
+    expect(decodeMsgpack(encoded)).toEqual(date);
+  });
+
+  it("rejects invalid dates", () => {
+    expect(() => encodeMsgpack(new Date(NaN))).toThrow("Cannot encode an invalid date");
+  });
+
+  it("rejects other extension types and timestamp sizes", () => {
+    expect(() => decodeMsgpack(fromHex("d40100"))).toThrow(
+      "Unsupported MessagePack extension type 1"
+    );
+    expect(() => decodeMsgpack(fromHex("d5ff0000"))).toThrow(
+      "Invalid MessagePack timestamp of 2 bytes"
+    );
+  });
+});
+
+describe("MessagePack malformed input", () => {
+  it.each([
+    ["empty input", ""],
+    ["uint 16 without its second byte", "cd01"],
+    ["uint 64 without its payload", "cf00"],
+    ["string shorter than its length", "a36162"],
+    ["binary shorter than its length", "c40401"],
+    ["array missing an item", "9201"],
+    ["map missing a value", "81a161"],
+    ["timestamp without its seconds", "d6ff0000"],
+  ])("rejects %s", (_, hex) => {
+    expect(() => decodeMsgpack(fromHex(hex))).toThrow("Unexpected end of data");
+  });
+
+  it("rejects trailing bytes", () => {
+    expect(() => decodeMsgpack(fromHex("0000"))).toThrow(
+      "Unexpected data after the MessagePack value"
+    );
+    expect(() => decodeMsgpack(fromHex("91c0c0"))).toThrow(
+      "Unexpected data after the MessagePack value"
+    );
+  });
+
+  it("rejects the reserved type", () => {
+    expect(() => decodeMsgpack(fromHex("c1"))).toThrow("Invalid MessagePack type 0xc1");
+  });
+
+  it("rejects values without an encoding", () => {
+    expect(() => encodeMsgpack(() => {})).toThrow("Cannot encode a function as MessagePack");
+    expect(() => encodeMsgpack(Symbol("x"))).toThrow("Cannot encode a symbol as MessagePack");
+  });
+});
@@ -0,0 +1,135 @@
+import { headers } from "@nats-io/nats-core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PayloadCodecRoute } from "@/config/codecs";
+import { cborCodec } from "@/services/codecs/cbor";
+import { msgpackCodec } from "@/services/codecs/msgpack";
+import { CONTENT_TYPE_HEADER, CodecRegistry, jsonCodec } from "@/services/codecs/registry";
+import type { PayloadCodec } from "@/services/codecs/types";
+
+const config = vi.hoisted(() => ({ routes: [] as PayloadCodecRoute[] }));
+
+vi.mock("@/config/codecs", () => ({
+  getPayloadCodecRoutes: () => config.routes,
+}));
+
+function contentType(value: string) {
+  const hdrs = headers();
+  hdrs.set(CONTENT_TYPE_HEADER, value);
+  return hdrs;
+}
+
+let registry: CodecRegistry;
+
+beforeEach(() => {
+  config.routes = [];
+  registry = new CodecRegistry();
+});
+
+describe("resolving by subject", () => {
+  it("defaults to JSON", () => {
+    expect(registry.resolve("orders.created")).toBe(jsonCodec);
+    expect(registry.resolve("orders.created", headers())).toBe(jsonCodec);
+  });
+
+  it("uses the first configured route matching the subject", () => {
+    config.routes = [
+      { subject: "telemetry.>", codec: "msgpack" },
+      { subject: "telemetry.gps", codec: "cbor" },
+      { subject: "sensors.*.raw", codec: "cbor" },
+    ];
+
+    expect(registry.resolve("telemetry.gps")).toBe(msgpackCodec);
+    expect(registry.resolve("sensors.a1.raw")).toBe(cborCodec);
+    expect(registry.resolve("sensors.a1.raw.extra")).toBe(jsonCodec);
+  });
+
+  it("checks routes added in code before the configured ones", () => {
+    config.routes = [{ subject: "telemetry.>", codec: "msgpack" }];
+    registry.route("telemetry.gps", "cbor");
+
+    expect(registry.resolve("telemetry.gps")).toBe(cborCodec);
+    expect(registry.resolve("telemetry.speed")).toBe(msgpackCodec);
+  });
+
+  it("refuses routes to unknown codecs", () => {
+    expect(() => registry.route("telemetry.>", "protobuf")).toThrow(
+      'Unknown payload codec "protobuf"'
+    );
+  });
+});
+
+describe("resolving by Content-Type", () => {
+  it("prefers the header over the routes", () => {
+    config.routes = [{ subject: "telemetry.>", codec: "msgpack" }];
+    registry.route("telemetry.gps", "msgpack");
+
+    expect(registry.resolve("telemetry.gps", contentType("application/cbor"))).toBe(cborCodec);
+    expect(registry.resolve("telemetry.gps", contentType("application/json"))).toBe(jsonCodec);
+    expect(registry.resolve("orders.created", contentType("application/msgpack"))).toBe(
+      msgpackCodec
+    );
+  });
+
+  it.each([
+    ["application/json; charset=utf-8", jsonCodec],
+    ["Application/CBOR", cborCodec],
+    ["application/x-msgpack", msgpackCodec],
+    [" application/vnd.msgpack ", msgpackCodec],
+  ])("resolves %j", (value, codec) => {
+    expect(registry.resolve("orders.created", contentType(value))).toBe(codec);
+  });
+
+  it("falls back to the route for unknown content types", () => {
+    config.routes = [{ subject: "telemetry.>", codec: "msgpack" }];
+
+    expect(registry.resolve("telemetry.gps", contentType("text/plain"))).toBe(msgpackCodec);
+    expect(registry.resolve("orders.created", contentType("text/plain"))).toBe(jsonCodec);
+  });
+});
+
+describe("decoding", () => {
+  const value = { id: 1, tags: ["a"] };
+
+  it("decodes with the resolved codec", () => {
+    config.routes = [{ subject: "telemetry.>", codec: "msgpack" }];
+
+    expect(registry.decode("telemetry.gps", msgpackCodec.encode(value))).toEqual(value);
+    expect(
+      registry.decode("telemetry.gps", cborCodec.encode(value), contentType("application/cbor"))
+    ).toEqual(value);
+    expect(registry.decode("orders.created", jsonCodec.encode(value))).toEqual(value);
+  });
+
+  it("throws on a payload that is invalid in the resolved format", () => {
+    expect(() =>
+      registry.decode("orders.created", jsonCodec.encode(value), contentType("application/cbor"))
+    ).toThrow();
+  });
+});
+
+describe("registering codecs", () => {
+  const upper: PayloadCodec = {
+    name: "upper",
+    contentType: "text/x-upper",
+    encode: (text) => new TextEncoder().encode(String(text).toUpperCase()),
+    decode: (data) => new TextDecoder().decode(data),
+  };
+
+  it("resolves registered codecs by header and route", () => {
+    registry.register(upper);
+    registry.route("shout.>", "upper");
+
+    expect(registry.get("upper")).toBe(upper);
+    expect(registry.resolve("shout.now")).toBe(upper);
+    expect(registry.resolve("orders.created", contentType("text/x-upper"))).toBe(upper);
+  });
+
+  it("replaces a codec of the same name", () => {
+    const custom: PayloadCodec = { ...cborCodec, contentType: "application/x-cbor" };
+    registry.register(custom);
+
+    expect(registry.get("cbor")).toBe(custom);
+    expect(registry.forContentType("application/cbor")).toBeUndefined();
+    expect(registry.forContentType("application/x-cbor")).toBe(custom);
+  });
+});
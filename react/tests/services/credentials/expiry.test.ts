@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getCredentialExpiryMonitor,
+  resetCredentialExpiryMonitor,
+} from "@/services/credentials/expiry";
+import type { Credential, NatsUserClaims } from "@/types";
+
+const MINUTE = 60_000;
+
+vi.mock("@/config/auth", () => ({
+  getExpiryWarningLeadTimes: () => [60 * MINUTE, 5 * MINUTE],
+}));
+
+function claims(expiresAt?: number): NatsUserClaims {
+  return {
+    name: "alice",
+    subject: "UALICE",
+    issuer: "AACCOUNT",
+    expiresAt,
+    pub: { allow: [], deny: [] },
+    sub: { allow: [], deny: [] },
+    limits: { subs: -1, data: -1, payload: -1 },
+    tags: [],
+    bearerToken: false,
+  };
+}
+
+const base = { loadedAt: 0, source: "form" as const, publicKey: "UALICE" };
+
+function credsFile(expiresAt?: number): Credential {
+  return {
+    ...base,
+    id: "creds",
+    authType: "credsfile",
+    jwt: "eyJ0eXAiOiJKV1QifQ.e30.c2ln",
+    seed: new Uint8Array(),
+    claims: claims(expiresAt),
+  } as Credential;
+}
+
+function jwtSigner(expiresAt?: number): Credential {
+  return {
+    ...base,
+    id: "signer",
+    authType: "jwtsigner",
+    jwt: "eyJ0eXAiOiJKV1QifQ.e30.c2ln",
+    signerUrl: "https://signer.example.com/sign-nonce",
+    claims: claims(expiresAt),
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: 0 });
+});
+
+afterEach(() => {
+  resetCredentialExpiryMonitor();
+  vi.useRealTimers();
+});
+
+describe("credential expiry", () => {
+  it.each([
+    ["a credential file", credsFile],
+    ["a JWT with a remote signer", jwtSigner],
+  ])("warns before %s expires", (_, create) => {
+    const monitor = getCredentialExpiryMonitor();
+    monitor.watch(create(90 * MINUTE));
+
+    expect(monitor.getState()).toMatchObject({ expiresAt: 90 * MINUTE, stage: "valid" });
+
+    vi.advanceTimersByTime(30 * MINUTE);
+    expect(monitor.getState()).toMatchObject({ stage: "expiring", warningLeadTime: 60 * MINUTE });
+
+    vi.advanceTimersByTime(55 * MINUTE);
+    expect(monitor.getState()).toMatchObject({ stage: "expiring", warningLeadTime: 5 * MINUTE });
+
+    vi.advanceTimersByTime(5 * MINUTE);
+    expect(monitor.getState()).toMatchObject({ stage: "expired" });
+  });
+
+  it("ignores JWTs without an expiry", () => {
+    const monitor = getCredentialExpiryMonitor();
+    monitor.watch(jwtSigner());
+
+    expect(monitor.getState()).toEqual({
+      credentialId: "signer",
+      expiresAt: null,
+      stage: "valid",
+      warningLeadTime: null,
+    });
+  });
+
+  it("ignores credentials without a user JWT", () => {
+    const monitor = getCredentialExpiryMonitor();
+    monitor.watch({ ...base, id: "token", authType: "token", token: "secret" });
+
+    expect(monitor.getState()).toMatchObject({ credentialId: "token", expiresAt: null });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  canPublish,
+  canRequest,
+  canSubscribe,
+  isSubjectAllowed,
+  satisfiesRequirement,
+} from "@/services/credentials/permissions";
+import type { NatsSubjectPermission, NatsUserClaims } from "@/types";
+
+function claims(
+  pub: Partial<NatsSubjectPermission> = {},
+  sub: Partial<NatsSubjectPermission> = {}
+): NatsUserClaims {
+  return {
+    name: "alice",
+    subject: "UALICE",
+    issuer: "AACCOUNT",
+    pub: { allow: [], deny: [], ...pub },
+    sub: { allow: [], deny: [], ...sub },
+    limits: { subs: -1, data: -1, payload: -1 },
+    tags: [],
+    bearerToken: false,
+  };
+}
+
+describe("isSubjectAllowed", () => {
+  it.each<[string, NatsSubjectPermission, string, boolean]>([
+    ["no rules allow everything", { allow: [], deny: [] }, "app.events.user", true],
+    ["a literal allow", { allow: ["app.events.user"], deny: [] }, "app.events.user", true],
+    ["outside the allow list", { allow: ["app.events.user"], deny: [] }, "app.events.other", false],
+    ["a `*` allow", { allow: ["app.*.user"], deny: [] }, "app.events.user", true],
+    ["a `*` allow, too many tokens", { allow: ["app.*"], deny: [] }, "app.events.user", false],
+    ["a `>` allow", { allow: ["app.>"], deny: [] }, "app.events.user.updated", true],
+    ["a `>` allow, no trailing token", { allow: ["app.>"], deny: [] }, "app", false],
+    ["any allow matching", { allow: ["other.>", "app.*.user"], deny: [] }, "app.x.user", true],
+    ["a literal deny", { allow: [], deny: ["app.secret"] }, "app.secret", false],
+    ["next to a deny", { allow: [], deny: ["app.secret"] }, "app.public", true],
+    ["a deny over a `>` allow", { allow: ["app.>"], deny: ["app.secret"] }, "app.secret", false],
+    ["a `*` deny over an allow", { allow: ["app.>"], deny: ["app.*.admin"] }, "app.x.admin", false],
+    ["a `>` deny over a literal allow", { allow: ["app.a"], deny: [">"] }, "app.a", false],
+    ["a deny over the same allow", { allow: ["app.a"], deny: ["app.a"] }, "app.a", false],
+    // Wildcard subjects, e.g. subscriptions
+    ["a wildcard subject under an allow", { allow: ["app.>"], deny: [] }, "app.*.user", true],
+    ["a wider wildcard subject", { allow: ["app.events.>"], deny: [] }, "app.>", false],
+    ["a wildcard subject by the same pattern", { allow: ["app.*"], deny: [] }, "app.*", true],
+    ["a wildcard subject covered by a deny", { allow: [], deny: ["app.>"] }, "app.*", false],
+  ])("%s", (_, permission, subject, expected) => {
+    expect(isSubjectAllowed(permission, subject)).toBe(expected);
+  });
+});
+
+describe("claims checks", () => {
+  it("allows everything without claims", () => {
+    expect(canPublish(undefined, "app.commands.user.updateProfile")).toBe(true);
+    expect(canSubscribe(undefined, "app.events.>")).toBe(true);
+    expect(canRequest(undefined, "$SYS.REQ.USER.INFO")).toBe(true);
+  });
+
+  it("checks publish and subscribe permissions separately", () => {
+    const user = claims({ allow: ["app.commands.>"] }, { allow: ["app.events.>"] });
+
+    expect(canPublish(user, "app.commands.user.updateProfile")).toBe(true);
+    expect(canPublish(user, "app.events.user.updated")).toBe(false);
+    expect(canSubscribe(user, "app.events.>")).toBe(true);
+    expect(canSubscribe(user, "app.commands.>")).toBe(false);
+  });
+
+  it("needs the reply subscription for requests", () => {
+    expect(
+      canRequest(claims({ allow: ["$SYS.>"] }, { allow: ["_INBOX.>"] }), "$SYS.REQ.USER.INFO")
+    ).toBe(true);
+    expect(
+      canRequest(claims({ allow: ["$SYS.>"] }, { allow: ["app.>"] }), "$SYS.REQ.USER.INFO")
+    ).toBe(false);
+    expect(
+      canRequest(claims({ allow: ["$SYS.>"] }, { deny: ["_INBOX.>"] }), "$SYS.REQ.USER.INFO")
+    ).toBe(false);
+    expect(canRequest(claims({ deny: ["$SYS.>"] }), "$SYS.REQ.USER.INFO")).toBe(false);
+  });
+
+  it("checks every subject of a requirement", () => {
+    const user = claims(
+      { allow: ["app.commands.>", "$JS.API.>"], deny: ["$JS.API.STREAM.PURGE.*"] },
+      { allow: ["app.events.>", "_INBOX.>"] }
+    );
+
+    expect(satisfiesRequirement(user, {})).toBe(true);
+    expect(
+      satisfiesRequirement(user, {
+        publish: ["app.commands.user.updateProfile"],
+        subscribe: ["app.events.>"],
+        request: ["$JS.API.STREAM.INFO.ORDERS"],
+      })
+    ).toBe(true);
+    expect(
+      satisfiesRequirement(user, {
+        publish: ["app.commands.user.updateProfile"],
+        request: ["$JS.API.STREAM.PURGE.ORDERS"],
+      })
+    ).toBe(false);
+    expect(satisfiesRequirement(user, { subscribe: ["app.>"] })).toBe(false);
+  });
+});
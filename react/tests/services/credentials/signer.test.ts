@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { presignNonce, setNonceSigner, takeNonceSignature } from "@/services/credentials/signer";
+import { toBase64Url } from "@/services/credentials/webauthn";
+import type { JwtSignerCredential } from "@/types";
+
+vi.mock("@/config/runtime", () => ({ getTimeouts: () => ({ signerMs: 50 }) }));
+
+const credential: JwtSignerCredential = {
+  id: "cred-1",
+  loadedAt: 0,
+  source: "form",
+  authType: "jwtsigner",
+  jwt: "eyJ0eXAiOiJKV1QifQ.eyJzdWIiOiJVIn0.c2ln",
+  publicKey: "UABC",
+  signerUrl: "https://signer.example.com/sign-nonce",
+};
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  setNonceSigner(null);
+  vi.unstubAllGlobals();
+});
+
+describe("signing with the endpoint", () => {
+  it("posts the nonce and keeps the signature for the authenticator", async () => {
+    fetchMock.mockResolvedValue(Response.json({ signature: toBase64Url(new Uint8Array([1, 2])) }));
+
+    await presignNonce("nonce-1", credential);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://signer.example.com/sign-nonce",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ nonce: "nonce-1", publicKey: "UABC" }),
+      })
+    );
+    expect(Array.from(takeNonceSignature("nonce-1"))).toEqual([1, 2]);
+  });
+
+  it("reports a failed request when the signature is taken", async () => {
+    fetchMock.mockResolvedValue(new Response("", { status: 500 }));
+
+    await expect(presignNonce("nonce-2", credential)).resolves.toBeUndefined();
+
+    expect(() => takeNonceSignature("nonce-2")).toThrow("Nonce signer failed with status 500");
+  });
+
+  it("gives up on a signer that does not answer", async () => {
+    fetchMock.mockReturnValue(new Promise(() => {}));
+
+    await presignNonce("nonce-3", credential);
+
+    expect(() => takeNonceSignature("nonce-3")).toThrow("Nonce signer did not answer within 50 ms");
+  });
+});
+
+describe("taking signatures", () => {
+  it("uses an installed signer, which may answer asynchronously", async () => {
+    setNonceSigner(async (nonce) =>
+      new TextEncoder().encode(`signed:${new TextDecoder().decode(nonce)}`)
+    );
+
+    await presignNonce("nonce-4", credential);
+
+    expect(new TextDecoder().decode(takeNonceSignature("nonce-4"))).toBe("signed:nonce-4");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("hands out a signature once", async () => {
+    setNonceSigner(() => new Uint8Array([7]));
+    await presignNonce("nonce-5", credential);
+
+    takeNonceSignature("nonce-5");
+
+    expect(() => takeNonceSignature("nonce-5")).toThrow(
+      "The server nonce was not signed before connecting"
+    );
+  });
+});
@@ -0,0 +1,109 @@
+// @vitest-environment node
+import { createAccount, createOperator, createUser, type KeyPair } from "@nats-io/nkeys";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { verifyCredentialTrust } from "@/services/credentials/parser";
+import type { CredentialTrustConfig, CredsFileCredential, UserPassCredential } from "@/types";
+
+const config = vi.hoisted(() => ({ trust: null as CredentialTrustConfig | null }));
+
+vi.mock("@/config/auth", () => ({
+  getCredentialTrustConfig: () => config.trust,
+}));
+
+function base64Url(value: string | Uint8Array): string {
+  const bytes = typeof value === "string" ? new TextEncoder().encode(value) : value;
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/** Sign NATS JWT claims with an issuer key pair */
+function sign(issuer: KeyPair, subject: string, type: "account" | "user"): string {
+  const header = base64Url(JSON.stringify({ typ: "JWT", alg: "ed25519-nkey" }));
+  const claims = base64Url(
+    JSON.stringify({ iss: issuer.getPublicKey(), sub: subject, nats: { type, version: 2 } })
+  );
+  const signature = issuer.sign(new TextEncoder().encode(`${header}.${claims}`));
+  return `${header}.${claims}.${base64Url(signature)}`;
+}
+
+const operator = createOperator();
+const account = createAccount();
+const user = createUser();
+const accountJwt = sign(operator, account.getPublicKey(), "account");
+
+function storedCredential(jwt = sign(account, user.getPublicKey(), "user")): CredsFileCredential {
+  return {
+    authType: "credsfile",
+    id: "cred-1",
+    jwt,
+    seed: user.getSeed(),
+    publicKey: user.getPublicKey(),
+    loadedAt: 0,
+    source: "file",
+  };
+}
+
+beforeEach(() => {
+  config.trust = { operators: [operator.getPublicKey()], accountJwts: [accountJwt] };
+});
+
+describe("verifyCredentialTrust", () => {
+  it("passes a credential issued under a trusted operator", () => {
+    expect(verifyCredentialTrust(storedCredential())).toBeNull();
+  });
+
+  it("passes everything when no operators are configured", () => {
+    config.trust = null;
+    expect(verifyCredentialTrust(storedCredential(sign(createAccount(), "U", "user")))).toBeNull();
+  });
+
+  it("passes credentials without a JWT", () => {
+    const credential: UserPassCredential = {
+      authType: "userpass",
+      id: "cred-2",
+      username: "alice",
+      password: "s3cret",
+      loadedAt: 0,
+      source: "form",
+    };
+    expect(verifyCredentialTrust(credential)).toBeNull();
+  });
+
+  it("rejects a credential whose operator is no longer trusted", () => {
+    config.trust = { operators: [createOperator().getPublicKey()], accountJwts: [accountJwt] };
+
+    expect(verifyCredentialTrust(storedCredential())).toEqual({
+      success: false,
+      error: expect.objectContaining({
+        code: "UNTRUSTED_CREDENTIAL",
+        message: expect.stringContaining("which is not a trusted operator"),
+      }),
+    });
+  });
+
+  it("rejects a credential of an unknown account", () => {
+    const other = createAccount();
+
+    expect(
+      verifyCredentialTrust(storedCredential(sign(other, user.getPublicKey(), "user")))
+    ).toEqual({
+      success: false,
+      error: expect.objectContaining({
+        message: `Account ${other.getPublicKey()} is not one of the trusted accounts.`,
+      }),
+    });
+  });
+
+  it("rejects a JWT issued for another user", () => {
+    expect(
+      verifyCredentialTrust(storedCredential(sign(account, createUser().getPublicKey(), "user")))
+    ).toEqual({
+      success: false,
+      error: expect.objectContaining({
+        message: "The JWT in the credential file was issued for a different user than its seed.",
+      }),
+    });
+  });
+});
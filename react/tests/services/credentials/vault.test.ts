@@ -0,0 +1,285 @@
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getCredentialStorage, resetCredentialStorage } from "@/services/credentials/storage";
+import type { UserPassCredential } from "@/types";
+
+// =============================================================================
+// Fake Platform Authenticator
+// =============================================================================
+
+/**
+ * Stands in for navigator.credentials. Each passkey has a secret; the PRF
+ * output for a salt is SHA-256(secret || salt), like a real authenticator
+ * returns the same output for the same credential and salt.
+ */
+class FakeAuthenticator {
+  private secrets = new Map<string, Uint8Array>();
+  /** Passkey the user picks in the next prompt; the first allowed one if unset */
+  choose: Uint8Array | null = null;
+  /** Replaces the PRF output of the next prompt */
+  tamper: ((output: Uint8Array) => Uint8Array) | null = null;
+  /** Credentials are created without PRF support */
+  prfUnsupported = false;
+  cancelled = false;
+
+  create = async (options: CredentialCreationOptions) => {
+    if (this.cancelled) return null;
+    const rawId = crypto.getRandomValues(new Uint8Array(16));
+    this.secrets.set(key(rawId), crypto.getRandomValues(new Uint8Array(32)));
+
+    const salt = options.publicKey!.extensions!.prf!.eval!.first as Uint8Array;
+    const first = this.prfUnsupported ? undefined : await this.evaluate(rawId, salt);
+    return credential(rawId, { enabled: !this.prfUnsupported, results: first && { first } });
+  };
+
+  get = async (options: CredentialRequestOptions) => {
+    if (this.cancelled) return null;
+    const allowed = options.publicKey!.allowCredentials!.map(
+      (descriptor) => descriptor.id as Uint8Array
+    );
+    const rawId = this.choose ?? allowed.find((id) => this.secrets.has(key(id)));
+    if (!rawId) return null;
+
+    const salts = options.publicKey!.extensions!.prf!.evalByCredential!;
+    // An authenticator the vault does not know was never asked for a salt
+    const salt = (salts[toBase64Url(rawId)]?.first as Uint8Array) ?? new Uint8Array(32);
+    return credential(rawId, { results: { first: await this.evaluate(rawId, salt) } });
+  };
+
+  private async evaluate(rawId: Uint8Array, salt: Uint8Array): Promise<Uint8Array> {
+    const secret = this.secrets.get(key(rawId)) ?? crypto.getRandomValues(new Uint8Array(32));
+    const output = new Uint8Array(
+      await crypto.subtle.digest("SHA-256", new Uint8Array([...secret, ...salt]))
+    );
+    const tamper = this.tamper;
+    this.tamper = null;
+    return tamper ? tamper(output) : output;
+  }
+}
+
+function key(rawId: Uint8Array): string {
+  return Array.from(rawId).join(",");
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function credential(rawId: Uint8Array, prf: AuthenticationExtensionsPRFOutputs) {
+  return {
+    rawId: rawId.buffer,
+    getClientExtensionResults: () => ({ prf }),
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+const PASSPHRASE = "correct horse battery";
+const SERVERS = ["wss://nats.example.com"];
+
+const storedCredential: UserPassCredential = {
+  id: "cred-1",
+  authType: "userpass",
+  username: "alice",
+  password: "s3cret",
+  loadedAt: 0,
+  source: "form",
+};
+
+let authenticator: FakeAuthenticator;
+
+function storage() {
+  // Few PBKDF2 iterations keep the tests fast
+  return getCredentialStorage({ iterations: 1000 });
+}
+
+async function protectedVaultWithAuthenticator(): Promise<void> {
+  await storage().storeCredential(storedCredential, SERVERS);
+  await storage().enablePassphrase(PASSPHRASE);
+  expect(await storage().enrollAuthenticator(PASSPHRASE, "Laptop")).toBe(true);
+  storage().lock();
+}
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+  resetCredentialStorage();
+  authenticator = new FakeAuthenticator();
+  Object.defineProperty(navigator, "credentials", {
+    value: { create: authenticator.create, get: authenticator.get },
+    configurable: true,
+  });
+});
+
+afterEach(() => {
+  Reflect.deleteProperty(navigator, "credentials");
+});
+
+describe("authenticator enrollment", () => {
+  it("adds a WebAuthn key slot next to the passphrase", async () => {
+    await storage().storeCredential(storedCredential, SERVERS);
+    await storage().enablePassphrase(PASSPHRASE);
+
+    expect(await storage().enrollAuthenticator(PASSPHRASE, "Laptop")).toBe(true);
+
+    const status = await storage().getVaultStatus();
+    expect(status.unlockMethods).toEqual(["passphrase", "webauthn-prf"]);
+    expect(status.authenticators).toEqual([
+      { id: expect.any(String), label: "Laptop", createdAt: expect.any(Number) },
+    ]);
+    expect((await storage().getStoredCredentialMeta("cred-1"))?.keyWrapping).toEqual([
+      "passphrase",
+      "webauthn-prf",
+    ]);
+  });
+
+  it("needs the passphrase", async () => {
+    await storage().enablePassphrase(PASSPHRASE);
+
+    expect(await storage().enrollAuthenticator("wrong passphrase", "Laptop")).toBe(false);
+    expect((await storage().getVaultStatus()).authenticators).toEqual([]);
+  });
+
+  it("fails without the PRF extension and leaves the vault unchanged", async () => {
+    await storage().enablePassphrase(PASSPHRASE);
+    authenticator.prfUnsupported = true;
+
+    await expect(storage().enrollAuthenticator(PASSPHRASE, "Laptop")).rejects.toThrow(
+      "This authenticator does not support the PRF extension"
+    );
+    expect((await storage().getVaultStatus()).unlockMethods).toEqual(["passphrase"]);
+  });
+});
+
+describe("unlocking with an authenticator", () => {
+  it("unlocks with the enrolled authenticator", async () => {
+    await protectedVaultWithAuthenticator();
+    expect((await storage().getVaultStatus()).locked).toBe(true);
+
+    expect(await storage().unlockWithAuthenticator()).toBe(true);
+
+    expect((await storage().getVaultStatus()).locked).toBe(false);
+    expect(await storage().retrieveCredential("cred-1")).toMatchObject({
+      username: "alice",
+      password: "s3cret",
+    });
+  });
+
+  it("rejects an authenticator that was not enrolled", async () => {
+    await protectedVaultWithAuthenticator();
+    authenticator.choose = crypto.getRandomValues(new Uint8Array(16));
+
+    expect(await storage().unlockWithAuthenticator()).toBe(false);
+    expect((await storage().getVaultStatus()).locked).toBe(true);
+  });
+
+  it("rejects a wrong PRF output", async () => {
+    await protectedVaultWithAuthenticator();
+    authenticator.tamper = (output) => output.map((byte) => byte ^ 0xff);
+
+    expect(await storage().unlockWithAuthenticator()).toBe(false);
+    await expect(storage().retrieveCredential("cred-1")).rejects.toThrow(
+      "Credential vault is locked"
+    );
+  });
+
+  it("throws when the prompt is cancelled", async () => {
+    await protectedVaultWithAuthenticator();
+    authenticator.cancelled = true;
+
+    await expect(storage().unlockWithAuthenticator()).rejects.toThrow(
+      "Authentication was cancelled"
+    );
+  });
+
+  it("throws when no authenticator is enrolled", async () => {
+    await storage().enablePassphrase(PASSPHRASE);
+    storage().lock();
+
+    await expect(storage().unlockWithAuthenticator()).rejects.toThrow(
+      "No authenticator is enrolled"
+    );
+  });
+});
+
+describe("passphrase fallback", () => {
+  it("still unlocks with the passphrase after enrollment", async () => {
+    await protectedVaultWithAuthenticator();
+
+    expect(await storage().unlock("wrong passphrase")).toBe(false);
+    expect(await storage().unlock(PASSPHRASE)).toBe(true);
+    expect(await storage().retrieveCredential("cred-1")).toMatchObject({ username: "alice" });
+  });
+
+  it("keeps the authenticator working after a passphrase change", async () => {
+    await protectedVaultWithAuthenticator();
+    expect(await storage().changePassphrase(PASSPHRASE, "a new passphrase")).toBe(true);
+    storage().lock();
+
+    expect(await storage().unlockWithAuthenticator()).toBe(true);
+    storage().lock();
+    expect(await storage().unlock(PASSPHRASE)).toBe(false);
+    expect(await storage().unlock("a new passphrase")).toBe(true);
+  });
+
+  it("unlocks with the passphrase once the authenticator is removed", async () => {
+    await protectedVaultWithAuthenticator();
+    const [enrolled] = (await storage().getVaultStatus()).authenticators;
+
+    await storage().removeAuthenticator(enrolled.id);
+
+    expect((await storage().getVaultStatus()).unlockMethods).toEqual(["passphrase"]);
+    await expect(storage().unlockWithAuthenticator()).rejects.toThrow(
+      "No authenticator is enrolled"
+    );
+    expect(await storage().unlock(PASSPHRASE)).toBe(true);
+  });
+});
+
+describe("re-encrypting stored credentials", () => {
+  const language = navigator.language;
+
+  /** The device key is derived from the browser; a change makes its records unreadable */
+  function changeDeviceKey(value: string) {
+    Object.defineProperty(navigator, "language", { value, configurable: true });
+  }
+
+  afterEach(() => {
+    changeDeviceKey(language);
+  });
+
+  it("keeps a credential it cannot decrypt and leaves the vault unprotected", async () => {
+    await storage().storeCredential(storedCredential, SERVERS, { label: "Alice" });
+    changeDeviceKey("xx-XX");
+
+    await expect(storage().enablePassphrase(PASSPHRASE)).rejects.toThrow(
+      'Cannot decrypt "Alice". Nothing was changed'
+    );
+
+    expect((await storage().getVaultStatus()).unlockMethods).toEqual([]);
+    expect(await storage().listStoredCredentials()).toEqual([
+      expect.objectContaining({ id: "cred-1", keyMode: "device" }),
+    ]);
+    changeDeviceKey(language);
+    expect(await storage().retrieveCredential("cred-1")).toMatchObject({ username: "alice" });
+  });
+
+  it("protects the remaining credentials once the unreadable one is removed", async () => {
+    await storage().storeCredential(storedCredential, SERVERS);
+    changeDeviceKey("xx-XX");
+    await storage().storeCredential(
+      { ...storedCredential, id: "cred-2", username: "bob" },
+      SERVERS
+    );
+    await expect(storage().enablePassphrase(PASSPHRASE)).rejects.toThrow("Cannot decrypt");
+
+    await storage().clearCredential("cred-1");
+    await storage().enablePassphrase(PASSPHRASE);
+
+    expect(await storage().retrieveCredential("cred-2")).toMatchObject({ username: "bob" });
+  });
+});
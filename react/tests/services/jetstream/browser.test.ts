@@ -0,0 +1,133 @@
+import { DeliverPolicy } from "@nats-io/jetstream";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { JetStreamService } from "@/services/jetstream/browser";
+
+interface FakeStreamMessage {
+  seq: number;
+  subject: string;
+  data: Uint8Array;
+  time: Date;
+}
+
+const js = vi.hoisted(() => ({
+  /** Messages the stream holds from the consumer's start on */
+  stored: [] as FakeStreamMessage[],
+  consumerOptions: [] as Array<Record<string, unknown>>,
+  fetchOptions: [] as Array<Record<string, unknown>>,
+  connection: {},
+  managers: 0,
+}));
+
+vi.mock("@/services/nats/connection", () => ({
+  getDirectConnection: async () => js.connection,
+}));
+
+vi.mock("@nats-io/jetstream", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@nats-io/jetstream")>()),
+  jetstream: () => ({
+    consumers: {
+      get: async (_stream: string, options: Record<string, unknown>) => {
+        js.consumerOptions.push(options);
+        return {
+          info: async () => ({ num_pending: js.stored.length }),
+          fetch: async (options: { max_messages: number }) => {
+            js.fetchOptions.push(options);
+            // The server may deliver past the batch before the client stops it
+            return (async function* () {
+              yield* js.stored;
+            })();
+          },
+        };
+      },
+    },
+  }),
+  jetstreamManager: async () => {
+    js.managers++;
+    return { streams: { info: async (name: string) => ({ config: { name } }) } };
+  },
+}));
+
+function stored(seq: number): FakeStreamMessage {
+  return {
+    seq,
+    subject: `orders.${seq}`,
+    data: new TextEncoder().encode(`order ${seq}`),
+    time: new Date(seq * 1000),
+  };
+}
+
+beforeEach(() => {
+  js.stored = [];
+  js.consumerOptions = [];
+  js.fetchOptions = [];
+  js.connection = {};
+  js.managers = 0;
+});
+
+describe("reading stream messages", () => {
+  it("reads a page from a sequence on", async () => {
+    js.stored = [stored(5), stored(6), stored(7), stored(8)];
+
+    const page = await new JetStreamService().readMessages("ORDERS", { seq: 5 }, { limit: 3 });
+
+    expect(js.consumerOptions[0]).toEqual({
+      deliver_policy: DeliverPolicy.StartSequence,
+      opt_start_seq: 5,
+    });
+    expect(js.fetchOptions[0]).toMatchObject({ max_messages: 3 });
+    expect(page.map((message) => message.seq)).toEqual([5, 6, 7]);
+    expect(page[0]).toMatchObject({
+      id: 5,
+      subject: "orders.5",
+      size: 7,
+      receivedAt: 5000,
+      headers: {},
+    });
+  });
+
+  it("reads from a time on, on the filtered subjects", async () => {
+    js.stored = [stored(1)];
+
+    await new JetStreamService().readMessages(
+      "ORDERS",
+      { time: new Date(1000) },
+      { limit: 10, filter: "orders.eu.>" }
+    );
+
+    expect(js.consumerOptions[0]).toEqual({
+      deliver_policy: DeliverPolicy.StartTime,
+      opt_start_time: "1970-01-01T00:00:01.000Z",
+      filter_subjects: "orders.eu.>",
+    });
+  });
+
+  it("fetches only the messages left for a short last page", async () => {
+    js.stored = [stored(9), stored(10)];
+
+    const page = await new JetStreamService().readMessages("ORDERS", { seq: 9 }, { limit: 50 });
+
+    expect(js.fetchOptions[0]).toMatchObject({ max_messages: 2 });
+    expect(page).toHaveLength(2);
+  });
+
+  it("does not fetch past the end of the stream", async () => {
+    const page = await new JetStreamService().readMessages("ORDERS", { seq: 11 }, { limit: 50 });
+
+    expect(page).toEqual([]);
+    expect(js.fetchOptions).toEqual([]);
+  });
+});
+
+describe("stream management", () => {
+  it("creates a new manager after a new login", async () => {
+    const service = new JetStreamService();
+
+    await service.getStream("ORDERS");
+    await service.getStream("ORDERS");
+    expect(js.managers).toBe(1);
+
+    js.connection = {};
+    await service.getStream("ORDERS");
+    expect(js.managers).toBe(2);
+  });
+});
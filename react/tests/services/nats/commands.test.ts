@@ -0,0 +1,230 @@
+import "fake-indexeddb/auto";
+import {
+  headers,
+  NoRespondersError,
+  PermissionViolationError,
+  RequestError,
+  TimeoutError,
+} from "@nats-io/nats-core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { encodeMsgpack } from "@/services/codecs/msgpack";
+import { getCommandService, resetCommandService } from "@/services/nats/commands";
+import type { NatsReply } from "@/services/nats/types";
+import { db } from "@/services/state/database";
+
+const nats = vi.hoisted(() => ({
+  online: true,
+  request: vi.fn<(subject: string, data: Uint8Array) => Promise<NatsReply>>(),
+}));
+
+vi.mock("@/services/nats/connection", () => ({
+  getNatsService: () => ({
+    tabRole: "follower",
+    isConnected: () => nats.online,
+    onEvent: () => () => {},
+    request: nats.request,
+  }),
+}));
+
+const SUBJECT = "app.commands.user.updateProfile";
+
+function json(value: unknown, entries: Record<string, string> = {}): NatsReply {
+  const hdrs = headers();
+  Object.entries(entries).forEach(([key, entry]) => hdrs.set(key, entry));
+  return { data: new TextEncoder().encode(JSON.stringify(value)), headers: hdrs };
+}
+
+function execute() {
+  return getCommandService().execute("user.updateProfile", { name: "Alice" }, "cmd-1");
+}
+
+beforeEach(async () => {
+  resetCommandService();
+  nats.online = true;
+  nats.request.mockReset();
+  await db.outbox.clear();
+});
+
+describe("command results", () => {
+  it("decodes the backend's result", async () => {
+    nats.request.mockResolvedValue(
+      json({ commandId: "cmd-1", success: true, data: { ok: true }, timestamp: 1 })
+    );
+
+    expect(await execute()).toEqual({
+      commandId: "cmd-1",
+      success: true,
+      data: { ok: true },
+      timestamp: 1,
+    });
+    expect(nats.request.mock.calls[0][0]).toBe(SUBJECT);
+  });
+
+  it("decodes a reply in the codec of its Content-Type", async () => {
+    nats.request.mockResolvedValue({
+      data: encodeMsgpack({ commandId: "cmd-1", success: true, data: null, timestamp: 1 }),
+      headers: json(null, { "Content-Type": "application/msgpack" }).headers,
+    });
+
+    expect(await execute()).toMatchObject({ success: true });
+  });
+
+  it.each([
+    ["403", "PERMISSION_DENIED"],
+    ["401", "PERMISSION_DENIED"],
+    ["400", "INVALID_PAYLOAD"],
+    ["404", "NOT_FOUND"],
+    ["409", "CONFLICT"],
+    ["500", "INTERNAL_ERROR"],
+    ["", "INTERNAL_ERROR"],
+  ])("maps a service error with code %j to %s", async (status, code) => {
+    nats.request.mockResolvedValue({
+      data: new Uint8Array(),
+      headers: json(null, {
+        "Nats-Service-Error": "not allowed to update this profile",
+        ...(status && { "Nats-Service-Error-Code": status }),
+      }).headers,
+    });
+
+    expect(await execute()).toMatchObject({
+      commandId: "cmd-1",
+      success: false,
+      error: { code, message: "not allowed to update this profile" },
+    });
+  });
+});
+
+describe("transport errors", () => {
+  it("reports a permission violation as PERMISSION_DENIED", async () => {
+    nats.request.mockRejectedValue(
+      new PermissionViolationError("Permissions Violation for Publish", "publish", SUBJECT)
+    );
+
+    expect(await execute()).toMatchObject({
+      success: false,
+      error: {
+        code: "PERMISSION_DENIED",
+        details: { operation: "publish", subject: SUBJECT },
+      },
+    });
+  });
+
+  it("reports a missing service", async () => {
+    nats.request.mockRejectedValue(
+      new RequestError("no responders", { cause: new NoRespondersError(SUBJECT) })
+    );
+
+    expect(await execute()).toMatchObject({
+      success: false,
+      error: { code: "INTERNAL_ERROR", message: "Command service unavailable" },
+    });
+  });
+
+  it("reports a timeout", async () => {
+    nats.request.mockRejectedValue(new TimeoutError());
+
+    expect(await execute()).toMatchObject({
+      success: false,
+      error: { code: "INTERNAL_ERROR", message: "Command timed out" },
+    });
+  });
+});
+
+describe("command outbox", () => {
+  function result(commandId: string, error?: { code: string; message: string }) {
+    return json(
+      error
+        ? { commandId, success: false, error, timestamp: 1 }
+        : { commandId, success: true, data: null, timestamp: 1 }
+    );
+  }
+
+  /** Queue commands while offline, a second apart, then come back online */
+  async function queue(...ids: string[]) {
+    nats.online = false;
+    vi.useFakeTimers({ now: 0, toFake: ["Date"] });
+    const service = getCommandService();
+    for (const id of ids) {
+      vi.advanceTimersByTime(1000);
+      expect(await service.execute("user.updateProfile", { name: id }, id)).toMatchObject({
+        success: false,
+        error: { code: "QUEUED" },
+      });
+    }
+    vi.useRealTimers();
+    nats.online = true;
+    return service;
+  }
+
+  async function statuses() {
+    return (await db.outbox.orderBy("createdAt").toArray()).map((entry) => [
+      entry.id,
+      entry.status,
+      entry.attempts,
+    ]);
+  }
+
+  function sentIds() {
+    return nats.request.mock.calls.map(([, data]) => JSON.parse(new TextDecoder().decode(data)).id);
+  }
+
+  it("replays queued commands in the order they were issued", async () => {
+    const service = await queue("cmd-2", "cmd-1");
+    nats.request.mockImplementation(async (_, data) =>
+      result(JSON.parse(new TextDecoder().decode(data)).id)
+    );
+
+    await service.replayOutbox();
+
+    expect(sentIds()).toEqual(["cmd-2", "cmd-1"]);
+    expect(await statuses()).toEqual([
+      ["cmd-2", "sent", 1],
+      ["cmd-1", "sent", 1],
+    ]);
+
+    // Delivered commands are pruned by the next replay
+    await service.replayOutbox();
+    expect(await statuses()).toEqual([]);
+  });
+
+  it("stops at a command that cannot be delivered and keeps the rest queued", async () => {
+    const service = await queue("cmd-1", "cmd-2");
+    nats.request.mockRejectedValue(new TimeoutError());
+
+    await service.replayOutbox();
+
+    expect(sentIds()).toEqual(["cmd-1"]);
+    expect(await statuses()).toEqual([
+      ["cmd-1", "pending", 1],
+      ["cmd-2", "pending", 0],
+    ]);
+  });
+
+  it("moves on past a command the backend rejects", async () => {
+    const service = await queue("cmd-1", "cmd-2");
+    nats.request
+      .mockResolvedValueOnce(result("cmd-1", { code: "CONFLICT", message: "profile changed" }))
+      .mockResolvedValueOnce(result("cmd-2"));
+
+    await service.replayOutbox();
+
+    expect(await statuses()).toEqual([
+      ["cmd-1", "conflict", 1],
+      ["cmd-2", "sent", 1],
+    ]);
+    expect(await service.whenReplayed("cmd-1")).toBe("conflict");
+  });
+
+  it("sends a retried command again", async () => {
+    const service = await queue("cmd-1");
+    nats.request.mockResolvedValueOnce(
+      result("cmd-1", { code: "INTERNAL_ERROR", message: "try later" })
+    );
+    await service.replayOutbox();
+
+    nats.request.mockResolvedValueOnce(result("cmd-1"));
+    await service.retryQueued("cmd-1");
+
+    expect(await statuses()).toEqual([["cmd-1", "sent", 2]]);
+  });
+});
@@ -0,0 +1,159 @@
+import type { NatsConnection } from "@nats-io/nats-core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getDirectConnection, getNatsService, resetNatsService } from "@/services/nats/connection";
+import type { TokenCredential } from "@/types";
+import type { TabSyncMessage } from "@/types/state";
+
+const tab = vi.hoisted(() => ({
+  isLeader: false,
+  leaderListeners: new Set<(isLeader: boolean) => void>(),
+  syncListeners: new Set<(message: unknown) => void>(),
+  opened: [] as Array<{ servers: string[]; drain: () => Promise<void> }>,
+}));
+
+vi.mock("@nats-io/nats-core", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@nats-io/nats-core")>()),
+  wsconnect: vi.fn(async ({ servers }: { servers: string[] }) => {
+    const connection = {
+      servers,
+      getServer: () => servers[0],
+      status: async function* () {},
+      drain: vi.fn(async () => {}),
+      close: vi.fn(async () => {}),
+      reconnect: vi.fn(async () => {}),
+      isClosed: () => false,
+    };
+    tab.opened.push(connection);
+    return connection;
+  }),
+}));
+
+vi.mock("@/services/state/leader", () => ({
+  isLeaderElectionSupported: () => true,
+  getLeaderElection: () => ({
+    isLeader: () => tab.isLeader,
+    onChange: (listener: (isLeader: boolean) => void) => {
+      tab.leaderListeners.add(listener);
+      return () => tab.leaderListeners.delete(listener);
+    },
+    close: () => {},
+  }),
+}));
+
+vi.mock("@/services/state/sync", () => ({
+  getStateSyncService: () => ({
+    subscribe: (listener: (message: unknown) => void) => {
+      tab.syncListeners.add(listener);
+      return () => tab.syncListeners.delete(listener);
+    },
+    notifyConnectionStatusChanged: () => {},
+    requestConnectionStatus: () => {},
+    requestConnect: () => {},
+    requestDisconnect: () => {},
+    requestCredentialReplace: () => {},
+  }),
+}));
+
+const credential: TokenCredential = {
+  id: "cred-1",
+  loadedAt: 0,
+  source: "form",
+  authType: "token",
+  token: "secret",
+};
+
+function fromLeader(message: TabSyncMessage) {
+  tab.syncListeners.forEach((listener) => listener(message));
+}
+
+function leaderStatus(status: string, event?: string) {
+  fromLeader({
+    type: "CONNECTION_STATUS_CHANGED",
+    payload: { status, event, server: "wss://leader:443", servers: ["wss://leader:443"] },
+  } as TabSyncMessage);
+}
+
+/** Connect as a follower of a leader tab that is already connected */
+async function follow() {
+  const connecting = getNatsService({ sharedConnection: true }).connect(credential, [
+    "wss://nats.example.com",
+  ]);
+  leaderStatus("connected", "connected");
+  await connecting;
+}
+
+beforeEach(() => {
+  tab.isLeader = false;
+  tab.leaderListeners.clear();
+  tab.syncListeners.clear();
+  tab.opened = [];
+});
+
+afterEach(async () => {
+  await resetNatsService();
+});
+
+describe("direct connection", () => {
+  it("fails while not connected", async () => {
+    getNatsService({ sharedConnection: true });
+
+    await expect(getDirectConnection()).rejects.toThrow("Not connected to NATS");
+    expect(tab.opened).toHaveLength(0);
+  });
+
+  it("is the tab's own connection on the leader tab", async () => {
+    tab.isLeader = true;
+    await getNatsService({ sharedConnection: true }).connect(credential, [
+      "wss://nats.example.com",
+    ]);
+
+    const connection = await getDirectConnection();
+
+    expect(tab.opened).toHaveLength(1);
+    expect(connection).toBe(getNatsService().connection);
+  });
+
+  it("opens one connection of its own on a follower tab", async () => {
+    await follow();
+    expect(tab.opened).toHaveLength(0);
+
+    const [first, second] = await Promise.all([getDirectConnection(), getDirectConnection()]);
+
+    expect(tab.opened).toHaveLength(1);
+    expect(first).toBe(second);
+    expect(tab.opened[0].servers).toEqual(["wss://nats.example.com"]);
+    expect(getNatsService().connection).toBeNull();
+  });
+
+  it("is closed when the follower tab logs out", async () => {
+    await follow();
+    await getDirectConnection();
+
+    await getNatsService().disconnect();
+
+    expect(tab.opened[0].drain).toHaveBeenCalled();
+    await expect(getDirectConnection()).rejects.toThrow("Not connected to NATS");
+  });
+
+  it("is closed when the leader tab reports its connection gone", async () => {
+    await follow();
+    await getDirectConnection();
+
+    leaderStatus("disconnected", "disconnected");
+
+    await vi.waitFor(() => expect(tab.opened[0].drain).toHaveBeenCalled());
+  });
+
+  it("is replaced by the shared connection when the follower takes over", async () => {
+    await follow();
+    const own = (await getDirectConnection()) as unknown as (typeof tab.opened)[number];
+
+    tab.isLeader = true;
+    tab.leaderListeners.forEach((listener) => listener(true));
+    await vi.waitFor(() => expect(getNatsService().connection).not.toBeNull());
+
+    expect(own.drain).toHaveBeenCalled();
+    expect(tab.opened).toHaveLength(2);
+    expect(await getDirectConnection()).toBe(getNatsService().connection as NatsConnection);
+  });
+});
@@ -0,0 +1,227 @@
+import { headers as createHeaders, type MsgHdrs } from "@nats-io/nats-core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getEventService, resetEventService } from "@/services/nats/events";
+import type { AppEvent } from "@/types/events";
+
+interface FakeMessage {
+  subject: string;
+  data: Uint8Array;
+  headers?: MsgHdrs;
+  seq: number;
+}
+
+const nats = vi.hoisted(() => ({
+  stream: { first_seq: 1, last_seq: 0 },
+  /** Last applied stream sequence, as kept in IndexedDB */
+  applied: null as number | null,
+  /** Messages delivered by the next subscription or consumer */
+  messages: [] as FakeMessage[],
+  consumerOptions: [] as Array<Record<string, unknown>>,
+  savedSequences: [] as number[],
+}));
+
+/** Deliver the queued messages, then stay open like a live subscription */
+async function* deliver() {
+  yield* nats.messages;
+  await new Promise(() => {});
+}
+
+vi.mock("@nats-io/jetstream", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@nats-io/jetstream")>()),
+  jetstream: () => ({
+    streams: {
+      get: async () => ({ info: async () => ({ state: nats.stream }) }),
+    },
+    consumers: {
+      get: async (_stream: string, options: Record<string, unknown>) => {
+        nats.consumerOptions.push(options);
+        return { consume: async () => Object.assign(deliver(), { close: async () => {} }) };
+      },
+    },
+  }),
+}));
+
+vi.mock("@/services/nats/connection", () => ({
+  getNatsService: () => ({
+    connection: {
+      subscribe: () => Object.assign(deliver(), { isClosed: () => false, drain: async () => {} }),
+    },
+  }),
+}));
+
+vi.mock("@/services/state/database", () => ({
+  getEventStreamSequence: async () => nats.applied,
+  setEventStreamSequence: async (_stream: string, sequence: number) => {
+    nats.applied = sequence;
+    nats.savedSequences.push(sequence);
+  },
+}));
+
+function message(seq: number, event: Partial<AppEvent>, headers?: FakeMessage["headers"]) {
+  return {
+    subject: "app.events.notification.read",
+    data: new TextEncoder().encode(
+      JSON.stringify({
+        type: "notification.read",
+        timestamp: seq,
+        payload: { notificationId: "n1" },
+        ...event,
+      })
+    ),
+    headers,
+    seq,
+  };
+}
+
+function readEvent(correlationId: string): AppEvent {
+  return {
+    type: "notification.read",
+    timestamp: 1,
+    payload: { notificationId: "n1" },
+    correlationId,
+  };
+}
+
+function createService(stream: string | null = "EVENTS") {
+  return getEventService({ namespace: "app", stateTimeoutMs: 1000, stream });
+}
+
+beforeEach(() => {
+  nats.stream = { first_seq: 1, last_seq: 0 };
+  nats.applied = null;
+  nats.messages = [];
+  nats.consumerOptions = [];
+  nats.savedSequences = [];
+});
+
+afterEach(() => {
+  resetEventService();
+});
+
+describe("event replay", () => {
+  it("resumes after the last applied event while the stream still holds the next one", async () => {
+    nats.stream = { first_seq: 5, last_seq: 20 };
+    nats.applied = 10;
+    const service = createService();
+
+    expect(await service.prepareSubscription()).toEqual({ refetchState: false });
+    await service.subscribe(() => {});
+
+    expect(nats.consumerOptions[0]).toMatchObject({ opt_start_seq: 11 });
+    expect(nats.savedSequences).toEqual([]);
+  });
+
+  it.each([
+    ["nothing was applied yet", null, {}],
+    ["the stream no longer holds the next event", 10, {}],
+    ["a refetch is forced", 15, { forceRefetch: true }],
+  ])("refetches the state when %s", async (_, applied, options) => {
+    nats.stream = { first_seq: 12, last_seq: 20 };
+    nats.applied = applied;
+    const service = createService();
+
+    expect(await service.prepareSubscription(options)).toEqual({ refetchState: true });
+    await service.subscribe(() => {});
+
+    // Events up to the refetch count as applied; newer ones are replayed
+    expect(nats.savedSequences).toEqual([20]);
+    expect(nats.consumerOptions[0]).toMatchObject({ opt_start_seq: 21 });
+  });
+
+  it("records the sequence of each event once it has been applied", async () => {
+    nats.stream = { first_seq: 1, last_seq: 10 };
+    nats.applied = 10;
+    nats.messages = [message(11, {}), message(12, {})];
+    const recordedWhileApplying: Array<number | null> = [];
+    const service = createService();
+
+    await service.prepareSubscription();
+    await service.subscribe(async () => {
+      recordedWhileApplying.push(nats.applied);
+    });
+
+    await vi.waitFor(() => expect(nats.savedSequences).toEqual([11, 12]));
+    expect(recordedWhileApplying).toEqual([10, 11]);
+  });
+
+  it("always refetches without an event stream", async () => {
+    const service = createService(null);
+
+    expect(await service.prepareSubscription()).toEqual({ refetchState: true });
+    expect(service.isReplayEnabled()).toBe(false);
+  });
+});
+
+describe("correlated events", () => {
+  it("resolves the wait with the event carrying the command's correlation header", async () => {
+    const correlation = createHeaders();
+    correlation.set("Nats-Correlation-Id", "cmd-1");
+    nats.messages = [message(1, {}), message(2, {}, correlation)];
+    const service = createService(null);
+
+    const wait = service.waitForCorrelatedEvent("cmd-1", 1000);
+    await service.subscribe(() => {});
+
+    expect(await wait.event).toMatchObject({ timestamp: 2, correlationId: "cmd-1" });
+  });
+
+  it("prefers the correlation id in the event body", async () => {
+    const correlation = createHeaders();
+    correlation.set("Nats-Correlation-Id", "cmd-2");
+    nats.messages = [message(1, { correlationId: "cmd-1" }, correlation)];
+    const service = createService(null);
+
+    const wait = service.waitForCorrelatedEvent("cmd-1", 1000);
+    await service.subscribe(() => {});
+
+    expect(await wait.event).toMatchObject({ correlationId: "cmd-1" });
+  });
+
+  it("resolves after the event has been applied", async () => {
+    nats.messages = [message(1, { correlationId: "cmd-1" })];
+    const service = createService(null);
+    let applied = false;
+
+    const wait = service.waitForCorrelatedEvent("cmd-1", 1000);
+    await service.subscribe(async () => {
+      await Promise.resolve();
+      applied = true;
+    });
+
+    await wait.event;
+    expect(applied).toBe(true);
+  });
+
+  it("resolves with an event handed over by the leader tab", async () => {
+    const service = createService(null);
+
+    const wait = service.waitForCorrelatedEvent("cmd-1", 1000);
+    service.resolveCorrelatedEvent(readEvent("cmd-1"));
+
+    expect(await wait.event).toMatchObject({ correlationId: "cmd-1" });
+  });
+
+  it("gives up after the timeout", async () => {
+    vi.useFakeTimers();
+    const service = createService(null);
+
+    const wait = service.waitForCorrelatedEvent("cmd-1", 1000);
+    vi.advanceTimersByTime(1000);
+
+    expect(await wait.event).toBeNull();
+    vi.useRealTimers();
+  });
+
+  it("ignores the event once the wait is cancelled", async () => {
+    const service = createService(null);
+    const resolved = vi.fn();
+
+    const wait = service.waitForCorrelatedEvent("cmd-1", 1000);
+    wait.event.then(resolved);
+    wait.cancel();
+    service.resolveCorrelatedEvent(readEvent("cmd-1"));
+    await Promise.resolve();
+
+    expect(resolved).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import { NoRespondersError, RequestError } from "@nats-io/nats-core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { querySystemEndpoint } from "@/services/nats/monitoring";
+
+interface FakeReply {
+  data: Uint8Array;
+  headers?: { code: number };
+}
+
+const nats = vi.hoisted(() => ({
+  requestMany: vi.fn<(subject: string) => Promise<AsyncIterable<FakeReply>>>(),
+}));
+
+vi.mock("@/services/nats/connection", () => ({
+  getDirectConnection: async () => ({ requestMany: nats.requestMany }),
+}));
+
+async function* replies(...messages: FakeReply[]) {
+  yield* messages;
+}
+
+function answer(server: string, body: Record<string, unknown>): FakeReply {
+  return {
+    data: new TextEncoder().encode(JSON.stringify({ server: { name: server }, ...body })),
+  };
+}
+
+beforeEach(() => {
+  nats.requestMany.mockReset();
+});
+
+describe("querySystemEndpoint", () => {
+  it("collects the answer of every server in the cluster", async () => {
+    nats.requestMany.mockResolvedValue(
+      replies(
+        answer("n1", { data: { connections: 3 } }),
+        answer("n2", { data: { connections: 4 } })
+      )
+    );
+
+    const result = await querySystemEndpoint("varz", 1000);
+
+    expect(nats.requestMany).toHaveBeenCalledWith("$SYS.REQ.SERVER.PING.VARZ", expect.anything(), {
+      strategy: "timer",
+      maxWait: 1000,
+    });
+    expect(result).toEqual({
+      status: "ok",
+      responses: [
+        { server: { name: "n1" }, data: { connections: 3 } },
+        { server: { name: "n2" }, data: { connections: 4 } },
+      ],
+    });
+  });
+
+  it("keeps the servers that answered when others report an error", async () => {
+    nats.requestMany.mockResolvedValue(
+      replies(
+        answer("n1", { error: { code: 500, description: "jetstream not enabled" } }),
+        answer("n2", { data: { streams: 1 } })
+      )
+    );
+
+    expect(await querySystemEndpoint("jsz", 1000)).toMatchObject({
+      status: "ok",
+      responses: [{ server: { name: "n2" } }],
+    });
+  });
+
+  it("reports the error when no server has data", async () => {
+    nats.requestMany.mockResolvedValue(
+      replies(answer("n1", { error: { code: 500, description: "jetstream not enabled" } }))
+    );
+
+    expect(await querySystemEndpoint("jsz", 1000)).toEqual({
+      status: "error",
+      error: "jetstream not enabled",
+    });
+  });
+
+  it.each([
+    [
+      "a status-only reply",
+      () => Promise.resolve(replies({ data: new Uint8Array(), headers: { code: 503 } })),
+    ],
+    ["no responders", () => Promise.reject(new NoRespondersError("$SYS.REQ.SERVER.PING.VARZ"))],
+    [
+      "a request error for no responders",
+      () =>
+        Promise.reject(
+          new RequestError("no responders", {
+            cause: new NoRespondersError("$SYS.REQ.SERVER.PING.VARZ"),
+          })
+        ),
+    ],
+    ["no answer in time", () => Promise.resolve(replies())],
+  ])("reports the endpoint as unavailable after %s", async (_, respond) => {
+    nats.requestMany.mockImplementation(respond);
+
+    expect(await querySystemEndpoint("varz", 1000)).toEqual({
+      status: "unavailable",
+      error: "No server answered $SYS.REQ.SERVER.PING.VARZ.",
+    });
+  });
+
+  it("reports other request failures", async () => {
+    nats.requestMany.mockRejectedValue(new Error("connection closed"));
+
+    expect(await querySystemEndpoint("varz", 1000)).toEqual({
+      status: "error",
+      error: "connection closed",
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { domains } from "@/domains";
+import { getCommandTemplates } from "@/services/nats/playground";
+
+describe("getCommandTemplates", () => {
+  it("has a template for every registered command", () => {
+    const templates = getCommandTemplates("acme");
+    const commands = domains.flatMap((domain) => [...domain.commands]);
+
+    expect(templates.map((template) => [template.name, template.subject])).toEqual(
+      commands.map((command) => [command.type, `acme.commands.${command.subject}`])
+    );
+  });
+
+  it("wraps the example payload in a command envelope", () => {
+    const template = getCommandTemplates("app").find(
+      (candidate) => candidate.name === "user.updateProfile"
+    );
+
+    expect(template).toMatchObject({ subject: "app.commands.user.updateProfile", headers: [] });
+    expect(template?.body).toContain('"id": "{{uuid}}"');
+    expect(template?.body).toContain('"timestamp": {{now}}');
+    expect(JSON.parse(template!.body.replace("{{now}}", "0"))).toMatchObject({
+      type: "user.updateProfile",
+      timestamp: 0,
+      payload: expect.any(Object),
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ConnectionOptions } from "@nats-io/nats-core";
+import { presigningWsFactory } from "@/services/nats/presign";
+
+class FakeSocket extends EventTarget {
+  binaryType = "blob";
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(readonly url: string) {
+    super();
+  }
+
+  receive(text: string) {
+    this.dispatchEvent(
+      new MessageEvent("message", { data: new TextEncoder().encode(text).buffer })
+    );
+  }
+}
+
+const INFO = 'INFO {"server_id":"S1","nonce":"abc123"}\r\n';
+
+function text(event: MessageEvent) {
+  return new TextDecoder().decode(event.data as ArrayBuffer);
+}
+
+/** Open a socket the way nats.js does and record what it receives */
+async function open(sign: (nonce: string) => Promise<void>) {
+  const { socket, encrypted } = await presigningWsFactory(sign)(
+    "wss://nats.example.com",
+    {} as ConnectionOptions
+  );
+  const received: string[] = [];
+  socket.onmessage = (event) => received.push(text(event));
+  return { socket: socket as unknown as FakeSocket, encrypted, received };
+}
+
+beforeEach(() => {
+  vi.stubGlobal("WebSocket", FakeSocket);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("presigning WebSocket", () => {
+  it("holds the INFO back until its nonce is signed", async () => {
+    let finish = () => {};
+    const sign = vi.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+    const { socket, encrypted, received } = await open(sign);
+
+    socket.receive(INFO);
+    socket.receive("PING\r\n");
+    await Promise.resolve();
+
+    expect(encrypted).toBe(true);
+    expect(sign).toHaveBeenCalledWith("abc123");
+    expect(received).toEqual([]);
+
+    finish();
+    await vi.waitFor(() => expect(received).toEqual([INFO, "PING\r\n"]));
+
+    socket.receive("PONG\r\n");
+    expect(received).toEqual([INFO, "PING\r\n", "PONG\r\n"]);
+    expect(sign).toHaveBeenCalledTimes(1);
+  });
+
+  it("delivers the INFO after signing fails, for the authenticator to report", async () => {
+    const { socket, received } = await open(() => Promise.reject(new Error("signer down")));
+
+    socket.receive(INFO);
+
+    await vi.waitFor(() => expect(received).toEqual([INFO]));
+  });
+
+  it("passes an INFO without a nonce through without signing", async () => {
+    const sign = vi.fn(() => Promise.resolve());
+    const { socket, received } = await open(sign);
+
+    socket.receive('INFO {"server_id":"S1"}\r\n');
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(sign).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  headers,
+  NoRespondersError,
+  PermissionViolationError,
+  RequestError,
+  TimeoutError,
+  type Msg,
+  type NatsConnection,
+} from "@nats-io/nats-core";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { requestThroughLeader, serveFollowerRequests } from "@/services/nats/proxy";
+
+// Both sides of the tab channel in one page
+const channel = vi.hoisted(() => {
+  const listeners = new Set<(message: unknown) => void>();
+  const post = (type: string, payload: unknown) =>
+    queueMicrotask(() => listeners.forEach((listener) => listener({ type, payload })));
+  return {
+    service: {
+      subscribe: (listener: (message: unknown) => void) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      sendNatsRequest: (payload: unknown) => post("NATS_REQUEST", payload),
+      sendNatsResponse: (payload: unknown) => post("NATS_RESPONSE", payload),
+    },
+  };
+});
+
+vi.mock("@/services/state/sync", () => ({ getStateSyncService: () => channel.service }));
+
+const request = vi.fn<NatsConnection["request"]>();
+
+function reply(data: Uint8Array, entries: Record<string, string> = {}): Msg {
+  const hdrs = headers();
+  Object.entries(entries).forEach(([key, value]) => hdrs.set(key, value));
+  return { data, headers: Object.keys(entries).length > 0 ? hdrs : undefined } as Msg;
+}
+
+function send() {
+  const hdrs = headers();
+  hdrs.set("Nats-Command-Id", "cmd-1");
+  return requestThroughLeader("app.commands.user.updateProfile", new Uint8Array([1, 2]), {
+    timeout: 50,
+    headers: hdrs,
+  });
+}
+
+beforeAll(() => {
+  serveFollowerRequests(() => ({ request }) as unknown as NatsConnection);
+});
+
+beforeEach(() => {
+  request.mockReset();
+});
+
+describe("requests through the leader tab", () => {
+  it("sends the request on the leader's connection", async () => {
+    request.mockResolvedValue(reply(new Uint8Array([3])));
+
+    await send();
+
+    expect(request).toHaveBeenCalledWith(
+      "app.commands.user.updateProfile",
+      new Uint8Array([1, 2]),
+      expect.objectContaining({ timeout: 50 })
+    );
+    expect(request.mock.calls[0][2]?.headers?.get("Nats-Command-Id")).toBe("cmd-1");
+  });
+
+  it("returns the reply body and headers", async () => {
+    request.mockResolvedValue(
+      reply(new Uint8Array([0x82, 0xa1]), {
+        "Content-Type": "application/msgpack",
+        "Nats-Service-Error": "profile not found",
+        "Nats-Service-Error-Code": "404",
+      })
+    );
+
+    const { data, headers: replyHeaders } = await send();
+
+    expect(data).toEqual(new Uint8Array([0x82, 0xa1]));
+    expect(replyHeaders?.get("Content-Type")).toBe("application/msgpack");
+    expect(replyHeaders?.get("Nats-Service-Error")).toBe("profile not found");
+    expect(replyHeaders?.get("Nats-Service-Error-Code")).toBe("404");
+  });
+
+  it("returns no headers for a reply without them", async () => {
+    request.mockResolvedValue(reply(new Uint8Array()));
+
+    expect((await send()).headers).toBeUndefined();
+  });
+
+  it("rebuilds a permission violation", async () => {
+    request.mockRejectedValue(
+      new PermissionViolationError(
+        "Permissions Violation for Publish to app.commands.user.updateProfile",
+        "publish",
+        "app.commands.user.updateProfile"
+      )
+    );
+
+    const error = await send().catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(PermissionViolationError);
+    expect(error).toMatchObject({
+      message: "Permissions Violation for Publish to app.commands.user.updateProfile",
+      operation: "publish",
+      subject: "app.commands.user.updateProfile",
+    });
+  });
+
+  it("rebuilds a missing responder", async () => {
+    request.mockRejectedValue(
+      new RequestError("no responders", {
+        cause: new NoRespondersError("app.commands.user.updateProfile"),
+      })
+    );
+
+    const error = await send().catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(RequestError);
+    expect((error as RequestError).isNoResponders()).toBe(true);
+    expect((error as RequestError).cause).toMatchObject({
+      subject: "app.commands.user.updateProfile",
+    });
+  });
+
+  it("rebuilds a timeout", async () => {
+    request.mockRejectedValue(new TimeoutError());
+
+    await expect(send()).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it("passes other errors on with their message", async () => {
+    request.mockRejectedValue(new Error("connection draining"));
+
+    const error = await send().catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(TimeoutError);
+    expect((error as Error).message).toBe("connection draining");
+  });
+
+  it("times out when no leader answers", async () => {
+    request.mockReturnValue(new Promise(() => {}));
+    vi.useFakeTimers();
+    try {
+      const pending = send();
+      const settled = expect(pending).rejects.toBeInstanceOf(TimeoutError);
+      await vi.advanceTimersByTimeAsync(2000);
+      await settled;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
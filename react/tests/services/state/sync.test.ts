@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getStateSyncService, resetStateSyncService } from "@/services/state/sync";
+import type { AppEvent, StateInvalidatedPayload, StatePatch, TabSyncMessage } from "@/types/state";
+
+const patch: StatePatch = {
+  type: "event",
+  event: { id: "evt-1", type: "notification.created" } as AppEvent,
+};
+
+let otherTab: BroadcastChannel;
+let received: StateInvalidatedPayload[];
+
+/** Send an invalidation as another tab would */
+function invalidate(sequence: number, tabId = "tab-b") {
+  otherTab.postMessage({
+    type: "STATE_INVALIDATED",
+    tabId,
+    timestamp: Date.now(),
+    payload: { keys: ["notifications"], sequence, patch },
+  } satisfies TabSyncMessage<StateInvalidatedPayload>);
+}
+
+async function receivedPatches(count: number) {
+  await vi.waitFor(() => expect(received).toHaveLength(count));
+  return received.map((payload) => payload.patch !== undefined);
+}
+
+beforeEach(() => {
+  received = [];
+  getStateSyncService("tab-a").subscribe((message) => {
+    if (message.type === "STATE_INVALIDATED") {
+      received.push(message.payload as StateInvalidatedPayload);
+    }
+  });
+  otherTab = new BroadcastChannel("nats-ui-state-sync");
+});
+
+afterEach(() => {
+  otherTab.close();
+  resetStateSyncService();
+});
+
+describe("invalidation sequences", () => {
+  it("applies the first patch from a tab, whatever its sequence", async () => {
+    invalidate(7);
+    invalidate(8);
+
+    expect(await receivedPatches(2)).toEqual([true, true]);
+  });
+
+  it("drops the patch that follows a missed invalidation", async () => {
+    invalidate(1);
+    invalidate(3);
+    invalidate(4);
+
+    expect(await receivedPatches(3)).toEqual([true, false, true]);
+    expect(received[1]).toEqual({ keys: ["notifications"], sequence: 3 });
+  });
+
+  it("counts each tab separately", async () => {
+    invalidate(1, "tab-b");
+    invalidate(5, "tab-c");
+    invalidate(2, "tab-b");
+    invalidate(7, "tab-c");
+
+    expect(await receivedPatches(4)).toEqual([true, true, true, false]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { isValidSubject, subjectMatches } from "@/utils/subjects";
+
+describe("subjectMatches", () => {
+  it.each([
+    // Literal subjects
+    ["app.events.user", "app.events.user", true],
+    ["app.events.user", "app.events.users", false],
+    ["app.events.user", "app.events", false],
+    ["app.events", "app.events.user", false],
+    // `*` matches exactly one token
+    ["app.*.user", "app.events.user", true],
+    ["app.*", "app.events", true],
+    ["app.*", "app", false],
+    ["app.*", "app.events.user", false],
+    ["*.*", "app.events", true],
+    ["*", "app", true],
+    ["*", "app.events", false],
+    // `>` matches one or more trailing tokens
+    ["app.>", "app.events", true],
+    ["app.>", "app.events.user.updated", true],
+    ["app.>", "app", false],
+    [">", "app", true],
+    [">", "app.events.user", true],
+    ["app.*.>", "app.events.user", true],
+    ["app.*.>", "app.events", false],
+    ["other.>", "app.events", false],
+  ])("%s against %s is %s", (pattern, subject, expected) => {
+    expect(subjectMatches(pattern, subject)).toBe(expected);
+  });
+
+  it.each([
+    // A wildcard subject is matched only by a pattern covering all it stands for
+    ["app.*", "app.*", true],
+    ["app.>", "app.*", true],
+    ["app.>", "app.>", true],
+    [">", "app.>", true],
+    ["app.*.>", "app.*.>", true],
+    ["app.>", "app.*.user", true],
+    ["*.*", "app.*", true],
+    ["app.*", "app.>", false],
+    ["app.*.*", "app.*.>", false],
+    ["app.events", "app.*", false],
+    ["app.events.>", "app.>", false],
+    ["app.events.>", "app.*.user", false],
+    ["app.*.user", "app.>", false],
+  ])("wildcard subject: %s against %s is %s", (pattern, subject, expected) => {
+    expect(subjectMatches(pattern, subject)).toBe(expected);
+  });
+});
+
+describe("isValidSubject", () => {
+  it.each([
+    ["app.events.user", false, true],
+    ["app", false, true],
+    ["app.*", false, false],
+    ["app.>", false, false],
+    ["app.*", true, true],
+    ["app.>", true, true],
+    ["app.*.>", true, true],
+    ["app.>.user", true, false],
+    ["", true, false],
+    ["app..user", true, false],
+    ["app.", true, false],
+    [".app", true, false],
+    ["app.my events", true, false],
+    ["app.\tevents", true, false],
+  ])("%j with wildcards %s is %s", (subject, allowWildcards, expected) => {
+    expect(isValidSubject(subject, allowWildcards)).toBe(expected);
+  });
+});
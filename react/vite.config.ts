@@ -1,13 +1,65 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
+import { fromSeed } from "@nats-io/nkeys";
 import { resolve } from "path";
 
+/**
+ * Mock nonce signer for "jwtsigner" authentication during development. Signs
+ * nonces with the user seed in NATS_DEV_SIGNER_SEED, which stays on the dev
+ * server. The request and response bodies match src/services/credentials/signer.ts.
+ */
+function devNonceSigner(seed: string | undefined): Plugin {
+  return {
+    name: "dev-nonce-signer",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use("/dev/sign-nonce", (req, res) => {
+        if (req.method !== "POST") {
+          res.statusCode = 405;
+          res.end();
+          return;
+        }
+        if (!seed) {
+          res.statusCode = 503;
+          res.end("NATS_DEV_SIGNER_SEED is not set");
+          return;
+        }
+
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          try {
+            const { nonce, publicKey } = JSON.parse(body) as { nonce: string; publicKey: string };
+            const keyPair = fromSeed(new TextEncoder().encode(seed));
+            if (keyPair.getPublicKey() !== publicKey) {
+              res.statusCode = 403;
+              res.end("Unknown public key");
+              return;
+            }
+
+            const signature = keyPair.sign(new TextEncoder().encode(nonce));
+            res.setHeader("Content-Type", "application/json");
+            res.end(JSON.stringify({ signature: Buffer.from(signature).toString("base64url") }));
+          } catch {
+            res.statusCode = 400;
+            res.end();
+          }
+        });
+      });
+    },
+  };
+}
+
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  resolve: {
-    alias: {
-      "@": resolve(__dirname, "./src"),
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), "");
+
+  return {
+    plugins: [react(), devNonceSigner(env.NATS_DEV_SIGNER_SEED)],
+    resolve: {
+      alias: {
+        "@": resolve(__dirname, "./src"),
+      },
     },
-  },
+  };
 });